@@ -0,0 +1,12 @@
+import { redirect } from 'next/navigation'
+import { currentAccount } from '@/lib/accounts'
+
+export const dynamic = 'force-dynamic'
+export const metadata = { title: 'Your account' }
+
+// Middleware sends visitors without a session cookie to /login; this also
+// catches cookies whose session has expired or was signed out.
+export default async function AccountLayout({ children }: { children: React.ReactNode }) {
+  if (!(await currentAccount())) redirect('/login?next=/account')
+  return <>{children}</>
+}
@@ -0,0 +1,240 @@
+'use client'
+import { useEffect, useState } from 'react'
+import type { DesignView } from '@/lib/designs'
+import type { DraftView } from '@/lib/drafts'
+import { deleteDraft, openDraft } from '@/lib/drafts/client'
+import { formatPrice } from '@/lib/pricing/quote'
+import { STATUS_TEXT, type OrderStatus } from '@/lib/orders/status'
+import { useAppStore } from '@/lib/store'
+import { findUrn } from '@/lib/urns/catalog'
+import { useUrns } from '@/lib/urns/client'
+import { WIZARD_STEPS, stepSlug } from '@/lib/wizard'
+
+type AccountOrder = {
+  id: string
+  status: OrderStatus
+  urnId: string
+  customerName: string
+  pricing: { currency: string; amount_cents: number } | null
+  createdAt: string
+  updatedAt: string
+}
+
+type AccountDesign = Omit<DesignView, 'comments'> & { comments: number; approvals: number }
+
+type AccountData = {
+  account: { email: string }
+  orders: AccountOrder[]
+  drafts: DraftView[]
+  designs: AccountDesign[]
+}
+
+// A signed-in customer's designs and orders.  Orders, saved drafts and
+// shared designs come from the server; the design open in this browser's
+// editor (see lib/store) is shown from there, unless it is one of the saved
+// drafts.
+export default function Account() {
+  const [data, setData] = useState<AccountData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [hydrated, setHydrated] = useState(false)
+  const [opening, setOpening] = useState<string | null>(null)
+  const draft = {
+    urnId: useAppStore((s) => s.urnId),
+    imageDataUrl: useAppStore((s) => s.imageDataUrl),
+    step: useAppStore((s) => s.step),
+    draftId: useAppStore((s) => s.draftId),
+  }
+  const { byId } = useUrns()
+  const urnLabel = (id: string) => findUrn(byId, id)?.label || id
+
+  useEffect(() => {
+    fetch('/api/account')
+      .then(async (res) => {
+        if (res.status === 401) window.location.href = '/login?next=/account'
+        const json = await res.json()
+        if (!res.ok) throw new Error(json?.error || 'Failed to load your account')
+        setData(json)
+      })
+      .catch((err) => setError(err.message))
+  }, [])
+
+  useEffect(() => {
+    if (useAppStore.persist.hasHydrated()) setHydrated(true)
+    else return useAppStore.persist.onFinishHydration(() => setHydrated(true))
+  }, [])
+
+  const signOut = async () => {
+    await fetch('/api/auth/session', { method: 'DELETE' })
+    window.location.href = '/'
+  }
+
+  const open = async (d: DraftView) => {
+    setOpening(d.id)
+    try {
+      // The editor already holds this draft, maybe with edits made since saving.
+      if (d.id !== draft.draftId) await openDraft(d)
+      window.location.href = `/?step=${stepSlug(d.step)}`
+    } catch (err: any) {
+      setError(err.message || String(err))
+      setOpening(null)
+    }
+  }
+
+  const remove = async (d: DraftView) => {
+    if (!confirm('Delete this draft?')) return
+    try {
+      await deleteDraft(d.id)
+      setData((cur) => cur && { ...cur, drafts: cur.drafts.filter((x) => x.id !== d.id) })
+    } catch (err: any) {
+      setError(err.message || String(err))
+    }
+  }
+
+  // The editor's design, unless it is saved here already.
+  const saved = data?.drafts.some((d) => d.id === draft.draftId)
+  const hasDraft = hydrated && (draft.urnId || draft.imageDataUrl) && !saved
+  const stepText = (step: number) => `At step ${step}, ${WIZARD_STEPS[step - 1].label.toLowerCase()}`
+
+  return (
+    <main className="mx-auto max-w-3xl p-4 md:p-8 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h1 className="text-2xl font-semibold">Your account</h1>
+          {data && <p className="text-sm text-neutral-600">{data.account.email}</p>}
+        </div>
+        <div className="flex items-center gap-3">
+          <a className="text-sm underline" href="/">
+            Design a relief
+          </a>
+          <button className="px-3 py-1.5 rounded-md border text-sm" onClick={signOut}>
+            Sign out
+          </button>
+        </div>
+      </div>
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</div>
+      )}
+
+      <section className="rounded-xl border p-4 space-y-3">
+        <h2 className="text-lg font-medium">Drafts</h2>
+        {!data || !hydrated ? (
+          !error && <p className="text-sm text-neutral-500">Loading…</p>
+        ) : data.drafts.length || hasDraft ? (
+          <ul className="divide-y">
+            {hasDraft && (
+              <li className="flex items-center gap-3 py-2">
+                {draft.imageDataUrl && (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={draft.imageDataUrl} alt="Photo in your draft" className="h-16 w-16 rounded object-cover bg-neutral-100" />
+                )}
+                <div className="flex-1 text-sm">
+                  <p className="font-medium">{draft.urnId ? urnLabel(draft.urnId) : 'No urn chosen yet'}</p>
+                  <p className="text-neutral-600">
+                    {stepText(draft.step)} · in this browser, not saved to your account
+                  </p>
+                </div>
+                <a className="px-3 py-1.5 rounded-md border text-sm" href={`/?step=${stepSlug(draft.step)}`}>
+                  Continue
+                </a>
+              </li>
+            )}
+            {data.drafts.map((d) => (
+              <li key={d.id} className="flex items-center gap-3 py-2">
+                {d.imageUrl && (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={d.imageUrl} alt="Photo in your draft" className="h-16 w-16 rounded object-cover bg-neutral-100" />
+                )}
+                <div className="flex-1 text-sm">
+                  <p className="font-medium">{d.urnId ? urnLabel(d.urnId) : 'No urn chosen yet'}</p>
+                  <p className="text-neutral-600">
+                    {stepText(d.step)} · saved {new Date(d.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                <button
+                  className="px-3 py-1.5 rounded-md border text-sm disabled:opacity-60"
+                  disabled={opening !== null}
+                  onClick={() => open(d)}
+                >
+                  {opening === d.id ? 'Opening…' : d.id === draft.draftId ? 'Continue' : 'Open'}
+                </button>
+                <button className="text-sm underline text-neutral-600" onClick={() => remove(d)}>
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-neutral-600">
+            No designs in progress. <a className="underline" href="/">Start one</a>.
+          </p>
+        )}
+        <p className="text-xs text-neutral-500">
+          Use “Save draft” in the editor to keep a design here and open it on any device. Opening a draft replaces
+          the design open in this browser.
+        </p>
+      </section>
+
+      <section className="rounded-xl border p-4 space-y-3">
+        <h2 className="text-lg font-medium">Shared designs</h2>
+        {!data ? (
+          !error && <p className="text-sm text-neutral-500">Loading…</p>
+        ) : data.designs.length ? (
+          <ul className="divide-y text-sm">
+            {data.designs.map((d) => (
+              <li key={d.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                <a className="underline" href={`/design/${d.id}`}>
+                  {urnLabel(d.urnId)}
+                </a>
+                <span className="text-neutral-600">
+                  {new Date(d.createdAt).toLocaleDateString()} · {d.comments} {d.comments === 1 ? 'comment' : 'comments'}
+                  {d.approvals > 0 && ` · ${d.approvals} approved`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-neutral-600">Designs you share while signed in appear here.</p>
+        )}
+      </section>
+
+      <section className="rounded-xl border p-4 space-y-3">
+        <h2 className="text-lg font-medium">Orders</h2>
+        {!data ? (
+          !error && <p className="text-sm text-neutral-500">Loading…</p>
+        ) : data.orders.length ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-neutral-500">
+                <th className="py-1 font-normal">Order</th>
+                <th className="py-1 font-normal">For</th>
+                <th className="py-1 font-normal">Status</th>
+                <th className="py-1 font-normal text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.orders.map((o) => (
+                <tr key={o.id} className="border-t">
+                  <td className="py-2">
+                    <a className="underline" href={`/orders/${o.id}`}>
+                      {urnLabel(o.urnId)}
+                    </a>
+                    <span className="block text-xs text-neutral-500">
+                      {o.id.slice(0, 8)} · {new Date(o.createdAt).toLocaleDateString()}
+                    </span>
+                  </td>
+                  <td className="py-2">{o.customerName}</td>
+                  <td className="py-2">{STATUS_TEXT[o.status]}</td>
+                  <td className="py-2 text-right">
+                    {o.pricing ? formatPrice(o.pricing.amount_cents, o.pricing.currency) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-neutral-600">No orders yet.</p>
+        )}
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,11 @@
+import { redirect } from 'next/navigation'
+import { isAdmin } from '@/lib/admin/auth'
+
+export const dynamic = 'force-dynamic'
+export const metadata = { title: 'Orders · Admin' }
+
+// Every page under /admin except the sign-in page requires a session.
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  if (!isAdmin()) redirect('/admin/login')
+  return <>{children}</>
+}
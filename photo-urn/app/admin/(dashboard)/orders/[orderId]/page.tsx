@@ -0,0 +1,396 @@
+'use client'
+import { useCallback, useEffect, useState } from 'react'
+import ThreePreview from '@/components/ThreePreview'
+import type { AdminOrderView } from '@/lib/admin/orders'
+import type { PhotoMeta } from '@/lib/images/meta'
+import { formatPrice } from '@/lib/pricing/quote'
+import { PRICING_RULES, type OrderOptions } from '@/lib/pricing/rules'
+import { PARAM_BOUNDS } from '@/lib/schemas/submit'
+import type { PreviewParams } from '@/lib/store'
+import { findUrn, lithophaneOf } from '@/lib/urns/catalog'
+import { useUrns } from '@/lib/urns/client'
+
+const NUMERIC_PARAMS: { key: keyof PreviewParams; label: string }[] = [
+  { key: 'scale', label: 'Scale' },
+  { key: 'offsetX', label: 'Offset X (mm)' },
+  { key: 'offsetY', label: 'Offset Y (mm)' },
+  { key: 'rotation', label: 'Rotation (°)' },
+  { key: 'depth', label: 'Depth (mm)' },
+  { key: 'clipLow', label: 'Shadow clip' },
+  { key: 'clipHigh', label: 'Highlight clip' },
+  { key: 'blurRadius', label: 'Detail radius (px)' },
+  { key: 'sharpen', label: 'Sharpen' },
+  { key: 'gamma', label: 'Gamma' },
+  { key: 'contrast', label: 'Contrast' },
+  { key: 'thicknessMin', label: 'Thinnest (mm)' },
+  { key: 'thicknessMax', label: 'Thickest (mm)' },
+]
+
+/** Params that only mean something for one kind of product. */
+const RELIEF_PARAMS: (keyof PreviewParams)[] = ['offsetX', 'offsetY', 'rotation', 'depth']
+const LITHOPHANE_PARAMS: (keyof PreviewParams)[] = ['thicknessMin', 'thicknessMax']
+
+/** Finish, shipping zone and rush as staff read them. */
+function describeOptions(options: OrderOptions): string {
+  const finishes = Object.values(PRICING_RULES.products).flatMap((p) => p.finishes)
+  const finish = finishes.find((f) => f.id === options.finish)?.label ?? options.finish
+  const zone = PRICING_RULES.shipping.find((z) => z.id === options.shipping)?.label ?? options.shipping
+  return [finish, `ship to ${zone}`, ...(options.rush ? ['rush'] : [])].join(' · ')
+}
+
+/** One line about an uploaded photo as the customer picked it. */
+function describeOriginal(meta: PhotoMeta): string {
+  return [
+    meta.name,
+    meta.mime.replace('image/', '').toUpperCase(),
+    meta.width && `${meta.width}×${meta.height} px`,
+    `${(meta.bytes / 1024 / 1024).toFixed(1)} MB`,
+    meta.orientation && meta.orientation !== 1 && `EXIF orientation ${meta.orientation}`,
+    meta.takenAt && `taken ${meta.takenAt.replace('T', ' ')}`,
+    meta.camera,
+  ]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+export default function AdminOrder({ params: route }: { params: { orderId: string } }) {
+  const [order, setOrder] = useState<AdminOrderView | null>(null)
+  const [draft, setDraft] = useState<PreviewParams | null>(null)
+  const [note, setNote] = useState('')
+  const [tracking, setTracking] = useState({ trackingNumber: '', carrier: '' })
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const { byId: urns } = useUrns()
+
+  const load = useCallback(async () => {
+    const res = await fetch(`/api/admin/orders/${route.orderId}`)
+    if (res.status === 401) window.location.href = '/admin/login'
+    const json = await res.json()
+    if (!res.ok) throw new Error(json?.error || 'Failed to load order')
+    setOrder(json.order)
+    return json.order as AdminOrderView
+  }, [route.orderId])
+
+  useEffect(() => {
+    load()
+      .then((o) => setDraft(o.params))
+      .catch((err) => setError(err.message))
+  }, [load])
+
+  // Follow a running generation until it settles.
+  const running = order?.generation?.state === 'queued' || order?.generation?.state === 'processing'
+  useEffect(() => {
+    if (!running) return
+    const t = setInterval(() => load().catch(() => undefined), 2000)
+    return () => clearInterval(t)
+  }, [running, load])
+
+  const act = async (path: string, method: string, body?: unknown) => {
+    setBusy(true)
+    setError(null)
+    setErrors({})
+    try {
+      const res = await fetch(`/api/admin/orders/${route.orderId}${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      })
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        if (json?.fields) setErrors(json.fields)
+        throw new Error(json?.error || 'Request failed')
+      }
+      setOrder(json.order)
+      return json.order as AdminOrderView
+    } catch (err: any) {
+      setError(err.message || String(err))
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const fieldError = (key: string) =>
+    errors[key] ? <p className="mt-1 text-xs text-red-700">{errors[key]}</p> : null
+
+  if (!order || !draft) {
+    return (
+      <main className="mx-auto max-w-5xl p-4 md:p-8">
+        {error ? <p className="text-sm text-red-700">{error}</p> : <p className="text-sm text-neutral-600">Loading…</p>}
+      </main>
+    )
+  }
+
+  const urn = findUrn(urns, order.urnId)
+  const lithophane = lithophaneOf(urn)
+  const numericParams = NUMERIC_PARAMS.filter(({ key }) => !(lithophane ? RELIEF_PARAMS : LITHOPHANE_PARAMS).includes(key))
+  const closed = order.status === 'shipped' || order.status === 'cancelled'
+  const dirty = JSON.stringify(draft) !== JSON.stringify(order.params)
+
+  return (
+    <main className="mx-auto max-w-5xl p-4 md:p-8 space-y-6">
+      <div>
+        <a className="text-sm underline" href="/admin">
+          ← All orders
+        </a>
+        <h1 className="text-2xl font-semibold mt-2">Order {order.id}</h1>
+        <p className="text-sm text-neutral-600">
+          {urn?.label || order.urnId} · {order.status}
+          {order.review && ` · ${order.review.decision}`}
+          {order.generation &&
+            ` · generation ${order.generation.state}${
+              order.generation.progress && order.generation.state === 'processing'
+                ? ` (${Math.round(order.generation.progress.fraction * 100)}%)`
+                : ''
+            }`}
+        </p>
+        {order.generation?.last_error && (
+          <p className="text-sm text-red-700">Last error: {order.generation.last_error}</p>
+        )}
+      </div>
+
+      <section className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="rounded-xl border p-4 space-y-2">
+          <h2 className="text-lg font-medium">{order.files.collage_images.length ? 'Photos' : 'Photo'}</h2>
+          {order.files.image ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={order.files.image} alt="Uploaded photo" className="max-h-72 rounded-md" />
+          ) : (
+            <p className="text-sm text-neutral-600">Missing.</p>
+          )}
+          {order.files.collage_images.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {order.files.collage_images.map((src, i) =>
+                src ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img key={i} src={src} alt={`Collage photo ${i + 2}`} className="max-h-32 rounded-md" />
+                ) : (
+                  <p key={i} className="text-sm text-neutral-600">Photo {i + 2} missing.</p>
+                )
+              )}
+            </div>
+          )}
+          {[order.image, ...(order.collageImages ?? [])].map(
+            (img, i) =>
+              img.original && (
+                <p key={i} className="text-xs text-neutral-600">
+                  {order.collageImages?.length ? `Photo ${i + 1}: ` : 'Original: '}
+                  {describeOriginal(img.original)}
+                </p>
+              )
+          )}
+        </div>
+        <div className="rounded-xl border p-4 space-y-2">
+          <h2 className="text-lg font-medium">Depth map</h2>
+          {order.files.depth_png ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={`${order.files.depth_png}?v=${order.updatedAt}`} alt="Depth map" className="max-h-72 rounded-md" />
+          ) : (
+            <p className="text-sm text-neutral-600">Not generated yet.</p>
+          )}
+          {order.files.relief_stl && (
+            <a className="text-sm underline" href={order.files.relief_stl}>
+              Download relief STL
+            </a>
+          )}
+        </div>
+      </section>
+
+      <section className="rounded-xl border p-4">
+        <h2 className="text-lg font-medium mb-3">Preview &amp; params</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              {numericParams.map(({ key, label }) => {
+                const bounds: any = (PARAM_BOUNDS as any)[key] ?? { step: 0.1 }
+                return (
+                  <div key={key}>
+                    <label className="block text-sm font-medium">{label}</label>
+                    <input
+                      type="number"
+                      {...bounds}
+                      disabled={closed}
+                      value={draft[key] as number}
+                      onChange={(e) => setDraft({ ...draft, [key]: parseFloat(e.target.value) })}
+                      className="mt-1 w-full rounded-md border px-2 py-1"
+                    />
+                    {fieldError(`params.${key}`)}
+                  </div>
+                )
+              })}
+            </div>
+            <div className="flex gap-4 text-sm">
+              {!lithophane && (
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    disabled={closed}
+                    checked={!!draft.invert}
+                    onChange={(e) => setDraft({ ...draft, invert: e.target.checked })}
+                  />
+                  Invert
+                </label>
+              )}
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  disabled={closed}
+                  checked={!!draft.smoothstep}
+                  onChange={(e) => setDraft({ ...draft, smoothstep: e.target.checked })}
+                />
+                Soft tonal curve
+              </label>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                disabled={busy || closed || !dirty}
+                className="px-3 py-2 rounded-md bg-black text-white disabled:opacity-60"
+                onClick={async () => {
+                  const o = await act('', 'PATCH', { params: draft })
+                  if (o) setDraft(o.params)
+                }}
+              >
+                Save params
+              </button>
+              <button
+                disabled={busy || !dirty}
+                className="px-3 py-2 rounded-md border disabled:opacity-60"
+                onClick={() => setDraft(order.params)}
+              >
+                Revert
+              </button>
+              <button
+                disabled={busy || closed || dirty || running}
+                className="px-3 py-2 rounded-md border disabled:opacity-60"
+                onClick={() => act('/requeue', 'POST')}
+              >
+                Regenerate relief
+              </button>
+            </div>
+          </div>
+          <ThreePreview
+            urnId={order.urnId}
+            image={order.files.image}
+            collageImages={order.files.collage_images}
+            params={draft}
+            face={order.face}
+          />
+        </div>
+      </section>
+
+      <section className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="rounded-xl border p-4 space-y-2 text-sm">
+          <h2 className="text-lg font-medium">Customer</h2>
+          <p>{order.customer.name}</p>
+          {order.customer.email && (
+            <a className="underline" href={`mailto:${order.customer.email}`}>
+              {order.customer.email}
+            </a>
+          )}
+          <p className="whitespace-pre-line">{order.customer.address}</p>
+          {order.options && <p>{describeOptions(order.options)}</p>}
+          {order.pricing && (
+            <p>
+              {formatPrice(order.pricing.amount_cents, order.pricing.currency)}
+              {order.payment && ` · payment ${order.payment.status}`}
+            </p>
+          )}
+          {order.payment?.flag && <p className="text-red-700">Payment needs attention: {order.payment.flag}</p>}
+          {order.pricing?.lines && (
+            <ul className="text-xs text-neutral-600">
+              {order.pricing.lines.map((line) => (
+                <li key={line.code}>
+                  {line.label}: {formatPrice(line.amount_cents, order.pricing.currency)}
+                </li>
+              ))}
+            </ul>
+          )}
+          <h3 className="font-medium pt-2">History</h3>
+          <ul className="text-xs text-neutral-600">
+            {order.history.map((h, i) => (
+              <li key={i}>
+                {new Date(h.at).toLocaleString()} · {h.status}
+                {h.note && ` — ${h.note}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div className="rounded-xl border p-4 space-y-3">
+          <h2 className="text-lg font-medium">Review</h2>
+          {order.review && (
+            <p className="text-sm">
+              {order.review.decision} on {new Date(order.review.at).toLocaleString()}
+              {order.review.note && ` — ${order.review.note}`}
+            </p>
+          )}
+          <button
+            disabled={busy || order.status !== 'ready' || dirty}
+            className="px-3 py-2 rounded-md bg-black text-white disabled:opacity-60"
+            onClick={() => act('/review', 'POST', { decision: 'approved' })}
+          >
+            Approve for printing
+          </button>
+          <div>
+            <label className="block text-sm font-medium">Rejection note</label>
+            <textarea
+              value={note}
+              disabled={closed}
+              onChange={(e) => setNote(e.target.value)}
+              className="mt-1 w-full rounded-md border px-3 py-2"
+              rows={3}
+              placeholder="Shown in the order history"
+            />
+            {fieldError('note')}
+          </div>
+          <button
+            disabled={busy || closed}
+            className="px-3 py-2 rounded-md border border-red-300 text-red-700 disabled:opacity-60"
+            onClick={() => act('/review', 'POST', { decision: 'rejected', note })}
+          >
+            Reject &amp; cancel order
+          </button>
+          <h3 className="font-medium pt-2">Shipping</h3>
+          {order.shipment ? (
+            <p className="text-sm">
+              Shipped on {new Date(order.shipment.at).toLocaleString()} · {order.shipment.carrier && `${order.shipment.carrier} `}
+              {order.shipment.trackingNumber}
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium">Tracking number</label>
+                  <input
+                    value={tracking.trackingNumber}
+                    onChange={(e) => setTracking({ ...tracking, trackingNumber: e.target.value })}
+                    className="mt-1 w-full rounded-md border px-2 py-1"
+                  />
+                  {fieldError('trackingNumber')}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium">Carrier</label>
+                  <input
+                    value={tracking.carrier}
+                    onChange={(e) => setTracking({ ...tracking, carrier: e.target.value })}
+                    className="mt-1 w-full rounded-md border px-2 py-1"
+                    placeholder="Optional"
+                  />
+                </div>
+              </div>
+              <button
+                disabled={busy || order.status !== 'ready' || order.review?.decision !== 'approved'}
+                className="px-3 py-2 rounded-md bg-black text-white disabled:opacity-60"
+                onClick={() => act('/ship', 'POST', tracking)}
+              >
+                Mark shipped
+              </button>
+            </>
+          )}
+        </div>
+      </section>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+    </main>
+  )
+}
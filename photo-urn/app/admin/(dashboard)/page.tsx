@@ -0,0 +1,109 @@
+'use client'
+import { useEffect, useState } from 'react'
+import type { AdminOrderView } from '@/lib/admin/orders'
+import { ORDER_STATUSES } from '@/lib/orders/status'
+import { findUrn } from '@/lib/urns/catalog'
+import { useUrns } from '@/lib/urns/client'
+
+export default function AdminOrders() {
+  const [status, setStatus] = useState('')
+  const [urn, setUrn] = useState('')
+  const [orders, setOrders] = useState<AdminOrderView[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const { urns, byId } = useUrns()
+  const urnLabel = (id: string) => findUrn(byId, id)?.label || id
+
+  useEffect(() => {
+    const q = new URLSearchParams()
+    if (status) q.set('status', status)
+    if (urn) q.set('urn', urn)
+    setError(null)
+    fetch(`/api/admin/orders?${q}`)
+      .then(async (res) => {
+        if (res.status === 401) window.location.href = '/admin/login'
+        const json = await res.json()
+        if (!res.ok) throw new Error(json?.error || 'Failed to load orders')
+        setOrders(json.orders)
+      })
+      .catch((err) => setError(err.message))
+  }, [status, urn])
+
+  const signOut = async () => {
+    await fetch('/api/admin/session', { method: 'DELETE' })
+    window.location.href = '/admin/login'
+  }
+
+  return (
+    <main className="mx-auto max-w-5xl p-4 md:p-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Orders</h1>
+        <div className="flex items-center gap-3">
+          <a className="text-sm underline" href="/admin/urns">
+            Urn catalog
+          </a>
+          <button className="px-3 py-1.5 rounded-md border text-sm" onClick={signOut}>
+            Sign out
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <label className="text-sm">
+          Status{' '}
+          <select className="ml-1 rounded-md border px-2 py-1" value={status} onChange={(e) => setStatus(e.target.value)}>
+            <option value="">All</option>
+            {ORDER_STATUSES.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm">
+          Urn{' '}
+          <select className="ml-1 rounded-md border px-2 py-1" value={urn} onChange={(e) => setUrn(e.target.value)}>
+            <option value="">All</option>
+            {urns?.map((u) => (
+              <option key={u.id} value={u.id}>
+                {u.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+      {orders && orders.length === 0 && <p className="text-sm text-neutral-600">No orders match.</p>}
+      {orders && orders.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-neutral-600 border-b">
+              <th className="py-2">Created</th>
+              <th>Customer</th>
+              <th>Urn</th>
+              <th>Status</th>
+              <th>Generation</th>
+              <th>Review</th>
+            </tr>
+          </thead>
+          <tbody>
+            {orders.map((o) => (
+              <tr key={o.id} className="border-b hover:bg-neutral-100">
+                <td className="py-2">
+                  <a className="underline" href={`/admin/orders/${o.id}`}>
+                    {new Date(o.createdAt).toLocaleString()}
+                  </a>
+                </td>
+                <td>{o.customer.name}</td>
+                <td>{urnLabel(o.urnId)}</td>
+                <td>{o.status}</td>
+                <td>{o.generation?.state ?? '—'}</td>
+                <td>{o.review?.decision ?? '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </main>
+  )
+}
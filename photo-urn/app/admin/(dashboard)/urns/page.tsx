@@ -0,0 +1,253 @@
+'use client'
+import { useState } from 'react'
+import { FACE_CODES, type UrnTarget } from '@/lib/urns/catalog'
+import { fetchUrns, useUrns } from '@/lib/urns/client'
+import type { StlInspection } from '@/lib/urns/inspect'
+
+type Draft = {
+  id: string
+  label: string
+  price: string
+  currency: string
+  target: UrnTarget
+}
+
+const slug = (name: string) =>
+  name
+    .replace(/\.stl$/i, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 64)
+
+export default function AdminUrns() {
+  const { urns, error: urnsError } = useUrns()
+  const [file, setFile] = useState<File | null>(null)
+  const [inspection, setInspection] = useState<StlInspection | null>(null)
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [saved, setSaved] = useState<string | null>(null)
+
+  const fieldError = (key: string) =>
+    errors[key] ? <p className="mt-1 text-xs text-red-700">{errors[key]}</p> : null
+
+  const post = async (url: string, form: FormData) => {
+    const res = await fetch(url, { method: 'POST', body: form })
+    const json = await res.json().catch(() => ({}))
+    if (!res.ok) {
+      if (json?.fields) setErrors(json.fields)
+      throw new Error(json?.error || 'Upload failed')
+    }
+    return json
+  }
+
+  const inspect = async (f: File) => {
+    setFile(f)
+    setInspection(null)
+    setDraft(null)
+    setErrors({})
+    setError(null)
+    setSaved(null)
+    setBusy(true)
+    try {
+      const form = new FormData()
+      form.append('stl', f)
+      const json = await post('/api/admin/urns/inspect', form)
+      setInspection(json.inspection)
+      setDraft({ id: slug(f.name), label: '', price: '', currency: 'usd', target: json.inspection.proposal.target })
+    } catch (err: any) {
+      setError(err.message || String(err))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!file || !draft) return
+    setErrors({})
+    setError(null)
+    setBusy(true)
+    try {
+      const { radius_mm, ...target } = draft.target
+      const meta = {
+        id: draft.id,
+        label: draft.label,
+        price_cents: Math.round(parseFloat(draft.price) * 100),
+        currency: draft.currency.toLowerCase(),
+        target: target.surface === 'flat' ? target : { ...target, radius_mm },
+      }
+      const form = new FormData()
+      form.append('stl', file)
+      form.append('meta', JSON.stringify(meta))
+      const json = await post('/api/admin/urns', form)
+      await fetchUrns(true)
+      setSaved(json.urn.label)
+      setFile(null)
+      setInspection(null)
+      setDraft(null)
+    } catch (err: any) {
+      setError(err.message || String(err))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const setTarget = (patch: Partial<UrnTarget>) => setDraft((d) => (d ? { ...d, target: { ...d.target, ...patch } } : d))
+  const num = (v: string) => (v === '' ? undefined : parseFloat(v))
+
+  return (
+    <main className="mx-auto max-w-5xl p-4 md:p-8 space-y-6">
+      <div>
+        <a className="text-sm underline" href="/admin">
+          ← All orders
+        </a>
+        <h1 className="text-2xl font-semibold mt-2">Urn catalog</h1>
+      </div>
+
+      <section className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {urnsError && <p className="text-sm text-red-700">{urnsError}</p>}
+        {urns?.map((u) => (
+          <div key={u.id} className="rounded-md border p-2">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={u.thumbnail} alt="" className="aspect-square w-full object-contain bg-neutral-100 rounded" />
+            <p className="mt-1 text-sm font-medium">{u.label}</p>
+            <p className="text-xs text-neutral-600">
+              {u.id} · {(u.price_cents / 100).toFixed(2)} {u.currency.toUpperCase()}
+              {u.builtin && ' · built-in'}
+            </p>
+            <p className="text-xs text-neutral-600">
+              {u.target.width_mm}×{u.target.height_mm} mm {u.target.surface} on {u.target.default_face}
+            </p>
+          </div>
+        ))}
+      </section>
+
+      <section className="rounded-xl border p-4 space-y-3">
+        <h2 className="text-lg font-medium">Add an urn</h2>
+        <input
+          type="file"
+          accept=".stl,model/stl,application/sla"
+          disabled={busy}
+          onChange={(e) => {
+            const f = e.target.files?.[0]
+            if (f) inspect(f)
+          }}
+        />
+        {fieldError('stl')}
+        {saved && <p className="text-sm text-green-700">Added {saved} ✓</p>}
+
+        {inspection && draft && (
+          <form onSubmit={save} className="space-y-3">
+            <div className="rounded-md bg-neutral-100 p-3 text-sm">
+              <p>
+                {inspection.format} STL · {inspection.triangles.toLocaleString()} triangles ·{' '}
+                {inspection.size_mm.map((s) => s.toFixed(1)).join(' × ')} mm
+                {inspection.units === 'm' && ' (converted from metres)'}
+              </p>
+              {inspection.proposal.notes.map((n, i) => (
+                <p key={i} className="text-neutral-600">
+                  {n}
+                </p>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div>
+                <label className="block text-sm font-medium">Id</label>
+                <input
+                  className="mt-1 w-full rounded-md border px-2 py-1"
+                  value={draft.id}
+                  onChange={(e) => setDraft({ ...draft, id: e.target.value })}
+                />
+                {fieldError('id')}
+              </div>
+              <div>
+                <label className="block text-sm font-medium">Label</label>
+                <input
+                  className="mt-1 w-full rounded-md border px-2 py-1"
+                  value={draft.label}
+                  onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                />
+                {fieldError('label')}
+              </div>
+              <div>
+                <label className="block text-sm font-medium">Price</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  className="mt-1 w-full rounded-md border px-2 py-1"
+                  value={draft.price}
+                  onChange={(e) => setDraft({ ...draft, price: e.target.value })}
+                />
+                {fieldError('price_cents')}
+              </div>
+              <div>
+                <label className="block text-sm font-medium">Currency</label>
+                <input
+                  className="mt-1 w-full rounded-md border px-2 py-1"
+                  value={draft.currency}
+                  onChange={(e) => setDraft({ ...draft, currency: e.target.value })}
+                />
+                {fieldError('currency')}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {(['width_mm', 'height_mm', 'depth_mm_min', 'depth_mm_max', 'radius_mm'] as const).map((key) =>
+                key === 'radius_mm' && draft.target.surface === 'flat' ? null : (
+                  <div key={key}>
+                    <label className="block text-sm font-medium">{key.replace(/_/g, ' ')}</label>
+                    <input
+                      type="number"
+                      step={0.1}
+                      className="mt-1 w-full rounded-md border px-2 py-1"
+                      value={draft.target[key] ?? ''}
+                      onChange={(e) => setTarget({ [key]: num(e.target.value) })}
+                    />
+                    {fieldError(`target.${key}`)}
+                  </div>
+                )
+              )}
+              <div>
+                <label className="block text-sm font-medium">Surface</label>
+                <select
+                  className="mt-1 w-full rounded-md border px-2 py-1"
+                  value={draft.target.surface}
+                  onChange={(e) => setTarget({ surface: e.target.value as UrnTarget['surface'] })}
+                >
+                  <option value="flat">flat</option>
+                  <option value="cylindrical">cylindrical</option>
+                  <option value="convex">convex</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium">Default face</label>
+                <select
+                  className="mt-1 w-full rounded-md border px-2 py-1"
+                  value={draft.target.default_face}
+                  onChange={(e) => setTarget({ default_face: e.target.value as UrnTarget['default_face'] })}
+                >
+                  {FACE_CODES.map((f) => (
+                    <option key={f} value={f}>
+                      {f}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-4 py-2 rounded-md bg-black text-white disabled:opacity-60"
+            >
+              {busy ? 'Saving…' : 'Add to catalog'}
+            </button>
+          </form>
+        )}
+        {error && <p className="text-sm text-red-700">{error}</p>}
+      </section>
+    </main>
+  )
+}
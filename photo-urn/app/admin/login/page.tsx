@@ -0,0 +1,54 @@
+'use client'
+import { useState } from 'react'
+
+export default function AdminLogin() {
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const login = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/admin/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password })
+      })
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(json?.error || 'Sign-in failed')
+      window.location.href = '/admin'
+    } catch (err: any) {
+      setError(err.message || String(err))
+      setBusy(false)
+    }
+  }
+
+  return (
+    <main className="mx-auto max-w-sm p-4 md:p-8 space-y-4">
+      <h1 className="text-2xl font-semibold">Staff sign-in</h1>
+      <form onSubmit={login} className="space-y-3">
+        <div>
+          <label className="block text-sm font-medium">Password</label>
+          <input
+            type="password"
+            required
+            autoFocus
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="mt-1 w-full rounded-md border px-3 py-2"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={busy}
+          className="px-4 py-2 rounded-md bg-black text-white disabled:opacity-60"
+        >
+          {busy ? 'Signing in…' : 'Sign in'}
+        </button>
+        {error && <p className="text-sm text-red-700">{error}</p>}
+      </form>
+    </main>
+  )
+}
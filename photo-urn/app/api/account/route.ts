@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { currentAccount, ownsOrder } from '@/lib/accounts'
+import { designView, getDesignRepository } from '@/lib/designs'
+import { draftView, getDraftRepository } from '@/lib/drafts'
+import { getOrderRepository } from '@/lib/orders'
+
+export const dynamic = 'force-dynamic'
+
+/** The signed-in customer's orders, saved drafts and shared designs, newest first. */
+export async function GET() {
+  const account = await currentAccount()
+  if (!account) return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+
+  const orders = (await getOrderRepository().list()).filter((o) => ownsOrder(account, o))
+  const designs = await getDesignRepository().listByAccount(account.id)
+  const drafts = await getDraftRepository().listByAccount(account.id)
+  return NextResponse.json({
+    account: { email: account.email },
+    orders: orders.map((o) => ({
+      id: o.id,
+      status: o.status,
+      urnId: o.urnId,
+      customerName: o.customer.name,
+      pricing: o.pricing && { currency: o.pricing.currency, amount_cents: o.pricing.amount_cents },
+      createdAt: o.createdAt,
+      updatedAt: o.updatedAt,
+    })),
+    drafts: drafts.map(draftView),
+    designs: designs.map((d) => {
+      const { comments, ...view } = designView(d)
+      return { ...view, comments: comments.length, approvals: comments.filter((c) => c.approved).length }
+    }),
+  })
+}
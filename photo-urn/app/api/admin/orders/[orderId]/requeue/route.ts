@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin/auth'
+import { CLOSED_STATUSES, adminOrderView } from '@/lib/admin/orders'
+import { RELIEF_JOB, enqueueRelief, getJobQueue } from '@/lib/jobs'
+import { getOrderRepository, orderPrintReport, printBlocker } from '@/lib/orders'
+
+/** Regenerate the relief with the order's current params. */
+export async function POST(_: Request, { params }: { params: { orderId: string } }) {
+  const denied = requireAdmin()
+  if (denied) return denied
+
+  const orders = getOrderRepository()
+  const order = await orders.get(params.orderId)
+  if (!order) {
+    return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+  }
+  if (CLOSED_STATUSES.includes(order.status)) {
+    return NextResponse.json({ error: `Order is ${order.status} and cannot be regenerated` }, { status: 409 })
+  }
+  const latest = await getJobQueue().latestForOrder(order.id, RELIEF_JOB)
+  if (latest && (latest.state === 'queued' || latest.state === 'processing')) {
+    return NextResponse.json({ error: 'Generation is already queued or running' }, { status: 409 })
+  }
+
+  const report = await orderPrintReport(order)
+  if (!report.ok) {
+    return NextResponse.json({ error: `Cannot regenerate: ${printBlocker(report)}`, report }, { status: 422 })
+  }
+
+  await orders.update(order.id, { review: null })
+  const job = await enqueueRelief(order.id)
+  const updated = await orders.get(order.id)
+  return NextResponse.json({ ok: true, job_id: job.id, order: await adminOrderView(updated!) }, { status: 202 })
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin/auth'
+import { adminOrderView } from '@/lib/admin/orders'
+import { canTransition, getOrderRepository } from '@/lib/orders'
+
+/**
+ * Approve the generated relief for printing, or reject the order with a
+ * note.  Rejection cancels the order; refunds go through the payment
+ * provider's own dashboard.
+ */
+export async function POST(req: Request, { params }: { params: { orderId: string } }) {
+  const denied = requireAdmin()
+  if (denied) return denied
+
+  const body = await req.json().catch(() => ({}))
+  const decision = body?.decision
+  const note = typeof body?.note === 'string' ? body.note.trim() : ''
+  if (decision !== 'approved' && decision !== 'rejected') {
+    return NextResponse.json({ error: 'decision must be "approved" or "rejected"' }, { status: 400 })
+  }
+  if (decision === 'rejected' && !note) {
+    return NextResponse.json({ error: 'A note is required when rejecting', fields: { note: 'Required' } }, { status: 400 })
+  }
+
+  const orders = getOrderRepository()
+  const order = await orders.get(params.orderId)
+  if (!order) {
+    return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+  }
+  if (decision === 'approved' && order.status !== 'ready') {
+    return NextResponse.json({ error: `Only ready orders can be approved (order is ${order.status})` }, { status: 409 })
+  }
+  if (decision === 'rejected' && !canTransition(order.status, 'cancelled')) {
+    return NextResponse.json({ error: `Order is ${order.status} and cannot be rejected` }, { status: 409 })
+  }
+
+  const review = { decision, at: new Date().toISOString(), ...(note ? { note } : {}) } as const
+  let updated = await orders.update(order.id, { review })
+  if (decision === 'rejected') updated = await orders.transition(order.id, 'cancelled', `Rejected: ${note}`)
+  return NextResponse.json({ order: await adminOrderView(updated) })
+}
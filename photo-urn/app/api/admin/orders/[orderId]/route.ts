@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin/auth'
+import { CLOSED_STATUSES, adminOrderView } from '@/lib/admin/orders'
+import { getOrderRepository } from '@/lib/orders'
+import { fieldErrors, orderParamsSchemaFor } from '@/lib/schemas/submit'
+import type { PreviewParams } from '@/lib/store'
+import { loadFonts } from '@/lib/text'
+import { getUrnMap } from '@/lib/urns'
+
+export async function GET(_: Request, { params }: { params: { orderId: string } }) {
+  const denied = requireAdmin()
+  if (denied) return denied
+
+  const order = await getOrderRepository().get(params.orderId)
+  if (!order) {
+    return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+  }
+  return NextResponse.json({ order: await adminOrderView(order) })
+}
+
+/** Replace the relief params.  Takes effect on the next generation. */
+export async function PATCH(req: Request, { params }: { params: { orderId: string } }) {
+  const denied = requireAdmin()
+  if (denied) return denied
+
+  const orders = getOrderRepository()
+  const order = await orders.get(params.orderId)
+  if (!order) {
+    return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+  }
+  if (CLOSED_STATUSES.includes(order.status)) {
+    return NextResponse.json({ error: `Order is ${order.status} and can no longer be edited` }, { status: 409 })
+  }
+  const body = await req.json().catch(() => ({}))
+  const schema = orderParamsSchemaFor(await getUrnMap(), await loadFonts())
+  const parsed = schema.safeParse({ urnId: order.urnId, params: body?.params })
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Please correct the highlighted fields', fields: fieldErrors(parsed.error) },
+      { status: 400 }
+    )
+  }
+
+  // The old sign-off was for the old params.
+  const updated = await orders.update(order.id, { params: parsed.data.params as PreviewParams, review: null })
+  return NextResponse.json({ order: await adminOrderView(updated) })
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin/auth'
+import { adminOrderView } from '@/lib/admin/orders'
+import { getOrderRepository } from '@/lib/orders'
+
+/**
+ * Mark an approved order shipped with its tracking number.  The customer
+ * gets the `shipped` email, which carries the number.
+ */
+export async function POST(req: Request, { params }: { params: { orderId: string } }) {
+  const denied = requireAdmin()
+  if (denied) return denied
+
+  const body = await req.json().catch(() => ({}))
+  const trackingNumber = typeof body?.trackingNumber === 'string' ? body.trackingNumber.trim() : ''
+  const carrier = typeof body?.carrier === 'string' ? body.carrier.trim() : ''
+  if (!trackingNumber) {
+    return NextResponse.json(
+      { error: 'A tracking number is required', fields: { trackingNumber: 'Required' } },
+      { status: 400 }
+    )
+  }
+
+  const orders = getOrderRepository()
+  const order = await orders.get(params.orderId)
+  if (!order) {
+    return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+  }
+  if (order.status !== 'ready' || order.review?.decision !== 'approved') {
+    return NextResponse.json({ error: `Only approved, ready orders can ship (order is ${order.status})` }, { status: 409 })
+  }
+
+  // The shipment is saved first so the email sent on the transition has it.
+  const shipment = { trackingNumber, at: new Date().toISOString(), ...(carrier ? { carrier } : {}) }
+  await orders.update(order.id, { shipment })
+  const note = `Tracking ${carrier ? `${carrier} ` : ''}${trackingNumber}`
+  const updated = await orders.transition(order.id, 'shipped', note)
+  return NextResponse.json({ order: await adminOrderView(updated) })
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin/auth'
+import { adminOrderView } from '@/lib/admin/orders'
+import { getOrderRepository, isOrderStatus } from '@/lib/orders'
+
+export async function GET(req: Request) {
+  const denied = requireAdmin()
+  if (denied) return denied
+
+  const url = new URL(req.url)
+  const status = url.searchParams.get('status')
+  if (status && !isOrderStatus(status)) {
+    return NextResponse.json({ error: `Unknown status ${status}` }, { status: 400 })
+  }
+  const urnId = url.searchParams.get('urn') || undefined
+  const orders = await getOrderRepository().list({ status: isOrderStatus(status) ? status : undefined, urnId })
+  return NextResponse.json({ orders: await Promise.all(orders.map(adminOrderView)) })
+}
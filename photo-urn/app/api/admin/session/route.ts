@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { ADMIN_COOKIE, checkPassword, createSessionToken, isAdminConfigured } from '@/lib/admin/auth'
+
+export async function POST(req: Request) {
+  if (!isAdminConfigured()) {
+    return NextResponse.json({ error: 'Admin access is not configured (set ADMIN_PASSWORD)' }, { status: 503 })
+  }
+  const body = await req.json().catch(() => ({}))
+  if (!checkPassword(body?.password)) {
+    return NextResponse.json({ error: 'Wrong password' }, { status: 401 })
+  }
+  const { token, expires } = createSessionToken()
+  const res = NextResponse.json({ ok: true })
+  res.cookies.set(ADMIN_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires,
+  })
+  return res
+}
+
+export async function DELETE() {
+  const res = NextResponse.json({ ok: true })
+  res.cookies.set(ADMIN_COOKIE, '', { path: '/', maxAge: 0 })
+  return res
+}
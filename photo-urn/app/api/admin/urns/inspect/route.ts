@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin/auth'
+import { MAX_STL_BYTES, inspectSTL } from '@/lib/urns/inspect'
+
+/** Validate an STL and propose a target without saving anything. */
+export async function POST(req: Request) {
+  const denied = requireAdmin()
+  if (denied) return denied
+
+  const form = await req.formData().catch(() => null)
+  const file = form?.get('stl')
+  if (!(file instanceof Blob)) {
+    return NextResponse.json({ error: 'Attach the model as `stl`', fields: { stl: 'Required' } }, { status: 400 })
+  }
+  if (file.size > MAX_STL_BYTES) {
+    return NextResponse.json({ error: `STL must be under ${MAX_STL_BYTES / 1024 / 1024} MB` }, { status: 413 })
+  }
+  try {
+    return NextResponse.json({ inspection: inspectSTL(new Uint8Array(await file.arrayBuffer())) })
+  } catch (err: any) {
+    if (err?.name === 'InvalidStlError') {
+      return NextResponse.json({ error: err.message, fields: { stl: err.message } }, { status: 400 })
+    }
+    throw err
+  }
+}
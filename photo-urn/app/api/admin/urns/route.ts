@@ -0,0 +1,68 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin/auth'
+import { fieldErrors } from '@/lib/schemas/submit'
+import { urnMetaSchema } from '@/lib/schemas/urn'
+import { getUrnRepository, urnModelsDir, type NewUrn } from '@/lib/urns'
+import { MAX_STL_BYTES, inspectSTL } from '@/lib/urns/inspect'
+
+/**
+ * Add a urn to the catalog: multipart with the model as `stl` and the
+ * entry (id, label, price, target, …) as JSON in `meta`.
+ */
+export async function POST(req: Request) {
+  const denied = requireAdmin()
+  if (denied) return denied
+
+  const form = await req.formData().catch(() => null)
+  const file = form?.get('stl')
+  if (!(file instanceof Blob)) {
+    return NextResponse.json({ error: 'Attach the model as `stl`', fields: { stl: 'Required' } }, { status: 400 })
+  }
+  if (file.size > MAX_STL_BYTES) {
+    return NextResponse.json({ error: `STL must be under ${MAX_STL_BYTES / 1024 / 1024} MB` }, { status: 413 })
+  }
+  let meta: unknown = null
+  try {
+    meta = JSON.parse(String(form.get('meta') ?? ''))
+  } catch {
+    return NextResponse.json({ error: '`meta` must be JSON' }, { status: 400 })
+  }
+  const parsed = urnMetaSchema.safeParse(meta)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Please correct the highlighted fields', fields: fieldErrors(parsed.error) },
+      { status: 400 }
+    )
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  try {
+    inspectSTL(bytes)
+  } catch (err: any) {
+    if (err?.name === 'InvalidStlError') {
+      return NextResponse.json({ error: err.message, fields: { stl: err.message } }, { status: 400 })
+    }
+    throw err
+  }
+
+  // zod marks every key optional when `strict` is off; the schema did check them.
+  const input = { ...(parsed.data as NewUrn), stl: `${parsed.data.id}.stl` }
+  const urns = getUrnRepository()
+  if (await urns.get(input.id)) {
+    return NextResponse.json({ error: `Urn ${input.id} already exists`, fields: { id: 'Already taken' } }, { status: 409 })
+  }
+  const dir = urnModelsDir()
+  await fs.mkdir(dir, { recursive: true })
+  await fs.writeFile(path.join(dir, input.stl), bytes)
+  try {
+    const urn = await urns.create(input)
+    return NextResponse.json({ urn }, { status: 201 })
+  } catch (err: any) {
+    if (err?.name === 'UrnExistsError') {
+      return NextResponse.json({ error: err.message, fields: { id: 'Already taken' } }, { status: 409 })
+    }
+    throw err
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { SIGN_IN_LINK_MS, requestSignIn } from '@/lib/accounts'
+import { customerSchema, fieldErrors } from '@/lib/schemas/submit'
+
+const loginSchema = z.object({ email: customerSchema.shape.email, next: z.string().max(2000).optional() })
+
+/** Email a sign-in link.  The answer is the same whether or not the address has an account. */
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null)
+  const parsed = loginSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Please correct the highlighted fields', fields: fieldErrors(parsed.error) },
+      { status: 400 }
+    )
+  }
+  try {
+    await requestSignIn(parsed.data.email, parsed.data.next)
+  } catch (err) {
+    console.error('Could not send sign-in email', err)
+    return NextResponse.json({ error: 'We could not send the email; please try again' }, { status: 502 })
+  }
+  return NextResponse.json({ ok: true, valid_minutes: SIGN_IN_LINK_MS / 60_000 })
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { SESSION_COOKIE, currentAccount, signOut } from '@/lib/accounts'
+
+export const dynamic = 'force-dynamic'
+
+/** Who is signed in, for pages that show it; `account` is null when nobody is. */
+export async function GET() {
+  const account = await currentAccount()
+  return NextResponse.json({ account: account && { email: account.email } })
+}
+
+export async function DELETE() {
+  await signOut()
+  const res = NextResponse.json({ ok: true })
+  res.cookies.set(SESSION_COOKIE, '', { path: '/', maxAge: 0 })
+  return res
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { SESSION_COOKIE, completeSignIn } from '@/lib/accounts'
+
+export const dynamic = 'force-dynamic'
+
+/** The link in the sign-in email: start a session and continue where the customer was going. */
+export async function GET(req: Request) {
+  const url = new URL(req.url)
+  const signedIn = await completeSignIn(url.searchParams.get('token') ?? '')
+  if (!signedIn) {
+    return NextResponse.redirect(new URL('/login?error=expired', url))
+  }
+  const res = NextResponse.redirect(new URL(signedIn.next, url))
+  res.cookies.set(SESSION_COOKIE, signedIn.token, {
+    httpOnly: true,
+    // The link is opened from a mail client, so the cookie must survive that navigation.
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: signedIn.expires,
+  })
+  return res
+}
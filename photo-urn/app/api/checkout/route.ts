@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server'
+import { requireOrderAccess } from '@/lib/accounts'
+import { canTransition, getOrderRepository } from '@/lib/orders'
+import { getPaymentProvider } from '@/lib/payments'
+import { getUrn } from '@/lib/urns'
+
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => ({}))
+  const orderId = body?.orderId
+  if (typeof orderId !== 'string' || !orderId) {
+    return NextResponse.json({ error: 'Missing or invalid orderId' }, { status: 400 })
+  }
+
+  const orders = getOrderRepository()
+  const order = await orders.get(orderId)
+  if (!order) {
+    return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+  }
+  const denied = await requireOrderAccess(order)
+  if (denied) return denied
+  if (order.status !== 'awaiting_payment' && !canTransition(order.status, 'awaiting_payment')) {
+    return NextResponse.json({ error: `Order is ${order.status} and cannot be paid` }, { status: 409 })
+  }
+  const urn = await getUrn(order.urnId)
+  const pricing = order.pricing ?? (urn ? { currency: urn.currency, amount_cents: urn.price_cents } : null)
+  if (!pricing) {
+    return NextResponse.json({ error: 'Order has no price' }, { status: 409 })
+  }
+
+  const provider = getPaymentProvider()
+
+  // One payable session per order: hand back the open one if it still
+  // charges the right amount, and close it before opening another so the
+  // customer can't pay twice.
+  const previous = order.payment?.provider === provider.name ? await provider.getCheckoutSession(order.payment.sessionId) : null
+  if (previous?.status === 'complete') {
+    return NextResponse.json({ error: 'This order has already been paid' }, { status: 409 })
+  }
+  if (previous?.status === 'open') {
+    if (previous.amount_cents === pricing.amount_cents && previous.currency === pricing.currency && order.payment?.url) {
+      if (order.status !== 'awaiting_payment') await orders.transition(orderId, 'awaiting_payment')
+      return NextResponse.json({ ok: true, order_id: orderId, session_id: previous.sessionId, url: order.payment.url })
+    }
+    await provider.expireCheckoutSession(previous.sessionId)
+  }
+
+  const origin = new URL(req.url).origin
+  const session = await provider.createCheckoutSession({
+    orderId,
+    amount_cents: pricing.amount_cents,
+    currency: pricing.currency,
+    description: `${urn?.label ?? order.urnId} with photo relief`,
+    successUrl: `${origin}/orders/${orderId}?payment=success`,
+    cancelUrl: `${origin}/?order=${orderId}&payment=cancelled`,
+  })
+
+  await orders.update(orderId, {
+    pricing,
+    payment: {
+      provider: provider.name,
+      sessionId: session.sessionId,
+      url: session.url,
+      status: 'pending',
+      updatedAt: new Date().toISOString(),
+    },
+  })
+  if (order.status !== 'awaiting_payment') await orders.transition(orderId, 'awaiting_payment')
+
+  return NextResponse.json({ ok: true, order_id: orderId, session_id: session.sessionId, url: session.url })
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { designView, getDesignRepository, type NewComment } from '@/lib/designs'
+import { commentSchema } from '@/lib/schemas/design'
+import { fieldErrors } from '@/lib/schemas/submit'
+
+/** Leave a comment or an approval on a shared design. */
+export async function POST(req: Request, { params }: { params: { designId: string } }) {
+  const designs = getDesignRepository()
+  if (!(await designs.get(params.designId))) {
+    return NextResponse.json({ error: 'Design not found' }, { status: 404 })
+  }
+  const parsed = commentSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Please correct the highlighted fields', fields: fieldErrors(parsed.error) },
+      { status: 400 }
+    )
+  }
+  const design = await designs.addComment(params.designId, parsed.data as NewComment)
+  return NextResponse.json({ design: designView(design) }, { status: 201 })
+}
@@ -0,0 +1,20 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { designImagesDir, getDesignRepository } from '@/lib/designs'
+
+/**
+ * Shared designs never change, so their photos can be cached for good.
+ * `?slot=2` and up serve the other photos of a collage.
+ */
+export async function GET(req: Request, { params }: { params: { designId: string } }) {
+  const design = await getDesignRepository().get(params.designId)
+  const slot = Number(new URL(req.url).searchParams.get('slot') ?? 1)
+  const image = slot === 1 ? design?.image : design?.collageImages?.[slot - 2]
+  const bytes = image && (await fs.readFile(path.join(designImagesDir(), image.file)).catch(() => null))
+  if (!bytes) {
+    return new Response('Not found', { status: 404 })
+  }
+  return new Response(bytes, {
+    headers: { 'Content-Type': image.mime, 'Cache-Control': 'public, max-age=31536000, immutable' },
+  })
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+import { designView, getDesignRepository } from '@/lib/designs'
+
+export async function GET(_: Request, { params }: { params: { designId: string } }) {
+  const design = await getDesignRepository().get(params.designId)
+  if (!design) {
+    return NextResponse.json({ error: 'Design not found' }, { status: 404 })
+  }
+  return NextResponse.json({ design: designView(design) })
+}
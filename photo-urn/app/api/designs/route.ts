@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { currentAccount } from '@/lib/accounts'
+import { designImagesDir, getDesignRepository, newDesignId } from '@/lib/designs'
+import { normalizePhoto, type NormalizedPhoto } from '@/lib/images/normalize'
+import { designSchemaFor, fieldErrors, parseImageDataUrl } from '@/lib/schemas/submit'
+import type { PreviewParams } from '@/lib/store'
+import { loadFonts } from '@/lib/text'
+import { getUrnMap } from '@/lib/urns'
+
+/** Share the current design; anyone with the returned link can view and comment. */
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null)
+  const parsed = designSchemaFor(await getUrnMap(), await loadFonts()).safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Please correct the highlighted fields', fields: fieldErrors(parsed.error) },
+      { status: 400 }
+    )
+  }
+  const { urnId, imageDataUrl, collageImageDataUrls = [] } = parsed.data
+  const params = parsed.data.params as PreviewParams
+
+  // Stored like order photos: upright JPEGs, `<id>.jpg` then `<id>-2.jpg`…
+  const photos: NormalizedPhoto[] = []
+  for (const [i, url] of [imageDataUrl, ...collageImageDataUrls].entries()) {
+    try {
+      photos.push(await normalizePhoto(Buffer.from(parseImageDataUrl(url)!.base64, 'base64')))
+    } catch {
+      const field = i === 0 ? 'imageDataUrl' : `collageImageDataUrls.${i - 1}`
+      return NextResponse.json(
+        { error: 'Please correct the highlighted fields', fields: { [field]: 'Could not read this photo' } },
+        { status: 400 }
+      )
+    }
+  }
+
+  const id = newDesignId()
+  await fs.mkdir(designImagesDir(), { recursive: true })
+  const [image, ...collageImages] = await Promise.all(
+    photos.map(async (photo, i) => {
+      const file = i === 0 ? `${id}.jpg` : `${id}-${i + 1}.jpg`
+      await fs.writeFile(path.join(designImagesDir(), file), photo.bytes)
+      return { file, mime: photo.mime }
+    })
+  )
+  const account = await currentAccount()
+  await getDesignRepository().create({ id, urnId, params, image, collageImages, accountId: account?.id })
+
+  return NextResponse.json({ ok: true, design_id: id, url: `/design/${id}` }, { status: 201 })
+}
@@ -0,0 +1,26 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { currentAccount } from '@/lib/accounts'
+import { draftImagesDir, getDraftRepository } from '@/lib/drafts'
+
+/**
+ * A draft's photos, for its owner only.  Saving replaces them, so the URLs
+ * carry the save time and stay private to the browser's cache.  `?slot=2`
+ * and up serve the other photos of a collage.
+ */
+export async function GET(req: Request, { params }: { params: { draftId: string } }) {
+  const account = await currentAccount()
+  const draft = account && (await getDraftRepository().get(params.draftId))
+  if (!draft || draft.accountId !== account.id) {
+    return new Response('Not found', { status: 404 })
+  }
+  const slot = Number(new URL(req.url).searchParams.get('slot') ?? 1)
+  const image = slot === 1 ? draft.image : draft.collageImages[slot - 2]
+  const bytes = image && (await fs.readFile(path.join(draftImagesDir(), image.file)).catch(() => null))
+  if (!bytes) {
+    return new Response('Not found', { status: 404 })
+  }
+  return new Response(bytes, {
+    headers: { 'Content-Type': image.mime, 'Cache-Control': 'private, max-age=31536000, immutable' },
+  })
+}
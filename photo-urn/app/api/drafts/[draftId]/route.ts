@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server'
+import { currentAccount } from '@/lib/accounts'
+import {
+  DraftPhotoError,
+  draftView,
+  getDraftRepository,
+  removeDraftPhotos,
+  writeDraftPhotos,
+  type DraftImage,
+} from '@/lib/drafts'
+import { draftSchemaFor, fieldErrors } from '@/lib/schemas/submit'
+import type { PreviewParams } from '@/lib/store'
+import type { WizardStep } from '@/lib/wizard'
+import { getUrnMap } from '@/lib/urns'
+
+export const dynamic = 'force-dynamic'
+
+/** The draft when it belongs to the signed-in customer; anyone else gets a 404. */
+async function ownDraft(draftId: string) {
+  const account = await currentAccount()
+  if (!account) return { denied: NextResponse.json({ error: 'Not signed in' }, { status: 401 }) }
+  const draft = await getDraftRepository().get(draftId)
+  if (!draft || draft.accountId !== account.id) {
+    return { denied: NextResponse.json({ error: 'Draft not found' }, { status: 404 }) }
+  }
+  return { draft }
+}
+
+export async function GET(_: Request, { params }: { params: { draftId: string } }) {
+  const { draft, denied } = await ownDraft(params.draftId)
+  if (denied) return denied
+  return NextResponse.json({ draft: draftView(draft) })
+}
+
+/** Save over a draft; its photos are replaced by the ones sent. */
+export async function PUT(req: Request, { params }: { params: { draftId: string } }) {
+  const { draft, denied } = await ownDraft(params.draftId)
+  if (denied) return denied
+
+  const body = await req.json().catch(() => null)
+  const parsed = draftSchemaFor(await getUrnMap()).safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Please correct the highlighted fields', fields: fieldErrors(parsed.error) },
+      { status: 400 }
+    )
+  }
+  const { urnId, imageDataUrl, collageImageDataUrls } = parsed.data
+  let photos: (DraftImage | null)[]
+  try {
+    photos = await writeDraftPhotos(draft.id, [imageDataUrl, ...collageImageDataUrls])
+  } catch (err) {
+    if (!(err instanceof DraftPhotoError)) throw err
+    return NextResponse.json(
+      { error: 'Please correct the highlighted fields', fields: { [err.field]: 'Could not read this photo' } },
+      { status: 400 }
+    )
+  }
+  const [image, ...collageImages] = photos
+  const saved = await getDraftRepository().update(draft.id, {
+    urnId,
+    params: parsed.data.params as PreviewParams,
+    image,
+    collageImages,
+    step: parsed.data.step as WizardStep,
+  })
+  return NextResponse.json({ ok: true, draft: draftView(saved) })
+}
+
+export async function DELETE(_: Request, { params }: { params: { draftId: string } }) {
+  const { draft, denied } = await ownDraft(params.draftId)
+  if (denied) return denied
+  await getDraftRepository().remove(draft.id)
+  await removeDraftPhotos(draft.id)
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { currentAccount } from '@/lib/accounts'
+import {
+  DraftPhotoError,
+  MAX_DRAFTS,
+  draftView,
+  getDraftRepository,
+  newDraftId,
+  writeDraftPhotos,
+  type DraftImage,
+} from '@/lib/drafts'
+import { draftSchemaFor, fieldErrors } from '@/lib/schemas/submit'
+import type { PreviewParams } from '@/lib/store'
+import type { WizardStep } from '@/lib/wizard'
+import { getUrnMap } from '@/lib/urns'
+
+/** Save the current design to the signed-in customer's account. */
+export async function POST(req: Request) {
+  const account = await currentAccount()
+  if (!account) return NextResponse.json({ error: 'Sign in to save drafts' }, { status: 401 })
+
+  const body = await req.json().catch(() => null)
+  const parsed = draftSchemaFor(await getUrnMap()).safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Please correct the highlighted fields', fields: fieldErrors(parsed.error) },
+      { status: 400 }
+    )
+  }
+  const repo = getDraftRepository()
+  if ((await repo.listByAccount(account.id)).length >= MAX_DRAFTS) {
+    return NextResponse.json(
+      { error: `You can keep up to ${MAX_DRAFTS} drafts; delete one on your account page first` },
+      { status: 409 }
+    )
+  }
+
+  const { urnId, imageDataUrl, collageImageDataUrls } = parsed.data
+  const id = newDraftId()
+  let photos: (DraftImage | null)[]
+  try {
+    photos = await writeDraftPhotos(id, [imageDataUrl, ...collageImageDataUrls])
+  } catch (err) {
+    if (!(err instanceof DraftPhotoError)) throw err
+    return NextResponse.json(
+      { error: 'Please correct the highlighted fields', fields: { [err.field]: 'Could not read this photo' } },
+      { status: 400 }
+    )
+  }
+  const [image, ...collageImages] = photos
+  const draft = await repo.create(account.id, {
+    id,
+    urnId,
+    params: parsed.data.params as PreviewParams,
+    image,
+    collageImages,
+    step: parsed.data.step as WizardStep,
+  })
+  return NextResponse.json({ ok: true, draft: draftView(draft) }, { status: 201 })
+}
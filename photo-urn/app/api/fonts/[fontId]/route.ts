@@ -0,0 +1,11 @@
+import fs from 'node:fs/promises'
+import { fontFilePath, isFontId } from '@/lib/text'
+
+/** The engraving fonts, so the preview lays out text exactly as the server does. */
+export async function GET(_: Request, { params }: { params: { fontId: string } }) {
+  if (!isFontId(params.fontId)) {
+    return new Response('Not found', { status: 404 })
+  }
+  const data = await fs.readFile(fontFilePath(params.fontId))
+  return new Response(data, { headers: { 'Content-Type': 'font/woff', 'Cache-Control': 'public, max-age=86400' } })
+}
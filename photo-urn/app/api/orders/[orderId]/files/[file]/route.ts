@@ -0,0 +1,33 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { requireOrderAccess } from '@/lib/accounts'
+import { getOrderRepository } from '@/lib/orders'
+import { outputsDir } from '@/lib/storage/paths'
+
+const GENERATED: Record<string, string> = {
+  'depth.png': 'image/png',
+  'relief_only.stl': 'model/stl',
+  'urn_final.stl': 'model/stl',
+}
+
+/**
+ * An order's photo or generated file, for its owner, the browser that
+ * placed it and staff.  Regenerating rewrites the files, so they are
+ * never cached as final.
+ */
+export async function GET(_: Request, { params }: { params: { orderId: string; file: string } }) {
+  const order = await getOrderRepository().get(params.orderId)
+  if (!order) {
+    return new Response('Not found', { status: 404 })
+  }
+  const denied = await requireOrderAccess(order)
+  if (denied) return denied
+
+  const photo = [order.image, ...(order.collageImages ?? [])].find((img) => img.file === params.file)
+  const mime = photo?.mime ?? GENERATED[params.file]
+  const bytes = mime && (await fs.readFile(path.join(outputsDir(order.id), params.file)).catch(() => null))
+  if (!bytes) {
+    return new Response('Not found', { status: 404 })
+  }
+  return new Response(bytes, { headers: { 'Content-Type': mime, 'Cache-Control': 'private, no-cache' } })
+}
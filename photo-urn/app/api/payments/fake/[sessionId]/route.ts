@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { getFakePaymentProvider, handlePaymentWebhook } from '@/lib/payments'
+import type { FakeOutcome } from '@/lib/payments/fake'
+
+const OUTCOMES: FakeOutcome[] = ['succeed', 'fail', 'refund']
+
+export async function GET(_: Request, { params }: { params: { sessionId: string } }) {
+  const fake = getFakePaymentProvider()
+  const session = fake ? await fake.getSession(params.sessionId).catch(() => null) : null
+  if (!session) return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+  return NextResponse.json(session)
+}
+
+// Simulates the hosted checkout: builds the signed webhook the provider
+// would send and runs it through the same handler as /api/webhooks/payment.
+export async function POST(req: Request, { params }: { params: { sessionId: string } }) {
+  const fake = getFakePaymentProvider()
+  if (!fake) return NextResponse.json({ error: 'Fake payments are disabled' }, { status: 404 })
+  const body = await req.json().catch(() => ({}))
+  const outcome = body?.outcome as FakeOutcome
+  if (!OUTCOMES.includes(outcome)) {
+    return NextResponse.json({ error: 'outcome must be succeed, fail or refund' }, { status: 400 })
+  }
+  try {
+    const delivery = await fake.simulate(params.sessionId, outcome, body?.reason)
+    await handlePaymentWebhook(fake, delivery.body, delivery.headers)
+    const redirect = outcome === 'fail' ? delivery.session.cancelUrl : delivery.session.successUrl
+    return NextResponse.json({ ok: true, status: delivery.session.status, redirect })
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message || 'Simulation failed' }, { status: 400 })
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { normalizePhoto } from '@/lib/images/normalize'
+import { isHEIC } from '@/lib/images/sniff'
+import { MAX_IMAGE_BYTES } from '@/lib/schemas/submit'
+
+/**
+ * Turn a HEIC photo the browser could not open into the upright JPEG it
+ * would have made (see lib/images/ingest).  The body is the file itself;
+ * nothing is kept.
+ */
+export async function POST(req: Request) {
+  const length = Number(req.headers.get('content-length') ?? 0)
+  if (length > MAX_IMAGE_BYTES) {
+    return NextResponse.json({ error: `Photo must be under ${MAX_IMAGE_BYTES / 1024 / 1024} MB` }, { status: 413 })
+  }
+  const buf = Buffer.from(await req.arrayBuffer())
+  if (buf.length > MAX_IMAGE_BYTES) {
+    return NextResponse.json({ error: `Photo must be under ${MAX_IMAGE_BYTES / 1024 / 1024} MB` }, { status: 413 })
+  }
+  if (!isHEIC(buf)) {
+    return NextResponse.json({ error: 'Only HEIC photos are converted here' }, { status: 415 })
+  }
+  const photo = await normalizePhoto(buf).catch(() => null)
+  if (!photo) {
+    return NextResponse.json({ error: 'Could not read this photo. It may be damaged.' }, { status: 422 })
+  }
+  return new Response(photo.bytes, { headers: { 'Content-Type': photo.mime, 'Cache-Control': 'no-store' } })
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { createQuote, type OrderOptions, type PricedDesign } from '@/lib/pricing'
+import { fieldErrors, quoteSchemaFor } from '@/lib/schemas/submit'
+import { findUrn, getUrnMap } from '@/lib/urns'
+
+/** Price the design being edited; submitting the order names the returned quote. */
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null)
+  const urns = await getUrnMap()
+  const parsed = quoteSchemaFor(urns).safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Could not price this design', fields: fieldErrors(parsed.error) }, { status: 400 })
+  }
+  const quote = await createQuote(
+    findUrn(urns, parsed.data.urnId)!,
+    parsed.data.design as PricedDesign,
+    parsed.data.options as OrderOptions
+  )
+  return NextResponse.json({ ok: true, quote })
+}
@@ -1,5 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { requireOrderAccess } from '@/lib/accounts'
+import { RELIEF_JOB, enqueueRelief, getJobQueue } from '@/lib/jobs'
+import { getOrderRepository, orderPrintReport, type OrderStatus } from '@/lib/orders'
+import { getUrn } from '@/lib/urns'
+
+// Generation starts once the order is paid; a failed run can be retried.
+const FINALIZABLE: readonly OrderStatus[] = ['paid', 'failed']
+
 export async function POST(req: NextRequest) {
-  // Stub: enqueue HQ boolean union & export STL; return job id
-  return NextResponse.json({ ok: true, job_id: 'stub-job' })
+  const body = await req.json().catch(() => ({}))
+  const orderId = body?.orderId
+  if (typeof orderId !== 'string' || !orderId) {
+    return NextResponse.json({ error: 'Missing or invalid orderId' }, { status: 400 })
+  }
+
+  const order = await getOrderRepository().get(orderId)
+  if (!order) {
+    return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+  }
+  const denied = await requireOrderAccess(order)
+  if (denied) return denied
+  if (!FINALIZABLE.includes(order.status)) {
+    return NextResponse.json({ error: `Order is ${order.status} and cannot be generated` }, { status: 409 })
+  }
+  const urn = await getUrn(order.urnId)
+  if (!urn) {
+    return NextResponse.json({ error: `Unknown urn ${order.urnId}` }, { status: 400 })
+  }
+
+  // Refuse designs that will not print; warnings travel with the job.
+  const report = await orderPrintReport(order)
+  if (!report.ok) {
+    return NextResponse.json({ error: 'This design cannot be printed as it is', report }, { status: 422 })
+  }
+
+  // Generation runs on the job queue; poll /api/status/[orderId] for progress.
+  // A job that is already waiting or running is reused, not doubled.
+  const latest = await getJobQueue().latestForOrder(orderId, RELIEF_JOB)
+  const running = latest && (latest.state === 'queued' || latest.state === 'processing')
+  const job = running ? latest : await enqueueRelief(orderId)
+  return NextResponse.json({ ok: true, order_id: orderId, job_id: job.id, report }, { status: 202 })
 }
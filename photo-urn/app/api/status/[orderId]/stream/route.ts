@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server'
+import { requireOrderAccess } from '@/lib/accounts'
+import { getJobQueue, kickJobs, orderTracking } from '@/lib/jobs'
+import { TRANSITIONS, getOrderRepository } from '@/lib/orders'
+
+export const dynamic = 'force-dynamic'
+
+const POLL_MS = 1000
+const KEEP_ALIVE_MS = 15_000
+const RETRY_MS = 3000
+
+// Server-Sent Events for the order page: a `status` event with the same
+// body as /api/status/[orderId] whenever it changes, and `end` once the
+// order can no longer change.  Proxies drop idle connections, so a comment
+// goes out when nothing else has for a while.
+export async function GET(req: Request, { params }: { params: { orderId: string } }) {
+  const { orderId } = params
+  const orders = getOrderRepository()
+  const order = await orders.get(orderId)
+  if (!order) {
+    return NextResponse.json({ order_id: orderId, error: 'Order not found' }, { status: 404 })
+  }
+  const denied = await requireOrderAccess(order)
+  if (denied) return denied
+  kickJobs()
+
+  const encoder = new TextEncoder()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let last = ''
+      let lastSent = Date.now()
+      const send = (chunk: string) => {
+        controller.enqueue(encoder.encode(chunk))
+        lastSent = Date.now()
+      }
+      const close = () => {
+        if (closed) return
+        closed = true
+        clearTimeout(timer)
+        controller.close()
+      }
+      req.signal.addEventListener('abort', close)
+
+      const poll = async () => {
+        try {
+          const order = await orders.get(orderId)
+          if (closed) return
+          if (!order) {
+            send('event: end\ndata: {}\n\n')
+            return close()
+          }
+          const body = JSON.stringify(await orderTracking(order, getJobQueue()))
+          if (closed) return
+          if (body !== last) {
+            last = body
+            send(`event: status\ndata: ${body}\n\n`)
+          } else if (Date.now() - lastSent >= KEEP_ALIVE_MS) {
+            send(': keep-alive\n\n')
+          }
+          if (!TRANSITIONS[order.status].length) {
+            send('event: end\ndata: {}\n\n')
+            return close()
+          }
+        } catch (err) {
+          console.error('Status stream failed', err)
+          return close()
+        }
+        timer = setTimeout(poll, POLL_MS)
+      }
+
+      send(`retry: ${RETRY_MS}\n\n`)
+      poll()
+    },
+    cancel() {
+      closed = true
+      clearTimeout(timer)
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
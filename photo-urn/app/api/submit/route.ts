@@ -2,31 +2,111 @@ import { NextResponse } from 'next/server'
 import path from 'node:path'
 import fs from 'node:fs/promises'
 import crypto from 'node:crypto'
+import { ORDER_ACCESS_COOKIE, currentAccount, getAccountRepository, grantOrderAccess } from '@/lib/accounts'
+import type { PhotoMeta } from '@/lib/images/meta'
+import { normalizePhoto, type NormalizedPhoto } from '@/lib/images/normalize'
+import { getOrderRepository, orderPrintReport, printBlocker, type Customer } from '@/lib/orders'
+import { lockQuote, pricedDesign, resolveOptions, type OrderOptions } from '@/lib/pricing'
+import { fieldErrors, parseImageDataUrl, submitSchemaFor } from '@/lib/schemas/submit'
+import { outputsDir } from '@/lib/storage/paths'
+import type { PreviewParams } from '@/lib/store'
+import { loadFonts } from '@/lib/text'
+import { findUrn, getUrnMap, productOf, type FaceCode } from '@/lib/urns'
 
 export async function POST(req: Request) {
-  const body = await req.json()
-  const { urnId, params, imageDataUrl } = body
+  const body = await req.json().catch(() => null)
+  const urns = await getUrnMap()
+  const parsed = submitSchemaFor(urns, await loadFonts()).safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Please correct the highlighted fields', fields: fieldErrors(parsed.error) },
+      { status: 400 }
+    )
+  }
+  // zod marks every key optional when `strict` is off; the schema did check them.
+  const { urnId, imageDataUrl, collageImageDataUrls = [] } = parsed.data
+  const params = parsed.data.params as PreviewParams
+  const customer = parsed.data.customer as Customer
+  const photoMeta = (parsed.data.photoMeta ?? []) as (PhotoMeta | null)[]
+  const face = (parsed.data.face ?? undefined) as FaceCode | undefined
+
+  // The order is charged exactly what the customer was shown.
+  const urn = findUrn(urns, urnId)!
+  const options = resolveOptions(productOf(urn), parsed.data.options as OrderOptions)
+  const locked = await lockQuote(parsed.data.quoteId, urn, pricedDesign(params), options)
+  if ('error' in locked) {
+    return NextResponse.json({ error: locked.error, fields: { quoteId: locked.error } }, { status: 409 })
+  }
+  const { quote } = locked
 
-  if (!urnId || !imageDataUrl) {
-    return NextResponse.json({ error: 'Missing urnId or image' }, { status: 400 })
+  // Upright, size-capped JPEGs whatever was uploaded; the original's
+  // details (from the browser when it converted the file) go on the order.
+  const photos: NormalizedPhoto[] = []
+  for (const [i, url] of [imageDataUrl, ...collageImageDataUrls].entries()) {
+    try {
+      photos.push(await normalizePhoto(Buffer.from(parseImageDataUrl(url)!.base64, 'base64')))
+    } catch {
+      const field = i === 0 ? 'imageDataUrl' : `collageImageDataUrls.${i - 1}`
+      return NextResponse.json(
+        { error: 'Please correct the highlighted fields', fields: { [field]: 'Could not read this photo' } },
+        { status: 400 }
+      )
+    }
   }
 
   // make order id
   const orderId = crypto.randomUUID()
-  const dir = path.join(process.cwd(), 'public', 'outputs', orderId)
+  const dir = outputsDir(orderId)
   await fs.mkdir(dir, { recursive: true })
 
-  // save input image
-  const base64 = imageDataUrl.split(',')[1]
-  await fs.writeFile(path.join(dir, 'image.png'), Buffer.from(base64, 'base64'))
-
-  // drop job file for worker
-  const jobsDir = path.join(process.cwd(), '.jobs')
-  await fs.mkdir(jobsDir, { recursive: true })
-  await fs.writeFile(
-    path.join(jobsDir, `${orderId}.json`),
-    JSON.stringify({ orderId, urnId, params, imagePath: path.join(dir, 'image.png'), outDir: dir }, null, 2)
+  // image.jpg, then image-2.jpg and image-3.jpg for the other collage slots
+  const [image, ...collageImages] = await Promise.all(
+    photos.map(async (photo, i) => {
+      const file = i === 0 ? 'image.jpg' : `image-${i + 1}.jpg`
+      await fs.writeFile(path.join(dir, file), photo.bytes)
+      const { mime, width, height } = photo
+      return { file, mime, width, height, original: photoMeta[i] ?? photo.meta }
+    })
   )
 
-  return NextResponse.json({ ok: true, order_id: orderId })
+  // Designs that will not print are refused here, before they are paid
+  // for; the preview shows the same report on the same face.
+  const report = await orderPrintReport({ id: orderId, urnId, params, face, image, collageImages })
+  if (!report.ok) {
+    await fs.rm(dir, { recursive: true, force: true })
+    const blocker = printBlocker(report)
+    return NextResponse.json({ error: blocker, fields: { printability: blocker }, report }, { status: 422 })
+  }
+
+  // Signed in, the order is the account's (a funeral director ordering for
+  // a family); otherwise it belongs to whoever signs in with its email.
+  const account = (await currentAccount()) ?? (await getAccountRepository().ensure(customer.email!))
+
+  const orders = getOrderRepository()
+  await orders.create({
+    id: orderId,
+    urnId,
+    params,
+    customer,
+    image,
+    collageImages,
+    face,
+    options,
+    accountId: account.id,
+    pricing: { currency: quote.currency, amount_cents: quote.amount_cents, quote_id: quote.id, lines: quote.lines },
+  })
+  await orders.transition(orderId, 'submitted')
+
+  // Signed in or not, this browser can pay for the order and follow it.
+  const access = await grantOrderAccess(orderId)
+  const res = NextResponse.json({ ok: true, order_id: orderId })
+  res.cookies.set(ORDER_ACCESS_COOKIE, access.value, {
+    httpOnly: true,
+    // Checkout returns the customer from the payment provider's site.
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: access.expires,
+  })
+  return res
 }
@@ -0,0 +1,30 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { encodePNG } from '@/lib/images/codec'
+import { dataDir } from '@/lib/storage/paths'
+import { getUrn, urnModelPath } from '@/lib/urns'
+import { parseSTL } from '@/lib/urns/inspect'
+import { renderThumbnail } from '@/lib/urns/thumbnail'
+
+/** Rendered from the urn's STL on first request and cached until the model changes. */
+export async function GET(_: Request, { params }: { params: { urnId: string } }) {
+  const urn = await getUrn(params.urnId)
+  const model = urn && urnModelPath(urn)
+  const stat = model && (await fs.stat(model).catch(() => null))
+  if (!stat) {
+    return new Response('Not found', { status: 404 })
+  }
+
+  const cached = dataDir('urns', 'thumbnails', `${urn.id}.png`)
+  let png = await fs
+    .stat(cached)
+    .then((s) => (s.mtimeMs >= stat.mtimeMs ? fs.readFile(cached) : null))
+    .catch(() => null)
+  if (!png) {
+    const { positions } = parseSTL(await fs.readFile(model))
+    png = encodePNG(renderThumbnail(positions, urn.target.default_face))
+    await fs.mkdir(path.dirname(cached), { recursive: true })
+    await fs.writeFile(cached, png)
+  }
+  return new Response(png, { headers: { 'Content-Type': 'image/png', 'Cache-Control': 'public, max-age=3600' } })
+}
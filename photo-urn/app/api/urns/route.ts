@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server'
+import { getUrnRepository } from '@/lib/urns'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  return NextResponse.json({ urns: await getUrnRepository().list() })
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { getPaymentProvider, handlePaymentWebhook, isWebhookSignatureError } from '@/lib/payments'
+
+export async function POST(req: Request) {
+  // Signatures cover the exact bytes, so read the raw body before parsing.
+  const raw = await req.text()
+  try {
+    const { event, duplicate } = await handlePaymentWebhook(getPaymentProvider(), raw, req.headers)
+    return NextResponse.json({ received: true, event_id: event.id, duplicate })
+  } catch (err: any) {
+    if (isWebhookSignatureError(err)) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+    console.error(err)
+    // Non-2xx makes the provider retry the delivery later.
+    return NextResponse.json({ error: err?.message || 'Webhook processing failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,179 @@
+'use client'
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import ThreePreview from '@/components/ThreePreview'
+import type { DesignView } from '@/lib/designs'
+import { readAsDataUrl } from '@/lib/images/ingest'
+import { useAppStore } from '@/lib/store'
+import { findUrn } from '@/lib/urns/catalog'
+import { useUrns } from '@/lib/urns/client'
+
+// Read-only view of a shared design.  Anyone with the link can comment or
+// approve; the browser that shared it can also reopen it in the editor.
+export default function SharedDesign({ params: route }: { params: { designId: string } }) {
+  const router = useRouter()
+  const [design, setDesign] = useState<DesignView | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [message, setMessage] = useState('')
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [busy, setBusy] = useState(false)
+  const { byId: urns } = useUrns()
+  const owned = useAppStore((s) => s.sharedDesigns.includes(route.designId))
+  const openDesign = useAppStore((s) => s.openDesign)
+
+  useEffect(() => {
+    fetch(`/api/designs/${route.designId}`)
+      .then(async (res) => {
+        const json = await res.json()
+        if (!res.ok) throw new Error(json?.error || 'Design not found')
+        setDesign(json.design)
+      })
+      .catch((err) => setError(err.message))
+  }, [route.designId])
+
+  const post = async (approved: boolean) => {
+    setBusy(true)
+    setError(null)
+    setErrors({})
+    try {
+      const res = await fetch(`/api/designs/${route.designId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, message, approved })
+      })
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        if (json?.fields) setErrors(json.fields)
+        throw new Error(json?.error || 'Could not post your comment')
+      }
+      setDesign(json.design)
+      setMessage('')
+    } catch (err: any) {
+      setError(err.message || String(err))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const reopen = async () => {
+    if (!design) return
+    setBusy(true)
+    try {
+      const [imageDataUrl, ...collageImages] = await Promise.all(
+        [design.imageUrl, ...(design.collageImageUrls ?? [])].map(async (url) => {
+          const res = await fetch(url)
+          if (!res.ok) throw new Error('Could not load the photo')
+          return readAsDataUrl(await res.blob())
+        })
+      )
+      openDesign({ urnId: design.urnId, imageDataUrl, collageImages, params: design.params })
+      router.push('/')
+    } catch (err: any) {
+      setError(err.message || String(err))
+      setBusy(false)
+    }
+  }
+
+  const urn = design ? findUrn(urns, design.urnId) : null
+  const approvals = design?.comments.filter((c) => c.approved) ?? []
+  const fieldError = (key: string) =>
+    errors[key] ? <p className="mt-1 text-xs text-red-700">{errors[key]}</p> : null
+
+  return (
+    <main className="mx-auto max-w-3xl p-4 md:p-8 space-y-4">
+      <h1 className="text-2xl font-semibold">Shared urn design</h1>
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</div>
+      )}
+      {design && (
+        <>
+          <section className="rounded-xl border p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-neutral-600">
+                {urn?.label ?? design.urnId} · shared {new Date(design.createdAt).toLocaleDateString()}
+              </p>
+              {owned && (
+                <button
+                  disabled={busy}
+                  className="px-3 py-1.5 rounded-md border text-sm disabled:opacity-60"
+                  onClick={reopen}
+                >
+                  Open in editor
+                </button>
+              )}
+            </div>
+            <ThreePreview
+              urnId={design.urnId}
+              image={design.imageUrl}
+              collageImages={design.collageImageUrls}
+              params={design.params}
+            />
+            <p className="text-sm">
+              {approvals.length
+                ? `Approved by ${approvals.map((c) => c.name).join(', ')}`
+                : 'Nobody has approved this design yet.'}
+            </p>
+          </section>
+
+          <section className="rounded-xl border p-4 space-y-3">
+            <h2 className="text-lg font-medium">Comments</h2>
+            {design.comments.length === 0 && <p className="text-sm text-neutral-500">No comments yet.</p>}
+            <ul className="space-y-2">
+              {design.comments.map((c) => (
+                <li key={c.id} className="rounded-md border px-3 py-2 text-sm">
+                  <div className="flex items-center gap-2 text-xs text-neutral-500">
+                    <span className="font-medium text-neutral-800">{c.name}</span>
+                    <span>{new Date(c.at).toLocaleString()}</span>
+                    {c.approved && (
+                      <span className="rounded bg-green-50 border border-green-200 px-1 text-green-800">approved</span>
+                    )}
+                  </div>
+                  {c.message && <p className="mt-1 whitespace-pre-wrap">{c.message}</p>}
+                </li>
+              ))}
+            </ul>
+            <div className="space-y-2 pt-2">
+              <div>
+                <label className="block text-sm font-medium">Your name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="mt-1 w-full rounded-md border px-3 py-2"
+                />
+                {fieldError('name')}
+              </div>
+              <div>
+                <label className="block text-sm font-medium">Comment</label>
+                <textarea
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  className="mt-1 w-full rounded-md border px-3 py-2"
+                  rows={3}
+                />
+                {fieldError('message')}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  disabled={busy}
+                  className="px-3 py-2 rounded-md border disabled:opacity-60"
+                  onClick={() => post(false)}
+                >
+                  Comment
+                </button>
+                <button
+                  disabled={busy}
+                  className="px-3 py-2 rounded-md bg-black text-white disabled:opacity-60"
+                  onClick={() => post(true)}
+                >
+                  Approve design
+                </button>
+              </div>
+            </div>
+          </section>
+        </>
+      )}
+    </main>
+  )
+}
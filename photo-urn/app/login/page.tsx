@@ -0,0 +1,78 @@
+'use client'
+import { useEffect, useState } from 'react'
+
+// Passwordless sign-in: we email a link, and following it signs the
+// customer in and returns them to `?next=`.
+export default function Login() {
+  const [email, setEmail] = useState('')
+  const [next, setNext] = useState<string | null>(null)
+  // Minutes the emailed link stays valid, once it is sent.
+  const [sent, setSent] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    const q = new URLSearchParams(window.location.search)
+    setNext(q.get('next'))
+    if (q.get('error') === 'expired') setError('That sign-in link has expired or was already used. Ask for a new one.')
+  }, [])
+
+  const login = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim(), next: next ?? undefined })
+      })
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(json?.fields?.email || json?.error || 'Sign-in failed')
+      setSent(json.valid_minutes)
+    } catch (err: any) {
+      setError(err.message || String(err))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <main className="mx-auto max-w-sm p-4 md:p-8 space-y-4">
+      <h1 className="text-2xl font-semibold">Sign in</h1>
+      {sent !== null ? (
+        <div role="status" className="rounded-xl border border-green-200 bg-green-50 p-4 text-sm text-green-800">
+          We sent a sign-in link to {email.trim()}. It works once, for {sent} minutes.
+        </div>
+      ) : (
+        <form onSubmit={login} className="space-y-3">
+          <p className="text-sm text-neutral-600">
+            Enter the email address you order with. We’ll email you a link to see your designs and orders; no password
+            needed.
+          </p>
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium">Email</label>
+            <input
+              id="email"
+              type="email"
+              required
+              autoFocus
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="mt-1 w-full rounded-md border px-3 py-2"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={busy}
+            className="px-4 py-2 rounded-md bg-black text-white disabled:opacity-60"
+          >
+            {busy ? 'Sending…' : 'Email me a link'}
+          </button>
+          {error && <p className="text-sm text-red-700">{error}</p>}
+        </form>
+      )}
+    </main>
+  )
+}
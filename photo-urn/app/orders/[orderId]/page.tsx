@@ -0,0 +1,207 @@
+'use client'
+import { useEffect, useState } from 'react'
+import StlViewer from '@/components/StlViewer'
+import type { OrderTracking } from '@/lib/jobs'
+import { STATUS_TEXT, type OrderStatus } from '@/lib/orders/status'
+
+const HAPPY_PATH: OrderStatus[] = ['submitted', 'awaiting_payment', 'paid', 'generating', 'ready', 'shipped']
+
+type Model = 'relief' | 'urn'
+
+// Where a customer follows their order.  Status arrives over Server-Sent
+// Events from /api/status/[orderId]/stream; the browser reconnects on its
+// own if the connection drops, and the server ends the stream once the
+// order is shipped or cancelled.
+export default function OrderTrackingPage({ params: route }: { params: { orderId: string } }) {
+  const [order, setOrder] = useState<OrderTracking | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [live, setLive] = useState(false)
+  const [model, setModel] = useState<Model>('relief')
+  const [paid, setPaid] = useState(false)
+  // Orders are visible to their owner and staff only.
+  const [signInNeeded, setSignInNeeded] = useState(false)
+
+  // Checkout sends the customer here with ?payment=success
+  useEffect(() => {
+    setPaid(new URLSearchParams(window.location.search).get('payment') === 'success')
+  }, [])
+
+  useEffect(() => {
+    let source: EventSource | null = null
+    let cancelled = false
+    // A missing order makes the stream answer 404, which EventSource only
+    // reports as a bare error; ask the JSON route first.
+    fetch(`/api/status/${route.orderId}`)
+      .then(async (res) => {
+        const json = await res.json()
+        if (res.status === 401) return setSignInNeeded(true)
+        if (!res.ok) throw new Error(json?.error || 'Order not found')
+        if (cancelled) return
+        setOrder(json)
+        source = new EventSource(`/api/status/${route.orderId}/stream`)
+        source.onopen = () => setLive(true)
+        source.onerror = () => setLive(false)
+        source.addEventListener('status', (e) => setOrder(JSON.parse((e as MessageEvent).data)))
+        source.addEventListener('end', () => {
+          source?.close()
+          setLive(false)
+        })
+      })
+      .catch((err) => setError(err.message))
+    return () => {
+      cancelled = true
+      source?.close()
+    }
+  }, [route.orderId])
+
+  const files = order?.files
+  const stl = model === 'urn' ? files?.urn_final_stl ?? files?.relief_stl : files?.relief_stl ?? files?.urn_final_stl
+  // Outputs keep their names across regenerations; the order's timestamp busts the cache.
+  const fresh = (url: string) => `${url}?v=${encodeURIComponent(order?.updated_at ?? '')}`
+  const step = order ? HAPPY_PATH.indexOf(order.status) : -1
+  const progress = order?.status === 'generating' ? order.generation?.progress ?? null : null
+
+  return (
+    <main className="mx-auto max-w-3xl p-4 md:p-8 space-y-4">
+      <h1 className="text-2xl font-semibold">Your order</h1>
+      {paid && (
+        <div className="rounded-xl border border-green-200 bg-green-50 p-4 text-sm text-green-800">
+          Payment received. We’re preparing your relief now; this page updates as it progresses.
+        </div>
+      )}
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</div>
+      )}
+      {signInNeeded && (
+        <div className="rounded-xl border p-4 space-y-2 text-sm">
+          <p>Sign in with the email address you ordered with to follow this order.</p>
+          <a
+            className="inline-block px-4 py-2 rounded-md bg-black text-white"
+            href={`/login?next=${encodeURIComponent(`/orders/${route.orderId}${paid ? '?payment=success' : ''}`)}`}
+          >
+            Sign in
+          </a>
+        </div>
+      )}
+      {!order && !error && !signInNeeded && <p className="text-sm text-neutral-500">Loading…</p>}
+      {order && files && (
+        <>
+          <section className="rounded-xl border p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-neutral-600">Order {order.order_id}</p>
+              <span className={`text-xs ${live ? 'text-green-700' : 'text-neutral-500'}`}>
+                {live ? '● Live' : 'Updated ' + new Date(order.updated_at).toLocaleString()}
+              </span>
+            </div>
+            <p className="text-lg font-medium">{STATUS_TEXT[order.status]}</p>
+            {step >= 0 && (
+              <ol className="flex gap-1" aria-label="Order progress">
+                {HAPPY_PATH.map((s, i) => (
+                  <li
+                    key={s}
+                    title={STATUS_TEXT[s]}
+                    className={`h-1.5 flex-1 rounded ${i <= step ? 'bg-black' : 'bg-neutral-200'}`}
+                  />
+                ))}
+              </ol>
+            )}
+            {progress && (
+              <div className="space-y-1">
+                <div className="h-2 w-full rounded bg-neutral-200">
+                  <div className="h-2 rounded bg-blue-600" style={{ width: `${Math.round(progress.fraction * 100)}%` }} />
+                </div>
+                <p className="text-xs text-neutral-600">
+                  {progress.message ?? 'Working'} · {Math.round(progress.fraction * 100)}%
+                </p>
+              </div>
+            )}
+          </section>
+
+          <section className="rounded-xl border p-4 space-y-3">
+            <h2 className="text-lg font-medium">Photo and depth map</h2>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <figure className="space-y-1">
+                {files.image ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={files.image} alt="Your photo" className="w-full rounded-md border object-contain" />
+                ) : (
+                  <div className="aspect-square rounded-md border bg-neutral-50" />
+                )}
+                <figcaption className="text-xs text-neutral-500">
+                  {files.collage_images.length ? 'Your photos' : 'Your photo'}
+                </figcaption>
+                {files.collage_images.length > 0 && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {files.collage_images.map((src, i) =>
+                      src ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img key={i} src={src} alt={`Photo ${i + 2}`} className="w-full rounded-md border object-contain" />
+                      ) : null
+                    )}
+                  </div>
+                )}
+              </figure>
+              <figure className="space-y-1">
+                {files.depth_png ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={fresh(files.depth_png)} alt="Depth map" className="w-full rounded-md border object-contain" />
+                ) : (
+                  <div className="flex aspect-square items-center justify-center rounded-md border bg-neutral-50 text-xs text-neutral-500">
+                    Not generated yet
+                  </div>
+                )}
+                <figcaption className="text-xs text-neutral-500">Depth map (lighter is higher)</figcaption>
+              </figure>
+            </div>
+          </section>
+
+          {(files.relief_stl || files.urn_final_stl) && (
+            <section className="rounded-xl border p-4 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h2 className="text-lg font-medium">3D model</h2>
+                <div className="flex gap-1 text-sm">
+                  {files.relief_stl && (
+                    <button
+                      className={`px-3 py-1 rounded-md border ${model === 'relief' ? 'bg-black text-white' : ''}`}
+                      onClick={() => setModel('relief')}
+                    >
+                      Relief
+                    </button>
+                  )}
+                  {files.urn_final_stl && (
+                    <button
+                      className={`px-3 py-1 rounded-md border ${model === 'urn' ? 'bg-black text-white' : ''}`}
+                      onClick={() => setModel('urn')}
+                    >
+                      Urn with relief
+                    </button>
+                  )}
+                </div>
+              </div>
+              {stl && <StlViewer url={fresh(stl)} />}
+              {order.downloads && (
+                <div className="flex flex-wrap gap-3 text-sm">
+                  {files.relief_stl && (
+                    <a className="underline" href={fresh(files.relief_stl)} download="relief_only.stl">
+                      Download relief STL
+                    </a>
+                  )}
+                  {files.urn_final_stl && (
+                    <a className="underline" href={fresh(files.urn_final_stl)} download="urn_final.stl">
+                      Download urn STL
+                    </a>
+                  )}
+                  {files.depth_png && (
+                    <a className="underline" href={fresh(files.depth_png)} download="depth.png">
+                      Download depth map
+                    </a>
+                  )}
+                </div>
+              )}
+            </section>
+          )}
+        </>
+      )}
+    </main>
+  )
+}
@@ -1,62 +1,577 @@
 'use client'
-import { useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import MaskPainter from '@/components/MaskPainter'
+import Slider from '@/components/Slider'
 import ThreePreview from '@/components/ThreePreview'
 import { useAppStore } from '@/lib/store'
-import urns from '@/lib/urns/urns.json'
+import { deleteDraft, saveDraft } from '@/lib/drafts/client'
+import { IngestError, ingestPhoto, type IngestedPhoto } from '@/lib/images/ingest'
+import type { PhotoMeta } from '@/lib/images/meta'
+import { resolutionWarning } from '@/lib/images/resolution'
+import { formatPrice, pricedDesign } from '@/lib/pricing/quote'
+import type { Quote } from '@/lib/pricing/repository'
+import { PRICING_RULES, finishesFor, resolveOptions, type OrderOptions } from '@/lib/pricing/rules'
+import {
+  COLLAGE_LAYOUTS,
+  SLOT_COUNTS,
+  collageSlots,
+  isCollage,
+  slotRects,
+  type CollageLayout,
+  type CollageSlot,
+} from '@/lib/relief/collage'
+import { estimateFrame, framePlacement } from '@/lib/relief/frame'
+import { DEFAULT_TONE } from '@/lib/relief/heightmap'
+import { decodeImageUrl } from '@/lib/relief/maps'
+import { MASK_SHAPES, type MaskSettings, type MaskShape } from '@/lib/relief/mask'
+import type { PrintReport } from '@/lib/relief/printability'
+import { MAX_TEXT_BLOCKS, TEXT_ALIGNS, TEXT_STYLES, type TextBlock } from '@/lib/relief/text'
+import { PARAM_BOUNDS, designSchemaFor, fieldErrors, orderParamsSchemaFor, submitSchemaFor } from '@/lib/schemas/submit'
+import { FONTS, FONT_IDS, type FontId } from '@/lib/text/fonts'
+import { useFonts } from '@/lib/text/client'
+import { findUrn, lithophaneOf, productOf, type ProductMode } from '@/lib/urns/catalog'
+import { useUrns } from '@/lib/urns/client'
+import {
+  LAST_STEP,
+  WIZARD_STEPS,
+  reachableStep,
+  stepErrors,
+  stepFromSlug,
+  stepOfField,
+  stepSlug,
+  type WizardDraft,
+  type WizardStep,
+} from '@/lib/wizard'
+
+const MASK_LABELS: Record<MaskShape, string> = {
+  none: 'None',
+  oval: 'Oval',
+  roundrect: 'Rounded rectangle',
+  arch: 'Arch',
+  heart: 'Heart',
+  freehand: 'Freehand',
+}
+
+const PRODUCT_LABELS: Record<ProductMode, string> = {
+  relief: 'Urn relief',
+  lithophane: 'Lithophane panel',
+}
+
+const LAYOUT_LABELS: Record<CollageLayout, string> = {
+  single: 'Single photo',
+  side_by_side: 'Side by side',
+  stacked: 'Stacked',
+  inset: 'Large + inset',
+  triptych: 'Triptych',
+}
+
+/** Fields that take typing, and so keep their own undo. */
+function isTextField(el: HTMLElement): boolean {
+  return (
+    el.isContentEditable ||
+    el.tagName === 'TEXTAREA' ||
+    (el.tagName === 'INPUT' && !['range', 'checkbox', 'radio'].includes((el as HTMLInputElement).type))
+  )
+}
 
 export default function Home() {
   const fileRef = useRef<HTMLInputElement>(null)
   const [submitting, setSubmitting] = useState(false)
   const [customerName, setCustomerName] = useState('')
+  const [customerEmail, setCustomerEmail] = useState('')
   const [customerAddress, setCustomerAddress] = useState('')
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [brush, setBrush] = useState(0.05)
+  const [printReport, setPrintReport] = useState<PrintReport | null>(null)
+  const [sharing, setSharing] = useState(false)
+  const [savingDraft, setSavingDraft] = useState(false)
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null)
+  const [shareUrl, setShareUrl] = useState<string | null>(null)
+  const [paymentNotice, setPaymentNotice] = useState<{ orderId: string; result: string } | null>(null)
+  const [activeSlot, setActiveSlot] = useState(0)
+  const [readingPhoto, setReadingPhoto] = useState(false)
+  const [framing, setFraming] = useState(false)
+  // Which kind of product step 2 lists; follows the chosen entry until changed.
+  const [productChoice, setProductChoice] = useState<ProductMode | null>(null)
+  const [orderOptions, setOrderOptions] = useState<Partial<OrderOptions>>({})
+  // The latest quote and the priced inputs it was made for.
+  const [priced, setPriced] = useState<{ key: string; quote: Quote } | null>(null)
+  const [quoting, setQuoting] = useState(false)
+  const [quoteError, setQuoteError] = useState<string | null>(null)
+  const [quoteRefresh, setQuoteRefresh] = useState(0)
+
+  // A cancelled checkout redirects back here with ?order=…&payment=cancelled
+  useEffect(() => {
+    const q = new URLSearchParams(window.location.search)
+    const orderId = q.get('order')
+    const result = q.get('payment')
+    if (orderId && result) setPaymentNotice({ orderId, result })
+  }, [])
 
   const {
     step, setStep,
     imageDataUrl, setImageDataUrl,
+    collageImages, setCollageImages,
+    photoMeta, setPhotoMeta,
     urnId, setUrnId,
-    params, setParams
+    params, setParams,
+    past, future, undo, redo,
+    beginEdit, endEdit,
+    addSharedDesign
   } = useAppStore()
 
-  const onFile = async (f: File) => {
-    const reader = new FileReader()
-    reader.onload = () => setImageDataUrl(reader.result as string)
-    reader.readAsDataURL(f)
+  // A link shows the design as it was shared; editing needs a new one.
+  useEffect(() => setShareUrl(null), [urnId, imageDataUrl, collageImages, params])
+  useEffect(() => setDraftSavedAt(null), [urnId, imageDataUrl, collageImages, params])
+
+  // Ctrl/Cmd+Z undoes a parameter edit; Ctrl/Cmd+Shift+Z or Ctrl+Y redoes it.
+  // Text fields keep their own undo.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+      if (isTextField(e.target as HTMLElement)) return
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) undo()
+      else if ((key === 'z' && e.shiftKey) || key === 'y') redo()
+      else return
+      e.preventDefault()
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [undo, redo])
+
+  const setPhotoMetaAt = (index: number, meta: PhotoMeta) => {
+    const { photoMeta: current } = useAppStore.getState()
+    setPhotoMeta(Array.from({ length: Math.max(current.length, index + 1) }, (_, i) => (i === index ? meta : current[i] ?? null)))
+  }
+
+  // Picked files are turned upright, converted to JPEG and downsized before
+  // they reach the draft; problems show under the photo's field.
+  const readPhoto = async (f: File, field: string, use: (photo: IngestedPhoto) => void) => {
+    setReadingPhoto(true)
+    try {
+      use(await ingestPhoto(f))
+      setErrors((e) => Object.fromEntries(Object.entries(e).filter(([key]) => key !== field)))
+    } catch (err: any) {
+      console.error(err)
+      setErrors((e) => ({ ...e, [field]: err instanceof IngestError ? err.message : 'Could not read this photo.' }))
+    } finally {
+      setReadingPhoto(false)
+    }
+  }
+
+  const onFile = (f: File) =>
+    readPhoto(f, 'imageDataUrl', (photo) => {
+      setImageDataUrl(photo.dataUrl)
+      setPhotoMetaAt(0, photo.meta)
+    })
+
+  // Photo for collage slot `slot` (2 and up); slot 1 is `imageDataUrl`.
+  const onSlotFile = (slot: number, f: File) =>
+    readPhoto(f, `collageImageDataUrls.${slot - 2}`, (photo) => {
+      const { collageImages: current } = useAppStore.getState()
+      setCollageImages(current.map((img, i) => (i === slot - 2 ? photo.dataUrl : img)))
+      setPhotoMetaAt(slot - 1, photo.meta)
+    })
+
+  const collage = isCollage(params.layout)
+
+  // Switching layouts keeps the photos and slot settings that still fit.
+  const setLayout = (layout: CollageLayout) => {
+    setParams({ layout, slots: collageSlots(layout, params.slots) })
+    setCollageImages(Array.from({ length: SLOT_COUNTS[layout] - 1 }, (_, i) => collageImages[i] ?? null))
+    setActiveSlot(0)
+  }
+
+  const { urns, byId: urnsById, error: urnsError } = useUrns()
+
+  const { fonts } = useFonts(params.textBlocks.map((b) => b.font))
+
+  // Who is signed in, for the account link; null until known or when signed out.
+  const [signedInAs, setSignedInAs] = useState<string | null>(null)
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then((res) => res.json())
+      .then((json) => setSignedInAs(json?.account?.email ?? null))
+      .catch(() => {})
+  }, [])
+
+  // Text fit depends on the urn, scale and fonts, so check it as the
+  // customer types instead of waiting for submit.
+  const textErrors = useMemo(() => {
+    if (!urnId || !params.textBlocks.length) return {}
+    const check = orderParamsSchemaFor(urnsById, fonts).safeParse({ urnId, params })
+    if (check.success) return {}
+    // A line that was just added and is still blank is not an error yet.
+    const shown = Object.entries(fieldErrors(check.error)).filter(([key]) => {
+      const [, , index, field] = key.split('.')
+      return key.startsWith('params.textBlocks.') && !(field === 'text' && !params.textBlocks[+index]?.text.trim())
+    })
+    return Object.fromEntries(shown)
+  }, [urnId, urnsById, fonts, params])
+
+  const errorFor = (key: string): string | undefined => errors[key] ?? textErrors[key]
+  const fieldError = (key: string) => {
+    const message = errorFor(key)
+    return message ? <p className="mt-1 text-xs text-red-700">{message}</p> : null
+  }
+
+  const currentUrn = (urnId && findUrn(urnsById, urnId)) || null
+  const lithophane = lithophaneOf(currentUrn)
+  const product: ProductMode = productChoice ?? (currentUrn ? productOf(currentUrn) : 'relief')
+  const chooseProduct = (mode: ProductMode) => {
+    setProductChoice(mode)
+    if (currentUrn && productOf(currentUrn) !== mode) setUrnId(null)
+  }
+
+  // A finish picked for the other product falls back to this one's default.
+  const options = resolveOptions(product, orderOptions)
+  // Only what affects the price is sent, so tone tweaks don't re-price;
+  // the key doubles as the /api/quote body.
+  const quoteKey = urnId ? JSON.stringify({ urnId, design: pricedDesign(params), options }) : null
+  const quote = priced && priced.key === quoteKey ? priced.quote : null
+
+  useEffect(() => {
+    if (!quoteKey) {
+      setQuoting(false)
+      return
+    }
+    const abort = new AbortController()
+    const timer = setTimeout(async () => {
+      setQuoting(true)
+      try {
+        const res = await fetch('/api/quote', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: quoteKey,
+          signal: abort.signal
+        })
+        const json = await res.json().catch(() => ({}))
+        if (!res.ok) throw new Error(json?.error || 'Could not price this design')
+        setPriced({ key: quoteKey, quote: json.quote })
+        setQuoteError(null)
+      } catch (err: any) {
+        if (abort.signal.aborted) return
+        console.error(err)
+        setQuoteError(err.message || String(err))
+      } finally {
+        if (!abort.signal.aborted) setQuoting(false)
+      }
+    }, 300)
+    return () => {
+      clearTimeout(timer)
+      abort.abort()
+    }
+  }, [quoteKey, quoteRefresh])
+
+  // Whether each photo has enough pixels for the area it covers on the urn,
+  // main photo first.  Photos from older drafts have no size and no warning.
+  const resolutionWarnings = useMemo(() => {
+    if (!currentUrn) return []
+    const widthMm = currentUrn.target.width_mm * params.scale
+    const heightMm = currentUrn.target.height_mm * params.scale
+    const areas = collage
+      ? slotRects(params.layout, widthMm, heightMm).map((r, i) => {
+          const zoom = params.slots[i]?.scale ?? 1
+          return { w: r.w / zoom, h: r.h / zoom }
+        })
+      : [{ w: widthMm, h: heightMm }]
+    return areas.map((a, i) => {
+      const meta = photoMeta[i]
+      return meta?.width ? resolutionWarning(meta, a.w, a.h) : null
+    })
+  }, [currentUrn, collage, params.scale, params.layout, params.slots, photoMeta])
+
+  // One edit, so a single undo restores the framing from before.
+  const autoFrame = async () => {
+    if (!imageDataUrl || !currentUrn) return
+    setFraming(true)
+    try {
+      const estimate = estimateFrame(await decodeImageUrl(imageDataUrl), params)
+      setParams(framePlacement(estimate, currentUrn.target.width_mm, currentUrn.target.height_mm, PARAM_BOUNDS))
+    } catch (err: any) {
+      console.error(err)
+      alert(`Auto-frame error: ${err.message || err}`)
+    } finally {
+      setFraming(false)
+    }
   }
 
-  const currentUrn: any = (urnId && (urns as any)[urnId]) || null
   const dMin = currentUrn?.target?.depth_mm_min ?? 0.8
   const dMax = currentUrn?.target?.depth_mm_max ?? 2.5
 
+  // In a collage every photo has its own placement and mask.
+  const slot = collage ? params.slots[Math.min(activeSlot, params.slots.length - 1)] : null
+  const slotIndex = slot ? params.slots.indexOf(slot) : -1
+  const setSlot = (patch: Partial<CollageSlot>) =>
+    setParams({ slots: params.slots.map((s, i) => (i === slotIndex ? { ...s, ...patch } : s)) })
+  const mask: MaskSettings = slot ?? params
+  const setMask = (patch: Partial<MaskSettings>) => (slot ? setSlot(patch) : setParams(patch))
+  const maskKey = slot ? `params.slots.${slotIndex}` : 'params'
+  const maskImage = slotIndex > 0 ? collageImages[slotIndex - 1] : imageDataUrl
+
+  const setTextBlock = (index: number, patch: Partial<TextBlock>) =>
+    setParams({ textBlocks: params.textBlocks.map((b, i) => (i === index ? { ...b, ...patch } : b)) })
+
+  // New lines go under the previous one, far enough apart that their panels do not overlap.
+  const addTextBlock = () => {
+    const last = params.textBlocks[params.textBlocks.length - 1]
+    const sizeMm = last ? Math.max(PARAM_BOUNDS.textSize.min, last.sizeMm - 1) : 7
+    const heightMm = (currentUrn?.target.height_mm ?? 100) * params.scale
+    const block: TextBlock = {
+      text: '',
+      font: last?.font ?? 'serif',
+      sizeMm,
+      align: 'center',
+      style: last?.style ?? 'raised',
+      depthMm: Math.min(params.depth, last?.depthMm ?? 1),
+      y: last ? Math.min(0.95, last.y + ((last.sizeMm + sizeMm) * 0.9) / heightMm) : 0.75,
+    }
+    setParams({ textBlocks: [...params.textBlocks, block] })
+  }
+
+  // The wizard.  Only the current step is shown and Next checks it first.
+  // The step is mirrored in the URL (?step=design) so it can be linked and
+  // the browser's back button moves between steps.
+  const draft: WizardDraft = useMemo(
+    () => ({
+      imageDataUrl,
+      collageImages,
+      urnId,
+      params,
+      customer: { name: customerName, email: customerEmail, address: customerAddress },
+    }),
+    [imageDataUrl, collageImages, urnId, params, customerName, customerEmail, customerAddress]
+  )
+  // Steps after this one are disabled in the step list.
+  const furthest = useMemo(() => reachableStep(LAST_STEP, draft, urnsById, fonts), [draft, urnsById, fonts])
+  const [hydrated, setHydrated] = useState(false)
+  const headingRef = useRef<HTMLHeadingElement>(null)
+  // Whether the next step change came from the customer (focus its heading)
+  // and whether it gets its own history entry.
+  const moved = useRef(false)
+  const urlMode = useRef<'push' | 'replace'>('replace')
+  const reachable = useRef((s: WizardStep) => s)
+  reachable.current = (s) => reachableStep(s, draft, urnsById, fonts)
+
+  // Open the step in the URL, or the saved one, once the draft has loaded.
+  useEffect(() => {
+    const open = () => {
+      const saved = useAppStore.getState()
+      const requested = stepFromSlug(new URLSearchParams(window.location.search).get('step')) ?? saved.step
+      // Contact details are not saved with the draft.
+      setStep(reachableStep(requested, { ...saved, customer: { name: '', email: '', address: '' } }, {}))
+      setHydrated(true)
+    }
+    if (useAppStore.persist.hasHydrated()) open()
+    else return useAppStore.persist.onFinishHydration(open)
+  }, [setStep])
+
+  useEffect(() => {
+    const onPop = () => {
+      moved.current = true
+      urlMode.current = 'replace'
+      setStep(reachable.current(stepFromSlug(new URLSearchParams(window.location.search).get('step')) ?? 1))
+    }
+    window.addEventListener('popstate', onPop)
+    return () => window.removeEventListener('popstate', onPop)
+  }, [setStep])
+
+  // A slider drag, brush stroke or typed line is one undo step.  A pointer
+  // gesture runs from pointerdown to pointerup; a field's runs from focus to
+  // its native change event or blur.  Other changes (a button, a checkbox,
+  // a slider moved with the keyboard) are a step each.
+  const designControls = useRef<HTMLElement>(null)
+  useEffect(() => {
+    const el = designControls.current
+    if (!el) return
+    let pointer = false
+    const onPointerDown = (e: PointerEvent) => {
+      if (isTextField(e.target as HTMLElement)) return
+      endEdit()
+      pointer = true
+      beginEdit()
+    }
+    const onPointerUp = () => {
+      if (!pointer) return
+      pointer = false
+      endEdit()
+    }
+    const onFocusIn = (e: FocusEvent) => {
+      if (!pointer && isTextField(e.target as HTMLElement)) beginEdit()
+    }
+    const onFieldDone = () => {
+      if (!pointer) endEdit()
+    }
+    el.addEventListener('pointerdown', onPointerDown)
+    el.addEventListener('focusin', onFocusIn)
+    el.addEventListener('change', onFieldDone)
+    el.addEventListener('focusout', onFieldDone)
+    window.addEventListener('pointerup', onPointerUp)
+    window.addEventListener('pointercancel', onPointerUp)
+    return () => {
+      el.removeEventListener('pointerdown', onPointerDown)
+      el.removeEventListener('focusin', onFocusIn)
+      el.removeEventListener('change', onFieldDone)
+      el.removeEventListener('focusout', onFieldDone)
+      window.removeEventListener('pointerup', onPointerUp)
+      window.removeEventListener('pointercancel', onPointerUp)
+      endEdit()
+    }
+  }, [hydrated, step, beginEdit, endEdit])
+
+  useEffect(() => {
+    if (!hydrated) return
+    const url = new URL(window.location.href)
+    if (url.searchParams.get('step') !== stepSlug(step)) {
+      url.searchParams.set('step', stepSlug(step))
+      window.history[urlMode.current === 'push' ? 'pushState' : 'replaceState'](null, '', url)
+    }
+    urlMode.current = 'push'
+    if (moved.current) headingRef.current?.focus()
+    moved.current = false
+  }, [hydrated, step])
+
+  // Move to `target`, or to the first step before it that still needs
+  // something, with that step's problems shown.
+  const goTo = (target: WizardStep) => {
+    const to = reachableStep(target, draft, urnsById, fonts)
+    setErrors(to < target ? stepErrors(to, draft, urnsById, fonts) : {})
+    if (to === step) return
+    moved.current = true
+    setStep(to)
+  }
+
+  // Errors from submitting go back to the earliest step that has one.
+  const showErrors = (fields: Record<string, string>) => {
+    setErrors(fields)
+    const first = Math.min(...Object.keys(fields).map(stepOfField))
+    if (first < step) {
+      moved.current = true
+      setStep(first as WizardStep)
+    }
+  }
+  const stepHasErrors = Object.keys(errors).some((key) => stepOfField(key) === step)
+
+  const shareDesign = async () => {
+    if (!urnId || !imageDataUrl) return
+    const payload = { urnId, params, imageDataUrl, collageImageDataUrls: collageImages }
+    const check = designSchemaFor(urnsById, fonts).safeParse(payload)
+    if (!check.success) {
+      setErrors(fieldErrors(check.error))
+      return
+    }
+    setErrors({})
+    setSharing(true)
+    try {
+      const res = await fetch('/api/designs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      })
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        if (json?.fields) setErrors(json.fields)
+        throw new Error(json?.error || 'Failed to share the design')
+      }
+      addSharedDesign(json.design_id)
+      setShareUrl(new URL(json.url, window.location.origin).toString())
+    } catch (err: any) {
+      console.error(err)
+      alert(`Share error: ${err.message || err}`)
+    } finally {
+      setSharing(false)
+    }
+  }
+
+  // Signed-in customers can keep the design on their account and pick it
+  // up on another device from /account.
+  const storeDraft = async () => {
+    setSavingDraft(true)
+    try {
+      const draft = await saveDraft()
+      setDraftSavedAt(draft.updatedAt)
+    } catch (err: any) {
+      console.error(err)
+      alert(`Save error: ${err.message || err}`)
+    } finally {
+      setSavingDraft(false)
+    }
+  }
+
   const submit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!urnId || !imageDataUrl) {
-      alert('Please upload an image and choose an urn first.')
+      goTo(LAST_STEP)
       return
     }
+    const payload = {
+      urnId,
+      params,
+      imageDataUrl,
+      collageImageDataUrls: collageImages,
+      photoMeta: photoMeta.slice(0, 1 + collageImages.length),
+      customer: {
+        name: customerName.trim(),
+        email: customerEmail.trim(),
+        address: customerAddress.trim()
+      },
+      options,
+      face: useAppStore.getState().face,
+      quoteId: quote?.id
+    }
+    // Same schema as the server, so most problems show up before posting.
+    const check = submitSchemaFor(urnsById, fonts).safeParse(payload)
+    if (!check.success) {
+      showErrors(fieldErrors(check.error))
+      return
+    }
+    // The server refuses these too; the preview has already measured them.
+    const blocker = printReport?.issues.find((i) => i.severity === 'error')
+    if (blocker) {
+      showErrors({ printability: blocker.message })
+      return
+    }
+    setErrors({})
     setSubmitting(true)
     try {
       const res = await fetch('/api/submit', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          urnId,
-          params,
-          imageDataUrl,
-          customer: {
-            name: customerName.trim(),
-            address: customerAddress.trim()
-          }
-        })
+        body: JSON.stringify(payload)
       })
       const json = await res.json().catch(() => ({}))
-      if (!res.ok) throw new Error(json?.error || 'Failed to submit')
-      alert('Submitted! We’ll follow up with payment & download links.')
-      // Reset or advance step
+      if (!res.ok) {
+        if (json?.fields) showErrors(json.fields)
+        // The quote expired or prices moved: show the new price before retrying.
+        if (res.status === 409) setQuoteRefresh((n) => n + 1)
+        throw new Error(json?.error || 'Failed to submit')
+      }
+      // The ordered design is no longer a draft; the next one starts from the first step.
+      const { draftId } = useAppStore.getState()
+      if (draftId) deleteDraft(draftId).catch((err) => console.error(err))
       setStep(1)
       setImageDataUrl(null as any)
-      setUrnId(undefined as any)
+      setCollageImages(collageImages.map(() => null))
+      setPhotoMeta([])
+      setUrnId(null)
       setCustomerName('')
+      setCustomerEmail('')
       setCustomerAddress('')
+
+      const checkout = await fetch('/api/checkout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderId: json.order_id })
+      })
+      const session = await checkout.json().catch(() => ({}))
+      if (!checkout.ok || !session?.url) {
+        // The order exists; send them to its page rather than back to an empty form.
+        alert(`Order saved, but checkout could not be started: ${session?.error || checkout.statusText}`)
+        window.location.href = `/orders/${json.order_id}`
+        return
+      }
+      window.location.href = session.url
     } catch (err: any) {
       console.error(err)
       alert(`Submit error: ${err.message || err}`)
@@ -65,188 +580,1011 @@ export default function Home() {
     }
   }
 
+  const priceTable = priced && (
+    <table className={`w-full text-xs ${quote ? '' : 'opacity-50'}`}>
+      <tbody>
+        {priced.quote.lines.map((line) => (
+          <tr key={line.code}>
+            <td className="py-0.5">{line.label}</td>
+            <td className="py-0.5 text-right">{formatPrice(line.amount_cents, priced.quote.currency)}</td>
+          </tr>
+        ))}
+        <tr className="border-t font-medium text-sm">
+          <td className="pt-1">Total</td>
+          <td className="pt-1 text-right">{formatPrice(priced.quote.amount_cents, priced.quote.currency)}</td>
+        </tr>
+      </tbody>
+    </table>
+  )
+
+  const stepHeading = (title: string) => (
+    <h2 id="step-heading" ref={headingRef} tabIndex={-1} className="text-lg font-medium outline-none">
+      {step}) {title}
+    </h2>
+  )
+
+  // Back, the step's own forward button, and a notice for screen readers
+  // when Next found something to fix.
+  const stepFooter = (forward: React.ReactNode) => (
+    <div className="mt-4 flex flex-wrap items-center gap-3 border-t pt-3">
+      <button
+        type="button"
+        className="px-4 py-2 rounded-md border disabled:opacity-40"
+        disabled={step === 1}
+        onClick={() => goTo((step - 1) as WizardStep)}
+      >
+        Back
+      </button>
+      {forward}
+      {stepHasErrors && (
+        <p role="alert" className="text-sm text-red-700">
+          Please correct the highlighted fields
+        </p>
+      )}
+    </div>
+  )
+
+  const nextButton = (type: 'button' | 'submit' = 'button') => (
+    <button
+      type={type}
+      className="px-4 py-2 rounded-md bg-black text-white"
+      onClick={type === 'button' ? () => goTo((step + 1) as WizardStep) : undefined}
+    >
+      Next
+    </button>
+  )
+
+  const finishLabel = finishesFor(product).find((f) => f.id === options.finish)?.label ?? options.finish
+  const zoneLabel = PRICING_RULES.shipping.find((z) => z.id === options.shipping)?.label ?? options.shipping
+
   return (
     <main className="mx-auto max-w-5xl p-4 md:p-8 space-y-6">
-      <h1 className="text-2xl font-semibold">Photo → Relief → Urn Preview</h1>
-
-      {/* Step 1: Upload */}
-      <section className="rounded-xl border p-4">
-        <div className="flex items-center justify-between">
-          <h2 className="text-lg font-medium">1) Upload Photo</h2>
-          <button
-            className="px-3 py-1.5 rounded-md border text-sm"
-            onClick={() => fileRef.current?.click()}
-          >
-            Choose Image
-          </button>
-          <input
-            ref={fileRef}
-            type="file"
-            accept="image/*"
-            className="hidden"
-            onChange={(e) => {
-              const f = e.target.files?.[0]
-              if (f) onFile(f)
-            }}
-          />
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h1 className="text-2xl font-semibold">Photo → Relief → Urn Preview</h1>
+        <div className="flex items-center gap-3">
+          {signedInAs && hydrated && (urnId || imageDataUrl) && (
+            <>
+              {draftSavedAt && (
+                <span className="text-xs text-neutral-500">Saved {new Date(draftSavedAt).toLocaleTimeString()}</span>
+              )}
+              <button
+                type="button"
+                disabled={savingDraft}
+                className="px-3 py-1.5 rounded-md border text-sm disabled:opacity-60"
+                onClick={storeDraft}
+              >
+                {savingDraft ? 'Saving…' : 'Save draft'}
+              </button>
+            </>
+          )}
+          <a className="text-sm underline" href={signedInAs ? '/account' : '/login?next=/account'}>
+            {signedInAs ? 'Your account' : 'Sign in'}
+          </a>
         </div>
-        {imageDataUrl ? (
-          <p className="mt-2 text-sm text-green-700">Image loaded ✓</p>
-        ) : (
-          <p className="mt-2 text-sm text-neutral-600">No image selected yet.</p>
-        )}
-      </section>
-
-      {/* Step 2: Choose urn */}
-      <section className="rounded-xl border p-4">
-        <h2 className="text-lg font-medium mb-3">2) Choose Urn</h2>
-        <div className="flex gap-3">
-          <button
-            className={`px-3 py-2 rounded-md border ${urnId === 'urn_vertical' ? 'bg-black text-white' : ''}`}
-            onClick={() => setUrnId('urn_vertical' as any)}
-          >
-            {((urns as any).urn_vertical?.label) || 'Vertical Urn'}
-          </button>
-          <button
-            className={`px-3 py-2 rounded-md border ${urnId === 'urn_horizontal' ? 'bg-black text-white' : ''}`}
-            onClick={() => setUrnId('urn_horizontal' as any)}
-          >
-            {((urns as any).urn_horizontal?.label) || 'Horizontal Urn'}
-          </button>
+      </div>
+
+      {paymentNotice && (
+        <div
+          className={`rounded-xl border p-4 text-sm ${
+            paymentNotice.result === 'success' ? 'border-green-200 bg-green-50 text-green-800' : 'border-amber-200 bg-amber-50 text-amber-800'
+          }`}
+        >
+          {paymentNotice.result === 'success'
+            ? `Payment received for order ${paymentNotice.orderId}. We’re preparing your relief now.`
+            : `Payment for order ${paymentNotice.orderId} was not completed. Your design is saved; contact us to finish checkout.`}{' '}
+          <a className="underline" href={`/orders/${paymentNotice.orderId}`}>
+            Track your order
+          </a>
         </div>
-        {urnId ? (
-          <p className="mt-2 text-sm text-green-700">Selected: {(urns as any)[urnId]?.label} ✓</p>
-        ) : (
-          <p className="mt-2 text-sm text-neutral-600">No urn selected yet.</p>
-        )}
-      </section>
-
-      {/* Step 3: Preview & controls */}
-      <section className="rounded-xl border p-4">
-        <h2 className="text-lg font-medium mb-3">3) Adjust Relief & Preview</h2>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div className="order-2 md:order-1 space-y-3">
-            <div>
-              <label className="block text-sm font-medium">Scale</label>
-              <input
-                type="range"
-                min={0.5}
-                max={1.5}
-                step={0.01}
+      )}
+
+      <nav aria-label="Order steps">
+        <ol className="flex flex-wrap gap-2 text-sm">
+          {WIZARD_STEPS.map((s) => (
+            <li key={s.step}>
+              <button
+                type="button"
+                disabled={!hydrated || s.step > furthest}
+                aria-current={s.step === step ? 'step' : undefined}
+                className={`px-3 py-1.5 rounded-md border disabled:opacity-40 ${s.step === step ? 'bg-black text-white' : ''}`}
+                onClick={() => goTo(s.step)}
+              >
+                {s.step}) {s.step === 2 && product === 'lithophane' ? 'Panel' : s.label}
+              </button>
+            </li>
+          ))}
+        </ol>
+      </nav>
+
+      {!hydrated && <p className="text-sm text-neutral-600">Loading your design…</p>}
+
+      {hydrated && step === 1 && (
+        <section className="rounded-xl border p-4" aria-labelledby="step-heading">
+          <div className="flex items-center justify-between">
+            {stepHeading('Upload Photo')}
+            <button
+              type="button"
+              className="px-3 py-1.5 rounded-md border text-sm"
+              onClick={() => fileRef.current?.click()}
+            >
+              Choose Image
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="image/*,.heic,.heif"
+              className="hidden"
+              aria-label="Photo"
+              onChange={(e) => {
+                const f = e.target.files?.[0]
+                if (f) onFile(f)
+              }}
+            />
+          </div>
+          <div aria-live="polite">
+            {readingPhoto ? (
+              <p className="mt-2 text-sm text-neutral-600">Reading photo…</p>
+            ) : imageDataUrl ? (
+              <p className="mt-2 text-sm text-green-700">Image loaded ✓</p>
+            ) : (
+              <p className="mt-2 text-sm text-neutral-600">No image selected yet.</p>
+            )}
+          </div>
+          {resolutionWarnings[0] && <p className="mt-1 text-xs text-amber-800">{resolutionWarnings[0]}</p>}
+          {fieldError('imageDataUrl')}
+          <div className="mt-3 space-y-2">
+            <span id="layout-label" className="block text-sm font-medium">
+              Layout
+            </span>
+            <div role="group" aria-labelledby="layout-label" className="flex flex-wrap gap-2">
+              {COLLAGE_LAYOUTS.map((layout) => (
+                <button
+                  key={layout}
+                  type="button"
+                  aria-pressed={params.layout === layout}
+                  className={`px-2 py-1 rounded-md border text-xs ${params.layout === layout ? 'bg-black text-white' : ''}`}
+                  onClick={() => setLayout(layout)}
+                >
+                  {LAYOUT_LABELS[layout]}
+                </button>
+              ))}
+            </div>
+            {collage && (
+              <ul className="space-y-1 text-sm">
+                {collageImages.map((img, i) => (
+                  <li key={i}>
+                    <div className="flex items-center gap-2">
+                      <span>Photo {i + 2}:</span>
+                      {img ? (
+                        <span className="text-green-700">loaded ✓</span>
+                      ) : (
+                        <span className="text-neutral-600">not selected</span>
+                      )}
+                      <label className="ml-auto cursor-pointer px-2 py-1 rounded-md border text-xs focus-within:ring-2 focus-within:ring-black">
+                        Choose<span className="sr-only"> photo {i + 2}</span>
+                        <input
+                          type="file"
+                          accept="image/*,.heic,.heif"
+                          className="sr-only"
+                          onChange={(e) => {
+                            const f = e.target.files?.[0]
+                            if (f) onSlotFile(i + 2, f)
+                          }}
+                        />
+                      </label>
+                    </div>
+                    {resolutionWarnings[i + 1] && (
+                      <p className="mt-1 text-xs text-amber-800">{resolutionWarnings[i + 1]}</p>
+                    )}
+                    {fieldError(`collageImageDataUrls.${i}`)}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {fieldError('collageImageDataUrls')}
+          </div>
+          {stepFooter(nextButton())}
+        </section>
+      )}
+
+      {hydrated && step === 2 && (
+        <section className="rounded-xl border p-4" aria-labelledby="step-heading">
+          <div className="mb-3">{stepHeading(`Choose ${product === 'lithophane' ? 'Panel' : 'Urn'}`)}</div>
+          <div role="group" aria-label="Product" className="flex gap-2 mb-3">
+            {(Object.keys(PRODUCT_LABELS) as ProductMode[]).map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                aria-pressed={product === mode}
+                className={`px-3 py-1.5 rounded-md border text-sm ${product === mode ? 'bg-black text-white' : ''}`}
+                onClick={() => chooseProduct(mode)}
+              >
+                {PRODUCT_LABELS[mode]}
+              </button>
+            ))}
+          </div>
+          {product === 'lithophane' && (
+            <p className="mb-3 text-sm text-neutral-600">
+              A backlit panel: thin where the photo is bright, thick where it is dark, so the picture appears when light
+              shines through it.
+            </p>
+          )}
+          {urns ? (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {urns.filter((u) => productOf(u) === product).map((u) => (
+                <button
+                  key={u.id}
+                  type="button"
+                  aria-pressed={urnId === u.id}
+                  className={`rounded-md border p-2 text-left ${urnId === u.id ? 'border-black ring-2 ring-black' : ''}`}
+                  onClick={() => setUrnId(u.id)}
+                >
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={u.thumbnail} alt="" className="aspect-square w-full object-contain bg-neutral-100 rounded" />
+                  <span className="mt-1 block text-sm font-medium">{u.label}</span>
+                  <span className="block text-xs text-neutral-600">{formatPrice(u.price_cents, u.currency)}</span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-neutral-600">{urnsError ?? 'Loading urns…'}</p>
+          )}
+          {urnId ? (
+            <p className="mt-2 text-sm text-green-700">Selected: {currentUrn?.label ?? urnId} ✓</p>
+          ) : (
+            <p className="mt-2 text-sm text-neutral-600">No {product === 'lithophane' ? 'panel' : 'urn'} selected yet.</p>
+          )}
+          {fieldError('urnId')}
+          {stepFooter(nextButton())}
+        </section>
+      )}
+
+      {hydrated && step === 3 && (
+        <section ref={designControls} className="rounded-xl border p-4" aria-labelledby="step-heading">
+          <div className="flex items-center justify-between mb-3">
+            {stepHeading(`Adjust ${lithophane ? 'Panel' : 'Relief'} & Preview`)}
+            <div className="flex gap-2">
+              <button
+                type="button"
+                className="px-2 py-1 rounded-md border text-xs disabled:opacity-40"
+                disabled={!past.length}
+                onClick={undo}
+                title="Undo (Ctrl+Z)"
+                aria-keyshortcuts="Control+Z"
+              >
+                Undo
+              </button>
+              <button
+                type="button"
+                className="px-2 py-1 rounded-md border text-xs disabled:opacity-40"
+                disabled={!future.length}
+                onClick={redo}
+                title="Redo (Ctrl+Shift+Z)"
+                aria-keyshortcuts="Control+Shift+Z"
+              >
+                Redo
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="order-2 md:order-1 space-y-3">
+              {!collage && !lithophane && (
+                <div>
+                  <button
+                    type="button"
+                    className="px-3 py-1.5 rounded-md border text-sm disabled:opacity-40"
+                    disabled={!imageDataUrl || !currentUrn || framing}
+                    onClick={autoFrame}
+                    title="Centre the subject and level the horizon"
+                  >
+                    {framing ? 'Framing…' : 'Auto-frame'}
+                  </button>
+                  <p className="mt-1 text-xs text-neutral-600">
+                    Finds the subject and any tilt in the photo and sets the sliders below; adjust them as you like.
+                  </p>
+                </div>
+              )}
+              <Slider
+                label={`Scale (${params.scale.toFixed(2)}×)`}
+                {...PARAM_BOUNDS.scale}
                 value={params.scale}
-                onChange={(e) => setParams({ scale: parseFloat(e.target.value) })}
+                valueText={`${params.scale.toFixed(2)} times`}
+                onChange={(scale) => setParams({ scale })}
+                error={errorFor('params.scale')}
               />
-            </div>
-            <div className="grid grid-cols-2 gap-3">
-              <div>
-                <label className="block text-sm font-medium">Offset X (mm)</label>
-                <input
-                  type="range"
-                  min={-50}
-                  max={50}
-                  step={0.5}
-                  value={params.offsetX}
-                  onChange={(e) => setParams({ offsetX: parseFloat(e.target.value) })}
-                />
+              {/* Offset and rotation place the relief on the urn; a panel is the whole product. */}
+              {!lithophane && (
+                <>
+                  <div className="grid grid-cols-2 gap-3">
+                    <Slider
+                      label="Offset X (mm)"
+                      {...PARAM_BOUNDS.offsetX}
+                      value={params.offsetX}
+                      valueText={`${params.offsetX} mm`}
+                      onChange={(offsetX) => setParams({ offsetX })}
+                      error={errorFor('params.offsetX')}
+                    />
+                    <Slider
+                      label="Offset Y (mm)"
+                      {...PARAM_BOUNDS.offsetY}
+                      value={params.offsetY}
+                      valueText={`${params.offsetY} mm`}
+                      onChange={(offsetY) => setParams({ offsetY })}
+                      error={errorFor('params.offsetY')}
+                    />
+                  </div>
+                  <Slider
+                    label="Rotation (°)"
+                    {...PARAM_BOUNDS.rotation}
+                    value={params.rotation}
+                    valueText={`${params.rotation} degrees`}
+                    onChange={(rotation) => setParams({ rotation })}
+                    error={errorFor('params.rotation')}
+                  />
+                </>
+              )}
+              {lithophane ? (
+                <>
+                  <Slider
+                    label={`Thinnest, for highlights (${params.thicknessMin.toFixed(1)} mm)`}
+                    min={lithophane.thickness_min_mm}
+                    max={lithophane.thickness_max_mm}
+                    step={PARAM_BOUNDS.thicknessMin.step}
+                    value={params.thicknessMin}
+                    valueText={`${params.thicknessMin.toFixed(1)} mm`}
+                    onChange={(thicknessMin) => setParams({ thicknessMin })}
+                    error={errorFor('params.thicknessMin')}
+                  />
+                  <Slider
+                    label={`Thickest, for shadows (${params.thicknessMax.toFixed(1)} mm)`}
+                    min={lithophane.thickness_min_mm}
+                    max={lithophane.thickness_max_mm}
+                    step={PARAM_BOUNDS.thicknessMax.step}
+                    value={params.thicknessMax}
+                    valueText={`${params.thicknessMax.toFixed(1)} mm`}
+                    onChange={(thicknessMax) => setParams({ thicknessMax })}
+                    error={errorFor('params.thicknessMax')}
+                    hint={
+                      <>
+                        Range {lithophane.thickness_min_mm}–{lithophane.thickness_max_mm} mm, inside a{' '}
+                        {lithophane.frame_mm} mm frame
+                      </>
+                    }
+                  />
+                </>
+              ) : (
+                <>
+                  <Slider
+                    label={`Depth (${params.depth.toFixed(1)} mm)`}
+                    min={dMin}
+                    max={dMax}
+                    step={0.1}
+                    value={params.depth}
+                    valueText={`${params.depth.toFixed(1)} mm`}
+                    onChange={(depth) => setParams({ depth })}
+                    error={errorFor('params.depth')}
+                    hint={`Range ${dMin}–${dMax} mm`}
+                  />
+                  <div className="flex items-center gap-2">
+                    <input
+                      id="invert"
+                      type="checkbox"
+                      checked={!!params.invert}
+                      onChange={(e) => setParams({ invert: e.target.checked })}
+                    />
+                    <label htmlFor="invert" className="text-sm">Invert relief</label>
+                  </div>
+                </>
+              )}
+              {slot && (
+                <div className="rounded-md border p-3 space-y-3">
+                  <div role="group" aria-label="Collage photo to adjust" className="flex flex-wrap gap-2">
+                    {params.slots.map((_, i) => (
+                      <button
+                        key={i}
+                        type="button"
+                        aria-pressed={i === slotIndex}
+                        className={`px-2 py-1 rounded-md border text-xs ${i === slotIndex ? 'bg-black text-white' : ''}`}
+                        onClick={() => setActiveSlot(i)}
+                      >
+                        Photo {i + 1}
+                      </button>
+                    ))}
+                  </div>
+                  <Slider
+                    label={`Zoom (${slot.scale.toFixed(2)}×)`}
+                    {...PARAM_BOUNDS.slotScale}
+                    value={slot.scale}
+                    valueText={`${slot.scale.toFixed(2)} times`}
+                    onChange={(scale) => setSlot({ scale })}
+                    error={errorFor(`${maskKey}.scale`)}
+                  />
+                  <div className="grid grid-cols-2 gap-3">
+                    <Slider
+                      label="Pan X (mm)"
+                      {...PARAM_BOUNDS.offsetX}
+                      value={slot.offsetX}
+                      valueText={`${slot.offsetX} mm`}
+                      onChange={(offsetX) => setSlot({ offsetX })}
+                      error={errorFor(`${maskKey}.offsetX`)}
+                    />
+                    <Slider
+                      label="Pan Y (mm)"
+                      {...PARAM_BOUNDS.offsetY}
+                      value={slot.offsetY}
+                      valueText={`${slot.offsetY} mm`}
+                      onChange={(offsetY) => setSlot({ offsetY })}
+                      error={errorFor(`${maskKey}.offsetY`)}
+                    />
+                  </div>
+                  <Slider
+                    label={`Rotation (${slot.rotation}°)`}
+                    {...PARAM_BOUNDS.slotRotation}
+                    value={slot.rotation}
+                    valueText={`${slot.rotation} degrees`}
+                    onChange={(rotation) => setSlot({ rotation })}
+                    error={errorFor(`${maskKey}.rotation`)}
+                  />
+                </div>
+              )}
+              {fieldError('params.slots')}
+              <div className="rounded-md border p-3 space-y-3">
+                <span id="mask-label" className="block text-sm font-medium">
+                  {slot ? `Photo ${slotIndex + 1} mask` : 'Photo mask'}
+                </span>
+                <div role="group" aria-labelledby="mask-label" className="flex flex-wrap gap-2">
+                  {MASK_SHAPES.map((shape) => (
+                    <button
+                      key={shape}
+                      type="button"
+                      aria-pressed={mask.maskShape === shape}
+                      className={`px-2 py-1 rounded-md border text-xs ${mask.maskShape === shape ? 'bg-black text-white' : ''}`}
+                      onClick={() => setMask({ maskShape: shape })}
+                    >
+                      {MASK_LABELS[shape]}
+                    </button>
+                  ))}
+                </div>
+                {mask.maskShape !== 'none' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <Slider
+                      label={`Feather (${Math.round(mask.maskFeather * 100)}%)`}
+                      {...PARAM_BOUNDS.maskFeather}
+                      value={mask.maskFeather}
+                      valueText={`${Math.round(mask.maskFeather * 100)}%`}
+                      onChange={(maskFeather) => setMask({ maskFeather })}
+                      error={errorFor(`${maskKey}.maskFeather`)}
+                    />
+                    <Slider
+                      label={`Raised rim (${mask.maskRim > 0 ? `${Math.round(mask.maskRim * 100)}%` : 'off'})`}
+                      {...PARAM_BOUNDS.maskRim}
+                      value={mask.maskRim}
+                      valueText={mask.maskRim > 0 ? `${Math.round(mask.maskRim * 100)}%` : 'off'}
+                      onChange={(maskRim) => setMask({ maskRim })}
+                      error={errorFor(`${maskKey}.maskRim`)}
+                    />
+                  </div>
+                )}
+                {mask.maskShape === 'freehand' && (
+                  maskImage ? (
+                    <div className="space-y-2">
+                      <Slider
+                        label="Brush size"
+                        {...PARAM_BOUNDS.maskBrush}
+                        value={brush}
+                        valueText={`${Math.round(brush * 100)}% of the photo`}
+                        onChange={setBrush}
+                      />
+                      <MaskPainter
+                        image={maskImage}
+                        strokes={mask.maskStrokes}
+                        brush={brush}
+                        onChange={(maskStrokes) => setMask({ maskStrokes })}
+                      />
+                      <p className="text-xs text-neutral-600">Paint over the parts of the photo to keep.</p>
+                      {fieldError(`${maskKey}.maskStrokes`)}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-neutral-600">Upload a photo to paint a mask.</p>
+                  )
+                )}
               </div>
-              <div>
-                <label className="block text-sm font-medium">Offset Y (mm)</label>
-                <input
-                  type="range"
-                  min={-50}
-                  max={50}
-                  step={0.5}
-                  value={params.offsetY}
-                  onChange={(e) => setParams({ offsetY: parseFloat(e.target.value) })}
-                />
+              <div className="rounded-md border p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="block text-sm font-medium">Text</span>
+                  <button
+                    type="button"
+                    className="px-2 py-1 rounded-md border text-xs disabled:opacity-60"
+                    disabled={params.textBlocks.length >= MAX_TEXT_BLOCKS}
+                    onClick={addTextBlock}
+                  >
+                    Add line
+                  </button>
+                </div>
+                {params.textBlocks.length === 0 && (
+                  <p className="text-xs text-neutral-600">Add a name, dates or an epitaph to the relief.</p>
+                )}
+                {params.textBlocks.map((block, i) => {
+                  const key = `params.textBlocks.${i}`
+                  return (
+                    <div key={i} role="group" aria-label={`Text line ${i + 1}`} className="space-y-2 border-t pt-3 first-of-type:border-t-0">
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={block.text}
+                          onChange={(e) => setTextBlock(i, { text: e.target.value })}
+                          className="w-full rounded-md border px-2 py-1 text-sm"
+                          placeholder={i === 0 ? 'Name' : 'Dates or epitaph'}
+                          aria-label={`Text line ${i + 1}`}
+                          aria-invalid={errorFor(`${key}.text`) ? true : undefined}
+                        />
+                        <button
+                          type="button"
+                          className="px-2 py-1 rounded-md border text-xs"
+                          aria-label={`Remove text line ${i + 1}`}
+                          onClick={() => setParams({ textBlocks: params.textBlocks.filter((_, j) => j !== i) })}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                      {fieldError(`${key}.text`)}
+                      <div className="grid grid-cols-3 gap-2 text-sm">
+                        <select
+                          className="rounded-md border px-1 py-1"
+                          aria-label="Font"
+                          value={block.font}
+                          onChange={(e) => setTextBlock(i, { font: e.target.value as FontId })}
+                        >
+                          {FONT_IDS.map((id) => (
+                            <option key={id} value={id}>
+                              {FONTS[id].label}
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          className="rounded-md border px-1 py-1"
+                          aria-label="Alignment"
+                          value={block.align}
+                          onChange={(e) => setTextBlock(i, { align: e.target.value as TextBlock['align'] })}
+                        >
+                          {TEXT_ALIGNS.map((a) => (
+                            <option key={a} value={a}>
+                              {a}
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          className="rounded-md border px-1 py-1"
+                          aria-label="Style"
+                          value={block.style}
+                          onChange={(e) => setTextBlock(i, { style: e.target.value as TextBlock['style'] })}
+                        >
+                          {TEXT_STYLES.map((s) => (
+                            <option key={s} value={s}>
+                              {s}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="grid grid-cols-3 gap-2">
+                        <Slider
+                          compact
+                          label={`Size (${block.sizeMm} mm)`}
+                          {...PARAM_BOUNDS.textSize}
+                          value={block.sizeMm}
+                          valueText={`${block.sizeMm} mm`}
+                          onChange={(sizeMm) => setTextBlock(i, { sizeMm })}
+                          error={errorFor(`${key}.sizeMm`)}
+                        />
+                        <Slider
+                          compact
+                          label={`${block.style === 'raised' ? 'Height' : 'Depth'} (${block.depthMm} mm)`}
+                          {...PARAM_BOUNDS.textDepth}
+                          max={Math.min(PARAM_BOUNDS.textDepth.max, params.depth)}
+                          value={block.depthMm}
+                          valueText={`${block.depthMm} mm`}
+                          onChange={(depthMm) => setTextBlock(i, { depthMm })}
+                          error={errorFor(`${key}.depthMm`)}
+                        />
+                        <Slider
+                          compact
+                          label="Position"
+                          {...PARAM_BOUNDS.textY}
+                          value={block.y}
+                          valueText={`${Math.round(block.y * 100)}% down`}
+                          onChange={(y) => setTextBlock(i, { y })}
+                          error={errorFor(`${key}.y`)}
+                        />
+                      </div>
+                    </div>
+                  )
+                })}
+                {fieldError('params.textBlocks')}
               </div>
+              <details className="rounded-md border p-3">
+                <summary className="cursor-pointer text-sm font-medium">Advanced relief settings</summary>
+                <div className="mt-3 space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <Slider
+                      label={`Shadow clip (${Math.round(params.clipLow * 100)}%)`}
+                      {...PARAM_BOUNDS.clipLow}
+                      value={params.clipLow}
+                      valueText={`${Math.round(params.clipLow * 100)}%`}
+                      onChange={(clipLow) => setParams({ clipLow })}
+                      error={errorFor('params.clipLow')}
+                    />
+                    <Slider
+                      label={`Highlight clip (${Math.round(params.clipHigh * 100)}%)`}
+                      {...PARAM_BOUNDS.clipHigh}
+                      value={params.clipHigh}
+                      valueText={`${Math.round(params.clipHigh * 100)}%`}
+                      onChange={(clipHigh) => setParams({ clipHigh })}
+                      error={errorFor('params.clipHigh')}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <Slider
+                      label={`Detail radius (${params.blurRadius}px)`}
+                      {...PARAM_BOUNDS.blurRadius}
+                      value={params.blurRadius}
+                      valueText={`${params.blurRadius} pixels`}
+                      onChange={(blurRadius) => setParams({ blurRadius: Math.round(blurRadius) })}
+                      error={errorFor('params.blurRadius')}
+                    />
+                    <Slider
+                      label={`Sharpen (${params.sharpen.toFixed(1)})`}
+                      {...PARAM_BOUNDS.sharpen}
+                      value={params.sharpen}
+                      valueText={params.sharpen.toFixed(1)}
+                      onChange={(sharpen) => setParams({ sharpen })}
+                      error={errorFor('params.sharpen')}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <Slider
+                      label={`Gamma (${params.gamma.toFixed(2)})`}
+                      {...PARAM_BOUNDS.gamma}
+                      value={params.gamma}
+                      valueText={params.gamma.toFixed(2)}
+                      onChange={(gamma) => setParams({ gamma })}
+                      error={errorFor('params.gamma')}
+                    />
+                    <Slider
+                      label={`Contrast (${params.contrast.toFixed(1)}×)`}
+                      {...PARAM_BOUNDS.contrast}
+                      value={params.contrast}
+                      valueText={`${params.contrast.toFixed(1)} times`}
+                      onChange={(contrast) => setParams({ contrast })}
+                      error={errorFor('params.contrast')}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <input
+                        id="smoothstep"
+                        type="checkbox"
+                        checked={!!params.smoothstep}
+                        onChange={(e) => setParams({ smoothstep: e.target.checked })}
+                      />
+                      <label htmlFor="smoothstep" className="text-sm">Soft tonal curve</label>
+                    </div>
+                    <button
+                      type="button"
+                      className="px-2 py-1 rounded-md border text-xs"
+                      onClick={() => setParams({ ...DEFAULT_TONE })}
+                    >
+                      Reset
+                    </button>
+                  </div>
+                </div>
+              </details>
+            </div>
+
+            <div className="order-1 md:order-2">
+              <ThreePreview onReport={setPrintReport} />
+              <p className="text-xs text-neutral-500 mt-2">
+                Tip: click-drag to rotate, scroll to zoom, right-drag to pan.
+              </p>
+              {resolutionWarnings.some(Boolean) && (
+                <ul className="mt-2 space-y-1">
+                  {resolutionWarnings.map((warning, i) =>
+                    warning ? (
+                      <li key={i} className="rounded-md border border-amber-200 bg-amber-50 px-2 py-1 text-xs text-amber-800">
+                        {collage ? `Photo ${i + 1}: ${warning}` : warning}
+                      </li>
+                    ) : null
+                  )}
+                </ul>
+              )}
+              {printReport && printReport.issues.length > 0 && (
+                <ul className="mt-2 space-y-1" aria-live="polite">
+                  {printReport.issues.map((issue) => (
+                    <li
+                      key={issue.code}
+                      className={`rounded-md border px-2 py-1 text-xs ${
+                        issue.severity === 'error'
+                          ? 'border-red-200 bg-red-50 text-red-700'
+                          : 'border-amber-200 bg-amber-50 text-amber-800'
+                      }`}
+                    >
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {fieldError('printability')}
+              {currentUrn && (
+                <div className="mt-3 rounded-md border p-3 space-y-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-medium">Price</h3>
+                    {quoting && <span className="text-xs text-neutral-500">Updating…</span>}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label htmlFor="finish" className="block text-xs">Finish</label>
+                      <select
+                        id="finish"
+                        className="w-full rounded-md border px-1 py-1"
+                        value={options.finish}
+                        onChange={(e) => setOrderOptions({ ...options, finish: e.target.value })}
+                      >
+                        {finishesFor(product).map((f) => (
+                          <option key={f.id} value={f.id}>
+                            {f.label}
+                            {f.cents > 0 && ` (+${formatPrice(f.cents, currentUrn.currency)})`}
+                          </option>
+                        ))}
+                      </select>
+                      {fieldError('options.finish')}
+                    </div>
+                    <div>
+                      <label htmlFor="shipping" className="block text-xs">Ship to</label>
+                      <select
+                        id="shipping"
+                        className="w-full rounded-md border px-1 py-1"
+                        value={options.shipping}
+                        onChange={(e) => setOrderOptions({ ...options, shipping: e.target.value })}
+                      >
+                        {PRICING_RULES.shipping.map((zone) => (
+                          <option key={zone.id} value={zone.id}>
+                            {zone.label}
+                          </option>
+                        ))}
+                      </select>
+                      {fieldError('options.shipping')}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <input
+                      id="rush"
+                      type="checkbox"
+                      checked={options.rush}
+                      onChange={(e) => setOrderOptions({ ...options, rush: e.target.checked })}
+                    />
+                    <label htmlFor="rush" className="text-sm">
+                      {PRICING_RULES.rush.label} (+{PRICING_RULES.rush.percent}%)
+                    </label>
+                  </div>
+                  {/* The last price stays up, dimmed, while the new one loads. */}
+                  {priceTable || (!quoteError && <p className="text-xs text-neutral-500">Pricing…</p>)}
+                  {quoteError && <p className="text-xs text-red-700">{quoteError}</p>}
+                  {quote && (
+                    <p className="text-xs text-neutral-500">
+                      You’ll be charged this price if you order by {new Date(quote.expiresAt).toLocaleString()}.
+                    </p>
+                  )}
+                </div>
+              )}
+              {urnId && imageDataUrl && (
+                <div className="mt-3 rounded-md border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm">Ask family to look before you order.</p>
+                    <button
+                      type="button"
+                      disabled={sharing}
+                      className="px-3 py-1.5 rounded-md border text-sm disabled:opacity-60"
+                      onClick={shareDesign}
+                    >
+                      {sharing ? 'Sharing…' : 'Share design'}
+                    </button>
+                  </div>
+                  {shareUrl && (
+                    <div className="flex items-center gap-2">
+                      <input
+                        readOnly
+                        value={shareUrl}
+                        aria-label="Link to the shared design"
+                        className="w-full rounded-md border px-2 py-1 text-xs"
+                      />
+                      <button
+                        type="button"
+                        className="px-2 py-1 rounded-md border text-xs"
+                        onClick={() => navigator.clipboard?.writeText(shareUrl)}
+                      >
+                        Copy
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
+          </div>
+          {stepFooter(nextButton())}
+        </section>
+      )}
+
+      {hydrated && step === 4 && (
+        <section className="rounded-xl border p-4" aria-labelledby="step-heading">
+          <div className="mb-3">{stepHeading('Your Details')}</div>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              goTo(5)
+            }}
+            className="space-y-3"
+          >
             <div>
-              <label className="block text-sm font-medium">Rotation (°)</label>
+              <label htmlFor="customer-name" className="block text-sm font-medium">Full name</label>
               <input
-                type="range"
-                min={-45}
-                max={45}
-                step={0.5}
-                value={params.rotation}
-                onChange={(e) => setParams({ rotation: parseFloat(e.target.value) })}
+                id="customer-name"
+                type="text"
+                required
+                autoComplete="name"
+                value={customerName}
+                onChange={(e) => setCustomerName(e.target.value)}
+                className="mt-1 w-full rounded-md border px-3 py-2"
+                placeholder="Jane Doe"
               />
+              {fieldError('customer.name')}
             </div>
             <div>
-              <label className="block text-sm font-medium">Depth (mm)</label>
+              <label htmlFor="customer-email" className="block text-sm font-medium">Email</label>
               <input
-                type="range"
-                min={dMin}
-                max={dMax}
-                step={0.1}
-                value={params.depth}
-                onChange={(e) => setParams({ depth: parseFloat(e.target.value) })}
+                id="customer-email"
+                type="email"
+                required
+                autoComplete="email"
+                value={customerEmail}
+                onChange={(e) => setCustomerEmail(e.target.value)}
+                className="mt-1 w-full rounded-md border px-3 py-2"
+                placeholder="jane@example.com"
               />
-              <div className="mt-1 text-xs text-neutral-600">
-                Range {dMin}–{dMax} mm
-              </div>
+              {fieldError('customer.email')}
             </div>
-            <div className="flex items-center gap-2">
-              <input
-                id="invert"
-                type="checkbox"
-                checked={!!params.invert}
-                onChange={(e) => setParams({ invert: e.target.checked })}
+            <div>
+              <label htmlFor="customer-address" className="block text-sm font-medium">Mailing address</label>
+              <textarea
+                id="customer-address"
+                required
+                autoComplete="street-address"
+                value={customerAddress}
+                onChange={(e) => setCustomerAddress(e.target.value)}
+                className="mt-1 w-full rounded-md border px-3 py-2"
+                placeholder="123 Main St, City, State ZIP"
+                rows={3}
               />
-              <label htmlFor="invert" className="text-sm">Invert relief</label>
+              {fieldError('customer.address')}
             </div>
-          </div>
+            {stepFooter(nextButton('submit'))}
+          </form>
+        </section>
+      )}
 
-          <div className="order-1 md:order-2">
-            <ThreePreview />
-            <p className="text-xs text-neutral-500 mt-2">
-              Tip: click-drag to rotate, scroll to zoom, right-drag to pan.
-            </p>
-          </div>
-        </div>
-      </section>
-
-      {/* Step 4: Contact info & submit */}
-      <section className="rounded-xl border p-4">
-        <h2 className="text-lg font-medium mb-3">4) Your Details</h2>
-        <form onSubmit={submit} className="space-y-3">
-          <div>
-            <label className="block text-sm font-medium">Full name</label>
-            <input
-              type="text"
-              required
-              value={customerName}
-              onChange={(e) => setCustomerName(e.target.value)}
-              className="mt-1 w-full rounded-md border px-3 py-2"
-              placeholder="Jane Doe"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium">Mailing address</label>
-            <textarea
-              required
-              value={customerAddress}
-              onChange={(e) => setCustomerAddress(e.target.value)}
-              className="mt-1 w-full rounded-md border px-3 py-2"
-              placeholder="123 Main St, City, State ZIP"
-              rows={3}
-            />
-          </div>
+      {hydrated && step === 5 && (
+        <section className="rounded-xl border p-4" aria-labelledby="step-heading">
+          <div className="mb-3">{stepHeading('Review & Order')}</div>
+          <dl className="grid grid-cols-1 md:grid-cols-[10rem_1fr_auto] gap-x-4 gap-y-3 text-sm">
+            <dt className="font-medium">Photo</dt>
+            <dd className="flex flex-wrap gap-2">
+              {[imageDataUrl, ...(collage ? collageImages : [])].map((img, i) =>
+                img ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img key={i} src={img} alt={`Photo ${i + 1}`} className="h-20 w-20 rounded object-cover bg-neutral-100" />
+                ) : null
+              )}
+              <span className="self-end text-neutral-600">{LAYOUT_LABELS[params.layout]}</span>
+            </dd>
+            <dd>
+              <button type="button" className="underline" onClick={() => goTo(1)}>
+                Edit<span className="sr-only"> photo</span>
+              </button>
+            </dd>
 
-          <div className="flex items-center gap-3">
-            <button
-              type="submit"
-              disabled={submitting}
-              className="px-4 py-2 rounded-md bg-black text-white disabled:opacity-60"
-            >
-              {submitting ? 'Submitting…' : 'Submit'}
-            </button>
-            <span className="text-xs text-neutral-600">
-              We’ll email a payment link after review.
-            </span>
-          </div>
-        </form>
-      </section>
+            <dt className="font-medium">{PRODUCT_LABELS[product]}</dt>
+            <dd>{currentUrn?.label ?? urnId}</dd>
+            <dd>
+              <button type="button" className="underline" onClick={() => goTo(2)}>
+                Edit<span className="sr-only"> {product === 'lithophane' ? 'panel' : 'urn'}</span>
+              </button>
+            </dd>
+
+            <dt className="font-medium">Design</dt>
+            <dd>
+              <p>
+                Scale {params.scale.toFixed(2)}× ·{' '}
+                {lithophane
+                  ? `${params.thicknessMin.toFixed(1)}–${params.thicknessMax.toFixed(1)} mm thick`
+                  : `${params.depth.toFixed(1)} mm deep`}
+                {mask.maskShape !== 'none' && !collage && ` · ${MASK_LABELS[mask.maskShape].toLowerCase()} mask`}
+              </p>
+              {params.textBlocks.length > 0 && (
+                <ul className="mt-1 text-neutral-600">
+                  {params.textBlocks.map((block, i) => (
+                    <li key={i}>
+                      “{block.text}” — {FONTS[block.font].label}, {block.style}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="mt-1 text-neutral-600">
+                {finishLabel} · ship to {zoneLabel}
+                {options.rush && ` · ${PRICING_RULES.rush.label.toLowerCase()}`}
+              </p>
+              {printReport && printReport.issues.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {printReport.issues.map((issue) => (
+                    <li
+                      key={issue.code}
+                      className={`rounded-md border px-2 py-1 text-xs ${
+                        issue.severity === 'error'
+                          ? 'border-red-200 bg-red-50 text-red-700'
+                          : 'border-amber-200 bg-amber-50 text-amber-800'
+                      }`}
+                    >
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </dd>
+            <dd>
+              <button type="button" className="underline" onClick={() => goTo(3)}>
+                Edit<span className="sr-only"> design</span>
+              </button>
+            </dd>
+
+            <dt className="font-medium">Your details</dt>
+            <dd>
+              <p>{customerName.trim()}</p>
+              <p>{customerEmail.trim()}</p>
+              <p className="whitespace-pre-line text-neutral-600">{customerAddress.trim()}</p>
+            </dd>
+            <dd>
+              <button type="button" className="underline" onClick={() => goTo(4)}>
+                Edit<span className="sr-only"> details</span>
+              </button>
+            </dd>
+
+            <dt className="font-medium">Price</dt>
+            <dd aria-live="polite">
+              {priceTable || (!quoteError && <p className="text-xs text-neutral-500">Pricing…</p>)}
+              {quoteError && <p className="text-xs text-red-700">{quoteError}</p>}
+              {quote && (
+                <p className="mt-1 text-xs text-neutral-500">
+                  You’ll be charged this price if you order by {new Date(quote.expiresAt).toLocaleString()}.
+                </p>
+              )}
+            </dd>
+          </dl>
+          <form onSubmit={submit}>
+            {fieldError('quoteId')}
+            {stepFooter(
+              <>
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="px-4 py-2 rounded-md bg-black text-white disabled:opacity-60"
+                >
+                  {submitting ? 'Submitting…' : quote ? `Submit & pay ${formatPrice(quote.amount_cents, quote.currency)}` : 'Submit & pay'}
+                </button>
+                <span className="text-xs text-neutral-600">
+                  You’ll be taken to secure checkout. We review every design before it’s produced and email you at each step.
+                </span>
+              </>
+            )}
+          </form>
+        </section>
+      )}
     </main>
   )
 }
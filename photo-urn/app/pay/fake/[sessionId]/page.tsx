@@ -0,0 +1,97 @@
+'use client'
+import { useEffect, useState } from 'react'
+
+type Session = {
+  id: string
+  orderId: string
+  amount_cents: number
+  currency: string
+  description: string
+  status: 'open' | 'paid' | 'failed' | 'refunded'
+  cancelUrl: string
+}
+
+// Stand-in for a hosted checkout page; only served by the fake provider.
+export default function FakeCheckout({ params }: { params: { sessionId: string } }) {
+  const [session, setSession] = useState<Session | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/payments/fake/${params.sessionId}`)
+      .then(async (res) => {
+        const json = await res.json()
+        if (!res.ok) throw new Error(json?.error || 'Session not found')
+        setSession(json)
+      })
+      .catch((err) => setError(err.message))
+  }, [params.sessionId])
+
+  const simulate = async (outcome: 'succeed' | 'fail' | 'refund') => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/payments/fake/${params.sessionId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ outcome })
+      })
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(json?.error || 'Simulation failed')
+      if (outcome === 'refund') {
+        setSession((s) => (s ? { ...s, status: json.status } : s))
+      } else {
+        window.location.href = json.redirect
+      }
+    } catch (err: any) {
+      setError(err.message || String(err))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <main className="mx-auto max-w-md p-4 md:p-8 space-y-4">
+      <h1 className="text-2xl font-semibold">Test checkout</h1>
+      <p className="text-sm text-neutral-600">
+        Local payment simulator. No real money moves.
+      </p>
+      {session && (
+        <section className="rounded-xl border p-4 space-y-2">
+          <p className="text-sm">{session.description}</p>
+          <p className="text-lg font-medium">
+            {(session.amount_cents / 100).toFixed(2)} {session.currency.toUpperCase()}
+          </p>
+          <p className="text-xs text-neutral-600">Order {session.orderId} · session {session.status}</p>
+          <div className="flex flex-wrap gap-2 pt-2">
+            <button
+              disabled={busy || session.status === 'paid' || session.status === 'refunded'}
+              className="px-3 py-2 rounded-md bg-black text-white disabled:opacity-60"
+              onClick={() => simulate('succeed')}
+            >
+              Pay
+            </button>
+            <button
+              disabled={busy || session.status === 'paid' || session.status === 'refunded'}
+              className="px-3 py-2 rounded-md border disabled:opacity-60"
+              onClick={() => simulate('fail')}
+            >
+              Decline card
+            </button>
+            <button
+              disabled={busy || session.status !== 'paid'}
+              className="px-3 py-2 rounded-md border disabled:opacity-60"
+              onClick={() => simulate('refund')}
+            >
+              Refund
+            </button>
+            <a className="px-3 py-2 text-sm underline" href={session.cancelUrl}>
+              Cancel
+            </a>
+          </div>
+        </section>
+      )}
+      {error && <p className="text-sm text-red-700">{error}</p>}
+    </main>
+  )
+}
@@ -0,0 +1,147 @@
+"use client";
+
+// MaskPainter lets the customer paint a freehand mask over their photo.
+// Strokes are stored in normalized image coordinates so the same mask
+// applies to the preview heightmap and to the full-resolution production
+// mesh.
+
+import React, { useEffect, useRef, useState } from 'react';
+import { MAX_STROKE_POINTS, type MaskStroke } from '@/lib/relief/mask';
+
+const MAX_WIDTH = 360;
+
+/**
+ * Draw the photo with the painted strokes on top.  Painted areas are
+ * tinted; the rest of the photo is dimmed to show what will be dropped.
+ */
+function redraw(
+  canvas: HTMLCanvasElement,
+  img: HTMLImageElement,
+  strokes: MaskStroke[],
+) {
+  const { width: w, height: h } = canvas;
+  const side = Math.min(w, h);
+  // Paint the strokes on their own layer, then keep the photo only there.
+  const layer = document.createElement('canvas');
+  layer.width = w;
+  layer.height = h;
+  const lctx = layer.getContext('2d')!;
+  lctx.lineCap = 'round';
+  lctx.lineJoin = 'round';
+  for (const s of strokes) {
+    const r = s.radius * side;
+    const [u0, v0] = s.points[0];
+    lctx.beginPath();
+    lctx.arc(u0 * w, v0 * h, r, 0, Math.PI * 2);
+    lctx.fill();
+    if (s.points.length > 1) {
+      lctx.lineWidth = r * 2;
+      lctx.beginPath();
+      lctx.moveTo(u0 * w, v0 * h);
+      for (const [u, v] of s.points.slice(1)) lctx.lineTo(u * w, v * h);
+      lctx.stroke();
+    }
+  }
+  lctx.globalCompositeOperation = 'source-in';
+  lctx.drawImage(img, 0, 0, w, h);
+  lctx.globalCompositeOperation = 'source-atop';
+  lctx.fillStyle = 'rgba(59,130,246,0.25)';
+  lctx.fillRect(0, 0, w, h);
+
+  const ctx = canvas.getContext('2d')!;
+  ctx.clearRect(0, 0, w, h);
+  ctx.drawImage(img, 0, 0, w, h);
+  ctx.fillStyle = 'rgba(0,0,0,0.45)';
+  ctx.fillRect(0, 0, w, h);
+  ctx.drawImage(layer, 0, 0);
+}
+
+export default function MaskPainter(props: {
+  image: string;
+  strokes: MaskStroke[];
+  /** Brush radius as a fraction of the photo's shorter side. */
+  brush: number;
+  onChange: (strokes: MaskStroke[]) => void;
+}) {
+  const { image, strokes, brush, onChange } = props;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [img, setImg] = useState<HTMLImageElement | null>(null);
+  const drawing = useRef<MaskStroke | null>(null);
+
+  useEffect(() => {
+    const el = new Image();
+    el.onload = () => setImg(el);
+    el.src = image;
+  }, [image]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !img) return;
+    const w = Math.min(MAX_WIDTH, img.naturalWidth);
+    canvas.width = w;
+    canvas.height = Math.round((w * img.naturalHeight) / img.naturalWidth);
+    redraw(canvas, img, strokes);
+  }, [img, strokes]);
+
+  const pointAt = (e: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const u = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const v = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    return [Math.round(u * 1e4) / 1e4, Math.round(v * 1e4) / 1e4];
+  };
+
+  const onDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = { radius: brush, points: [pointAt(e)] };
+    if (img) redraw(e.currentTarget, img, [...strokes, drawing.current]);
+  };
+
+  const onMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = drawing.current;
+    if (!stroke || stroke.points.length >= MAX_STROKE_POINTS) return;
+    const p = pointAt(e);
+    const last = stroke.points[stroke.points.length - 1];
+    // Skip samples closer than a third of the brush; they add nothing.
+    if (Math.hypot(p[0] - last[0], p[1] - last[1]) < brush / 3) return;
+    stroke.points.push(p);
+    if (img) redraw(e.currentTarget, img, [...strokes, stroke]);
+  };
+
+  const onUp = () => {
+    const stroke = drawing.current;
+    drawing.current = null;
+    if (stroke) onChange([...strokes, stroke]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        className="w-full max-w-[360px] rounded-md border cursor-crosshair"
+        style={{ touchAction: 'none' }}
+        onPointerDown={onDown}
+        onPointerMove={onMove}
+        onPointerUp={onUp}
+        onPointerCancel={onUp}
+      />
+      <div className="flex gap-2">
+        <button
+          type="button"
+          className="px-2 py-1 rounded-md border text-xs disabled:opacity-60"
+          disabled={!strokes.length}
+          onClick={() => onChange(strokes.slice(0, -1))}
+        >
+          Undo stroke
+        </button>
+        <button
+          type="button"
+          className="px-2 py-1 rounded-md border text-xs disabled:opacity-60"
+          disabled={!strokes.length}
+          onClick={() => onChange([])}
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+// A labelled range input for the design controls.  The label, the value
+// as it is read out (units included) and any hint or error are tied to the
+// input, so screen readers announce them; arrow keys, Page Up/Down and
+// Home/End move it like any native slider.
+
+import React, { useId } from 'react';
+
+type SliderProps = {
+  label: React.ReactNode;
+  value: number;
+  onChange: (value: number) => void;
+  min: number;
+  max: number;
+  step: number;
+  /** How the value is announced, e.g. "1.8 mm"; defaults to the number. */
+  valueText?: string;
+  hint?: React.ReactNode;
+  error?: string | null;
+  /** Smaller label, for sliders laid out in tight rows. */
+  compact?: boolean;
+};
+
+export default function Slider({ label, value, onChange, min, max, step, valueText, hint, error, compact }: SliderProps) {
+  const id = useId();
+  const describedBy = [hint ? `${id}-hint` : null, error ? `${id}-error` : null].filter(Boolean).join(' ');
+  return (
+    <div>
+      <label htmlFor={id} className={`block font-medium ${compact ? 'text-xs' : 'text-sm'}`}>
+        {label}
+      </label>
+      <input
+        id={id}
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        aria-valuetext={valueText ?? String(value)}
+        aria-invalid={error ? true : undefined}
+        aria-describedby={describedBy || undefined}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+      />
+      {hint && (
+        <div id={`${id}-hint`} className="mt-1 text-xs text-neutral-600">
+          {hint}
+        </div>
+      )}
+      {error && (
+        <p id={`${id}-error`} className="mt-1 text-xs text-red-700">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
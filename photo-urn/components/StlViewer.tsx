@@ -0,0 +1,90 @@
+"use client";
+
+// StlViewer shows a finished mesh (the generated relief or the urn with the
+// relief unioned in) on its own, centred and framed, with orbit controls.
+// Unlike ThreePreview it draws nothing on top of the model: it is for
+// looking at files the server produced.
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { STLLoader } from 'three-stdlib';
+
+export type StlViewerProps = {
+  /** URL of a binary or ASCII STL. */
+  url: string;
+  className?: string;
+};
+
+/**
+ * Load an STL and centre it on the origin.  The previous geometry is
+ * disposed when the URL changes or the viewer unmounts.
+ */
+function useStl(url: string): { geometry: THREE.BufferGeometry | null; error: string | null } {
+  const [geometry, setGeometry] = useState<THREE.BufferGeometry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: THREE.BufferGeometry | null = null;
+    setGeometry(null);
+    setError(null);
+    new STLLoader().load(
+      url,
+      (geo) => {
+        if (cancelled) return geo.dispose();
+        geo.computeVertexNormals();
+        geo.center();
+        geo.computeBoundingSphere();
+        loaded = geo;
+        setGeometry(geo);
+      },
+      undefined,
+      (err: any) => {
+        if (!cancelled) setError(err?.message || 'Could not load the model');
+      },
+    );
+    return () => {
+      cancelled = true;
+      loaded?.dispose();
+    };
+  }, [url]);
+
+  return { geometry, error };
+}
+
+/**
+ * A self-contained 3D view of one STL file.
+ */
+export default function StlViewer({ url, className }: StlViewerProps) {
+  const { geometry, error } = useStl(url);
+  // Camera distance and clipping planes from the model's size, so both a
+  // 2 mm relief and a 200 mm urn fill the view.
+  const radius = geometry?.boundingSphere?.radius || 1;
+  const camera = useMemo(
+    () => ({ position: [radius * 1.6, radius * 1.2, radius * 2.2] as [number, number, number], near: radius / 100, far: radius * 50, fov: 40 }),
+    [radius],
+  );
+
+  return (
+    <div className={`relative ${className ?? 'h-80 w-full'} rounded-lg border bg-gray-50`}>
+      {geometry && (
+        <Canvas key={url} camera={camera} dpr={[1, 2]}>
+          <ambientLight intensity={0.5} />
+          <directionalLight position={[1, 2, 3]} intensity={0.9} />
+          <directionalLight position={[-2, -1, -1]} intensity={0.3} />
+          <mesh geometry={geometry}>
+            <meshStandardMaterial color="#c9c2b8" roughness={0.7} metalness={0.05} />
+          </mesh>
+          <OrbitControls makeDefault enableDamping minDistance={radius * 0.5} maxDistance={radius * 8} />
+        </Canvas>
+      )}
+      {!geometry && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-500">
+          {error ?? 'Loading model…'}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,11 @@
 // overlays a relief generated from a user image.  The relief always
 // sits flush against the urn, and the camera supports free rotation,
 // zoom and pan.  The control overlay never blocks pointer events on the
-// canvas.
+// canvas.  Export bakes the relief into real geometry in urn space and
+// downloads it as STL, GLB or 3MF.  Printability checks run on the same
+// heightfield and are reported to the parent through `onReport`.
+// Lithophane entries show the panel itself instead of an urn, lit from the
+// front or from behind as it would hang against a light.
 
 import React, {
   useMemo,
@@ -13,6 +17,7 @@ import React, {
   useEffect,
   useState,
   useCallback,
+  useId,
 } from 'react';
 import { Canvas, useThree, useFrame } from '@react-three/fiber';
 // Import OrbitControls directly from Three.js examples instead of @react-three/drei.
@@ -22,11 +27,38 @@ import { Canvas, useThree, useFrame } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
 import * as THREE from 'three';
 import { STLLoader } from 'three-stdlib';
-import { useAppStore } from '@/lib/store';
-import urns from '@/lib/urns/urns.json';
+import { useAppStore, type PreviewParams } from '@/lib/store';
+import { deviceSegmentLimit, lodSegments, usePreviewMaps } from '@/lib/relief/client';
+import { isCollage } from '@/lib/relief/collage';
+import { resolveHeightmapSettings } from '@/lib/relief/heightmap';
+import { buildLithophaneMesh, lithophaneReport, lithophaneSize, resolveThickness, transmittance } from '@/lib/relief/lithophane';
+import { meshesToGLB } from '@/lib/relief/gltf';
+import type { PreviewMaps } from '@/lib/relief/maps';
+import { BASE_PLATE_MM, buildReliefMesh, indexTriangles, type Mesh } from '@/lib/relief/mesh';
+import {
+  checkPlacement,
+  checkRelief,
+  measureFace,
+  printReport,
+  type PrintReport,
+  type UrnFace,
+} from '@/lib/relief/printability';
+import { meshToBinarySTL } from '@/lib/relief/stl';
+import type { TextBlock } from '@/lib/relief/text';
+import { meshesTo3MF } from '@/lib/relief/threemf';
+import { isCurved, surfaceFromTarget, wrapPoint, type SurfaceSpec } from '@/lib/relief/wrap';
+import { FACE_CODES, findUrn, lithophaneOf, type FaceCode, type LithophaneTarget } from '@/lib/urns/catalog';
+import { useUrns } from '@/lib/urns/client';
 
-// Define the six faces of a cube that the relief can attach to.
-type FaceCode = '+X' | '-X' | '+Y' | '-Y' | '+Z' | '-Z';
+/** Faces as seen from the preview's default camera, for the face picker. */
+const FACE_LABELS: Record<FaceCode, string> = {
+  '+X': 'Right',
+  '-X': 'Left',
+  '+Y': 'Top',
+  '-Y': 'Bottom',
+  '+Z': 'Front',
+  '-Z': 'Back',
+};
 
 /**
  * Resolve an STL filename into an absolute path.  If the string is
@@ -43,20 +75,22 @@ function resolveSTL(p: string): string {
 /**
  * Fit a perspective camera to a bounding box with optional padding.  The
  * camera is positioned, near/far planes are set, and OrbitControls are
- * updated so the urn remains in view while still allowing orbit.
+ * updated so the urn remains in view while still allowing orbit.  `view`
+ * is the direction the camera looks from.
  */
 function simpleFit(
   camera: THREE.PerspectiveCamera,
   controls: any,
   bbox: THREE.Box3,
   paddingK = 2.0,
+  view: [number, number, number] = [1, 1.05, 1],
 ): void {
   const center = new THREE.Vector3();
   bbox.getCenter(center);
   const size = new THREE.Vector3();
   bbox.getSize(size);
   const diag = size.length() || 1;
-  const dir = new THREE.Vector3(1, 1.05, 1).normalize();
+  const dir = new THREE.Vector3(...view).normalize();
   const dist = diag * paddingK;
   camera.position.copy(center).addScaledVector(dir, dist);
   camera.lookAt(center);
@@ -152,120 +186,68 @@ function facePlacement(bbox: THREE.Box3, face: FaceCode) {
 }
 
 /**
- * Generate displacement and normal maps from an image.  The image’s
- * luminance is normalized, blurred, sharpened, gamma corrected and
- * contrast boosted.  A CanvasTexture stores the displacement map and
- * a DataTexture stores the normal map.
+ * Upload preview maps as textures.  Displacement rows run top first like
+ * the photo, so that texture is flipped on upload as an image would be.
  */
-async function buildMaps(url: string) {
-  const img = new Image();
-  img.crossOrigin = 'anonymous';
-  await new Promise<void>((resolve, reject) => {
-    img.onload = () => resolve();
-    img.onerror = reject;
-    img.src = url;
-  });
-  const w = Math.min(1024, (img as any).naturalWidth || (img as any).width || 1024);
-  const h = Math.min(1024, (img as any).naturalHeight || (img as any).height || 1024);
-  const canvas = document.createElement('canvas');
-  canvas.width = w;
-  canvas.height = h;
-  const ctx = canvas.getContext('2d')!;
-  ctx.drawImage(img, 0, 0, w, h);
-  const data = ctx.getImageData(0, 0, w, h).data;
-  const lum = new Float32Array(w * h);
-  for (let i = 0, j = 0; i < data.length; i += 4, j++) {
-    lum[j] = 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
-  }
-  const sorted = Float32Array.from(lum).sort();
-  const p = (q: number) => sorted[Math.floor(q * (sorted.length - 1))];
-  const lo = p(0.04);
-  const hi = p(0.96);
-  const span = Math.max(1e-6, hi - lo);
-  for (let i = 0; i < lum.length; i++) {
-    lum[i] = Math.min(1, Math.max(0, (lum[i] - lo) / span));
-  }
-  const tmp = new Float32Array(lum.length);
-  const blur = new Float32Array(lum.length);
-  const kernel = [1, 4, 6, 4, 1];
-  const kernelSum = 16;
-  // horizontal
-  for (let y = 0; y < h; y++) {
-    for (let x = 0; x < w; x++) {
-      let acc = 0;
-      for (let k = -2; k <= 2; k++) {
-        const ix = Math.min(w - 1, Math.max(0, x + k));
-        acc += lum[y * w + ix] * kernel[k + 2];
-      }
-      tmp[y * w + x] = acc / kernelSum;
-    }
-  }
-  // vertical
-  for (let y = 0; y < h; y++) {
-    for (let x = 0; x < w; x++) {
-      let acc = 0;
-      for (let k = -2; k <= 2; k++) {
-        const iy = Math.min(h - 1, Math.max(0, y + k));
-        acc += tmp[iy * w + x] * kernel[k + 2];
-      }
-      blur[y * w + x] = acc / kernelSum;
-    }
-  }
-  for (let i = 0; i < lum.length; i++) {
-    const hp = lum[i] - blur[i];
-    let v = lum[i] + 1.2 * hp;
-    v = Math.min(1, Math.max(0, v));
-    v = Math.pow(v, 0.85);
-    v = v * v * (3 - 2 * v);
-    lum[i] = Math.min(1, v * 1.5);
-  }
-  const dispCanvas = document.createElement('canvas');
-  dispCanvas.width = w;
-  dispCanvas.height = h;
-  const dispCtx = dispCanvas.getContext('2d')!;
-  const dispImg = dispCtx.createImageData(w, h);
-  for (let i = 0, j = 0; i < dispImg.data.length; i += 4, j++) {
-    const v = Math.round(lum[j] * 255);
-    dispImg.data[i] = v;
-    dispImg.data[i + 1] = v;
-    dispImg.data[i + 2] = v;
-    dispImg.data[i + 3] = 255;
+function mapsToTextures(maps: PreviewMaps) {
+  const { width: w, height: h } = maps.field;
+  const disp = new THREE.DataTexture(new Uint8Array(maps.disp.buffer), w, h, THREE.RGBAFormat);
+  disp.flipY = true;
+  disp.minFilter = THREE.LinearFilter;
+  disp.magFilter = THREE.LinearFilter;
+  disp.needsUpdate = true;
+  const normal = new THREE.DataTexture(maps.normals, w, h, THREE.RGBAFormat);
+  normal.minFilter = THREE.LinearFilter;
+  normal.magFilter = THREE.LinearFilter;
+  normal.needsUpdate = true;
+  return { disp, normal };
+}
+
+/**
+ * Apply a matrix to an xyz buffer.  Mirroring matrices flip the winding
+ * back so faces keep pointing outwards.
+ */
+function transformMesh(mesh: Mesh, m: THREE.Matrix4): Mesh {
+  const e = m.elements;
+  const src = mesh.positions;
+  const positions = new Float32Array(src.length);
+  for (let o = 0; o < src.length; o += 3) {
+    const x = src[o];
+    const y = src[o + 1];
+    const z = src[o + 2];
+    positions[o] = e[0] * x + e[4] * y + e[8] * z + e[12];
+    positions[o + 1] = e[1] * x + e[5] * y + e[9] * z + e[13];
+    positions[o + 2] = e[2] * x + e[6] * y + e[10] * z + e[14];
   }
-  dispCtx.putImageData(dispImg, 0, 0);
-  const dispTex = new THREE.CanvasTexture(dispCanvas);
-  dispTex.needsUpdate = true;
-  dispTex.minFilter = THREE.LinearFilter;
-  dispTex.magFilter = THREE.LinearFilter;
-  // normal map
-  const idx = (xx: number, yy: number) =>
-    Math.min(w - 1, Math.max(0, xx)) + Math.min(h - 1, Math.max(0, yy)) * w;
-  const normData = new Uint8Array(w * h * 3);
-  for (let y = 0, q = 0; y < h; y++) {
-    for (let x = 0; x < w; x++, q += 3) {
-      const tl = lum[idx(x - 1, y - 1)];
-      const t = lum[idx(x, y - 1)];
-      const tr = lum[idx(x + 1, y - 1)];
-      const l = lum[idx(x - 1, y)];
-      const r = lum[idx(x + 1, y)];
-      const bl = lum[idx(x - 1, y + 1)];
-      const b = lum[idx(x, y + 1)];
-      const br = lum[idx(x + 1, y + 1)];
-      const gx = tr + 2 * r + br - (tl + 2 * l + bl);
-      const gy = bl + 2 * b + br - (tl + 2 * t + tr);
-      const nx = -gx * 2.2;
-      const ny = -gy * 2.2;
-      const nz = 1.0;
-      const len = Math.hypot(nx, ny, nz) || 1;
-      normData[q] = Math.round(((nx / len) * 0.5 + 0.5) * 255);
-      normData[q + 1] = Math.round(((ny / len) * 0.5 + 0.5) * 255);
-      normData[q + 2] = Math.round(((nz / len) * 0.5 + 0.5) * 255);
+  let indices = mesh.indices;
+  if (m.determinant() < 0) {
+    indices = Uint32Array.from(indices);
+    for (let t = 0; t < indices.length; t += 3) {
+      const b = indices[t + 1];
+      indices[t + 1] = indices[t + 2];
+      indices[t + 2] = b;
     }
   }
-  const normTex = new THREE.DataTexture(normData, w, h, THREE.RGBFormat);
-  normTex.needsUpdate = true;
-  normTex.minFilter = THREE.LinearFilter;
-  normTex.magFilter = THREE.LinearFilter;
-  return { disp: dispTex, normal: normTex };
+  return { positions, indices };
+}
+
+const EXPORT_FORMATS = ['stl', 'glb', '3mf'] as const;
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const EXPORT_TYPES: Record<ExportFormat, string> = {
+  stl: 'model/stl',
+  glb: 'model/gltf-binary',
+  '3mf': 'model/3mf',
+};
+
+/** Save bytes through a temporary object URL. */
+function download(bytes: Uint8Array, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([bytes], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
 }
 
 /**
@@ -273,7 +255,8 @@ async function buildMaps(url: string) {
  * determine scaling: if the largest dimension is > 3 units, the model
  * is assumed to be in millimetres and scaled down to metres.  The
  * optional orientation applies rotations (degrees) and mirroring along
- * axes.  onReady receives the bounding box, scale, and transform.
+ * axes.  onReady receives the bounding box, scale, transform and the
+ * geometry itself (for export).
  */
 function UrnMesh(props: {
   stlPath: string;
@@ -281,7 +264,12 @@ function UrnMesh(props: {
     rotate_deg?: { x: number; y: number; z: number };
     mirror?: { x: boolean; y: boolean; z: boolean };
   };
-  onReady: (info: { bbox: THREE.Box3; scale: number; matrix: THREE.Matrix4 }) => void;
+  onReady: (info: {
+    bbox: THREE.Box3;
+    scale: number;
+    matrix: THREE.Matrix4;
+    geometry: THREE.BufferGeometry;
+  }) => void;
   onError: (e: any) => void;
 }) {
   const { stlPath, orientation, onReady, onError } = props;
@@ -321,7 +309,7 @@ function UrnMesh(props: {
               ),
             );
           setMatrix(mat);
-          onReady({ bbox, scale: scl, matrix: mat });
+          onReady({ bbox, scale: scl, matrix: mat, geometry: g });
           setGeometry(g);
         } catch (e) {
           onError(e);
@@ -356,40 +344,57 @@ function UrnMesh(props: {
 
 /**
  * ReliefPlane renders a subdivided plane with displacement and normal
- * maps derived from the user image.  Displacement is scaled by a
+ * maps derived from the user image.  The maps are built in a worker (see
+ * `usePreviewMaps`) and the previous ones stay on screen until new ones
+ * arrive.  The subdivision follows the relief's size on screen, capped by
+ * the device.  Displacement is scaled by a
  * user‑supplied boost factor and can be inverted.  The plane uses
  * zero bias so the back stays flush to the urn; a small offset along
  * +Z avoids z‑fighting.  Additional transforms (rotation, flips,
- * offsets) are applied per frame.
+ * offsets) are applied per frame.  On curved surfaces those transforms
+ * are baked into the vertices instead, which are then wrapped onto the
+ * cylinder or sphere with normals along the surface so the displacement
+ * follows it.  `bakeRef` receives a function that builds the same relief
+ * as a watertight mesh in face-local millimetres.  `onReport` receives the
+ * printability report for the production size and depth, which ignore the
+ * preview's boost, face fitting and nudge.
  */
 function ReliefPlane(props: {
-  image: string;
+  /** One photo per collage slot; just one for a single-photo design. */
+  images: (string | null)[];
   params: any;
   target: any;
   faceBoxMeters: { w: number; h: number };
   autoRotateZDeg: number;
   faceNudgeMm?: { x: number; y: number };
+  surface: SurfaceSpec;
+  bakeRef?: React.MutableRefObject<(() => Mesh) | null>;
+  urnFace?: UrnFace | null;
+  onReport?: (report: PrintReport | null) => void;
 }) {
-  const { image, params, target, faceBoxMeters, autoRotateZDeg, faceNudgeMm } = props;
-  const [maps, setMaps] = useState<any>(null);
-  useEffect(() => {
-    let live = true;
-    if (!image) {
-      setMaps(null);
-      return;
-    }
-    (async () => {
-      try {
-        const mm = await buildMaps(image);
-        if (live) setMaps(mm);
-      } catch {
-        if (live) setMaps(null);
-      }
-    })();
-    return () => {
-      live = false;
-    };
-  }, [image]);
+  const { images, params, target, faceBoxMeters, autoRotateZDeg, faceNudgeMm, surface, bakeRef, urnFace, onReport } =
+    props;
+  // Text and collage slots are laid out on the nominal design size (target
+  // times user scale); text height is relative to the relief depth.
+  const designWidthMm = (target?.width_mm ?? 100) * (params?.scale ?? 1);
+  const designHeightMm = (target?.height_mm ?? 120) * (params?.scale ?? 1);
+  const blocks: TextBlock[] = params?.textBlocks ?? [];
+  const text = blocks.length
+    ? { blocks, widthMm: designWidthMm, heightMm: designHeightMm, depthMm: params?.depth ?? 3.0 }
+    : null;
+  const collage = isCollage(params?.layout)
+    ? { layout: params.layout, slots: params.slots ?? [], widthMm: designWidthMm, heightMm: designHeightMm }
+    : null;
+  // Rebuilds only when a pipeline setting changes, not on placement edits.
+  const { maps } = usePreviewMaps(images, resolveHeightmapSettings(params), collage, text);
+  const textures = useMemo(() => (maps ? mapsToTextures(maps) : null), [maps]);
+  useEffect(
+    () => () => {
+      textures?.disp.dispose();
+      textures?.normal.dispose();
+    },
+    [textures],
+  );
   const depthM = Math.abs((params?.depth ?? 3.0) / 1000);
   const boost = params?.boost ?? 6;
   const invertSign = params?.invert ? -1 : 1;
@@ -399,14 +404,14 @@ function ReliefPlane(props: {
         color: 0xdddddd,
         metalness: 0.08,
         roughness: 0.42,
-        displacementMap: maps?.disp ?? null,
+        displacementMap: textures?.disp ?? null,
         displacementScale: depthM * boost * invertSign,
         displacementBias: 0,
-        normalMap: maps?.normal ?? null,
+        normalMap: textures?.normal ?? null,
         normalScale: new THREE.Vector2(8.0, 8.0),
         side: THREE.DoubleSide,
       }),
-    [maps, depthM, boost, invertSign],
+    [textures, depthM, boost, invertSign],
   );
   const designW = (target?.width_mm ?? 100) / 1000;
   const designH = (target?.height_mm ?? 120) / 1000;
@@ -419,45 +424,290 @@ function ReliefPlane(props: {
   const planeW = rotated.w * s * userScale;
   const planeH = rotated.h * s * userScale;
   const meshRef = useRef<any>(null);
+  const curved = isCurved(surface);
+  const rotZ =
+    (autoRotateZDeg + (params?.rotation ?? 0) + ((params?.imageRotateDeg ?? 0) % 360)) * (Math.PI / 180);
+  const flipX = !!params?.flipX;
+  const flipY = !!params?.flipY;
+  const offX = ((params?.offsetX ?? 0) + (faceNudgeMm?.x ?? 0)) / 1000;
+  const offY = ((params?.offsetY ?? 0) + (faceNudgeMm?.y ?? 0)) / 1000;
+  // Curved planes are re-baked on every placement change, so they get
+  // half the segments to stay interactive.
+  const segmentLimit = useMemo(() => deviceSegmentLimit(), []);
+  const maxSegments = curved ? segmentLimit / 2 : segmentLimit;
+  const [segments, setSegments] = useState(() => Math.min(256, maxSegments));
+  const { camera, size } = useThree();
+  const worldPos = useMemo(() => new THREE.Vector3(), []);
+  const geometry = useMemo(() => {
+    const g = new THREE.PlaneGeometry(planeW, planeH, segments, segments);
+    if (!curved) return g;
+    const pos = g.getAttribute('position') as THREE.BufferAttribute;
+    const nrm = g.getAttribute('normal') as THREE.BufferAttribute;
+    const p = pos.array as Float32Array;
+    const n = nrm.array as Float32Array;
+    const cos = Math.cos(rotZ);
+    const sin = Math.sin(rotZ);
+    for (let o = 0; o < p.length; o += 3) {
+      const x = flipX ? -p[o] : p[o];
+      const y = flipY ? -p[o + 1] : p[o + 1];
+      const u = x * cos - y * sin + offX;
+      const v = x * sin + y * cos + offY;
+      wrapPoint(surface, u, v, 0.0004, p, o, n);
+    }
+    pos.needsUpdate = true;
+    nrm.needsUpdate = true;
+    g.computeBoundingSphere();
+    return g;
+  }, [planeW, planeH, segments, curved, surface, rotZ, flipX, flipY, offX, offY]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  // Export uses the true depth (no preview boost), clamped to the target's
+  // printable range, and the production base plate.
+  const depthMm = Math.min(
+    target?.depth_mm_max ?? Infinity,
+    Math.max(target?.depth_mm_min ?? 0, params?.depth ?? 3.0),
+  );
+  const invert = !!params?.invert;
+  useEffect(() => {
+    if (!bakeRef) return;
+    bakeRef.current = maps
+      ? () =>
+          buildReliefMesh(maps.field, {
+            widthMm: planeW * 1000,
+            heightMm: planeH * 1000,
+            depthMm,
+            baseMm: BASE_PLATE_MM,
+            invert,
+            wrap: { surface: surface.surface, radius: surface.radius * 1000 },
+            placement: { rotation: rotZ, offsetX: offX * 1000, offsetY: offY * 1000, flipX, flipY },
+          })
+      : null;
+    return () => {
+      bakeRef.current = null;
+    };
+  }, [bakeRef, maps, planeW, planeH, depthMm, invert, surface, rotZ, offX, offY, flipX, flipY]);
+  const requestedDepth = params?.depth ?? 3.0;
+  // The field scan is the slow part; placement checks rerun on every edit.
+  const reliefIssues = useMemo(
+    () =>
+      maps
+        ? checkRelief({
+            field: maps.field,
+            widthMm: designWidthMm,
+            heightMm: designHeightMm,
+            depthMm: requestedDepth,
+            invert,
+          })
+        : null,
+    [maps, designWidthMm, designHeightMm, requestedDepth, invert],
+  );
+  useEffect(() => {
+    if (!onReport) return;
+    if (!reliefIssues || !target) {
+      onReport(null);
+      return;
+    }
+    const placementIssues = checkPlacement({
+      widthMm: designWidthMm,
+      heightMm: designHeightMm,
+      depthMm: requestedDepth,
+      invert,
+      target,
+      offsetX: params?.offsetX ?? 0,
+      offsetY: params?.offsetY ?? 0,
+      rotation: params?.rotation ?? 0,
+      face: urnFace,
+    });
+    onReport(printReport([...placementIssues, ...reliefIssues]));
+  }, [
+    onReport,
+    reliefIssues,
+    target,
+    designWidthMm,
+    designHeightMm,
+    requestedDepth,
+    invert,
+    params?.offsetX,
+    params?.offsetY,
+    params?.rotation,
+    urnFace,
+  ]);
+  useEffect(() => () => onReport?.(null), [onReport]);
   useFrame(() => {
     const m = meshRef.current;
     if (!m) return;
-    const zAuto = autoRotateZDeg * (Math.PI / 180);
-    const zUser = (params?.rotation ?? 0) * (Math.PI / 180);
-    const zExtra = ((params?.imageRotateDeg ?? 0) % 360) * (Math.PI / 180);
-    m.rotation.z = zAuto + zUser + zExtra;
-    m.scale.x = params?.flipX ? -1 : 1;
-    m.scale.y = params?.flipY ? -1 : 1;
-    m.position.x = ((params?.offsetX ?? 0) + (faceNudgeMm?.x ?? 0)) / 1000;
-    m.position.y = ((params?.offsetY ?? 0) + (faceNudgeMm?.y ?? 0)) / 1000;
+    m.getWorldPosition(worldPos);
+    const dist = Math.max(1e-6, camera.position.distanceTo(worldPos));
+    const fov = (camera as THREE.PerspectiveCamera).fov ?? 44;
+    const screenPx = (Math.max(planeW, planeH) / (2 * dist * Math.tan((fov * Math.PI) / 360))) * size.height;
+    const next = lodSegments(screenPx, segments, maxSegments);
+    if (next !== segments) setSegments(next);
+    if (curved) {
+      m.rotation.z = 0;
+      m.scale.set(1, 1, 1);
+      m.position.set(0, 0, 0);
+      return;
+    }
+    m.rotation.z = rotZ;
+    m.scale.x = flipX ? -1 : 1;
+    m.scale.y = flipY ? -1 : 1;
+    m.position.x = offX;
+    m.position.y = offY;
     m.position.z = 0.0004;
   });
-  return (
-    <mesh ref={meshRef} material={material} castShadow receiveShadow>
-      <planeGeometry args={[planeW, planeH, 1024, 1024]} />
-    </mesh>
+  return <mesh ref={meshRef} geometry={geometry} material={material} castShadow receiveShadow />;
+}
+
+/** Panels face +Z, so the camera looks at them nearly head on. */
+const PANEL_VIEW: [number, number, number] = [0.3, 0.25, 1];
+
+/** Grid cell of the preview panel; export uses the production default. */
+const PANEL_PREVIEW_CELL_MM = 1;
+
+/** Colour of the light behind a backlit panel. */
+const BACKLIGHT = new THREE.Color(1.0, 0.92, 0.78);
+
+/**
+ * LithophanePanel renders the framed panel as real geometry, rebuilt from
+ * the preview maps at a coarser grid than production.  Backlit, each
+ * vertex is coloured by the light its thickness lets through, so the photo
+ * appears as it will against a window or lamp; front-lit, the panel shows
+ * its surface like any print.  `bakeRef` and `onReport` work as for
+ * ReliefPlane, on the production mesh and the photo area.
+ */
+function LithophanePanel(props: {
+  images: (string | null)[];
+  params: any;
+  target: any;
+  lithophane: LithophaneTarget;
+  backlit: boolean;
+  bakeRef?: React.MutableRefObject<(() => Mesh) | null>;
+  onReport?: (report: PrintReport | null) => void;
+}) {
+  const { images, params, target, lithophane, backlit, bakeRef, onReport } = props;
+  const widthMm = (target?.width_mm ?? 100) * (params?.scale ?? 1);
+  const heightMm = (target?.height_mm ?? 120) * (params?.scale ?? 1);
+  const { minMm, maxMm } = resolveThickness(params, lithophane);
+  const blocks: TextBlock[] = params?.textBlocks ?? [];
+  const text = blocks.length ? { blocks, widthMm, heightMm, depthMm: maxMm - minMm } : null;
+  const collage = isCollage(params?.layout)
+    ? { layout: params.layout, slots: params.slots ?? [], widthMm, heightMm }
+    : null;
+  const { maps } = usePreviewMaps(images, resolveHeightmapSettings(params), collage, text);
+  const geometry = useMemo(() => {
+    if (!maps) return null;
+    const mesh = buildLithophaneMesh(maps.field, {
+      widthMm,
+      heightMm,
+      thickness: { minMm, maxMm },
+      target: lithophane,
+      cellMm: PANEL_PREVIEW_CELL_MM,
+    });
+    const positions = new Float32Array(mesh.positions.length);
+    const colors = new Float32Array(mesh.positions.length);
+    for (let o = 0; o < positions.length; o += 3) {
+      positions[o] = mesh.positions[o] / 1000;
+      positions[o + 1] = mesh.positions[o + 1] / 1000;
+      positions[o + 2] = mesh.positions[o + 2] / 1000;
+      // z is the thickness the light crosses from the flat back.
+      const t = transmittance(mesh.positions[o + 2], minMm);
+      colors[o] = BACKLIGHT.r * t;
+      colors[o + 1] = BACKLIGHT.g * t;
+      colors[o + 2] = BACKLIGHT.b * t;
+    }
+    const g = new THREE.BufferGeometry();
+    g.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    g.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    g.setIndex(new THREE.BufferAttribute(mesh.indices, 1));
+    g.computeVertexNormals();
+    return g;
+  }, [maps, widthMm, heightMm, minMm, maxMm, lithophane]);
+  useEffect(() => () => geometry?.dispose(), [geometry]);
+  const material = useMemo(
+    () =>
+      backlit
+        ? new THREE.MeshBasicMaterial({ vertexColors: true })
+        : new THREE.MeshStandardMaterial({ color: 0xf2f2f2, metalness: 0, roughness: 0.55 }),
+    [backlit],
   );
+  useEffect(() => () => material.dispose(), [material]);
+  useEffect(() => {
+    if (!bakeRef) return;
+    bakeRef.current = maps
+      ? () => buildLithophaneMesh(maps.field, { widthMm, heightMm, thickness: { minMm, maxMm }, target: lithophane })
+      : null;
+    return () => {
+      bakeRef.current = null;
+    };
+  }, [bakeRef, maps, widthMm, heightMm, minMm, maxMm, lithophane]);
+  useEffect(() => {
+    if (!onReport) return;
+    onReport(maps ? lithophaneReport(maps.field, { widthMm, heightMm, thickness: { minMm, maxMm } }) : null);
+  }, [onReport, maps, widthMm, heightMm, minMm, maxMm]);
+  useEffect(() => () => onReport?.(null), [onReport]);
+  if (!geometry) return null;
+  return <mesh geometry={geometry} material={material} />;
 }
 
+/**
+ * Props that override the app store, for showing an existing order (e.g.
+ * in the admin area) instead of the design being edited.
+ */
+export type ThreePreviewProps = {
+  urnId?: string | null;
+  /** Data URL or plain URL of the photo. */
+  image?: string | null;
+  /** Photos for the second and later collage slots. */
+  collageImages?: (string | null)[];
+  params?: PreviewParams;
+  /** Face the order's relief goes on; null or missing for the urn's default. */
+  face?: FaceCode | null;
+  /** Receives the printability report whenever the design changes. */
+  onReport?: (report: PrintReport | null) => void;
+};
+
 /**
  * Main ThreePreview component.  It loads the urn based on the selected
- * ID from the app store, fits the camera, displays UI controls, and
- * renders the relief plane when an image is provided.  A Reset
- * button allows refitting the camera.
+ * ID from the app store (or the props), fits the camera, displays UI
+ * controls, and renders the relief plane when an image is provided.  A
+ * Reset button allows refitting the camera.
  */
-export default function ThreePreview() {
-  const { urnId, imageDataUrl, params } = useAppStore((s) => ({
+export default function ThreePreview(props: ThreePreviewProps = {}) {
+  const store = useAppStore((s) => ({
     urnId: s.urnId,
     imageDataUrl: s.imageDataUrl,
+    collageImages: s.collageImages,
     params: s.params,
+    face: s.face,
+    setFace: s.setFace,
+    faceNudge: s.faceNudge,
+    setFaceNudge: s.setFaceNudge,
   }));
-  const urn: any = urnId ? (urns as any)[urnId] : null;
+  const urnId = props.urnId !== undefined ? props.urnId : store.urnId;
+  const imageDataUrl = props.image !== undefined ? props.image : store.imageDataUrl;
+  const collageImages = props.image !== undefined ? props.collageImages ?? [] : store.collageImages;
+  const params = props.params ?? store.params;
+  const { byId: urns } = useUrns();
+  const urn: any = urnId ? findUrn(urns, urnId) : null;
+  const lithophane = lithophaneOf(urn);
+  const [backlit, setBacklit] = useState(true);
   const [bbox, setBbox] = useState<any>(null);
   const [urnScale, setUrnScale] = useState(1);
-  const [face, setFace] = useState<FaceCode | null>(null);
-  const [faceNudge, setFaceNudge] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
+  // The draft's face and nudge are saved with it; an order shown through
+  // props keeps its own, so browsing orders does not touch the draft.
+  const detached = props.params !== undefined;
+  const [localFace, setLocalFace] = useState<FaceCode | null>(props.face ?? null);
+  const [localNudge, setLocalNudge] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
+  const face = detached ? localFace : store.face;
+  const setFace = detached ? setLocalFace : store.setFace;
+  const faceNudge = detached ? localNudge : store.faceNudge;
+  const setFaceNudge = detached ? setLocalNudge : store.setFaceNudge;
   const [stlError, setStlError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const bakeRef = useRef<(() => Mesh) | null>(null);
+  const [urnModel, setUrnModel] = useState<{ geometry: THREE.BufferGeometry; matrix: THREE.Matrix4 } | null>(null);
   const containerRef = useRef<any>(null);
+  const controlId = useId();
   const controlsRef = useRef<any>(null);
   // Choose which face to use for the relief.  Default from urn metadata.
   const defaultFace: FaceCode = (urn?.target?.default_face ?? '+Y') as FaceCode;
@@ -474,26 +724,128 @@ export default function ThreePreview() {
   const margin = 0.002;
   const fit0 = Math.min((faceBoxMeters.w - margin) / targetWm, (faceBoxMeters.h - margin) / targetHm);
   const fit90 = Math.min((faceBoxMeters.w - margin) / targetHm, (faceBoxMeters.h - margin) / targetWm);
-  const autoRotateZDeg = isFinite(fit90) && fit90 > fit0 ? 90 : 0;
+  // Curved surfaces wrap around a fixed axis, so never rotate those designs.
+  const surface = useMemo(() => surfaceFromTarget(urn?.target, 0.001), [urn]);
+  const autoRotateZDeg = !isCurved(surface) && isFinite(fit90) && fit90 > fit0 ? 90 : 0;
+  // Face extent and wall thickness in the model's own frame, like the face
+  // placement itself.
+  const urnFace = useMemo(
+    () =>
+      urnModel
+        ? measureFace(urnModel.geometry.getAttribute('position').array as Float32Array, requestedFace)
+        : null,
+    [urnModel, requestedFace],
+  );
+  // Stable so the model loads once per STL rather than on every render.
+  const onUrnReady = useCallback(
+    ({ bbox, scale, matrix, geometry }: Parameters<React.ComponentProps<typeof UrnMesh>['onReady']>[0]) => {
+      setUrnModel({ geometry, matrix });
+      setBbox(bbox);
+      setUrnScale(scale);
+      setStlError(null);
+    },
+    [],
+  );
+  const onUrnError = useCallback((e: unknown) => setStlError(String(e)), []);
+  // A lithophane has no model to load; the camera frames the panel's outer
+  // size, which only changes with the scale.
+  const panel = lithophane
+    ? lithophaneSize({
+        widthMm: targetWm * 1000 * (params?.scale ?? 1),
+        heightMm: targetHm * 1000 * (params?.scale ?? 1),
+        target: lithophane,
+      })
+    : null;
+  const panelW = (panel?.widthMm ?? 0) / 1000;
+  const panelH = (panel?.heightMm ?? 0) / 1000;
+  const panelT = lithophane ? Math.max(lithophane.frame_thickness_mm, lithophane.thickness_max_mm) / 1000 : 0;
+  const panelBox = useMemo(
+    () =>
+      panelW > 0
+        ? new THREE.Box3(new THREE.Vector3(-panelW / 2, -panelH / 2, 0), new THREE.Vector3(panelW / 2, panelH / 2, panelT))
+        : null,
+    [panelW, panelH, panelT],
+  );
+  const fitBox: THREE.Box3 | null = panelBox ?? bbox;
+  const fitScale = panelBox ? 1 : urnScale;
+  const fitView = panelBox ? PANEL_VIEW : undefined;
   // Reset camera to fit urn.
   const doRefit = useCallback(() => {
-    if (!bbox || !controlsRef.current) return;
+    if (!fitBox || !controlsRef.current) return;
     const cam = (controlsRef.current as any).object as THREE.PerspectiveCamera;
-    const scaled = bbox.clone();
-    scaled.min.multiplyScalar(urnScale);
-    scaled.max.multiplyScalar(urnScale);
-    simpleFit(cam, controlsRef.current, scaled, 2.0);
-  }, [bbox, urnScale]);
+    const scaled = fitBox.clone();
+    scaled.min.multiplyScalar(fitScale);
+    scaled.max.multiplyScalar(fitScale);
+    simpleFit(cam, controlsRef.current, scaled, 2.0, fitView);
+  }, [fitBox, fitScale, fitView]);
+  // Export in urn space, millimetres: the relief goes through the same face
+  // placement as the preview group, the urn through its orientation.
+  const doExport = (format: ExportFormat) => {
+    const bake = bakeRef.current;
+    if (!bake || !fitBox) {
+      setExportError('The preview is still building; try again in a moment.');
+      return;
+    }
+    setExporting(format);
+    setExportError(null);
+    // Let the button show progress before the (blocking) bake starts.
+    setTimeout(() => {
+      try {
+        if (lithophane) {
+          // The panel is the whole product, already in its own millimetres.
+          const panel = bake();
+          const name = `lithophane-${urnId}`;
+          if (format === 'stl') download(meshToBinarySTL(panel), `${name}.stl`, EXPORT_TYPES.stl);
+          else if (format === 'glb') {
+            const parts = [{ name: 'lithophane', mesh: panel, color: 0xf2f2f2, metallic: 0, roughness: 0.55 }];
+            download(meshesToGLB(parts), `${name}.glb`, EXPORT_TYPES.glb);
+          } else download(meshesTo3MF([{ name: 'lithophane', mesh: panel }]), `${name}.3mf`, EXPORT_TYPES['3mf']);
+          return;
+        }
+        const { pos, rot } = facePlacement(bbox, requestedFace);
+        const toMm = urnScale * 1000;
+        const faceMatrix = new THREE.Matrix4()
+          .makeRotationFromEuler(rot)
+          .setPosition(pos.x * toMm, pos.y * toMm, pos.z * toMm);
+        const relief = transformMesh(bake(), faceMatrix);
+        const name = `urn-design-${urnId}`;
+        if (format === 'stl') {
+          download(meshToBinarySTL(relief), `${name}.stl`, EXPORT_TYPES.stl);
+          return;
+        }
+        const model = urnModel;
+        const urnMesh = model
+          ? transformMesh(
+              indexTriangles(model.geometry.getAttribute('position').array as Float32Array),
+              new THREE.Matrix4().makeScale(toMm, toMm, toMm).multiply(model.matrix),
+            )
+          : null;
+        if (format === 'glb') {
+          const parts = [{ name: 'relief', mesh: relief, color: 0xdddddd, metallic: 0.08, roughness: 0.42 }];
+          if (urnMesh) parts.unshift({ name: 'urn', mesh: urnMesh, color: 0xb5b5b5, metallic: 0.35, roughness: 0.5 });
+          download(meshesToGLB(parts), `${name}.glb`, EXPORT_TYPES.glb);
+        } else {
+          const objects = [{ name: 'relief', mesh: relief }];
+          if (urnMesh) objects.unshift({ name: urn?.label ?? 'urn', mesh: urnMesh });
+          download(meshesTo3MF(objects), `${name}.3mf`, EXPORT_TYPES['3mf']);
+        }
+      } catch (e: any) {
+        setExportError(e?.message || String(e));
+      } finally {
+        setExporting(null);
+      }
+    }, 0);
+  };
   // Fitter component fits the camera whenever bbox or scale changes.
   const Fitter = () => {
     const { camera } = useThree();
     useEffect(() => {
-      if (!bbox || !(camera instanceof THREE.PerspectiveCamera)) return;
-      const scaled = bbox.clone();
-      scaled.min.multiplyScalar(urnScale);
-      scaled.max.multiplyScalar(urnScale);
-      simpleFit(camera as THREE.PerspectiveCamera, controlsRef.current, scaled, 2.0);
-    }, [bbox, urnScale, camera]);
+      if (!fitBox || !(camera instanceof THREE.PerspectiveCamera)) return;
+      const scaled = fitBox.clone();
+      scaled.min.multiplyScalar(fitScale);
+      scaled.max.multiplyScalar(fitScale);
+      simpleFit(camera as THREE.PerspectiveCamera, controlsRef.current, scaled, 2.0, fitView);
+    }, [fitBox, fitScale, fitView, camera]);
     return null;
   };
   const ControlUpdater = () => {
@@ -519,35 +871,81 @@ export default function ThreePreview() {
           >
             Reset View
           </button>
-          <div className="bg-white/90 backdrop-blur px-2 py-1 rounded-md border text-xs flex items-center gap-1 pointer-events-auto">
-            <span>Face</span>
-            <select
-              className="border rounded px-1 py-0.5"
-              value={requestedFace}
-              onChange={(e) => setFace(e.target.value as FaceCode)}
-            >
-              {['+X', '-X', '+Y', '-Y', '+Z', '-Z'].map((f) => (
-                <option key={f} value={f}>
-                  {f}
-                </option>
+          {lithophane ? (
+            <div className="bg-white/90 backdrop-blur px-2 py-1 rounded-md border text-xs flex items-center gap-1 pointer-events-auto">
+              <span>Light</span>
+              <button
+                aria-pressed={backlit}
+                onClick={() => setBacklit(true)}
+                className={`border rounded px-1.5 py-0.5 ${backlit ? 'bg-neutral-900 text-white' : ''}`}
+              >
+                Backlit
+              </button>
+              <button
+                aria-pressed={!backlit}
+                onClick={() => setBacklit(false)}
+                className={`border rounded px-1.5 py-0.5 ${backlit ? '' : 'bg-neutral-900 text-white'}`}
+              >
+                Front
+              </button>
+            </div>
+          ) : (
+            <div className="bg-white/90 backdrop-blur px-2 py-1 rounded-md border text-xs flex items-center gap-1 pointer-events-auto">
+              <label htmlFor={`${controlId}-face`}>Face</label>
+              <select
+                id={`${controlId}-face`}
+                className="border rounded px-1 py-0.5"
+                value={requestedFace}
+                onChange={(e) => setFace(e.target.value as FaceCode)}
+              >
+                {FACE_CODES.map((f) => (
+                  <option key={f} value={f}>
+                    {FACE_LABELS[f]} ({f})
+                  </option>
+                ))}
+              </select>
+              <span className="ml-2" aria-hidden>
+                nudge (mm)
+              </span>
+              <input
+                type="number"
+                step="0.5"
+                aria-label="Nudge across the face (mm)"
+                className="w-14 border rounded px-1 py-0.5"
+                value={faceNudge.x}
+                onChange={(e) => setFaceNudge({ ...faceNudge, x: parseFloat(e.target.value || '0') })}
+              />
+              <input
+                type="number"
+                step="0.5"
+                aria-label="Nudge up the face (mm)"
+                className="w-14 border rounded px-1 py-0.5"
+                value={faceNudge.y}
+                onChange={(e) => setFaceNudge({ ...faceNudge, y: parseFloat(e.target.value || '0') })}
+              />
+            </div>
+          )}
+          {urn && imageDataUrl && fitBox && (
+            <div className="bg-white/90 backdrop-blur px-2 py-1 rounded-md border text-xs flex items-center gap-1 pointer-events-auto">
+              <span>Export</span>
+              {EXPORT_FORMATS.map((f) => (
+                <button
+                  key={f}
+                  disabled={!!exporting}
+                  aria-label={`Export as ${f.toUpperCase()}`}
+                  onClick={() => doExport(f)}
+                  className="border rounded px-1.5 py-0.5 uppercase disabled:opacity-60"
+                >
+                  {exporting === f ? '…' : f}
+                </button>
               ))}
-            </select>
-            <span className="ml-2">nudge (mm)</span>
-            <input
-              type="number"
-              step="0.5"
-              className="w-14 border rounded px-1 py-0.5"
-              value={faceNudge.x}
-              onChange={(e) => setFaceNudge((v) => ({ ...v, x: parseFloat(e.target.value || '0') }))}
-            />
-            <input
-              type="number"
-              step="0.5"
-              className="w-14 border rounded px-1 py-0.5"
-              value={faceNudge.y}
-              onChange={(e) => setFaceNudge((v) => ({ ...v, y: parseFloat(e.target.value || '0') }))}
-            />
-          </div>
+            </div>
+          )}
+          {exportError && (
+            <div className="text-xs px-2 py-1 rounded bg-red-50 border border-red-200 text-red-700 pointer-events-auto">
+              {exportError}
+            </div>
+          )}
         </div>
       </div>
       <Canvas
@@ -559,7 +957,7 @@ export default function ThreePreview() {
         style={{ width: '100%', height: '100%', touchAction: 'none' }}
       >
         {/* Background colour */}
-        <color attach="background" args={['#f6f6f6']} />
+        <color attach="background" args={[lithophane && backlit ? '#1c1b19' : '#f6f6f6']} />
         {/* Lights */}
         <ambientLight intensity={0.35} />
         <directionalLight
@@ -572,32 +970,44 @@ export default function ThreePreview() {
         <pointLight position={[-3.2, -2, 4.2]} intensity={0.9} />
         <hemisphereLight intensity={0.4} groundColor={new THREE.Color(0x404040)} />
         {/* Urn mesh */}
-        {urn && urn.stl && (
+        {urn && urn.stl && !lithophane && (
           <UrnMesh
             stlPath={resolveSTL(urn.stl)}
             orientation={urn.orientation}
-            onReady={({ bbox, scale }) => {
-              setBbox(bbox);
-              setUrnScale(scale);
-              setStlError(null);
-            }}
-            onError={(e) => setStlError(String(e))}
+            onReady={onUrnReady}
+            onError={onUrnError}
           />
         )}
         {/* Fit camera */}
         <Fitter />
         {/* Relief plane */}
-        {urn && imageDataUrl && bbox && (() => {
+        {/* Lithophane panel */}
+        {lithophane && imageDataUrl && (
+          <LithophanePanel
+            images={[imageDataUrl, ...collageImages]}
+            params={params}
+            target={urn.target}
+            lithophane={lithophane}
+            backlit={backlit}
+            bakeRef={bakeRef}
+            onReport={props.onReport}
+          />
+        )}
+        {urn && !lithophane && imageDataUrl && bbox && (() => {
           const { pos, rot, targetW, targetH } = facePlacement(bbox, requestedFace);
           return (
             <group position={[pos.x * urnScale, pos.y * urnScale, pos.z * urnScale]} rotation={rot}>
               <ReliefPlane
-                image={imageDataUrl}
+                images={[imageDataUrl, ...collageImages]}
                 params={params}
                 target={urn.target}
                 faceBoxMeters={{ w: targetW * urnScale, h: targetH * urnScale }}
                 autoRotateZDeg={autoRotateZDeg}
                 faceNudgeMm={faceNudge}
+                surface={surface}
+                bakeRef={bakeRef}
+                urnFace={urnFace}
+                onReport={props.onReport}
               />
             </group>
           );
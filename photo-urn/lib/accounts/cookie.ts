@@ -0,0 +1,7 @@
+// Kept apart from ./index so middleware, which runs without Node APIs,
+// can check for the cookie without pulling in the token store.
+
+export const SESSION_COOKIE = 'session'
+
+/** Tokens for orders placed in this browser, see `grantOrderAccess`. */
+export const ORDER_ACCESS_COOKIE = 'order_access'
@@ -0,0 +1,136 @@
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { isAdmin } from '@/lib/admin/auth'
+import { sendSignInEmail } from '@/lib/notifications'
+import type { Order } from '@/lib/orders/repository'
+import { dataDir } from '@/lib/storage/paths'
+import { ORDER_ACCESS_COOKIE, SESSION_COOKIE } from './cookie'
+import { createJsonAccountRepository } from './json-repository'
+import { normalizeEmail, type Account, type AccountRepository } from './repository'
+import { createJsonTokenStore, type TokenStore } from './tokens'
+
+export * from './cookie'
+export * from './repository'
+
+// Passwordless sign-in.  A customer asks for a link by email; following it
+// spends the link, finds or creates the account for that address and
+// starts a session held in an httpOnly cookie.  Links and sessions are
+// tokens in a local store under `.data/auth`, so signing out revokes the
+// session on the server too.
+//
+// Placing an order does not sign anyone in (an email address proves
+// nothing), but the browser that placed it gets a token for that order
+// alone, so a signed-out customer can pay for it and follow it.
+
+export const SIGN_IN_LINK_MS = 15 * 60_000
+export const SESSION_MS = 30 * 24 * 60 * 60_000
+export const ORDER_ACCESS_MS = 180 * 24 * 60 * 60_000
+/** Orders a browser can follow without signing in; older ones fall off. */
+const MAX_ORDER_ACCESS = 10
+
+type SignInLink = { email: string; next: string }
+type Session = { accountId: string }
+type OrderAccess = { orderId: string }
+
+const globalForAccounts = globalThis as unknown as {
+  __accountRepository?: AccountRepository
+  __signInLinks?: TokenStore<SignInLink>
+  __sessions?: TokenStore<Session>
+  __orderAccess?: TokenStore<OrderAccess>
+}
+
+/** Process-wide repository, cached on globalThis like the order repository. */
+export function getAccountRepository(): AccountRepository {
+  if (!globalForAccounts.__accountRepository) {
+    globalForAccounts.__accountRepository = createJsonAccountRepository(dataDir('accounts'))
+  }
+  return globalForAccounts.__accountRepository
+}
+
+function signInLinks(): TokenStore<SignInLink> {
+  return (globalForAccounts.__signInLinks ??= createJsonTokenStore(dataDir('auth', 'links')))
+}
+
+function sessions(): TokenStore<Session> {
+  return (globalForAccounts.__sessions ??= createJsonTokenStore(dataDir('auth', 'sessions')))
+}
+
+function orderAccess(): TokenStore<OrderAccess> {
+  return (globalForAccounts.__orderAccess ??= createJsonTokenStore(dataDir('auth', 'orders')))
+}
+
+const heldOrderTokens = () => (cookies().get(ORDER_ACCESS_COOKIE)?.value ?? '').split('.').filter(Boolean)
+
+/**
+ * Let this browser follow `orderId` without signing in.  Returns the new
+ * value for ORDER_ACCESS_COOKIE: the tokens it already holds plus one for
+ * this order.
+ */
+export async function grantOrderAccess(orderId: string): Promise<{ value: string; expires: Date }> {
+  const { token, expires } = await orderAccess().issue({ orderId }, ORDER_ACCESS_MS)
+  return { value: [...heldOrderTokens(), token].slice(-MAX_ORDER_ACCESS).join('.'), expires }
+}
+
+async function hasOrderAccess(orderId: string): Promise<boolean> {
+  for (const token of heldOrderTokens()) {
+    if ((await orderAccess().get(token))?.orderId === orderId) return true
+  }
+  return false
+}
+
+/** A path on this site to return to after signing in; anything else becomes /account. */
+export function safeNext(next: unknown): string {
+  return typeof next === 'string' && /^\/(?![/\\])/.test(next) ? next : '/account'
+}
+
+/** Email a one-time sign-in link that returns the customer to `next`. */
+export async function requestSignIn(email: string, next: unknown): Promise<void> {
+  const { token } = await signInLinks().issue({ email: normalizeEmail(email), next: safeNext(next) }, SIGN_IN_LINK_MS)
+  await sendSignInEmail(email, `/api/auth/verify?token=${encodeURIComponent(token)}`, SIGN_IN_LINK_MS / 60_000)
+}
+
+/**
+ * Spend a sign-in link.  Returns the account it was for, where to go next
+ * and a new session token for the cookie, or null when the link is
+ * unknown, used or expired.
+ */
+export async function completeSignIn(token: string) {
+  const link = await signInLinks().consume(token)
+  if (!link) return null
+  const accounts = getAccountRepository()
+  const account = await accounts.ensure(link.email)
+  await accounts.touch(account.id)
+  const session = await sessions().issue({ accountId: account.id }, SESSION_MS)
+  return { account, next: link.next, ...session }
+}
+
+/** The signed-in customer for the current request, or null. */
+export async function currentAccount(): Promise<Account | null> {
+  const session = await sessions().get(cookies().get(SESSION_COOKIE)?.value ?? '')
+  return session ? getAccountRepository().get(session.accountId) : null
+}
+
+/** End the current request's session, if any. */
+export async function signOut(): Promise<void> {
+  await sessions().revoke(cookies().get(SESSION_COOKIE)?.value ?? '')
+}
+
+export function ownsOrder(account: Account, order: Order): boolean {
+  // Orders from before accounts belong to whoever signs in with their contact email.
+  if (order.accountId) return order.accountId === account.id
+  return !!order.customer.email && normalizeEmail(order.customer.email) === account.email
+}
+
+/**
+ * 401 or 403 response for routes about one order, or null when staff, the
+ * order's owner or the browser that placed it is asking.
+ */
+export async function requireOrderAccess(order: Order): Promise<NextResponse | null> {
+  if (isAdmin() || (await hasOrderAccess(order.id))) return null
+  const account = await currentAccount()
+  if (!account) return NextResponse.json({ error: 'Sign in to see this order' }, { status: 401 })
+  if (!ownsOrder(account, order)) {
+    return NextResponse.json({ error: 'This order belongs to another account' }, { status: 403 })
+  }
+  return null
+}
@@ -0,0 +1,38 @@
+import crypto from 'node:crypto'
+import { createJsonFileStore, isValidKey } from '@/lib/storage/json-files'
+import { normalizeEmail, type Account, type AccountRepository } from './repository'
+
+/**
+ * Ids are derived from the email, so `ensure` finds an existing account
+ * without scanning and two sign-ins racing for a new address create it
+ * once.
+ */
+export function accountIdFor(email: string): string {
+  return crypto.createHash('sha256').update(normalizeEmail(email)).digest('hex').slice(0, 32)
+}
+
+/** AccountRepository backed by one JSON file per account. */
+export function createJsonAccountRepository(dir: string): AccountRepository {
+  const store = createJsonFileStore<Account>(dir)
+
+  return {
+    get: async (id) => (isValidKey(id) ? store.get(id) : null),
+
+    async ensure(email) {
+      const out = await store.update(accountIdFor(email), (current) =>
+        current ?? {
+          id: accountIdFor(email),
+          email: normalizeEmail(email),
+          createdAt: new Date().toISOString(),
+          lastSignInAt: null,
+        }
+      )
+      return out!
+    },
+
+    touch: (id) =>
+      isValidKey(id)
+        ? store.update(id, (current) => current && { ...current, lastSignInAt: new Date().toISOString() })
+        : Promise.resolve(null),
+  }
+}
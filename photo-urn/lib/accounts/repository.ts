@@ -0,0 +1,25 @@
+/**
+ * A customer, identified by the email address they sign in with.  Orders
+ * and shared designs made while signed in carry the account's id; an
+ * order placed signed out belongs to the account for its contact email.
+ */
+export type Account = {
+  id: string
+  /** Lower-cased. */
+  email: string
+  createdAt: string
+  lastSignInAt: string | null
+}
+
+export interface AccountRepository {
+  get(id: string): Promise<Account | null>
+  /** The account for `email`, created the first time it is asked for. */
+  ensure(email: string): Promise<Account>
+  /** Record a successful sign-in. */
+  touch(id: string): Promise<Account | null>
+}
+
+/** Email addresses compare case-insensitively and without surrounding space. */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
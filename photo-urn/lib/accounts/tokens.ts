@@ -0,0 +1,60 @@
+import crypto from 'node:crypto'
+import { createJsonFileStore } from '@/lib/storage/json-files'
+
+// Bearer tokens kept on disk: sign-in links, sessions and order access.  Only a hash of
+// each token is stored, so reading the data folder does not sign anyone
+// in, and expired tokens are dropped when they are next looked up.
+
+export type TokenStore<T> = {
+  /** A new random token for `data`, valid for `ttlMs`. */
+  issue(data: T, ttlMs: number): Promise<{ token: string; expires: Date }>
+  /** The token's data while it is valid. */
+  get(token: string): Promise<T | null>
+  /** The token's data, once: the token is removed whether or not it was still valid. */
+  consume(token: string): Promise<T | null>
+  revoke(token: string): Promise<void>
+}
+
+type Stored<T> = { data: T; expiresAt: string }
+
+const keyFor = (token: string) => crypto.createHash('sha256').update(token).digest('hex')
+
+export function createJsonTokenStore<T>(dir: string): TokenStore<T> {
+  const store = createJsonFileStore<Stored<T>>(dir)
+
+  const valid = (stored: Stored<T> | null): stored is Stored<T> => !!stored && Date.parse(stored.expiresAt) > Date.now()
+
+  return {
+    async issue(data, ttlMs) {
+      const token = crypto.randomBytes(32).toString('base64url')
+      const expires = new Date(Date.now() + ttlMs)
+      await store.put(keyFor(token), { data, expiresAt: expires.toISOString() })
+      return { token, expires }
+    },
+
+    async get(token) {
+      if (typeof token !== 'string' || !token) return null
+      const stored = await store.get(keyFor(token))
+      if (valid(stored)) return stored.data
+      if (stored) await store.remove(keyFor(token))
+      return null
+    },
+
+    async consume(token) {
+      if (typeof token !== 'string' || !token) return null
+      let data: T | null = null
+      await store.update(keyFor(token), (stored) => {
+        if (!valid(stored)) return null
+        data = stored.data
+        // Spent under the lock, so two requests with one token can't both use it.
+        return { ...stored, expiresAt: new Date(0).toISOString() }
+      })
+      await store.remove(keyFor(token))
+      return data
+    },
+
+    revoke: async (token) => {
+      if (typeof token === 'string' && token) await store.remove(keyFor(token))
+    },
+  }
+}
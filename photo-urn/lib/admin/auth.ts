@@ -0,0 +1,57 @@
+import crypto from 'node:crypto'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+
+// Staff sign in with the shared ADMIN_PASSWORD.  The session cookie is
+// `<expires ms>.<hmac>` keyed on the password, so changing the password
+// signs everyone out and no server-side session table is needed.
+
+export const ADMIN_COOKIE = 'admin_session'
+export const ADMIN_SESSION_MS = 12 * 60 * 60_000
+
+function adminPassword(): string | null {
+  return process.env.ADMIN_PASSWORD || null
+}
+
+export function isAdminConfigured(): boolean {
+  return !!adminPassword()
+}
+
+const sign = (expires: number, password: string) =>
+  crypto.createHmac('sha256', `admin-session:${password}`).update(String(expires)).digest('hex')
+
+const digest = (s: string) => crypto.createHash('sha256').update(s).digest()
+
+export function checkPassword(input: unknown): boolean {
+  const password = adminPassword()
+  if (!password || typeof input !== 'string') return false
+  return crypto.timingSafeEqual(digest(input), digest(password))
+}
+
+export function createSessionToken(now = Date.now()): { token: string; expires: Date } {
+  const password = adminPassword()
+  if (!password) throw new Error('ADMIN_PASSWORD is not set')
+  const expires = now + ADMIN_SESSION_MS
+  return { token: `${expires}.${sign(expires, password)}`, expires: new Date(expires) }
+}
+
+export function verifySessionToken(token: string | undefined, now = Date.now()): boolean {
+  const password = adminPassword()
+  if (!password || !token) return false
+  const [exp, mac] = token.split('.', 2)
+  const expires = Number(exp)
+  if (!Number.isFinite(expires) || expires <= now || !mac) return false
+  const expected = Buffer.from(sign(expires, password), 'hex')
+  const given = Buffer.from(mac, 'hex')
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected)
+}
+
+/** True when the current request carries a valid admin session. */
+export function isAdmin(): boolean {
+  return verifySessionToken(cookies().get(ADMIN_COOKIE)?.value)
+}
+
+/** 401 response for admin API routes, or null when the caller is signed in. */
+export function requireAdmin(): NextResponse | null {
+  return isAdmin() ? null : NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+}
@@ -0,0 +1,18 @@
+import { RELIEF_JOB, getJobQueue, jobSummary } from '@/lib/jobs'
+import { orderOutputs, type Order } from '@/lib/orders'
+
+/** Statuses that no longer accept edits or regeneration. */
+export const CLOSED_STATUSES: readonly Order['status'][] = ['shipped', 'cancelled']
+
+/** An order plus its latest generation job and output files. */
+export async function adminOrderView(order: Order) {
+  const job = await getJobQueue().latestForOrder(order.id, RELIEF_JOB)
+  return {
+    ...order,
+    review: order.review ?? null,
+    generation: job ? jobSummary(job) : null,
+    files: await orderOutputs(order),
+  }
+}
+
+export type AdminOrderView = Awaited<ReturnType<typeof adminOrderView>>
@@ -0,0 +1,36 @@
+import { dataDir } from '@/lib/storage/paths'
+import { createJsonDesignRepository } from './json-repository'
+import type { Design, DesignRepository } from './repository'
+
+export { newDesignId } from './json-repository'
+export * from './repository'
+
+const globalForDesigns = globalThis as unknown as { __designRepository?: DesignRepository }
+
+/** Process-wide repository, cached on globalThis like the order repository. */
+export function getDesignRepository(): DesignRepository {
+  if (!globalForDesigns.__designRepository) {
+    globalForDesigns.__designRepository = createJsonDesignRepository(dataDir('designs'))
+  }
+  return globalForDesigns.__designRepository
+}
+
+/** Private folder for shared photos; they are served through /api/designs. */
+export function designImagesDir(): string {
+  return dataDir('designs', 'images')
+}
+
+/** What the share page sees: the design with URLs for its photos. */
+export function designView(design: Design) {
+  return {
+    id: design.id,
+    urnId: design.urnId,
+    params: design.params,
+    imageUrl: `/api/designs/${design.id}/image`,
+    collageImageUrls: (design.collageImages ?? []).map((_, i) => `/api/designs/${design.id}/image?slot=${i + 2}`),
+    comments: design.comments,
+    createdAt: design.createdAt,
+  }
+}
+
+export type DesignView = ReturnType<typeof designView>
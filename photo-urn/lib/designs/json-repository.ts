@@ -0,0 +1,48 @@
+import crypto from 'node:crypto'
+import { createJsonFileStore, isValidKey } from '@/lib/storage/json-files'
+import { DesignNotFoundError, type Design, type DesignRepository } from './repository'
+
+/** Share links are the only access control, so ids must be unguessable. */
+export function newDesignId(): string {
+  return crypto.randomBytes(16).toString('base64url')
+}
+
+/** DesignRepository backed by one JSON file per design. */
+export function createJsonDesignRepository(dir: string): DesignRepository {
+  const store = createJsonFileStore<Design>(dir)
+
+  return {
+    async create(input) {
+      const now = new Date().toISOString()
+      const design: Design = {
+        id: input.id ?? newDesignId(),
+        urnId: input.urnId,
+        params: input.params,
+        image: input.image,
+        collageImages: input.collageImages ?? [],
+        comments: [],
+        accountId: input.accountId,
+        createdAt: now,
+        updatedAt: now,
+      }
+      await store.put(design.id, design)
+      return design
+    },
+
+    get: async (id) => (isValidKey(id) ? store.get(id) : null),
+
+    async listByAccount(accountId) {
+      const all = await store.all()
+      return all.filter((d) => d.accountId === accountId).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    },
+
+    async addComment(id, comment) {
+      const out = await store.update(id, (current) => {
+        if (!current) throw new DesignNotFoundError(id)
+        const at = new Date().toISOString()
+        return { ...current, comments: [...current.comments, { id: crypto.randomUUID(), ...comment, at }], updatedAt: at }
+      })
+      return out!
+    },
+  }
+}
@@ -0,0 +1,48 @@
+import type { PreviewParams } from '@/lib/store'
+
+export type DesignComment = {
+  id: string
+  name: string
+  message: string
+  /** The viewer signed off on the design. */
+  approved: boolean
+  at: string
+}
+
+/**
+ * A design shared for family approval.  The design itself never changes;
+ * edits in the editor are shared again under a new id.
+ */
+export type Design = {
+  id: string
+  urnId: string
+  params: PreviewParams
+  /** Photo, relative to `designImagesDir()`. */
+  image: { file: string; mime: string }
+  /** Photos for the second and later collage slots, like `image`. */
+  collageImages?: { file: string; mime: string }[]
+  comments: DesignComment[]
+  /** Shared while signed in, see lib/accounts. */
+  accountId?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type NewDesign = Pick<Design, 'urnId' | 'params' | 'image' | 'collageImages' | 'accountId'> & { id?: string }
+
+export type NewComment = Pick<DesignComment, 'name' | 'message' | 'approved'>
+
+export class DesignNotFoundError extends Error {
+  constructor(public readonly designId: string) {
+    super(`Design ${designId} not found`)
+    this.name = 'DesignNotFoundError'
+  }
+}
+
+export interface DesignRepository {
+  create(input: NewDesign): Promise<Design>
+  get(id: string): Promise<Design | null>
+  /** Designs shared from an account, newest first. */
+  listByAccount(accountId: string): Promise<Design[]>
+  addComment(id: string, comment: NewComment): Promise<Design>
+}
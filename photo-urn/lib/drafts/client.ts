@@ -0,0 +1,56 @@
+import { readAsDataUrl } from '@/lib/images/ingest'
+import { useAppStore } from '@/lib/store'
+import type { DraftView } from './index'
+
+// Browser side of account drafts: save the design being edited to the
+// signed-in customer's account, and load a saved one back into the editor.
+
+/**
+ * Save the editor's design, over the draft it was last saved to when there
+ * is one.  A draft deleted in the meantime is saved as a new one.
+ */
+export async function saveDraft(): Promise<DraftView> {
+  const s = useAppStore.getState()
+  const body = JSON.stringify({
+    urnId: s.urnId,
+    params: s.params,
+    imageDataUrl: s.imageDataUrl,
+    collageImageDataUrls: s.collageImages,
+    step: s.step,
+  })
+  const send = (url: string, method: string) =>
+    fetch(url, { method, headers: { 'Content-Type': 'application/json' }, body })
+  let res = s.draftId ? await send(`/api/drafts/${s.draftId}`, 'PUT') : null
+  if (!res || res.status === 404) res = await send('/api/drafts', 'POST')
+  const json = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(json?.error || 'Could not save your draft')
+  useAppStore.getState().setDraftId(json.draft.id)
+  return json.draft
+}
+
+/** Replace the editor's design with a saved draft. */
+export async function openDraft(draft: DraftView): Promise<void> {
+  const [imageDataUrl, ...collageImages] = await Promise.all(
+    [draft.imageUrl, ...draft.collageImageUrls].map(async (url) => {
+      if (!url) return null
+      const res = await fetch(url)
+      if (!res.ok) throw new Error('Could not load the photo')
+      return readAsDataUrl(await res.blob())
+    })
+  )
+  useAppStore.getState().openDesign({
+    urnId: draft.urnId,
+    imageDataUrl,
+    collageImages,
+    params: draft.params,
+    step: draft.step,
+    draftId: draft.id,
+  })
+}
+
+/** Forget a saved draft, e.g. once it has been ordered. */
+export async function deleteDraft(id: string): Promise<void> {
+  const res = await fetch(`/api/drafts/${id}`, { method: 'DELETE' })
+  if (!res.ok && res.status !== 404) throw new Error('Could not delete the draft')
+  if (useAppStore.getState().draftId === id) useAppStore.getState().setDraftId(null)
+}
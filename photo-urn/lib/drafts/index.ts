@@ -0,0 +1,95 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { normalizePhoto } from '@/lib/images/normalize'
+import { parseImageDataUrl } from '@/lib/schemas/submit'
+import { dataDir } from '@/lib/storage/paths'
+import { createJsonDraftRepository } from './json-repository'
+import type { Draft, DraftImage, DraftRepository } from './repository'
+
+export { newDraftId } from './json-repository'
+export * from './repository'
+
+/** Drafts one account may keep; saving more asks the customer to delete one. */
+export const MAX_DRAFTS = 20
+
+const globalForDrafts = globalThis as unknown as { __draftRepository?: DraftRepository }
+
+/** Process-wide repository, cached on globalThis like the order repository. */
+export function getDraftRepository(): DraftRepository {
+  if (!globalForDrafts.__draftRepository) {
+    globalForDrafts.__draftRepository = createJsonDraftRepository(dataDir('drafts'))
+  }
+  return globalForDrafts.__draftRepository
+}
+
+/** Private folder for draft photos; they are served through /api/drafts. */
+export function draftImagesDir(): string {
+  return dataDir('drafts', 'images')
+}
+
+/** A draft photo that could not be read; `field` names it as the draft schema does. */
+export class DraftPhotoError extends Error {
+  readonly field: string
+
+  constructor(slot: number) {
+    super(`Could not read photo ${slot + 1}`)
+    this.name = 'DraftPhotoError'
+    this.field = slot === 0 ? 'imageDataUrl' : `collageImageDataUrls.${slot - 1}`
+  }
+}
+
+/**
+ * Store a draft's photos like order photos (upright JPEGs, `<id>.jpg` then
+ * `<id>-2.jpg`…), replacing what an earlier save left.  Empty slots stay
+ * null.  Every photo is read before anything is replaced, so a
+ * DraftPhotoError leaves the saved draft as it was.
+ */
+export async function writeDraftPhotos(id: string, dataUrls: (string | null)[]): Promise<(DraftImage | null)[]> {
+  const photos = await Promise.all(
+    dataUrls.map(async (url, i) => {
+      if (!url) return null
+      try {
+        return await normalizePhoto(Buffer.from(parseImageDataUrl(url)!.base64, 'base64'))
+      } catch {
+        throw new DraftPhotoError(i)
+      }
+    })
+  )
+  await removeDraftPhotos(id)
+  await fs.mkdir(draftImagesDir(), { recursive: true })
+  return Promise.all(
+    photos.map(async (photo, i) => {
+      if (!photo) return null
+      const file = i === 0 ? `${id}.jpg` : `${id}-${i + 1}.jpg`
+      await fs.writeFile(path.join(draftImagesDir(), file), photo.bytes)
+      return { file, mime: photo.mime }
+    })
+  )
+}
+
+export async function removeDraftPhotos(id: string): Promise<void> {
+  const files = await fs.readdir(draftImagesDir()).catch(() => [] as string[])
+  await Promise.all(
+    files
+      .filter((f) => f === `${id}.jpg` || f.startsWith(`${id}-`))
+      .map((f) => fs.rm(path.join(draftImagesDir(), f), { force: true }))
+  )
+}
+
+/** What the account page and the editor see: the draft with URLs for its photos. */
+export function draftView(draft: Draft) {
+  const version = encodeURIComponent(draft.updatedAt)
+  const url = (slot: number) => `/api/drafts/${draft.id}/image?slot=${slot}&v=${version}`
+  return {
+    id: draft.id,
+    urnId: draft.urnId,
+    params: draft.params,
+    step: draft.step,
+    imageUrl: draft.image ? url(1) : null,
+    collageImageUrls: draft.collageImages.map((img, i) => (img ? url(i + 2) : null)),
+    createdAt: draft.createdAt,
+    updatedAt: draft.updatedAt,
+  }
+}
+
+export type DraftView = ReturnType<typeof draftView>
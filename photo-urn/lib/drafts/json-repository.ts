@@ -0,0 +1,50 @@
+import crypto from 'node:crypto'
+import { createJsonFileStore, isValidKey } from '@/lib/storage/json-files'
+import { DraftNotFoundError, type Draft, type DraftRepository } from './repository'
+
+export function newDraftId(): string {
+  return crypto.randomBytes(16).toString('base64url')
+}
+
+/** DraftRepository backed by one JSON file per draft. */
+export function createJsonDraftRepository(dir: string): DraftRepository {
+  const store = createJsonFileStore<Draft>(dir)
+
+  return {
+    async create(accountId, input) {
+      const now = new Date().toISOString()
+      const draft: Draft = {
+        id: input.id ?? newDraftId(),
+        accountId,
+        urnId: input.urnId,
+        params: input.params,
+        image: input.image,
+        collageImages: input.collageImages,
+        step: input.step,
+        createdAt: now,
+        updatedAt: now,
+      }
+      await store.put(draft.id, draft)
+      return draft
+    },
+
+    get: async (id) => (isValidKey(id) ? store.get(id) : null),
+
+    async listByAccount(accountId) {
+      const all = await store.all()
+      return all.filter((d) => d.accountId === accountId).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    },
+
+    async update(id, input) {
+      const out = await store.update(id, (current) => {
+        if (!current) throw new DraftNotFoundError(id)
+        return { ...current, ...input, updatedAt: new Date().toISOString() }
+      })
+      return out!
+    },
+
+    remove: async (id) => {
+      if (isValidKey(id)) await store.remove(id)
+    },
+  }
+}
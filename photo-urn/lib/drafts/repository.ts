@@ -0,0 +1,41 @@
+import type { PreviewParams } from '@/lib/store'
+import type { WizardStep } from '@/lib/wizard'
+
+export type DraftImage = { file: string; mime: string }
+
+/**
+ * A design in progress saved to a customer's account, so it can be picked
+ * up on another device.  Unlike a shared design it changes with every save.
+ */
+export type Draft = {
+  id: string
+  accountId: string
+  urnId: string | null
+  params: PreviewParams
+  /** Photo, relative to `draftImagesDir()`; null before one is picked. */
+  image: DraftImage | null
+  /** Photos for the second and later collage slots, like `image`. */
+  collageImages: (DraftImage | null)[]
+  /** Wizard step it was saved at. */
+  step: WizardStep
+  createdAt: string
+  updatedAt: string
+}
+
+export type DraftInput = Pick<Draft, 'urnId' | 'params' | 'image' | 'collageImages' | 'step'>
+
+export class DraftNotFoundError extends Error {
+  constructor(public readonly draftId: string) {
+    super(`Draft ${draftId} not found`)
+    this.name = 'DraftNotFoundError'
+  }
+}
+
+export interface DraftRepository {
+  create(accountId: string, input: DraftInput & { id?: string }): Promise<Draft>
+  get(id: string): Promise<Draft | null>
+  /** An account's drafts, most recently saved first. */
+  listByAccount(accountId: string): Promise<Draft[]>
+  update(id: string, input: DraftInput): Promise<Draft>
+  remove(id: string): Promise<void>
+}
@@ -0,0 +1,28 @@
+import { PNG } from 'pngjs'
+import jpeg from 'jpeg-js'
+import type { RGBAImage } from '@/lib/relief/heightmap'
+import { isJPEG, isPNG } from './sniff'
+
+/**
+ * Decode a PNG or JPEG into 8-bit RGBA pixels on the server.  The format is
+ * sniffed from the magic bytes rather than trusted from the filename, since
+ * uploads have historically been saved as `image.png` whatever they were.
+ */
+export function decodeImage(buf: Buffer): RGBAImage {
+  if (isPNG(buf)) {
+    const png = PNG.sync.read(buf)
+    return { data: new Uint8Array(png.data.buffer, png.data.byteOffset, png.data.length), width: png.width, height: png.height }
+  }
+  if (isJPEG(buf)) {
+    const img = jpeg.decode(buf, { useTArray: true, formatAsRGBA: true, maxMemoryUsageInMB: 512 })
+    return { data: img.data, width: img.width, height: img.height }
+  }
+  throw new Error('Unsupported image format (expected PNG or JPEG)')
+}
+
+/** Encode RGBA pixels as PNG (used for server-side previews like depth.png). */
+export function encodePNG(img: RGBAImage): Buffer {
+  const png = new PNG({ width: img.width, height: img.height })
+  png.data = Buffer.from(img.data.buffer, img.data.byteOffset, img.data.length)
+  return PNG.sync.write(png)
+}
@@ -0,0 +1,155 @@
+import type { RGBAImage } from '@/lib/relief/heightmap'
+import { isJPEG, isPNG, isWebP } from './sniff'
+
+// The few EXIF fields ingestion cares about, read from the TIFF block of a
+// JPEG (APP1), PNG (eXIf) or WebP (EXIF chunk), and the pixel transform for
+// the orientation tag.  No Node or DOM APIs, like ./sniff.
+
+export type ExifInfo = {
+  /** 1–8 as in the TIFF spec; 1 is upright. */
+  orientation?: number
+  /** DateTimeOriginal as `YYYY-MM-DDTHH:MM:SS`, camera local time. */
+  takenAt?: string
+  /** Make and model. */
+  camera?: string
+}
+
+const TAG_ORIENTATION = 0x0112
+const TAG_MAKE = 0x010f
+const TAG_MODEL = 0x0110
+const TAG_EXIF_IFD = 0x8769
+const TAG_DATE_TIME_ORIGINAL = 0x9003
+
+/** Offset and length of the TIFF block, or null when there is none. */
+function findTiff(buf: Uint8Array): [number, number] | null {
+  const u16 = (o: number) => (buf[o] << 8) | buf[o + 1]
+  const u32be = (o: number) => ((buf[o] << 24) >>> 0) + (buf[o + 1] << 16) + (buf[o + 2] << 8) + buf[o + 3]
+  const u32le = (o: number) => buf[o] + (buf[o + 1] << 8) + (buf[o + 2] << 16) + ((buf[o + 3] << 24) >>> 0)
+  const ascii = (o: number, n: number) => String.fromCharCode(...Array.from(buf.subarray(o, o + n)))
+
+  if (isJPEG(buf)) {
+    let o = 2
+    while (o + 4 < buf.length && buf[o] === 0xff) {
+      const marker = buf[o + 1]
+      // start of scan: no metadata after this
+      if (marker === 0xda) return null
+      const len = u16(o + 2)
+      if (marker === 0xe1 && ascii(o + 4, 6) === 'Exif\0\0') return [o + 10, len - 8]
+      o += 2 + len
+    }
+    return null
+  }
+  if (isPNG(buf)) {
+    let o = 8
+    while (o + 8 < buf.length) {
+      const len = u32be(o)
+      const type = ascii(o + 4, 4)
+      if (type === 'eXIf') return [o + 8, len]
+      if (type === 'IDAT' || type === 'IEND') return null
+      o += 12 + len
+    }
+    return null
+  }
+  if (isWebP(buf)) {
+    let o = 12
+    while (o + 8 < buf.length) {
+      const len = u32le(o + 4)
+      if (ascii(o, 4) === 'EXIF') {
+        // some writers keep the JPEG-style header
+        const skip = ascii(o + 8, 6) === 'Exif\0\0' ? 6 : 0
+        return [o + 8 + skip, len - skip]
+      }
+      o += 8 + len + (len & 1)
+    }
+  }
+  return null
+}
+
+/** Parse the fields above; null when the image has no readable EXIF. */
+export function readExif(buf: Uint8Array): ExifInfo | null {
+  const found = findTiff(buf)
+  if (!found) return null
+  const [start, length] = found
+  const end = Math.min(buf.length, start + length)
+  if (end - start < 8) return null
+  const little = buf[start] === 0x49 && buf[start + 1] === 0x49
+  if (!little && !(buf[start] === 0x4d && buf[start + 1] === 0x4d)) return null
+
+  const at = (o: number) => start + o
+  const u16 = (o: number) => (little ? buf[at(o)] | (buf[at(o) + 1] << 8) : (buf[at(o)] << 8) | buf[at(o) + 1])
+  const u32 = (o: number) =>
+    little
+      ? (buf[at(o)] | (buf[at(o) + 1] << 8) | (buf[at(o) + 2] << 16) | (buf[at(o) + 3] << 24)) >>> 0
+      : ((buf[at(o)] << 24) | (buf[at(o) + 1] << 16) | (buf[at(o) + 2] << 8) | buf[at(o) + 3]) >>> 0
+  const inside = (o: number, n: number) => o >= 0 && at(o) + n <= end
+
+  /** Entries of the IFD at `o`, as tag → offset of its 12-byte entry. */
+  const ifd = (o: number) => {
+    const entries = new Map<number, number>()
+    if (!inside(o, 2)) return entries
+    const count = u16(o)
+    for (let i = 0; i < count && inside(o + 2 + i * 12, 12); i++) entries.set(u16(o + 2 + i * 12), o + 2 + i * 12)
+    return entries
+  }
+  const text = (entry: number | undefined) => {
+    if (entry === undefined || u16(entry + 2) !== 2) return undefined
+    const n = u32(entry + 4)
+    const o = n <= 4 ? entry + 8 : u32(entry + 8)
+    if (!inside(o, n)) return undefined
+    const s = String.fromCharCode(...Array.from(buf.subarray(at(o), at(o) + n)))
+    return s.replace(/\0[\s\S]*$/, '').trim() || undefined
+  }
+
+  const ifd0 = ifd(u32(4))
+  const info: ExifInfo = {}
+  const orientation = ifd0.get(TAG_ORIENTATION)
+  if (orientation !== undefined) {
+    const value = u16(orientation + 8)
+    if (value >= 1 && value <= 8) info.orientation = value
+  }
+  const camera = [text(ifd0.get(TAG_MAKE)), text(ifd0.get(TAG_MODEL))].filter(Boolean).join(' ')
+  if (camera) info.camera = camera
+  const exifIfd = ifd0.get(TAG_EXIF_IFD)
+  if (exifIfd !== undefined) {
+    const taken = text(ifd(u32(exifIfd + 8)).get(TAG_DATE_TIME_ORIGINAL))
+    const m = taken && /^(\d{4}):(\d{2}):(\d{2}) (\d{2}:\d{2}:\d{2})/.exec(taken)
+    if (m) info.takenAt = `${m[1]}-${m[2]}-${m[3]}T${m[4]}`
+  }
+  return info
+}
+
+/** Orientations 5–8 swap width and height. */
+export function swapsAxes(orientation: number | undefined): boolean {
+  return !!orientation && orientation >= 5
+}
+
+/** Source pixel for upright pixel (x, y) of a w×h stored image, per orientation. */
+const SOURCE: Record<number, (x: number, y: number, w: number, h: number) => [number, number]> = {
+  2: (x, y, w) => [w - 1 - x, y],
+  3: (x, y, w, h) => [w - 1 - x, h - 1 - y],
+  4: (x, y, w, h) => [x, h - 1 - y],
+  5: (x, y) => [y, x],
+  6: (x, y, w, h) => [y, h - 1 - x],
+  7: (x, y, w, h) => [w - 1 - y, h - 1 - x],
+  8: (x, y, w) => [w - 1 - y, x],
+}
+
+/**
+ * Turn pixels stored with EXIF `orientation` upright.  Returns the input
+ * unchanged for orientation 1 or unknown values.
+ */
+export function orientImage(img: RGBAImage, orientation: number | undefined): RGBAImage {
+  const source = orientation ? SOURCE[orientation] : undefined
+  if (!source) return img
+  const { width: w, height: h, data } = img
+  const width = swapsAxes(orientation) ? h : w
+  const height = swapsAxes(orientation) ? w : h
+  const out = new Uint8Array(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [sx, sy] = source(x, y, w, h)
+      out.set(data.subarray((sy * w + sx) * 4, (sy * w + sx) * 4 + 4), (y * width + x) * 4)
+    }
+  }
+  return { data: out, width, height }
+}
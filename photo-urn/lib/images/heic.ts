@@ -0,0 +1,12 @@
+import decodeHeic from 'heic-decode'
+import type { RGBAImage } from '@/lib/relief/heightmap'
+
+// HEIC, as iPhones save photos, decoded with libheif built to WebAssembly.
+// Server only: the decoder is several megabytes, too much to send to every
+// browser for the few that cannot open HEIC themselves (see ./ingest).
+
+/** Decode the primary image of a HEIC file; libheif applies its rotation and mirroring. */
+export async function decodeHEIC(buf: Uint8Array): Promise<RGBAImage> {
+  const { width, height, data } = await decodeHeic({ buffer: buf })
+  return { data: new Uint8Array(data.buffer, data.byteOffset, data.length), width, height }
+}
@@ -0,0 +1,125 @@
+import { orientImage, swapsAxes } from './exif'
+import { MAX_PHOTO_SIDE, readPhotoMeta, type PhotoMeta } from './meta'
+
+// Browser side of photo ingestion.  Whatever the customer picks (JPEG, PNG,
+// WebP or HEIC) becomes an upright JPEG no larger than MAX_PHOTO_SIDE
+// before it reaches the store, so the preview, the share link and the
+// order all see the same pixels.  HEIC the browser cannot open is
+// converted by the server (/api/photos), which also normalizes again
+// (./normalize) for clients that skip this.
+
+const JPEG_QUALITY = 0.92
+
+export class IngestError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'IngestError'
+  }
+}
+
+export type IngestedPhoto = {
+  dataUrl: string
+  width: number
+  height: number
+  /** The file as picked, recorded with the order. */
+  meta: PhotoMeta
+}
+
+export function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+async function loadImage(blob: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(blob)
+  try {
+    const img = new Image()
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve()
+      img.onerror = () => reject(new Error('decode failed'))
+      img.src = url
+    })
+    return img
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+/** Have the server convert a HEIC photo this browser cannot open. */
+async function convertOnServer(file: File): Promise<Blob> {
+  const res = await fetch('/api/photos', { method: 'POST', body: file }).catch(() => null)
+  if (!res?.ok) {
+    const json = await res?.json().catch(() => null)
+    throw new IngestError(json?.error || 'Could not open this HEIC photo. Try exporting it as JPEG first.')
+  }
+  return res.blob()
+}
+
+/**
+ * The photo upright on a canvas.  Current browsers apply EXIF orientation
+ * when decoding an <img>; older ones do not, which shows as a width and
+ * height that were not swapped, and then the pixels are turned here.
+ */
+function uprightCanvas(img: HTMLImageElement, meta: PhotoMeta): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = img.naturalWidth
+  canvas.height = img.naturalHeight
+  const ctx = canvas.getContext('2d')!
+  ctx.drawImage(img, 0, 0)
+  const applied = !swapsAxes(meta.orientation) || img.naturalWidth === meta.width
+  if (applied) return canvas
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  const turned = orientImage({ data: pixels.data, width: pixels.width, height: pixels.height }, meta.orientation)
+  const out = document.createElement('canvas')
+  out.width = turned.width
+  out.height = turned.height
+  out.getContext('2d')!.putImageData(new ImageData(new Uint8ClampedArray(turned.data), turned.width, turned.height), 0, 0)
+  return out
+}
+
+/**
+ * Read a picked file into an upright, size-capped JPEG data URL.  A JPEG
+ * that is already upright and small enough is passed through unchanged.
+ * Throws IngestError with a message for the customer.
+ */
+export async function ingestPhoto(file: File): Promise<IngestedPhoto> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const meta = readPhotoMeta(bytes, file.name)
+  if (meta.mime === 'application/octet-stream') {
+    throw new IngestError('Unsupported photo format. Please use a JPEG, PNG, WebP or HEIC photo.')
+  }
+  let picked: Blob = file
+  let img = await loadImage(file).catch(() => null)
+  if (!img && meta.mime === 'image/heic') {
+    // Only Safari opens HEIC itself; the server's JPEG is upright and capped.
+    picked = await convertOnServer(file)
+    img = await loadImage(picked).catch(() => null)
+  }
+  if (!img) throw new IngestError('Could not read this photo. It may be damaged.')
+
+  const source = uprightCanvas(img, meta)
+  const upright = { ...meta, width: source.width, height: source.height }
+  const factor = Math.max(1, Math.max(source.width, source.height) / MAX_PHOTO_SIDE)
+  const jpeg = meta.mime === 'image/jpeg' || picked !== file
+  const untouched = jpeg && (meta.orientation ?? 1) === 1 && factor === 1
+  if (untouched) {
+    return { dataUrl: await readAsDataUrl(picked), width: source.width, height: source.height, meta: upright }
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(source.width / factor)
+  canvas.height = Math.round(source.height / factor)
+  const ctx = canvas.getContext('2d')!
+  // JPEG has no alpha: transparent areas become white, not black.
+  ctx.fillStyle = '#fff'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height)
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY))
+  if (!blob) throw new IngestError('Could not prepare this photo for upload.')
+  return { dataUrl: await readAsDataUrl(blob), width: canvas.width, height: canvas.height, meta: upright }
+}
@@ -0,0 +1,42 @@
+import { readExif, swapsAxes } from './exif'
+import { readImageSize, sniffSourceMime } from './sniff'
+
+/** Longest side of a stored photo; the heightmap uses at most 1024 px. */
+export const MAX_PHOTO_SIDE = 4096
+
+/**
+ * What we keep about a photo as the customer picked it, before it was
+ * turned upright, downsampled and re-encoded.  Recorded with the order.
+ */
+export type PhotoMeta = {
+  /** File name on the customer's device, when known. */
+  name?: string
+  /** Sniffed format of the original file. */
+  mime: string
+  bytes: number
+  /** Pixel size once turned upright. */
+  width: number
+  height: number
+  /** EXIF orientation, when the file had one. */
+  orientation?: number
+  takenAt?: string
+  camera?: string
+}
+
+/**
+ * Metadata from the encoded bytes.  Width and height are 0 when the header
+ * cannot be read without decoding (WebP, HEIC); the caller fills them in.
+ */
+export function readPhotoMeta(buf: Uint8Array, name?: string): PhotoMeta {
+  const exif = readExif(buf)
+  const size = readImageSize(buf)
+  const swap = swapsAxes(exif?.orientation)
+  return {
+    ...(name ? { name } : {}),
+    mime: sniffSourceMime(buf) ?? 'application/octet-stream',
+    bytes: buf.length,
+    width: (swap ? size?.height : size?.width) ?? 0,
+    height: (swap ? size?.width : size?.height) ?? 0,
+    ...exif,
+  }
+}
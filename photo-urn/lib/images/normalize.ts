@@ -0,0 +1,88 @@
+import jpeg from 'jpeg-js'
+import type { RGBAImage } from '@/lib/relief/heightmap'
+import { decodeImage } from './codec'
+import { orientImage } from './exif'
+import { decodeHEIC } from './heic'
+import { MAX_PHOTO_SIDE, readPhotoMeta, type PhotoMeta } from './meta'
+import { isHEIC, isJPEG } from './sniff'
+
+// Server side of photo ingestion (the browser side is ./ingest).  Uploads
+// are stored as upright JPEGs no larger than MAX_PHOTO_SIDE, whatever the
+// client sent, so every later stage (the relief job, previews, admin) can
+// ignore EXIF and size.
+
+const JPEG_QUALITY = 92
+
+export type NormalizedPhoto = {
+  bytes: Buffer
+  mime: 'image/jpeg'
+  width: number
+  height: number
+  /** The upload as received. */
+  meta: PhotoMeta
+}
+
+/** Box-filter downsample so the longest side is at most `maxSide`. */
+function downsample(img: RGBAImage, maxSide: number): RGBAImage {
+  const factor = Math.max(img.width, img.height) / maxSide
+  if (factor <= 1) return img
+  const width = Math.max(1, Math.round(img.width / factor))
+  const height = Math.max(1, Math.round(img.height / factor))
+  const out = new Uint8Array(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor((y * img.height) / height)
+    const y1 = Math.max(y0 + 1, Math.floor(((y + 1) * img.height) / height))
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor((x * img.width) / width)
+      const x1 = Math.max(x0 + 1, Math.floor(((x + 1) * img.width) / width))
+      const sum = [0, 0, 0, 0]
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const s = (sy * img.width + sx) * 4
+          for (let c = 0; c < 4; c++) sum[c] += img.data[s + c]
+        }
+      }
+      const n = (y1 - y0) * (x1 - x0)
+      for (let c = 0; c < 4; c++) out[(y * width + x) * 4 + c] = Math.round(sum[c] / n)
+    }
+  }
+  return { data: out, width, height }
+}
+
+/** JPEG has no alpha: composite on white so transparent areas stay light. */
+function flatten(img: RGBAImage): RGBAImage {
+  const data = new Uint8Array(img.data)
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3] / 255
+    if (a === 1) continue
+    for (let c = 0; c < 3; c++) data[i + c] = Math.round(data[i + c] * a + 255 * (1 - a))
+    data[i + 3] = 255
+  }
+  return { ...img, data }
+}
+
+/**
+ * Decode an uploaded PNG, JPEG or HEIC, apply its EXIF orientation,
+ * downsample it and re-encode it as JPEG.  A JPEG that is already upright
+ * and small enough is kept byte for byte, so photos the browser already
+ * normalized are not compressed twice.
+ */
+export async function normalizePhoto(buf: Buffer): Promise<NormalizedPhoto> {
+  let meta = readPhotoMeta(buf)
+  const upright = !meta.orientation || meta.orientation === 1
+  if (isJPEG(buf) && upright && Math.max(meta.width, meta.height) <= MAX_PHOTO_SIDE && meta.width > 0) {
+    return { bytes: buf, mime: 'image/jpeg', width: meta.width, height: meta.height, meta }
+  }
+  let decoded: RGBAImage
+  if (isHEIC(buf)) {
+    // Decoded upright already; its size is only known now.
+    decoded = await decodeHEIC(buf)
+    meta = { ...meta, width: decoded.width, height: decoded.height }
+  } else {
+    decoded = orientImage(decodeImage(buf), meta.orientation)
+  }
+  const img = flatten(downsample(decoded, MAX_PHOTO_SIDE))
+  const data = Buffer.from(img.data.buffer, img.data.byteOffset, img.data.length)
+  const encoded = jpeg.encode({ data, width: img.width, height: img.height }, JPEG_QUALITY)
+  return { bytes: encoded.data, mime: 'image/jpeg', width: img.width, height: img.height, meta }
+}
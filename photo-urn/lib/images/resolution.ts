@@ -0,0 +1,26 @@
+// Whether a photo has enough pixels for the physical size it is printed
+// at.  The relief resolves roughly a tenth of a millimetre, so below about
+// 4 px/mm (100 dpi) faces start to look soft.
+
+export const MIN_PX_PER_MM = 4
+
+/** Pixels per millimetre when the photo covers a `widthMm` × `heightMm` area. */
+export function pixelsPerMm(photo: { width: number; height: number }, widthMm: number, heightMm: number): number {
+  return Math.min(photo.width / widthMm, photo.height / heightMm)
+}
+
+/** A customer-facing warning, or null when the photo is sharp enough. */
+export function resolutionWarning(
+  photo: { width: number; height: number },
+  widthMm: number,
+  heightMm: number
+): string | null {
+  const density = pixelsPerMm(photo, widthMm, heightMm)
+  if (!(density < MIN_PX_PER_MM)) return null
+  const need = `${Math.ceil(widthMm * MIN_PX_PER_MM)}×${Math.ceil(heightMm * MIN_PX_PER_MM)}`
+  return (
+    `This photo is ${photo.width}×${photo.height} px, about ${density.toFixed(1)} px per mm at ` +
+    `${Math.round(widthMm)}×${Math.round(heightMm)} mm, so the relief may look soft. ` +
+    `At least ${need} px is recommended.`
+  )
+}
@@ -0,0 +1,89 @@
+// Cheap format and dimension checks on encoded image bytes.  No decoding and
+// no Node or DOM APIs, so validation can run on both sides of the wire.
+
+export type ImageMime = 'image/png' | 'image/jpeg'
+
+export function isPNG(buf: Uint8Array): boolean {
+  return buf.length > 8 && buf[0] === 0x89 && buf[1] === 0x50 && buf[2] === 0x4e && buf[3] === 0x47
+}
+
+export function isJPEG(buf: Uint8Array): boolean {
+  return buf.length > 3 && buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff
+}
+
+/** RIFF container with a WEBP form type. */
+export function isWebP(buf: Uint8Array): boolean {
+  return (
+    buf.length > 12 &&
+    String.fromCharCode(buf[0], buf[1], buf[2], buf[3]) === 'RIFF' &&
+    String.fromCharCode(buf[8], buf[9], buf[10], buf[11]) === 'WEBP'
+  )
+}
+
+/** ISO-BMFF `ftyp` box with a HEIF image brand, as iPhones write. */
+export function isHEIC(buf: Uint8Array): boolean {
+  if (buf.length < 12 || String.fromCharCode(buf[4], buf[5], buf[6], buf[7]) !== 'ftyp') return false
+  const brand = String.fromCharCode(buf[8], buf[9], buf[10], buf[11])
+  return ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1'].includes(brand)
+}
+
+export function sniffMime(buf: Uint8Array): ImageMime | null {
+  if (isPNG(buf)) return 'image/png'
+  if (isJPEG(buf)) return 'image/jpeg'
+  return null
+}
+
+/**
+ * Formats a customer may pick from their photo library.  Only PNG and JPEG
+ * are uploaded; the others are converted in the browser first.
+ */
+export function sniffSourceMime(buf: Uint8Array): ImageMime | 'image/webp' | 'image/heic' | null {
+  if (isWebP(buf)) return 'image/webp'
+  if (isHEIC(buf)) return 'image/heic'
+  return sniffMime(buf)
+}
+
+/**
+ * Read pixel dimensions from a PNG IHDR chunk or the first JPEG SOF marker.
+ * Returns null when the header is truncated or not recognised.
+ */
+export function readImageSize(buf: Uint8Array): { width: number; height: number } | null {
+  const u16 = (o: number) => (buf[o] << 8) | buf[o + 1]
+  const u32 = (o: number) => ((buf[o] << 24) >>> 0) + (buf[o + 1] << 16) + (buf[o + 2] << 8) + buf[o + 3]
+  if (isPNG(buf)) {
+    if (buf.length < 24) return null
+    return { width: u32(16), height: u32(20) }
+  }
+  if (isJPEG(buf)) {
+    let o = 2
+    while (o + 9 < buf.length) {
+      if (buf[o] !== 0xff) return null
+      const marker = buf[o + 1]
+      if (marker === 0xff) {
+        o++
+        continue
+      }
+      // SOF0..SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: u16(o + 7), height: u16(o + 5) }
+      }
+      o += 2 + u16(o + 2)
+    }
+  }
+  return null
+}
+
+/** Decode base64 to bytes with Buffer when available, atob otherwise. */
+export function base64ToBytes(b64: string): Uint8Array {
+  if (typeof Buffer !== 'undefined') return new Uint8Array(Buffer.from(b64, 'base64'))
+  const bin = atob(b64)
+  const out = new Uint8Array(bin.length)
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i)
+  return out
+}
+
+/** Byte length of base64 payload without decoding it. */
+export function base64ByteLength(b64: string): number {
+  const pad = b64.endsWith('==') ? 2 : b64.endsWith('=') ? 1 : 0
+  return Math.floor((b64.length * 3) / 4) - pad
+}
@@ -0,0 +1,32 @@
+import { dataDir } from '@/lib/storage/paths'
+import { createJobQueue, type JobQueue } from './queue'
+import { RELIEF_JOB, reliefJobHandler, type ReliefJobPayload } from './relief'
+import { createRunner } from './runner'
+
+export * from './queue'
+export { RELIEF_JOB } from './relief'
+export * from './tracking'
+
+const globalForJobs = globalThis as unknown as {
+  __jobQueue?: JobQueue
+  __jobRunner?: ReturnType<typeof createRunner>
+}
+
+export function getJobQueue(): JobQueue {
+  if (!globalForJobs.__jobQueue) globalForJobs.__jobQueue = createJobQueue(dataDir('jobs'))
+  return globalForJobs.__jobQueue
+}
+
+/** Wake the in-process runner so newly queued jobs start right away. */
+export function kickJobs(): void {
+  if (!globalForJobs.__jobRunner) {
+    globalForJobs.__jobRunner = createRunner(getJobQueue(), { [RELIEF_JOB]: reliefJobHandler })
+  }
+  globalForJobs.__jobRunner.kick()
+}
+
+export async function enqueueRelief(orderId: string) {
+  const job = await getJobQueue().enqueue<ReliefJobPayload>({ kind: RELIEF_JOB, orderId, payload: { orderId } })
+  kickJobs()
+  return job
+}
@@ -0,0 +1,243 @@
+import crypto from 'node:crypto'
+import { createJsonFileStore, isValidKey, type JsonFileStore } from '@/lib/storage/json-files'
+
+// Durable job queue on top of the JSON file store.  Consumers lease a job for
+// a visibility timeout and must heartbeat to keep it; a lease that runs out
+// makes the job available again.  Failures retry with exponential backoff
+// until `maxAttempts`, after which the job is dead-lettered.
+
+export type JobState = 'queued' | 'processing' | 'done' | 'dead'
+
+export type JobProgress = {
+  /** 0..1 */
+  fraction: number
+  message?: string
+}
+
+export type JobError = {
+  at: string
+  attempt: number
+  message: string
+}
+
+export type Job<P = unknown> = {
+  id: string
+  kind: string
+  orderId: string | null
+  payload: P
+  state: JobState
+  attempts: number
+  maxAttempts: number
+  /** Earliest time the job may be leased (ISO). */
+  runAt: string
+  leaseId: string | null
+  leaseExpiresAt: string | null
+  progress: JobProgress | null
+  errors: JobError[]
+  createdAt: string
+  updatedAt: string
+  finishedAt: string | null
+}
+
+export type EnqueueInput<P> = {
+  kind: string
+  payload: P
+  orderId?: string | null
+  maxAttempts?: number
+  /** Delay before the first attempt, in ms. */
+  delayMs?: number
+}
+
+export type RetryPolicy = {
+  baseMs: number
+  factor: number
+  maxMs: number
+}
+
+export const DEFAULT_RETRY: RetryPolicy = { baseMs: 5_000, factor: 2, maxMs: 5 * 60_000 }
+export const DEFAULT_VISIBILITY_MS = 60_000
+export const DEFAULT_MAX_ATTEMPTS = 5
+
+export class LeaseLostError extends Error {
+  constructor(public readonly jobId: string) {
+    super(`Lease on job ${jobId} is no longer held`)
+    this.name = 'LeaseLostError'
+  }
+}
+
+/** Delay before the next attempt after `attempts` failures. */
+export function backoffMs(attempts: number, policy: RetryPolicy = DEFAULT_RETRY): number {
+  const raw = policy.baseMs * Math.pow(policy.factor, Math.max(0, attempts - 1))
+  return Math.min(policy.maxMs, raw)
+}
+
+export function lastError(job: Job): string | null {
+  return job.errors.length ? job.errors[job.errors.length - 1].message : null
+}
+
+/** Client-facing view of a job; dead jobs are reported as `failed`. */
+export function jobSummary(job: Job) {
+  return {
+    id: job.id,
+    state: job.state === 'dead' ? ('failed' as const) : job.state,
+    attempts: job.attempts,
+    progress: job.progress,
+    last_error: lastError(job),
+    next_attempt_at: job.state === 'queued' && job.attempts > 0 ? job.runAt : null,
+  }
+}
+
+export type JobQueue = ReturnType<typeof createJobQueue>
+
+export function createJobQueue(dir: string, retry: RetryPolicy = DEFAULT_RETRY) {
+  const store: JsonFileStore<Job> = createJsonFileStore<Job>(dir)
+  const now = () => new Date()
+
+  const isLeasable = (job: Job, at: Date) =>
+    (job.state === 'queued' && new Date(job.runAt) <= at) ||
+    (job.state === 'processing' && !!job.leaseExpiresAt && new Date(job.leaseExpiresAt) <= at)
+
+  /** Apply `fn` to a job whose lease is still held by `leaseId`. */
+  const withLease = async (id: string, leaseId: string, fn: (job: Job) => Job) => {
+    const out = await store.update(id, (job) => {
+      if (!job || job.state !== 'processing' || job.leaseId !== leaseId) throw new LeaseLostError(id)
+      return { ...fn(job), updatedAt: now().toISOString() }
+    })
+    return out!
+  }
+
+  const list = async (filter: { state?: JobState; orderId?: string; kind?: string } = {}): Promise<Job[]> => {
+    const all = await store.all()
+    return all
+      .filter(
+        (j) =>
+          (!filter.state || j.state === filter.state) &&
+          (!filter.orderId || j.orderId === filter.orderId) &&
+          (!filter.kind || j.kind === filter.kind),
+      )
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  }
+
+  return {
+    async enqueue<P>(input: EnqueueInput<P>): Promise<Job<P>> {
+      const at = now()
+      const job: Job<P> = {
+        id: crypto.randomUUID(),
+        kind: input.kind,
+        orderId: input.orderId ?? null,
+        payload: input.payload,
+        state: 'queued',
+        attempts: 0,
+        maxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        runAt: new Date(at.getTime() + (input.delayMs ?? 0)).toISOString(),
+        leaseId: null,
+        leaseExpiresAt: null,
+        progress: null,
+        errors: [],
+        createdAt: at.toISOString(),
+        updatedAt: at.toISOString(),
+        finishedAt: null,
+      }
+      await store.put(job.id, job)
+      return job
+    },
+
+    get: async (id: string) => (isValidKey(id) ? store.get(id) : null),
+
+    list,
+
+    /** Most recently created job for an order, if any. */
+    async latestForOrder(orderId: string, kind?: string): Promise<Job | null> {
+      const jobs = await list({ orderId, kind })
+      return jobs.length ? jobs[jobs.length - 1] : null
+    },
+
+    /**
+     * Lease the oldest runnable job.  Expired leases count as a failed
+     * attempt, so a consumer that keeps crashing ends up dead-lettered;
+     * `onDead` hears about each job that happens to, like after `fail`.
+     */
+    async lease(
+      opts: { kinds?: string[]; visibilityMs?: number; onDead?: (job: Job) => Promise<void> } = {},
+    ): Promise<Job | null> {
+      const visibilityMs = opts.visibilityMs ?? DEFAULT_VISIBILITY_MS
+      const candidates = (await store.all())
+        .filter((j) => (!opts.kinds || opts.kinds.includes(j.kind)) && isLeasable(j, now()))
+        .sort((a, b) => a.runAt.localeCompare(b.runAt))
+      for (const candidate of candidates) {
+        const leased = await store.update(candidate.id, (job) => {
+          const at = now()
+          if (!job || !isLeasable(job, at)) return null
+          let errors = job.errors
+          if (job.state === 'processing') {
+            errors = [...errors, { at: at.toISOString(), attempt: job.attempts, message: 'Lease expired' }]
+            if (job.attempts >= job.maxAttempts) {
+              return { ...job, state: 'dead', errors, leaseId: null, leaseExpiresAt: null, updatedAt: at.toISOString(), finishedAt: at.toISOString() }
+            }
+          }
+          return {
+            ...job,
+            state: 'processing',
+            errors,
+            attempts: job.attempts + 1,
+            leaseId: crypto.randomUUID(),
+            leaseExpiresAt: new Date(at.getTime() + visibilityMs).toISOString(),
+            updatedAt: at.toISOString(),
+          }
+        })
+        if (leased?.state === 'processing') return leased
+        if (leased?.state === 'dead') await opts.onDead?.(leased)
+      }
+      return null
+    },
+
+    /** Extend the lease, optionally recording progress. */
+    heartbeat(id: string, leaseId: string, opts: { visibilityMs?: number; progress?: JobProgress } = {}) {
+      return withLease(id, leaseId, (job) => ({
+        ...job,
+        leaseExpiresAt: new Date(now().getTime() + (opts.visibilityMs ?? DEFAULT_VISIBILITY_MS)).toISOString(),
+        progress: opts.progress ?? job.progress,
+      }))
+    },
+
+    progress(id: string, leaseId: string, progress: JobProgress) {
+      return withLease(id, leaseId, (job) => ({ ...job, progress }))
+    },
+
+    ack(id: string, leaseId: string) {
+      return withLease(id, leaseId, (job) => ({
+        ...job,
+        state: 'done',
+        leaseId: null,
+        leaseExpiresAt: null,
+        progress: { fraction: 1, message: job.progress?.message },
+        finishedAt: now().toISOString(),
+      }))
+    },
+
+    /** Record a failure and schedule a retry, or dead-letter the job. */
+    fail(id: string, leaseId: string, error: unknown) {
+      const message = error instanceof Error ? error.message : String(error)
+      return withLease(id, leaseId, (job) => {
+        const at = now()
+        const errors = [...job.errors, { at: at.toISOString(), attempt: job.attempts, message }]
+        const base = { ...job, errors, leaseId: null, leaseExpiresAt: null }
+        if (job.attempts >= job.maxAttempts) {
+          return { ...base, state: 'dead', finishedAt: at.toISOString() }
+        }
+        return { ...base, state: 'queued', runAt: new Date(at.getTime() + backoffMs(job.attempts, retry)).toISOString() }
+      })
+    },
+
+    /** Put a finished or dead job back in the queue with a fresh budget. */
+    async requeue(id: string): Promise<Job> {
+      const out = await store.update(id, (job) => {
+        if (!job) throw new Error(`Job ${id} not found`)
+        if (job.state === 'processing' || job.state === 'queued') return job
+        const at = now().toISOString()
+        return { ...job, state: 'queued', attempts: 0, runAt: at, progress: null, finishedAt: null, updatedAt: at }
+      })
+      return out!
+    },
+  }
+}
@@ -0,0 +1,48 @@
+import path from 'node:path'
+import { canTransition, getOrderRepository, orderImagePaths } from '@/lib/orders'
+import { generateReliefSTL } from '@/lib/relief/generate'
+import { outputsDir } from '@/lib/storage/paths'
+import { getUrn, lithophaneOf } from '@/lib/urns'
+import type { JobHandler } from './runner'
+
+export const RELIEF_JOB = 'relief'
+
+export type ReliefJobPayload = { orderId: string }
+
+/**
+ * Generate `depth.png` and `relief_only.stl` for an order.  Orders that are
+ * paid (or being retried) move through generating → ready; earlier orders
+ * only get proof files and keep their status.
+ */
+export const reliefJobHandler: JobHandler<ReliefJobPayload> = {
+  async run({ job, progress }) {
+    const orders = getOrderRepository()
+    const { orderId } = job.payload
+    const order = await orders.get(orderId)
+    if (!order) throw new Error(`Order ${orderId} not found`)
+    const urn = await getUrn(order.urnId)
+    if (!urn) throw new Error(`Unknown urn ${order.urnId}`)
+
+    if (canTransition(order.status, 'generating')) await orders.transition(orderId, 'generating')
+    const dir = outputsDir(orderId)
+    await generateReliefSTL({
+      imagePaths: orderImagePaths(order),
+      outPath: path.join(dir, 'relief_only.stl'),
+      depthPngPath: path.join(dir, 'depth.png'),
+      params: order.params,
+      target: urn.target,
+      lithophane: lithophaneOf(urn),
+      onProgress: progress,
+    })
+    const latest = await orders.get(orderId)
+    if (latest?.status === 'generating') await orders.transition(orderId, 'ready')
+  },
+
+  async onDead(job, error) {
+    const orders = getOrderRepository()
+    const order = await orders.get(job.payload.orderId)
+    if (order && canTransition(order.status, 'failed')) {
+      await orders.transition(order.id, 'failed', error ?? undefined)
+    }
+  },
+}
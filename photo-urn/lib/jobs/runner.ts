@@ -0,0 +1,105 @@
+import { lastError, type Job, type JobQueue } from './queue'
+
+export type JobContext<P> = {
+  job: Job<P>
+  progress(fraction: number, message?: string): Promise<void>
+}
+
+export type JobHandler<P = any> = {
+  run(ctx: JobContext<P>): Promise<void>
+  /** Called once a job has used up its retries. */
+  onDead?(job: Job<P>, error: string | null): Promise<void>
+}
+
+const HEARTBEAT_MS = 15_000
+
+async function deadLetter(handlers: Record<string, JobHandler>, job: Job) {
+  await handlers[job.kind]?.onDead?.(job, lastError(job)).catch((e) => console.error(e))
+}
+
+/**
+ * Lease and run a single job.  Returns false when nothing was runnable.
+ * The lease is kept alive with heartbeats for as long as the handler runs.
+ */
+export async function runNextJob(queue: JobQueue, handlers: Record<string, JobHandler>): Promise<boolean> {
+  const job = await queue.lease({ kinds: Object.keys(handlers), onDead: (dead) => deadLetter(handlers, dead) })
+  if (!job) return false
+  const handler = handlers[job.kind]
+  const leaseId = job.leaseId!
+  const beat = setInterval(() => {
+    queue.heartbeat(job.id, leaseId).catch(() => undefined)
+  }, HEARTBEAT_MS)
+  try {
+    await handler.run({
+      job,
+      progress: async (fraction, message) => {
+        await queue.progress(job.id, leaseId, { fraction, message })
+      },
+    })
+    await queue.ack(job.id, leaseId)
+  } catch (err) {
+    console.error(`Job ${job.id} (${job.kind}) failed:`, err)
+    const failed = await queue.fail(job.id, leaseId, err).catch(() => null)
+    if (failed?.state === 'dead') await deadLetter(handlers, failed)
+  } finally {
+    clearInterval(beat)
+  }
+  return true
+}
+
+/**
+ * In-process consumer: drains runnable jobs one at a time, then sleeps until
+ * the next scheduled retry.  `kick()` is cheap and safe to call after every
+ * enqueue; only one drain loop runs per process.
+ */
+export function createRunner(queue: JobQueue, handlers: Record<string, JobHandler>) {
+  let running = false
+  let again = false
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  // Wake for the next retry, or for the next lease to run out so a job
+  // whose worker died is picked up again even if nothing new arrives.
+  const scheduleNext = async () => {
+    const jobs = await queue.list()
+    const next = jobs
+      .filter((j) => j.kind in handlers)
+      .map((j) => (j.state === 'queued' ? j.runAt : j.state === 'processing' ? j.leaseExpiresAt : null))
+      .filter((at): at is string => !!at)
+      .map((at) => new Date(at).getTime())
+      .sort((a, b) => a - b)[0]
+    if (next === undefined) return
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(() => {
+      timer = null
+      kick()
+    }, Math.max(0, next - Date.now()) + 50)
+    timer.unref?.()
+  }
+
+  const drain = async () => {
+    running = true
+    try {
+      do {
+        again = false
+        while (await runNextJob(queue, handlers)) {
+          // keep going until the queue is empty
+        }
+      } while (again)
+      await scheduleNext()
+    } catch (err) {
+      console.error('Job runner error:', err)
+    } finally {
+      running = false
+    }
+  }
+
+  const kick = () => {
+    if (running) {
+      again = true
+      return
+    }
+    void drain()
+  }
+
+  return { kick }
+}
@@ -0,0 +1,25 @@
+import { DOWNLOADABLE_STATUSES, orderOutputs, type Order } from '@/lib/orders'
+import { jobSummary, type JobQueue } from './queue'
+import { RELIEF_JOB } from './relief'
+
+/**
+ * What the customer sees of an order: its status, the relief job's
+ * progress and the files produced so far.  Served by /api/status/[orderId]
+ * and streamed by its /stream route.
+ */
+export async function orderTracking(order: Order, queue: JobQueue) {
+  const job = await queue.latestForOrder(order.id, RELIEF_JOB)
+  const { image, collage_images, depth_png, relief_stl, urn_final_stl } = await orderOutputs(order)
+  return {
+    order_id: order.id,
+    status: order.status,
+    ready: order.status === 'ready' || order.status === 'shipped',
+    /** Whether the order allows downloading its files. */
+    downloads: DOWNLOADABLE_STATUSES.includes(order.status),
+    updated_at: order.updatedAt,
+    generation: job ? jobSummary(job) : null,
+    files: { image, collage_images, depth_png, relief_stl, urn_final_stl },
+  }
+}
+
+export type OrderTracking = Awaited<ReturnType<typeof orderTracking>>
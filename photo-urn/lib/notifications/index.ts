@@ -0,0 +1,130 @@
+import type { Order, OrderRepository } from '@/lib/orders/repository'
+import type { OrderStatus } from '@/lib/orders/status'
+import { dataDir } from '@/lib/storage/paths'
+import { getUrn } from '@/lib/urns'
+import { createOutboxTransport } from './outbox'
+import { createSmtpTransport } from './smtp'
+import { renderEmail, renderSignInEmail, type EmailTemplate } from './templates'
+import type { MailTransport } from './transport'
+
+export * from './templates'
+export * from './transport'
+
+const globalForMail = globalThis as unknown as { __mailTransport?: MailTransport }
+
+/** The email an order's customer gets the first time it reaches a status. */
+export const STATUS_EMAILS: Partial<Record<OrderStatus, EmailTemplate>> = {
+  submitted: 'order_received',
+  awaiting_payment: 'payment_link',
+  ready: 'files_ready',
+  shipped: 'shipped',
+}
+
+function required(name: string): string {
+  const value = process.env[name]
+  if (!value) throw new Error(`${name} is not set`)
+  return value
+}
+
+/** Where outbox messages are written; MAIL_OUTBOX_DIR or `.data/outbox`. */
+export function outboxDir(): string {
+  return process.env.MAIL_OUTBOX_DIR || dataDir('outbox')
+}
+
+/**
+ * Transport selected by MAIL_TRANSPORT: `smtp` (SMTP_HOST, SMTP_PORT,
+ * SMTP_SECURE, SMTP_USER, SMTP_PASS) or `outbox`, which writes messages
+ * to disk and is the default outside production.
+ */
+export function getMailTransport(): MailTransport {
+  if (globalForMail.__mailTransport) return globalForMail.__mailTransport
+  const name = process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? '' : 'outbox')
+  switch (name) {
+    case 'outbox':
+      globalForMail.__mailTransport = createOutboxTransport(outboxDir())
+      break
+    case 'smtp': {
+      const secure = process.env.SMTP_SECURE === 'true'
+      globalForMail.__mailTransport = createSmtpTransport({
+        host: required('SMTP_HOST'),
+        port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: process.env.SMTP_USER || undefined,
+        pass: process.env.SMTP_PASS || undefined,
+      })
+      break
+    }
+    default:
+      throw new Error(`Unsupported MAIL_TRANSPORT "${name}"`)
+  }
+  return globalForMail.__mailTransport
+}
+
+/** Origin for links in emails, from APP_URL. */
+export function appUrl(): string {
+  if (process.env.APP_URL) return process.env.APP_URL.replace(/\/+$/, '')
+  if (process.env.NODE_ENV === 'production') throw new Error('APP_URL is not set')
+  return 'http://localhost:3000'
+}
+
+const mailFrom = () => process.env.MAIL_FROM || 'Photo Urn <orders@localhost>'
+
+/**
+ * Render and send one template to the order's customer.  Orders placed
+ * before customers gave an email address are skipped; returns whether a
+ * message went out.
+ */
+export async function sendOrderEmail(order: Order, template: EmailTemplate): Promise<boolean> {
+  const to = order.customer.email
+  if (!to) return false
+  const urn = await getUrn(order.urnId).catch(() => null)
+  const orderUrl = `${appUrl()}/orders/${order.id}`
+  const { subject, html, text } = renderEmail(template, {
+    order,
+    urnLabel: urn?.label ?? order.urnId,
+    orderUrl,
+    paymentUrl: order.payment?.url ?? null,
+  })
+  await getMailTransport().send({ from: mailFrom(), to, subject, html, text })
+  return true
+}
+
+/** Email a sign-in link; `path` is the link relative to APP_URL. */
+export async function sendSignInEmail(to: string, path: string, validMinutes: number): Promise<void> {
+  const { subject, html, text } = renderSignInEmail(`${appUrl()}${path}`, validMinutes)
+  await getMailTransport().send({ from: mailFrom(), to, subject, html, text })
+}
+
+/** Send in the background: a mail outage must not fail the order change. */
+function deliver(order: Order, template: EmailTemplate): void {
+  sendOrderEmail(order, template).catch((err) =>
+    console.error(`Could not send ${template} email for order ${order.id}`, err)
+  )
+}
+
+/**
+ * Wrap a repository so status changes email the customer (see
+ * STATUS_EMAILS) and a staff approval sends `design_approved`.  Status
+ * emails go out only the first time: regenerating a relief does not
+ * repeat `files_ready`.
+ */
+export function withNotifications(repo: OrderRepository): OrderRepository {
+  return {
+    ...repo,
+
+    async update(id, patch) {
+      const approving = patch.review?.decision === 'approved'
+      const before = approving ? await repo.get(id) : null
+      const order = await repo.update(id, patch)
+      if (approving && before?.review?.decision !== 'approved') deliver(order, 'design_approved')
+      return order
+    },
+
+    async transition(id, to, note) {
+      const order = await repo.transition(id, to, note)
+      const template = STATUS_EMAILS[to]
+      if (template && order.history.filter((c) => c.status === to).length === 1) deliver(order, template)
+      return order
+    },
+  }
+}
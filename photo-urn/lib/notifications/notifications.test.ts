@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, test } from 'node:test'
+import { createJsonOrderRepository } from '@/lib/orders/json-repository'
+import type { OrderRepository } from '@/lib/orders/repository'
+import type { PreviewParams } from '@/lib/store'
+import { withNotifications } from '.'
+import { createOutboxTransport, type OutboxEntry } from './outbox'
+
+let dir: string
+let orders: OrderRepository
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'photo-urn-mail-'))
+  process.env.DATA_DIR = dir
+  process.env.MAIL_TRANSPORT = 'outbox'
+  process.env.MAIL_OUTBOX_DIR = path.join(dir, 'outbox')
+  process.env.APP_URL = 'https://urns.example'
+  orders = withNotifications(createJsonOrderRepository(path.join(dir, 'orders')))
+})
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true })
+})
+
+/** Messages are sent in the background, so wait for the outbox to reach `count`. */
+async function outbox(count: number): Promise<OutboxEntry[]> {
+  const transport = createOutboxTransport(process.env.MAIL_OUTBOX_DIR!)
+  for (let i = 0; i < 200; i++) {
+    const entries = await transport.list()
+    if (entries.length >= count) return entries
+    await new Promise((r) => setTimeout(r, 10))
+  }
+  throw new Error(`Outbox never reached ${count} messages`)
+}
+
+test('status changes write the customer emails to the outbox', async () => {
+  const order = await orders.create({
+    urnId: 'urn_vertical',
+    params: {} as PreviewParams,
+    customer: { name: 'Ada Lovelace', email: 'ada@example.com', address: '12 St James Square\nLondon' },
+    image: { file: 'image.jpg', mime: 'image/jpeg' },
+  })
+
+  await orders.transition(order.id, 'submitted')
+  const [received] = await outbox(1)
+  assert.equal(received.to, 'ada@example.com')
+  assert.match(received.subject, /We received your order/)
+  assert.ok(received.text.includes(`https://urns.example/orders/${order.id}`))
+
+  for (const status of ['awaiting_payment', 'paid', 'generating', 'ready'] as const) {
+    await orders.transition(order.id, status)
+  }
+  await outbox(3)
+  await orders.update(order.id, { shipment: { trackingNumber: 'RN123456789GB', carrier: 'Royal Mail', at: new Date().toISOString() } })
+  await orders.transition(order.id, 'shipped')
+
+  const shipped = (await outbox(4)).find((m) => /has shipped/.test(m.subject))
+  assert.ok(shipped, 'no shipped email in the outbox')
+  assert.equal(shipped.to, 'ada@example.com')
+  assert.ok(shipped.text.includes('Tracking number (Royal Mail): RN123456789GB'))
+  const html = await fs.readFile(path.join(process.env.MAIL_OUTBOX_DIR!, shipped.html), 'utf8')
+  assert.ok(html.includes('RN123456789GB'))
+})
+
+test('a status reached again does not email twice', async () => {
+  const order = await orders.create({
+    urnId: 'urn_vertical',
+    params: {} as PreviewParams,
+    customer: { name: 'Grace Hopper', email: 'grace@example.com', address: 'Arlington' },
+    image: { file: 'image.jpg', mime: 'image/jpeg' },
+  })
+  for (const status of ['submitted', 'awaiting_payment', 'paid', 'generating', 'ready', 'generating', 'ready'] as const) {
+    await orders.transition(order.id, status)
+  }
+  await new Promise((r) => setTimeout(r, 100))
+  const mine = (await outbox(0)).filter((m) => m.to === 'grace@example.com')
+  assert.equal(mine.length, 3)
+  assert.equal(mine.filter((m) => /ready to view/.test(m.subject)).length, 1)
+})
@@ -0,0 +1,37 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import type { EmailMessage, MailTransport } from './transport'
+
+// Local-development transport: each message becomes `<stamp>-<id>.html`
+// (open it in a browser) next to `<stamp>-<id>.json` with the envelope and
+// plain-text body.  Names sort in sending order.
+
+export type OutboxEntry = Omit<EmailMessage, 'html'> & { at: string; html: string }
+
+export function createOutboxTransport(dir: string): MailTransport & { list(): Promise<OutboxEntry[]> } {
+  return {
+    name: 'outbox',
+
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true })
+      const at = new Date().toISOString()
+      const base = `${at.replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}`
+      await fs.writeFile(path.join(dir, `${base}.html`), message.html)
+      const { html: _html, ...rest } = message
+      await fs.writeFile(path.join(dir, `${base}.json`), JSON.stringify({ ...rest, at, html: `${base}.html` }, null, 2))
+    },
+
+    /** Sent messages, oldest first, with `html` naming the rendered file. */
+    async list() {
+      const files = await fs.readdir(dir).catch(() => [] as string[])
+      const entries = await Promise.all(
+        files
+          .filter((f) => f.endsWith('.json'))
+          .sort()
+          .map(async (f) => JSON.parse(await fs.readFile(path.join(dir, f), 'utf8')) as OutboxEntry)
+      )
+      return entries
+    },
+  }
+}
@@ -0,0 +1,182 @@
+import crypto from 'node:crypto'
+import net from 'node:net'
+import os from 'node:os'
+import tls from 'node:tls'
+import { MailTransportError, type EmailMessage, type MailTransport } from './transport'
+
+// A small SMTP client: one connection per message, implicit TLS (port 465)
+// or STARTTLS when the server offers it, AUTH PLAIN or LOGIN, and a
+// multipart/alternative body with base64 parts.  Credentials are never
+// sent over a connection that is not encrypted.
+
+export type SmtpConfig = {
+  host: string
+  port: number
+  /** Implicit TLS from the first byte, as on port 465. */
+  secure: boolean
+  user?: string
+  pass?: string
+  timeoutMs?: number
+}
+
+type Reply = { code: number; lines: string[] }
+
+const DEFAULT_TIMEOUT_MS = 30_000
+
+/** Multi-line SMTP replies read off a socket, one `next()` per reply. */
+function replyReader(socket: net.Socket) {
+  let buffer = ''
+  let lines: string[] = []
+  const ready: Reply[] = []
+  let pending: { resolve: (r: Reply) => void; reject: (err: Error) => void } | null = null
+  let failure: Error | null = null
+
+  const settle = () => {
+    if (!pending) return
+    const p = pending
+    if (ready.length) {
+      pending = null
+      p.resolve(ready.shift()!)
+    } else if (failure) {
+      pending = null
+      p.reject(failure)
+    }
+  }
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8')
+    let end: number
+    while ((end = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, end).replace(/\r$/, '')
+      buffer = buffer.slice(end + 1)
+      lines.push(line.slice(4))
+      if (line[3] !== '-') {
+        ready.push({ code: Number(line.slice(0, 3)), lines })
+        lines = []
+      }
+    }
+    settle()
+  }
+  const onError = (err: Error) => {
+    failure ??= err
+    settle()
+  }
+  const onClose = () => onError(new MailTransportError('SMTP connection closed'))
+  socket.on('data', onData)
+  socket.on('error', onError)
+  socket.on('close', onClose)
+
+  return {
+    next: () =>
+      new Promise<Reply>((resolve, reject) => {
+        pending = { resolve, reject }
+        settle()
+      }),
+    /** Stop reading, so the socket can be handed to TLS. */
+    detach() {
+      socket.off('data', onData)
+      socket.off('error', onError)
+      socket.off('close', onClose)
+    },
+  }
+}
+
+/** `Name <a@b>` → `a@b`. */
+function address(mailbox: string): string {
+  return /<([^>]+)>/.exec(mailbox)?.[1] ?? mailbox.trim()
+}
+
+/** One header line: no line breaks, non-ASCII as an encoded word. */
+function encodeHeader(value: string): string {
+  const line = value.replace(/[\r\n]+/g, ' ')
+  return /^[\x20-\x7e]*$/.test(line) ? line : `=?UTF-8?B?${Buffer.from(line).toString('base64')}?=`
+}
+
+function base64Lines(value: string): string {
+  return Buffer.from(value).toString('base64').replace(/.{1,76}/g, '$&\r\n')
+}
+
+/** RFC 5322 message with plain-text and HTML alternatives. */
+export function buildMime(message: EmailMessage, hostname = os.hostname()): string {
+  const boundary = `=_${crypto.randomBytes(12).toString('hex')}`
+  const part = (type: string, body: string) =>
+    `--${boundary}\r\nContent-Type: ${type}; charset=utf-8\r\nContent-Transfer-Encoding: base64\r\n\r\n${base64Lines(body)}`
+  return [
+    `From: ${encodeHeader(message.from)}`,
+    `To: ${encodeHeader(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${hostname}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    part('text/plain', message.text) + part('text/html', message.html) + `--${boundary}--`,
+    '',
+  ].join('\r\n')
+}
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS
+
+  async function send(message: EmailMessage) {
+    let socket: net.Socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port })
+    let encrypted = config.secure
+    let reader = replyReader(socket)
+    const arm = (s: net.Socket) => s.setTimeout(timeoutMs, () => s.destroy(new MailTransportError('SMTP timed out')))
+    arm(socket)
+
+    const command = async (line: string | null, expect: number[]) => {
+      if (line !== null) socket.write(`${line}\r\n`)
+      const reply = await reader.next()
+      if (!expect.includes(reply.code)) {
+        const verb = line === null ? 'greeting' : line.split(' ')[0]
+        throw new MailTransportError(`SMTP ${verb} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code)
+      }
+      return reply
+    }
+    const hello = async () => (await command(`EHLO ${os.hostname()}`, [250])).lines.map((l) => l.toUpperCase())
+
+    try {
+      await command(null, [220])
+      let extensions = await hello()
+      if (!encrypted && extensions.includes('STARTTLS')) {
+        await command('STARTTLS', [220])
+        reader.detach()
+        // errors on the plain socket now surface through the TLS one
+        socket.on('error', () => undefined)
+        socket = tls.connect({ socket, servername: config.host })
+        arm(socket)
+        reader = replyReader(socket)
+        encrypted = true
+        extensions = await hello()
+      }
+
+      if (config.user) {
+        if (!encrypted) throw new MailTransportError('SMTP server does not offer TLS; refusing to send credentials')
+        const auth = extensions.find((l) => l.startsWith('AUTH')) ?? ''
+        if (/\bPLAIN\b/.test(auth) || !/\bLOGIN\b/.test(auth)) {
+          const token = Buffer.from(`\0${config.user}\0${config.pass ?? ''}`).toString('base64')
+          await command(`AUTH PLAIN ${token}`, [235])
+        } else {
+          await command('AUTH LOGIN', [334])
+          await command(Buffer.from(config.user).toString('base64'), [334])
+          await command(Buffer.from(config.pass ?? '').toString('base64'), [235])
+        }
+      }
+
+      await command(`MAIL FROM:<${address(message.from)}>`, [250])
+      await command(`RCPT TO:<${address(message.to)}>`, [250, 251])
+      await command('DATA', [354])
+      // base64 bodies and plain headers never start a line with a dot
+      await command(`${buildMime(message)}\r\n.`, [250])
+      await command('QUIT', [221]).catch(() => undefined)
+    } finally {
+      reader.detach()
+      socket.on('error', () => undefined)
+      socket.destroy()
+    }
+  }
+
+  return { name: 'smtp', send }
+}
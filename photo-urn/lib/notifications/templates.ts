@@ -0,0 +1,122 @@
+import type { Order } from '@/lib/orders/repository'
+import { formatPrice } from '@/lib/pricing/quote'
+
+// Customer emails.  Each template returns a subject, a short list of
+// paragraphs and an optional call to action; `renderEmail` turns that into
+// matching HTML and plain-text bodies so the two never drift apart.
+
+export const EMAIL_TEMPLATES = ['order_received', 'payment_link', 'design_approved', 'files_ready', 'shipped'] as const
+
+export type EmailTemplate = (typeof EMAIL_TEMPLATES)[number]
+
+export type EmailContext = {
+  order: Order
+  /** Catalog label of the order's urn, or its id. */
+  urnLabel: string
+  /** Absolute link to the order's tracking page. */
+  orderUrl: string
+  /** Where the customer pays; falls back to the tracking page. */
+  paymentUrl: string | null
+}
+
+type Content = {
+  subject: string
+  paragraphs: string[]
+  action?: { label: string; url: string }
+}
+
+const shortId = (order: Order) => order.id.slice(0, 8)
+
+const CONTENT: Record<EmailTemplate, (ctx: EmailContext) => Content> = {
+  order_received: ({ order, urnLabel, orderUrl }) => ({
+    subject: `We received your order ${shortId(order)}`,
+    paragraphs: [
+      `Thank you, ${order.customer.name}. We have your photo and design for the ${urnLabel}.`,
+      'We review every design before it is produced and will email you at each step.',
+    ],
+    action: { label: 'Track your order', url: orderUrl },
+  }),
+  payment_link: ({ order, orderUrl, paymentUrl }) => ({
+    subject: `Complete payment for order ${shortId(order)}`,
+    paragraphs: [
+      `Your design is saved. Production starts as soon as payment${
+        order.pricing ? ` of ${formatPrice(order.pricing.amount_cents, order.pricing.currency)}` : ''
+      } is received.`,
+    ],
+    action: { label: 'Pay securely', url: paymentUrl ?? orderUrl },
+  }),
+  design_approved: ({ order, orderUrl }) => ({
+    subject: `Your design is approved for printing (${shortId(order)})`,
+    paragraphs: [
+      'Our team has checked the relief and approved it for printing.',
+      ...(order.review?.note ? [`Note from our team: ${order.review.note}`] : []),
+      'We will let you know when it ships.',
+    ],
+    action: { label: 'View your order', url: orderUrl },
+  }),
+  files_ready: ({ order, orderUrl }) => ({
+    subject: `Your relief is ready to view (${shortId(order)})`,
+    paragraphs: [
+      'The 3D relief for your urn has been generated. You can look at it and download the files from your order page.',
+    ],
+    action: { label: 'See your relief', url: orderUrl },
+  }),
+  shipped: ({ order, urnLabel, orderUrl }) => ({
+    subject: `Your order ${shortId(order)} has shipped`,
+    paragraphs: [
+      `Your ${urnLabel} is on its way to:`,
+      order.customer.address,
+      ...(order.shipment
+        ? [`Tracking number${order.shipment.carrier ? ` (${order.shipment.carrier})` : ''}: ${order.shipment.trackingNumber}`]
+        : []),
+    ],
+    action: { label: 'View your order', url: orderUrl },
+  }),
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!)
+}
+
+type Rendered = { subject: string; html: string; text: string }
+
+function render({ subject, paragraphs, action }: Content, footer: string): Rendered {
+  const text = [...paragraphs, ...(action ? [`${action.label}: ${action.url}`] : [])].join('\n\n') + '\n'
+  const body = paragraphs
+    .map((p) => `<p style="margin:0 0 16px;white-space:pre-line">${escapeHtml(p)}</p>`)
+    .join('\n')
+  const button = action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(action.url)}" style="background:#000;color:#fff;padding:10px 16px;border-radius:6px;text-decoration:none">${escapeHtml(action.label)}</a></p>`
+    : ''
+  const html = `<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>
+<body style="font-family:system-ui,sans-serif;color:#171717;max-width:560px;margin:0 auto;padding:24px">
+<h1 style="font-size:20px;font-weight:600;margin:0 0 16px">${escapeHtml(subject)}</h1>
+${body}
+${button}
+<p style="margin-top:32px;font-size:12px;color:#737373">${escapeHtml(footer)}</p>
+</body>
+</html>
+`
+  return { subject, html, text }
+}
+
+export function renderEmail(template: EmailTemplate, ctx: EmailContext): Rendered {
+  return render(CONTENT[template](ctx), `Order ${ctx.order.id}`)
+}
+
+/** The magic link a customer signs in with; see lib/accounts. */
+export function renderSignInEmail(url: string, validMinutes: number): Rendered {
+  return render(
+    {
+      subject: 'Your sign-in link',
+      paragraphs: [
+        `Use the button below to sign in and see your designs and orders. The link works once, for ${validMinutes} minutes.`,
+        'If you did not ask to sign in, you can ignore this email.',
+      ],
+      action: { label: 'Sign in', url },
+    },
+    'Sent because someone asked to sign in with this address.'
+  )
+}
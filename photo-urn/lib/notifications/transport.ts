@@ -0,0 +1,20 @@
+export type EmailMessage = {
+  from: string
+  to: string
+  subject: string
+  html: string
+  text: string
+}
+
+/** Delivers rendered messages.  Selected by MAIL_TRANSPORT, see ./index. */
+export interface MailTransport {
+  readonly name: string
+  send(message: EmailMessage): Promise<void>
+}
+
+export class MailTransportError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message)
+    this.name = 'MailTransportError'
+  }
+}
@@ -0,0 +1,23 @@
+import { withNotifications } from '@/lib/notifications'
+import { dataDir } from '@/lib/storage/paths'
+import { createJsonOrderRepository } from './json-repository'
+import type { OrderRepository } from './repository'
+
+export * from './outputs'
+export * from './printability'
+export * from './repository'
+export * from './status'
+
+const globalForOrders = globalThis as unknown as { __orderRepository?: OrderRepository }
+
+/**
+ * Process-wide repository.  Cached on globalThis so dev-mode reloads keep
+ * sharing one instance (and its write locks).  Status changes email the
+ * customer, see lib/notifications.
+ */
+export function getOrderRepository(): OrderRepository {
+  if (!globalForOrders.__orderRepository) {
+    globalForOrders.__orderRepository = withNotifications(createJsonOrderRepository(dataDir('orders')))
+  }
+  return globalForOrders.__orderRepository
+}
@@ -0,0 +1,61 @@
+import crypto from 'node:crypto'
+import { createJsonFileStore, isValidKey } from '@/lib/storage/json-files'
+import { OrderNotFoundError, type Order, type OrderRepository } from './repository'
+import { assertTransition } from './status'
+
+/** OrderRepository backed by one JSON file per order. */
+export function createJsonOrderRepository(dir: string): OrderRepository {
+  const store = createJsonFileStore<Order>(dir)
+
+  const mutate = async (id: string, fn: (order: Order) => Order) => {
+    const out = await store.update(id, (current) => {
+      if (!current) throw new OrderNotFoundError(id)
+      return { ...fn(current), updatedAt: new Date().toISOString() }
+    })
+    return out!
+  }
+
+  return {
+    async create(input) {
+      const now = new Date().toISOString()
+      const order: Order = {
+        id: input.id ?? crypto.randomUUID(),
+        status: 'draft',
+        urnId: input.urnId,
+        params: input.params,
+        customer: input.customer,
+        image: input.image,
+        collageImages: input.collageImages ?? [],
+        face: input.face,
+        options: input.options,
+        accountId: input.accountId,
+        pricing: input.pricing ?? null,
+        payment: null,
+        review: null,
+        history: [{ status: 'draft', at: now }],
+        createdAt: now,
+        updatedAt: now,
+      }
+      await store.put(order.id, order)
+      return order
+    },
+
+    get: async (id) => (isValidKey(id) ? store.get(id) : null),
+
+    async list(filter = {}) {
+      const all = await store.all()
+      return all
+        .filter((o) => (!filter.status || o.status === filter.status) && (!filter.urnId || o.urnId === filter.urnId))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    },
+
+    update: (id, patch) => mutate(id, (order) => ({ ...order, ...patch })),
+
+    transition: (id, to, note) =>
+      mutate(id, (order) => {
+        assertTransition(order.status, to)
+        const change = note ? { status: to, at: new Date().toISOString(), note } : { status: to, at: new Date().toISOString() }
+        return { ...order, status: to, history: [...order.history, change] }
+      }),
+  }
+}
@@ -0,0 +1,31 @@
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { outputsDir, outputsUrl } from '@/lib/storage/paths'
+import type { Order } from './repository'
+
+export type OrderOutputs = {
+  image: string | null
+  /** Photos for the second and later collage slots. */
+  collage_images: (string | null)[]
+  depth_png: string | null
+  relief_stl: string | null
+  urn_final_stl: string | null
+}
+
+/** Public URLs of the files currently in the order's output folder. */
+export async function orderOutputs(order: Pick<Order, 'id' | 'image' | 'collageImages'>): Promise<OrderOutputs> {
+  const files = await fs.readdir(outputsDir(order.id)).catch(() => [] as string[])
+  const url = (file: string) => (files.includes(file) ? outputsUrl(order.id, file) : null)
+  return {
+    image: url(order.image.file),
+    collage_images: (order.collageImages ?? []).map((img) => url(img.file)),
+    depth_png: url('depth.png'),
+    relief_stl: url('relief_only.stl'),
+    urn_final_stl: url('urn_final.stl'),
+  }
+}
+
+/** Paths of the order's photos, one per collage slot. */
+export function orderImagePaths(order: Pick<Order, 'id' | 'image' | 'collageImages'>): string[] {
+  return [order.image, ...(order.collageImages ?? [])].map((img) => path.join(outputsDir(order.id), img.file))
+}
@@ -0,0 +1,31 @@
+import { reliefPrintReport } from '@/lib/relief/generate'
+import type { PrintReport } from '@/lib/relief/printability'
+import { getUrn, lithophaneOf, urnModelPath } from '@/lib/urns'
+import { orderImagePaths } from './outputs'
+import type { Order } from './repository'
+
+/**
+ * The printability check that gates generation: submit refuses designs
+ * with errors, and an order is only queued for generation (after payment,
+ * on a staff regenerate or through finalize) while it still passes.
+ * Measured on the face the customer picked, like the preview's warnings.
+ */
+export async function orderPrintReport(
+  order: Pick<Order, 'id' | 'urnId' | 'params' | 'face' | 'image' | 'collageImages'>
+): Promise<PrintReport> {
+  const urn = await getUrn(order.urnId)
+  if (!urn) throw new Error(`Unknown urn ${order.urnId}`)
+  return reliefPrintReport({
+    imagePaths: orderImagePaths(order),
+    params: order.params,
+    target: urn.target,
+    lithophane: lithophaneOf(urn),
+    modelPath: urnModelPath(urn),
+    face: order.face,
+  })
+}
+
+/** The first blocking issue, as the customer or staff read it. */
+export function printBlocker(report: PrintReport): string | null {
+  return report.issues.find((i) => i.severity === 'error')?.message ?? null
+}
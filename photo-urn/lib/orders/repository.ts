@@ -0,0 +1,124 @@
+import type { PhotoMeta } from '@/lib/images/meta'
+import type { QuoteLine } from '@/lib/pricing/quote'
+import type { OrderOptions } from '@/lib/pricing/rules'
+import type { PreviewParams } from '@/lib/store'
+import type { FaceCode } from '@/lib/urns/catalog'
+import type { OrderStatus } from './status'
+
+export type Customer = {
+  name: string
+  /** Where order emails go; missing on orders placed before it was asked for. */
+  email?: string
+  address: string
+}
+
+export type OrderImage = {
+  file: string
+  mime: string
+  /** Stored pixel size; missing on orders from before uploads were normalized. */
+  width?: number
+  height?: number
+  /** The photo as the customer picked it. */
+  original?: PhotoMeta
+}
+
+export type OrderPricing = {
+  currency: string
+  amount_cents: number
+  /** The quote the order was placed against; missing on older orders. */
+  quote_id?: string
+  lines?: QuoteLine[]
+}
+
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded'
+
+export type OrderPayment = {
+  provider: string
+  sessionId: string
+  /** Hosted checkout page, linked from the payment email. */
+  url?: string
+  status: PaymentStatus
+  updatedAt: string
+  note?: string
+  /** Why a payment event needs staff attention, e.g. money arrived for the wrong amount. */
+  flag?: string
+}
+
+export type OrderReview = {
+  decision: 'approved' | 'rejected'
+  note?: string
+  at: string
+}
+
+export type OrderShipment = {
+  trackingNumber: string
+  carrier?: string
+  at: string
+}
+
+export type StatusChange = {
+  status: OrderStatus
+  at: string
+  note?: string
+}
+
+export type Order = {
+  id: string
+  status: OrderStatus
+  urnId: string
+  params: PreviewParams
+  customer: Customer
+  /** Uploaded photo, relative to the order's output folder. */
+  image: OrderImage
+  /** Photos for the second and later collage slots; missing on older orders. */
+  collageImages?: OrderImage[]
+  /** Urn face the relief goes on, as picked in the preview; missing means the target's default. */
+  face?: FaceCode
+  /** Finish, rush and shipping; missing on orders from before pricing. */
+  options?: OrderOptions
+  /** Who placed it, see lib/accounts; missing on orders from before accounts. */
+  accountId?: string
+  pricing: OrderPricing | null
+  payment: OrderPayment | null
+  /** Staff sign-off on the generated relief; cleared when it is regenerated. */
+  review: OrderReview | null
+  /** Set when staff mark the order shipped. */
+  shipment?: OrderShipment
+  history: StatusChange[]
+  createdAt: string
+  updatedAt: string
+}
+
+export type NewOrder = Pick<Order, 'urnId' | 'params' | 'customer' | 'image' | 'collageImages' | 'face' | 'options' | 'accountId'> & {
+  id?: string
+  pricing?: OrderPricing | null
+}
+
+export type OrderFilter = {
+  status?: OrderStatus
+  urnId?: string
+}
+
+/** Fields that may be patched directly; status goes through `transition`. */
+export type OrderPatch = Partial<Pick<Order, 'params' | 'customer' | 'pricing' | 'payment' | 'review' | 'urnId' | 'shipment'>>
+
+export class OrderNotFoundError extends Error {
+  constructor(public readonly orderId: string) {
+    super(`Order ${orderId} not found`)
+    this.name = 'OrderNotFoundError'
+  }
+}
+
+/**
+ * Storage for orders.  Implementations must validate every status change
+ * against the lifecycle in ./status and append it to `history`.
+ */
+export interface OrderRepository {
+  /** Create an order in the `draft` state. */
+  create(input: NewOrder): Promise<Order>
+  get(id: string): Promise<Order | null>
+  /** Newest first. */
+  list(filter?: OrderFilter): Promise<Order[]>
+  update(id: string, patch: OrderPatch): Promise<Order>
+  transition(id: string, to: OrderStatus, note?: string): Promise<Order>
+}
@@ -0,0 +1,68 @@
+// Order lifecycle.  The happy path is
+//
+//   draft → submitted → awaiting_payment → paid → generating → ready → shipped
+//
+// with `failed` reachable from generation (and retryable), or from `paid`
+// when the design no longer passes the printability check, and `cancelled`
+// reachable from anything before the order ships.
+
+export const ORDER_STATUSES = [
+  'draft',
+  'submitted',
+  'awaiting_payment',
+  'paid',
+  'generating',
+  'ready',
+  'shipped',
+  'failed',
+  'cancelled',
+] as const
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number]
+
+export const TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  draft: ['submitted', 'cancelled'],
+  submitted: ['awaiting_payment', 'cancelled'],
+  awaiting_payment: ['paid', 'cancelled'],
+  paid: ['generating', 'failed', 'cancelled'],
+  generating: ['ready', 'failed', 'cancelled'],
+  ready: ['shipped', 'generating', 'cancelled'],
+  failed: ['generating', 'cancelled'],
+  shipped: [],
+  cancelled: [],
+}
+
+export class InvalidTransitionError extends Error {
+  constructor(public readonly from: OrderStatus, public readonly to: OrderStatus) {
+    super(`Cannot move order from ${from} to ${to}`)
+    this.name = 'InvalidTransitionError'
+  }
+}
+
+export function isOrderStatus(s: unknown): s is OrderStatus {
+  return typeof s === 'string' && (ORDER_STATUSES as readonly string[]).includes(s)
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return TRANSITIONS[from].includes(to)
+}
+
+export function assertTransition(from: OrderStatus, to: OrderStatus): void {
+  if (!canTransition(from, to)) throw new InvalidTransitionError(from, to)
+}
+
+/** Each status as the customer reads it. */
+export const STATUS_TEXT: Record<OrderStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Received',
+  awaiting_payment: 'Waiting for payment',
+  paid: 'Paid, queued for production',
+  generating: 'Building your relief',
+  ready: 'Ready, awaiting printing',
+  shipped: 'Shipped',
+  failed: 'Generation failed, we’re looking into it',
+  cancelled: 'Cancelled',
+}
+
+/** Orders whose files the customer may download. */
+export const DOWNLOADABLE_STATUSES: readonly OrderStatus[] = ['ready', 'shipped']
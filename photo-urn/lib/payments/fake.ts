@@ -0,0 +1,100 @@
+import crypto from 'node:crypto'
+import { createJsonFileStore } from '@/lib/storage/json-files'
+import type { CheckoutRequest, CheckoutSessionState, PaymentEvent, PaymentEventType, PaymentProvider } from './provider'
+import { SIGNATURE_HEADER, signPayload, verifySignature } from './signature'
+
+export type FakeSession = CheckoutRequest & {
+  id: string
+  status: 'open' | 'paid' | 'failed' | 'refunded' | 'expired'
+  createdAt: string
+}
+
+export type FakeOutcome = 'succeed' | 'fail' | 'refund'
+
+const EVENT_FOR: Record<FakeOutcome, PaymentEventType> = {
+  succeed: 'payment.succeeded',
+  fail: 'payment.failed',
+  refund: 'payment.refunded',
+}
+
+const STATUS_FOR: Record<FakeOutcome, FakeSession['status']> = {
+  succeed: 'paid',
+  fail: 'failed',
+  refund: 'refunded',
+}
+
+// A failed attempt can be retried on the same page, so it is still open.
+const SESSION_STATE: Record<FakeSession['status'], CheckoutSessionState['status']> = {
+  open: 'open',
+  failed: 'open',
+  paid: 'complete',
+  refunded: 'complete',
+  expired: 'expired',
+}
+
+/**
+ * Local stand-in for a hosted checkout.  Sessions live on disk, the
+ * "hosted" page is /pay/fake/[sessionId], and outcomes are delivered as
+ * signed webhook bodies exactly like a real provider would send them.
+ */
+export function createFakePaymentProvider(dir: string, secret: string) {
+  const sessions = createJsonFileStore<FakeSession>(dir)
+
+  const provider: PaymentProvider = {
+    name: 'fake',
+
+    async createCheckoutSession(req) {
+      const id = `fake_${crypto.randomBytes(12).toString('hex')}`
+      await sessions.put(id, { ...req, id, status: 'open', createdAt: new Date().toISOString() })
+      const base = new URL(req.successUrl)
+      return { sessionId: id, url: new URL(`/pay/fake/${id}`, base.origin).toString() }
+    },
+
+    async getCheckoutSession(sessionId) {
+      const s = await sessions.get(sessionId).catch(() => null)
+      if (!s) return null
+      return { sessionId, status: SESSION_STATE[s.status], amount_cents: s.amount_cents, currency: s.currency }
+    },
+
+    async expireCheckoutSession(sessionId) {
+      await sessions.update(sessionId, (s) => (s && SESSION_STATE[s.status] === 'open' ? { ...s, status: 'expired' } : null))
+    },
+
+    async verifyWebhook(rawBody, headers) {
+      verifySignature(rawBody, headers.get(SIGNATURE_HEADER), secret)
+      return JSON.parse(rawBody) as PaymentEvent
+    },
+  }
+
+  return {
+    ...provider,
+    getSession: (id: string) => sessions.get(id),
+
+    /**
+     * Simulate the customer (or a refund) on the hosted page.  Returns the
+     * signed webhook delivery the provider would POST to us.
+     */
+    async simulate(sessionId: string, outcome: FakeOutcome, reason?: string) {
+      const session = await sessions.update(sessionId, (s) => {
+        if (!s) throw new Error(`Unknown session ${sessionId}`)
+        if (s.status === 'expired') throw new Error('Session has expired')
+        if (outcome === 'refund' && s.status !== 'paid') throw new Error('Only paid sessions can be refunded')
+        if (outcome !== 'refund' && s.status === 'paid') throw new Error('Session is already paid')
+        return { ...s, status: STATUS_FOR[outcome] }
+      })
+      const event: PaymentEvent = {
+        id: `evt_${crypto.randomBytes(12).toString('hex')}`,
+        type: EVENT_FOR[outcome],
+        orderId: session!.orderId,
+        sessionId,
+        amount_cents: session!.amount_cents,
+        currency: session!.currency,
+        ...(reason ? { reason } : {}),
+      }
+      const body = JSON.stringify(event)
+      return { body, headers: new Headers({ [SIGNATURE_HEADER]: signPayload(body, secret) }), session: session! }
+    },
+  }
+}
+
+export type FakePaymentProvider = ReturnType<typeof createFakePaymentProvider>
@@ -0,0 +1,42 @@
+import { dataDir } from '@/lib/storage/paths'
+import { createFakePaymentProvider, type FakePaymentProvider } from './fake'
+import type { PaymentProvider } from './provider'
+
+export * from './provider'
+export { handlePaymentWebhook } from './webhook'
+
+const globalForPayments = globalThis as unknown as { __paymentProvider?: PaymentProvider }
+
+function webhookSecret(): string {
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === 'production') throw new Error('PAYMENT_WEBHOOK_SECRET is not set')
+  return 'dev-webhook-secret'
+}
+
+/**
+ * Provider selected by PAYMENT_PROVIDER.  Only the local `fake` provider
+ * ships today; it is the default outside production.
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (globalForPayments.__paymentProvider) return globalForPayments.__paymentProvider
+  const name = process.env.PAYMENT_PROVIDER || (process.env.NODE_ENV === 'production' ? '' : 'fake')
+  switch (name) {
+    case 'fake':
+      globalForPayments.__paymentProvider = createFakePaymentProvider(dataDir('payments', 'fake-sessions'), webhookSecret())
+      break
+    default:
+      throw new Error(`Unsupported PAYMENT_PROVIDER "${name}"`)
+  }
+  return globalForPayments.__paymentProvider
+}
+
+/** The fake provider when it is active, for the simulator page. */
+export function getFakePaymentProvider(): FakePaymentProvider | null {
+  try {
+    const p = getPaymentProvider()
+    return p.name === 'fake' ? (p as FakePaymentProvider) : null
+  } catch {
+    return null
+  }
+}
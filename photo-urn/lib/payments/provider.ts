@@ -0,0 +1,66 @@
+export type CheckoutRequest = {
+  orderId: string
+  amount_cents: number
+  currency: string
+  description: string
+  successUrl: string
+  cancelUrl: string
+}
+
+export type CheckoutSession = {
+  sessionId: string
+  /** Where to send the customer to pay. */
+  url: string
+}
+
+/** A checkout session as the provider sees it now. */
+export type CheckoutSessionState = {
+  sessionId: string
+  /** `open` sessions can still be paid; `complete` ones already were. */
+  status: 'open' | 'complete' | 'expired'
+  amount_cents: number
+  currency: string
+}
+
+export type PaymentEventType = 'payment.succeeded' | 'payment.failed' | 'payment.refunded'
+
+/** Provider-neutral webhook event, produced by `verifyWebhook`. */
+export type PaymentEvent = {
+  /** Unique per delivery source event; used for idempotency. */
+  id: string
+  type: PaymentEventType
+  orderId: string
+  sessionId: string
+  amount_cents: number
+  currency: string
+  reason?: string
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message = 'Invalid webhook signature') {
+    super(message)
+    this.name = 'WebhookSignatureError'
+  }
+}
+
+/**
+ * Matches by name rather than instanceof: the provider is cached on
+ * globalThis and may come from another route bundle's copy of this class.
+ */
+export function isWebhookSignatureError(err: unknown): err is WebhookSignatureError {
+  return (err as any)?.name === 'WebhookSignatureError'
+}
+
+export interface PaymentProvider {
+  readonly name: string
+  createCheckoutSession(req: CheckoutRequest): Promise<CheckoutSession>
+  /** Null when the provider doesn't know the session. */
+  getCheckoutSession(sessionId: string): Promise<CheckoutSessionState | null>
+  /** Stop an open session from taking payment; a no-op once it is not open. */
+  expireCheckoutSession(sessionId: string): Promise<void>
+  /**
+   * Authenticate a raw webhook delivery and translate it into a
+   * PaymentEvent.  Throws WebhookSignatureError when it cannot be trusted.
+   */
+  verifyWebhook(rawBody: string, headers: Headers): Promise<PaymentEvent>
+}
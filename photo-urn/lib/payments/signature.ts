@@ -0,0 +1,26 @@
+import crypto from 'node:crypto'
+import { WebhookSignatureError } from './provider'
+
+// `t=<unix seconds>,v1=<hex hmac-sha256 of "t.body">`, the same shape Stripe
+// uses, so swapping in a real provider does not change the webhook route.
+
+export const SIGNATURE_HEADER = 'x-payment-signature'
+const TOLERANCE_S = 5 * 60
+
+export function signPayload(body: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const mac = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `t=${timestamp},v1=${mac}`
+}
+
+export function verifySignature(body: string, header: string | null, secret: string): void {
+  if (!header) throw new WebhookSignatureError('Missing signature header')
+  const parts = Object.fromEntries(header.split(',').map((kv) => kv.split('=', 2) as [string, string]))
+  const t = Number(parts.t)
+  if (!Number.isFinite(t) || !parts.v1) throw new WebhookSignatureError('Malformed signature header')
+  if (Math.abs(Date.now() / 1000 - t) > TOLERANCE_S) throw new WebhookSignatureError('Signature timestamp out of range')
+  const expected = crypto.createHmac('sha256', secret).update(`${t}.${body}`).digest()
+  const given = Buffer.from(parts.v1, 'hex')
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    throw new WebhookSignatureError()
+  }
+}
@@ -0,0 +1,107 @@
+import { enqueueRelief } from '@/lib/jobs'
+import { canTransition, getOrderRepository, orderPrintReport, printBlocker, type Order, type PaymentStatus } from '@/lib/orders'
+import { formatPrice } from '@/lib/pricing/quote'
+import { createJsonFileStore } from '@/lib/storage/json-files'
+import { dataDir } from '@/lib/storage/paths'
+import type { PaymentEvent, PaymentProvider } from './provider'
+
+type ProcessedEvent = { id: string; type: string; orderId: string; processedAt: string }
+
+const PAYMENT_STATUS: Record<PaymentEvent['type'], PaymentStatus> = {
+  'payment.succeeded': 'paid',
+  'payment.failed': 'failed',
+  'payment.refunded': 'refunded',
+}
+
+/**
+ * Verify and apply one webhook delivery.  Deliveries are idempotent by event
+ * id, so provider retries never double-transition an order or enqueue a
+ * second generation job.
+ */
+export async function handlePaymentWebhook(provider: PaymentProvider, rawBody: string, headers: Headers) {
+  const event = await provider.verifyWebhook(rawBody, headers)
+  const processed = createJsonFileStore<ProcessedEvent>(dataDir('payments', 'events'))
+  const key = event.id.replace(/[^A-Za-z0-9_-]/g, '_')
+
+  let duplicate = false
+  await processed.update(key, async (seen) => {
+    if (seen) {
+      duplicate = true
+      return null
+    }
+    await applyPaymentEvent(provider.name, event)
+    return { id: event.id, type: event.type, orderId: event.orderId, processedAt: new Date().toISOString() }
+  })
+  return { event, duplicate }
+}
+
+/**
+ * Why a successful payment can't settle `order`: it is for an earlier
+ * checkout session, or for a different amount than the order's locked
+ * price.  Null when it matches.
+ */
+function paymentMismatch(order: Order, event: PaymentEvent): string | null {
+  if (order.payment?.sessionId !== event.sessionId) {
+    return `Paid on session ${event.sessionId}, not the order's current session ${order.payment?.sessionId ?? '(none)'}`
+  }
+  const expected = order.pricing
+  if (!expected || expected.amount_cents !== event.amount_cents || expected.currency.toLowerCase() !== event.currency.toLowerCase()) {
+    const paid = formatPrice(event.amount_cents, event.currency)
+    return `Paid ${paid} but the order ${expected ? `costs ${formatPrice(expected.amount_cents, expected.currency)}` : 'has no price'}`
+  }
+  return null
+}
+
+async function applyPaymentEvent(providerName: string, event: PaymentEvent) {
+  const orders = getOrderRepository()
+  const order = await orders.get(event.orderId)
+  if (!order) throw new Error(`Payment event for unknown order ${event.orderId}`)
+  const updatedAt = new Date().toISOString()
+
+  // Money that doesn't match the order never releases it; the flag shows
+  // on the staff dashboard, where it is refunded or settled by hand.
+  if (event.type === 'payment.succeeded') {
+    const mismatch = paymentMismatch(order, event)
+    if (mismatch) {
+      const current = order.payment ?? { provider: providerName, sessionId: event.sessionId, status: 'pending' as const }
+      await orders.update(order.id, { payment: { ...current, flag: mismatch, updatedAt } })
+      return
+    }
+  } else if (order.payment?.sessionId !== event.sessionId) {
+    // About a checkout the customer already left behind.
+    return
+  }
+
+  await orders.update(order.id, {
+    payment: {
+      provider: providerName,
+      sessionId: event.sessionId,
+      ...(order.payment?.url ? { url: order.payment.url } : {}),
+      status: PAYMENT_STATUS[event.type],
+      updatedAt,
+      ...(order.payment?.flag ? { flag: order.payment.flag } : {}),
+      ...(event.reason ? { note: event.reason } : {}),
+    },
+  })
+
+  switch (event.type) {
+    case 'payment.succeeded':
+      if (canTransition(order.status, 'paid')) {
+        await orders.transition(order.id, 'paid', `Paid via ${providerName}`)
+        // HQ generation only starts once money has arrived, and only for a
+        // design that still prints; one that doesn't waits for staff.
+        const report = await orderPrintReport(order)
+        if (report.ok) await enqueueRelief(order.id)
+        else await orders.transition(order.id, 'failed', `Not printable: ${printBlocker(report)}`)
+      }
+      break
+    case 'payment.refunded':
+      if (canTransition(order.status, 'cancelled')) {
+        await orders.transition(order.id, 'cancelled', event.reason || 'Payment refunded')
+      }
+      break
+    case 'payment.failed':
+      // The customer can retry checkout; the order stays awaiting payment.
+      break
+  }
+}
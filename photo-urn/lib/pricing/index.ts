@@ -0,0 +1,56 @@
+import { dataDir } from '@/lib/storage/paths'
+import { productOf, type UrnEntry } from '@/lib/urns/catalog'
+import { createJsonQuoteRepository } from './json-repository'
+import { priceDesign, type PricedDesign } from './quote'
+import type { Quote, QuoteRepository } from './repository'
+import { PRICING_RULES, resolveOptions, type OrderOptions } from './rules'
+
+export * from './quote'
+export * from './repository'
+export * from './rules'
+
+const globalForQuotes = globalThis as unknown as { __quoteRepository?: QuoteRepository }
+
+/** Process-wide repository, cached on globalThis like the order repository. */
+export function getQuoteRepository(): QuoteRepository {
+  if (!globalForQuotes.__quoteRepository) {
+    globalForQuotes.__quoteRepository = createJsonQuoteRepository(dataDir('quotes'), PRICING_RULES.quote_ttl_hours)
+  }
+  return globalForQuotes.__quoteRepository
+}
+
+/** Price a design and keep the result so an order can refer to it. */
+export function createQuote(urn: UrnEntry, design: PricedDesign, options: Partial<OrderOptions>): Promise<Quote> {
+  const resolved = resolveOptions(productOf(urn), options)
+  return getQuoteRepository().create({ urnId: urn.id, design, options: resolved, ...priceDesign(urn, design, resolved) })
+}
+
+const PRICED_KEYS = ['scale', 'depth', 'thicknessMax', 'textLines', 'layout'] as const
+const OPTION_KEYS = ['finish', 'rush', 'shipping'] as const
+
+const sameDesign = (a: PricedDesign, b: PricedDesign) => PRICED_KEYS.every((k) => a[k] === b[k])
+const sameOptions = (a: OrderOptions, b: OrderOptions) => OPTION_KEYS.every((k) => a[k] === b[k])
+
+/**
+ * The quote an order is placed against, or why it can't be used: it must
+ * exist, be unexpired, be for this exact design and options, and still
+ * come to the same price under the current catalog and rules.
+ */
+export async function lockQuote(
+  id: string,
+  urn: UrnEntry,
+  design: PricedDesign,
+  options: OrderOptions
+): Promise<{ quote: Quote } | { error: string }> {
+  const quote = await getQuoteRepository().get(id)
+  if (!quote) return { error: 'This price quote was not found; review the price and try again' }
+  if (Date.parse(quote.expiresAt) < Date.now()) return { error: 'This price quote has expired; review the new price' }
+  if (quote.urnId !== urn.id || !sameDesign(quote.design, design) || !sameOptions(quote.options, options)) {
+    return { error: 'The design changed since it was priced; review the new price' }
+  }
+  const now = priceDesign(urn, design, options)
+  if (now.currency !== quote.currency || JSON.stringify(now.lines) !== JSON.stringify(quote.lines)) {
+    return { error: 'Our prices changed since this quote; review the new price' }
+  }
+  return { quote }
+}
@@ -0,0 +1,45 @@
+import crypto from 'node:crypto'
+import { createJsonFileStore, isValidKey } from '@/lib/storage/json-files'
+import type { Quote, QuoteRepository } from './repository'
+
+/** How often creating a quote also sweeps out expired ones. */
+const PRUNE_EVERY_MS = 10 * 60_000
+
+/**
+ * QuoteRepository backed by one JSON file per quote.  A quote is written
+ * for every priced edit, so expired ones are deleted as new ones come in.
+ */
+export function createJsonQuoteRepository(dir: string, ttlHours: number): QuoteRepository {
+  const store = createJsonFileStore<Quote>(dir)
+  let lastPrune = 0
+
+  const prune = async (now: number) => {
+    if (now - lastPrune < PRUNE_EVERY_MS) return
+    lastPrune = now
+    for (const quote of await store.all()) {
+      if (Date.parse(quote.expiresAt) < now) await store.remove(quote.id)
+    }
+  }
+
+  return {
+    async create(input) {
+      const now = new Date()
+      const quote: Quote = {
+        id: crypto.randomUUID(),
+        urnId: input.urnId,
+        design: input.design,
+        options: input.options,
+        currency: input.currency,
+        lines: input.lines,
+        amount_cents: input.amount_cents,
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + ttlHours * 3600_000).toISOString(),
+      }
+      await store.put(quote.id, quote)
+      prune(now.getTime()).catch((err) => console.error('Could not prune expired quotes', err))
+      return quote
+    },
+
+    get: async (id) => (isValidKey(id) ? store.get(id) : null),
+  }
+}
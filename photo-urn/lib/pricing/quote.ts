@@ -0,0 +1,90 @@
+import { SLOT_COUNTS, type CollageLayout } from '@/lib/relief/collage'
+import { resolveThickness } from '@/lib/relief/lithophane'
+import type { PreviewParams } from '@/lib/store'
+import { lithophaneOf, productOf, type UrnEntry } from '@/lib/urns/catalog'
+import { PRICING_RULES, finishesFor, type OrderOptions, type PricingRules } from './rules'
+
+/** The parts of a design that affect its price. */
+export type PricedDesign = {
+  scale: number
+  depth: number
+  thicknessMax: number
+  textLines: number
+  layout: CollageLayout
+}
+
+export type QuoteLineCode = 'base' | 'area' | 'depth' | 'text' | 'photos' | 'finish' | 'rush' | 'shipping'
+
+export type QuoteLine = { code: QuoteLineCode; label: string; amount_cents: number }
+
+export type PriceBreakdown = {
+  currency: string
+  lines: QuoteLine[]
+  amount_cents: number
+}
+
+export function pricedDesign(params: PreviewParams): PricedDesign {
+  return {
+    scale: params.scale,
+    depth: params.depth,
+    thicknessMax: params.thicknessMax,
+    // Orders from before text existed have no textBlocks.
+    textLines: (params.textBlocks ?? []).length,
+    layout: params.layout ?? 'single',
+  }
+}
+
+/**
+ * Price a design on a catalog entry, line by line.  Depth is clamped to
+ * the entry's printable range first, as generation does, so nothing is
+ * charged for depth that would not be made.  Lines that come to nothing
+ * are left out, except the base price and shipping.
+ */
+export function priceDesign(
+  urn: UrnEntry,
+  design: PricedDesign,
+  options: OrderOptions,
+  r: PricingRules = PRICING_RULES
+): PriceBreakdown {
+  const product = productOf(urn)
+  const rules = r.products[product]
+  const lithophane = lithophaneOf(urn)
+  const lines: QuoteLine[] = [{ code: 'base', label: urn.label, amount_cents: urn.price_cents }]
+  const add = (code: QuoteLineCode, label: string, cents: number) => {
+    const amount = Math.round(cents)
+    if (amount > 0) lines.push({ code, label, amount_cents: amount })
+  }
+
+  const scale = design.scale > 0 ? design.scale : 1
+  const extraCm2 = (urn.target.width_mm * urn.target.height_mm * Math.max(0, scale * scale - 1)) / 100
+  add('area', `Larger ${product === 'lithophane' ? 'panel' : 'relief'} (+${Math.round(extraCm2)} cm²)`, extraCm2 * rules.area.cents_per_cm2)
+
+  const depthMm = lithophane
+    ? resolveThickness({ thicknessMax: design.thicknessMax }, lithophane).maxMm
+    : Math.min(urn.target.depth_mm_max, Math.max(urn.target.depth_mm_min, design.depth))
+  const extraMm = Math.max(0, depthMm - rules.depth.included_mm)
+  add('depth', `${lithophane ? 'Thicker panel' : 'Deeper relief'} (${+depthMm.toFixed(1)} mm)`, extraMm * rules.depth.cents_per_mm)
+
+  const extraLines = Math.max(0, design.textLines - r.text.included_lines)
+  add('text', `Text (${extraLines} extra ${extraLines === 1 ? 'line' : 'lines'})`, extraLines * r.text.cents_per_line)
+
+  const extraPhotos = (SLOT_COUNTS[design.layout] ?? 1) - 1
+  add('photos', `Collage (${extraPhotos} extra ${extraPhotos === 1 ? 'photo' : 'photos'})`, extraPhotos * r.extra_photo_cents)
+
+  const finish = finishesFor(product, r).find((f) => f.id === options.finish)
+  if (finish) add('finish', finish.label, finish.cents)
+
+  if (options.rush) {
+    const subtotal = lines.reduce((sum, l) => sum + l.amount_cents, 0)
+    add('rush', r.rush.label, Math.max(r.rush.min_cents, (subtotal * r.rush.percent) / 100))
+  }
+
+  const zone = r.shipping.find((z) => z.id === options.shipping)
+  if (zone) lines.push({ code: 'shipping', label: `Shipping (${zone.label})`, amount_cents: zone.cents })
+
+  return { currency: urn.currency, lines, amount_cents: lines.reduce((sum, l) => sum + l.amount_cents, 0) }
+}
+
+export function formatPrice(cents: number, currency: string): string {
+  return `${(cents / 100).toFixed(2)} ${currency.toUpperCase()}`
+}
@@ -0,0 +1,27 @@
+import type { OrderOptions } from './rules'
+import type { PriceBreakdown, PricedDesign } from './quote'
+
+/**
+ * A price shown to a customer.  Submitting an order names the quote, and
+ * the order is charged its amount as long as the quote has not expired
+ * and still matches the design.
+ */
+export type Quote = PriceBreakdown & {
+  id: string
+  urnId: string
+  design: PricedDesign
+  options: OrderOptions
+  createdAt: string
+  expiresAt: string
+}
+
+export type NewQuote = Pick<Quote, 'urnId' | 'design' | 'options'> & PriceBreakdown
+
+export interface QuoteRepository {
+  /**
+   * Store a quote that expires after the rules' `quote_ttl_hours`.  Expired
+   * quotes may be deleted, after which `get` no longer finds them.
+   */
+  create(input: NewQuote): Promise<Quote>
+  get(id: string): Promise<Quote | null>
+}
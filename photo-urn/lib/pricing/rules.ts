@@ -0,0 +1,62 @@
+import rules from './rules.json'
+import type { ProductMode } from '@/lib/urns/catalog'
+
+// Pricing rules.  The base price of each product is its catalog entry's
+// `price_cents`; everything on top of it comes from ./rules.json, in the
+// catalog's currency.  Pure data and types, shared by the form and the
+// server.
+
+export type FinishOption = { id: string; label: string; cents: number }
+
+export type ShippingZone = { id: string; label: string; cents: number }
+
+export type ProductRules = {
+  /** Charged per cm² of relief beyond the entry's design area at scale 1. */
+  area: { cents_per_cm2: number }
+  /** Charged per mm of relief depth (panel thickness) beyond `included_mm`. */
+  depth: { included_mm: number; cents_per_mm: number }
+  /** The first finish is the default. */
+  finishes: FinishOption[]
+}
+
+export type PricingRules = {
+  products: Record<ProductMode, ProductRules>
+  text: { included_lines: number; cents_per_line: number }
+  /** Per collage photo after the first. */
+  extra_photo_cents: number
+  /** A share of everything but shipping, never less than `min_cents`. */
+  rush: { label: string; percent: number; min_cents: number }
+  /** The first zone is the default. */
+  shipping: ShippingZone[]
+  quote_ttl_hours: number
+}
+
+export const PRICING_RULES: PricingRules = rules
+
+/** What the customer picks on top of the design. */
+export type OrderOptions = {
+  finish: string
+  rush: boolean
+  shipping: string
+}
+
+export function finishesFor(product: ProductMode, r: PricingRules = PRICING_RULES): FinishOption[] {
+  return r.products[product].finishes
+}
+
+/**
+ * Options with anything unknown for `product` replaced by its default, so
+ * a finish picked for one product never carries over to another.
+ */
+export function resolveOptions(
+  product: ProductMode,
+  options: Partial<OrderOptions> = {},
+  r: PricingRules = PRICING_RULES
+): OrderOptions {
+  const finishes = finishesFor(product, r)
+  return {
+    finish: finishes.some((f) => f.id === options.finish) ? options.finish! : finishes[0].id,
+    rush: !!options.rush,
+    shipping: r.shipping.some((z) => z.id === options.shipping) ? options.shipping! : r.shipping[0].id,
+  }
+}
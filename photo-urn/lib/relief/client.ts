@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from 'react'
+import type { HeightmapSettings } from './heightmap'
+import type { CollageSpec } from './collage'
+import {
+  buildPreviewMaps,
+  decodeAll,
+  pixelCache,
+  type MapsInput,
+  type MapsRequest,
+  type MapsResponse,
+  type PreviewMaps,
+  type TextSpec,
+} from './maps'
+
+// Browser side of the relief preview: preview maps built in a Web Worker
+// (one per page, shared by every preview) and the plane's level of detail.
+
+type Pending = { id: number; input: MapsInput; done: (res: MapsResponse) => void }
+
+let worker: Worker | null | undefined
+let nextId = 0
+let nextSlot = 0
+/** The latest request of each preview still waiting on the worker. */
+const pending = new Map<number, Pending>()
+
+/**
+ * The shared worker, or null where workers or OffscreenCanvas are missing
+ * or the worker has failed.
+ */
+function mapsWorker(): Worker | null {
+  if (worker === undefined) {
+    worker = null
+    if (typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined') {
+      try {
+        worker = new Worker(new URL('./maps.worker.ts', import.meta.url))
+        worker.onmessage = (e: MessageEvent<MapsResponse>) => {
+          const request = pending.get(e.data.slot)
+          if (request?.id === e.data.id) pending.delete(e.data.slot)
+          request?.done(e.data)
+        }
+        worker.onerror = (e) => {
+          e.preventDefault()
+          abandonWorker(e.message || e)
+        }
+        worker.onmessageerror = (e) => abandonWorker(e)
+      } catch (err) {
+        console.warn('Preview worker unavailable; building maps on the main thread', err)
+        worker = null
+      }
+    }
+  }
+  return worker
+}
+
+/**
+ * A worker that failed to load, crashed or sent a message that could not
+ * be read answers nothing more, so drop it for the rest of the page and
+ * build what it still owed on the main thread.
+ */
+function abandonWorker(reason: unknown) {
+  console.warn('Preview worker failed; building maps on the main thread', reason)
+  worker?.terminate()
+  worker = null
+  const stranded = [...pending.entries()]
+  pending.clear()
+  for (const [slot, { id, input, done }] of stranded) buildOnMainThread(id, slot, input, done)
+}
+
+const mainThreadPixels = pixelCache()
+
+function buildOnMainThread(id: number, slot: number, input: MapsInput, done: (res: MapsResponse) => void) {
+  decodeAll(mainThreadPixels, input.images)
+    .then((pixels) => buildPreviewMaps(pixels, input))
+    .then(
+      (maps) => done({ id, slot, maps }),
+      (err) => done({ id, slot, error: err?.message || String(err) })
+    )
+}
+
+/**
+ * Preview maps for a design's photos and settings.  `images` holds one
+ * photo per collage slot (just one for a single-photo design).  While a
+ * rebuild runs the last maps stay in place, so the relief never blanks
+ * out between edits.
+ */
+export function usePreviewMaps(
+  images: (string | null)[],
+  settings: HeightmapSettings,
+  collage: CollageSpec | null,
+  text: TextSpec | null
+): { maps: PreviewMaps | null; building: boolean; error: string | null } {
+  const [slot] = useState(() => ++nextSlot)
+  const [maps, setMaps] = useState<PreviewMaps | null>(null)
+  const [building, setBuilding] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const latest = useRef(0)
+  // Keys instead of objects: callers rebuild these on every render.
+  const settingsKey = JSON.stringify(settings)
+  const textKey = text?.blocks.length ? JSON.stringify(text) : ''
+  const collageKey = collage ? JSON.stringify(collage) : ''
+  // Photos are compared one by one; joining data URLs on every render is costly.
+  const [first = null, second = null, third = null] = images
+
+  useEffect(() => () => void pending.delete(slot), [slot])
+
+  useEffect(() => {
+    if (!first) {
+      latest.current = ++nextId
+      setMaps(null)
+      setBuilding(false)
+      return
+    }
+    const id = ++nextId
+    latest.current = id
+    const done = (res: MapsResponse) => {
+      if (res.id !== latest.current) return
+      setBuilding(false)
+      if (res.maps) {
+        setMaps(res.maps)
+        setError(null)
+      } else {
+        setError(res.error ?? 'Failed to build the preview')
+      }
+    }
+    const spec: CollageSpec | null = collageKey ? JSON.parse(collageKey) : null
+    const input: MapsInput = {
+      images: spec ? [first, second, third] : [first],
+      settings: JSON.parse(settingsKey),
+      collage: spec,
+      text: textKey ? JSON.parse(textKey) : null,
+    }
+    setBuilding(true)
+    const w = mapsWorker()
+    if (w) {
+      pending.set(slot, { id, input, done })
+      w.postMessage({ id, slot, input } satisfies MapsRequest)
+    } else {
+      buildOnMainThread(id, slot, input, done)
+    }
+  }, [first, second, third, settingsKey, collageKey, textKey, slot])
+
+  return { maps, building, error }
+}
+
+/**
+ * Most plane segments per side this device should draw.  Uses the memory
+ * and core hints browsers expose; phones and tablets get a lower cap.
+ */
+export function deviceSegmentLimit(): number {
+  if (typeof navigator === 'undefined') return 256
+  const memory: number = (navigator as any).deviceMemory ?? 8
+  const cores = navigator.hardwareConcurrency || 4
+  const touch = typeof matchMedia !== 'undefined' && matchMedia('(pointer: coarse)').matches
+  if (memory <= 2 || cores <= 2) return 256
+  if (touch || memory <= 4 || cores <= 4) return 512
+  return 1024
+}
+
+const MIN_SEGMENTS = 64
+
+/**
+ * Segments per side for a relief covering `screenPx` pixels on screen: one
+ * per two pixels, as a power of two between 64 and `limit`.  Changes only
+ * once the ideal count is well past the current one, so zooming around a
+ * level boundary does not rebuild the plane back and forth.
+ */
+export function lodSegments(screenPx: number, current: number, limit: number): number {
+  const ideal = screenPx / 2
+  let next = current
+  while (next < limit && ideal > next * 1.25) next *= 2
+  while (next > MIN_SEGMENTS && ideal < next / 2.5) next /= 2
+  return Math.min(limit, Math.max(MIN_SEGMENTS, next))
+}
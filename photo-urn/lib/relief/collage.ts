@@ -0,0 +1,217 @@
+// Collage layouts: several photos on one relief.  A layout splits the
+// design area (the urn target times the user scale) into slot rectangles.
+// Each slot holds one photo with its own zoom, pan, rotation and mask, and
+// the slots are merged into one heightfield before text is drawn, so the
+// preview, printability checks and production mesh see a single map.
+// Like the rest of the pipeline this runs unchanged in the browser and on
+// the server.
+
+import {
+  MAX_MAP_SIDE,
+  buildHeightmap,
+  drawText,
+  resolveHeightmapSettings,
+  toneHeightfield,
+  type HeightmapSettings,
+  type RGBAImage,
+} from './heightmap'
+import { DEFAULT_MASK, applyMask, type MaskSettings } from './mask'
+import type { HeightField } from './mesh'
+import type { TextRender } from './text'
+
+export const COLLAGE_LAYOUTS = ['single', 'side_by_side', 'stacked', 'inset', 'triptych'] as const
+
+export type CollageLayout = (typeof COLLAGE_LAYOUTS)[number]
+
+/** Photos each layout takes. */
+export const SLOT_COUNTS: Record<CollageLayout, number> = {
+  single: 1,
+  side_by_side: 2,
+  stacked: 2,
+  inset: 2,
+  triptych: 3,
+}
+
+export const MAX_SLOTS = 3
+
+/** Gap between neighbouring slots. */
+export const COLLAGE_GUTTER_MM = 3
+
+/** Size of the inset as a fraction of the design. */
+const INSET_SIZE = 0.4
+
+/**
+ * One photo's placement in its slot.  Mask shapes are laid out on the
+ * photo, as in a single-photo design, so they move with it.
+ */
+export type CollageSlot = MaskSettings & {
+  /** Zoom; 1 is the smallest size that covers the slot. */
+  scale: number
+  /** Pan in millimetres, x right and y up. */
+  offsetX: number
+  offsetY: number
+  /** Degrees, counter-clockwise. */
+  rotation: number
+}
+
+export const DEFAULT_SLOT: CollageSlot = { scale: 1, offsetX: 0, offsetY: 0, rotation: 0, ...DEFAULT_MASK }
+
+/** A slot rectangle in millimetres from the top-left of the design. */
+export type SlotRect = { x: number; y: number; w: number; h: number }
+
+/** Everything the merge needs besides the photos and tone settings. */
+export type CollageSpec = {
+  layout: CollageLayout
+  slots: CollageSlot[]
+  widthMm: number
+  heightMm: number
+}
+
+export function isCollage(layout: CollageLayout | undefined | null): boolean {
+  return !!layout && layout !== 'single'
+}
+
+/**
+ * Slot params for a layout: existing slots are kept in order, missing ones
+ * get the defaults and extra ones are dropped.  A single photo has none;
+ * it uses the design's own params.
+ */
+export function collageSlots(layout: CollageLayout, slots: CollageSlot[] = []): CollageSlot[] {
+  if (!isCollage(layout)) return []
+  return Array.from({ length: SLOT_COUNTS[layout] }, (_, i) => ({ ...DEFAULT_SLOT, ...slots[i] }))
+}
+
+/**
+ * Slot rectangles for a design of the given size.  A triptych runs along
+ * the design's longer side; the inset sits in the bottom-right corner, on
+ * top of the large photo.
+ */
+export function slotRects(layout: CollageLayout, widthMm: number, heightMm: number): SlotRect[] {
+  const g = COLLAGE_GUTTER_MM
+  switch (layout) {
+    case 'side_by_side': {
+      const w = (widthMm - g) / 2
+      return [
+        { x: 0, y: 0, w, h: heightMm },
+        { x: w + g, y: 0, w, h: heightMm },
+      ]
+    }
+    case 'stacked': {
+      const h = (heightMm - g) / 2
+      return [
+        { x: 0, y: 0, w: widthMm, h },
+        { x: 0, y: h + g, w: widthMm, h },
+      ]
+    }
+    case 'inset': {
+      const w = widthMm * INSET_SIZE
+      const h = heightMm * INSET_SIZE
+      return [
+        { x: 0, y: 0, w: widthMm, h: heightMm },
+        { x: widthMm - g - w, y: heightMm - g - h, w, h },
+      ]
+    }
+    case 'triptych': {
+      if (widthMm >= heightMm) {
+        const w = (widthMm - 2 * g) / 3
+        return [0, 1, 2].map((i) => ({ x: i * (w + g), y: 0, w, h: heightMm }))
+      }
+      const h = (heightMm - 2 * g) / 3
+      return [0, 1, 2].map((i) => ({ x: 0, y: i * (h + g), w: widthMm, h }))
+    }
+    default:
+      return [{ x: 0, y: 0, w: widthMm, h: heightMm }]
+  }
+}
+
+/** Bilinear sample with clamped edges; x and y in pixel units. */
+function sample(values: Float32Array, w: number, h: number, x: number, y: number): number {
+  const fx = Math.min(w - 1, Math.max(0, x - 0.5))
+  const fy = Math.min(h - 1, Math.max(0, y - 0.5))
+  const x0 = Math.floor(fx)
+  const y0 = Math.floor(fy)
+  const x1 = Math.min(w - 1, x0 + 1)
+  const y1 = Math.min(h - 1, y0 + 1)
+  const tx = fx - x0
+  const ty = fy - y0
+  const top = values[y0 * w + x0] * (1 - tx) + values[y0 * w + x1] * tx
+  const bottom = values[y1 * w + x0] * (1 - tx) + values[y1 * w + x1] * tx
+  return top * (1 - ty) + bottom * ty
+}
+
+/**
+ * Merge the slots into one heightfield at the design's aspect ratio.  Each
+ * photo goes through the tonal stages and its own mask, is placed in its
+ * slot (covering it at zoom 1) and clipped to it.  Later slots are drawn
+ * over earlier ones, blended by their mask so a feathered inset fades into
+ * the photo behind it.  The design-wide mask is not used.
+ */
+export function buildCollageHeightmap(
+  images: (RGBAImage | null)[],
+  settings: Partial<HeightmapSettings>,
+  spec: CollageSpec,
+  text?: TextRender
+): HeightField {
+  const s = resolveHeightmapSettings(settings)
+  const { widthMm, heightMm } = spec
+  const width = widthMm >= heightMm ? MAX_MAP_SIDE : Math.max(1, Math.round((MAX_MAP_SIDE * widthMm) / heightMm))
+  const height = heightMm >= widthMm ? MAX_MAP_SIDE : Math.max(1, Math.round((MAX_MAP_SIDE * heightMm) / widthMm))
+  const pxPerMm = width / widthMm
+  const out = new Float32Array(width * height)
+  const slots = collageSlots(spec.layout, spec.slots)
+
+  slotRects(spec.layout, widthMm, heightMm).forEach((rect, i) => {
+    const image = images[i]
+    if (!image) return
+    const slot = slots[i]
+    const photo = toneHeightfield(image, s)
+    const { width: pw, height: ph } = photo
+    applyMask(photo.heights, pw, ph, slot)
+    const alpha = new Float32Array(pw * ph).fill(1)
+    applyMask(alpha, pw, ph, { ...slot, maskRim: 0 })
+
+    // Millimetres per photo pixel, and the photo centre in design space (y down).
+    const mmPerPx = Math.max(rect.w / pw, rect.h / ph) / Math.max(0.01, slot.scale)
+    const cx = rect.x + rect.w / 2 + slot.offsetX
+    const cy = rect.y + rect.h / 2 - slot.offsetY
+    const theta = (slot.rotation * Math.PI) / 180
+    const cos = Math.cos(theta)
+    const sin = Math.sin(theta)
+
+    const x0 = Math.max(0, Math.floor(rect.x * pxPerMm))
+    const x1 = Math.min(width, Math.ceil((rect.x + rect.w) * pxPerMm))
+    const y0 = Math.max(0, Math.floor(rect.y * pxPerMm))
+    const y1 = Math.min(height, Math.ceil((rect.y + rect.h) * pxPerMm))
+    for (let y = y0; y < y1; y++) {
+      const dy = (y + 0.5) / pxPerMm - cy
+      for (let x = x0; x < x1; x++) {
+        const dx = (x + 0.5) / pxPerMm - cx
+        // Undo the counter-clockwise rotation to find the photo pixel.
+        const u = (dx * cos - dy * sin) / mmPerPx + pw / 2
+        const v = (dx * sin + dy * cos) / mmPerPx + ph / 2
+        if (u < 0 || v < 0 || u >= pw || v >= ph) continue
+        const a = sample(alpha, pw, ph, u, v)
+        const value = sample(photo.heights, pw, ph, u, v)
+        const o = y * width + x
+        out[o] = Math.min(1, value + out[o] * (1 - a))
+      }
+    }
+  })
+
+  return drawText({ heights: out, width, height }, text)
+}
+
+/**
+ * The design's heightfield: a collage when the layout has several slots,
+ * otherwise the single-photo pipeline on the first image.
+ */
+export function buildDesignHeightmap(
+  images: (RGBAImage | null)[],
+  settings: Partial<HeightmapSettings>,
+  collage: CollageSpec | null,
+  text?: TextRender
+): HeightField {
+  if (collage && isCollage(collage.layout)) return buildCollageHeightmap(images, settings, collage, text)
+  if (!images[0]) throw new Error('No photo for the design')
+  return buildHeightmap(images[0], settings, text)
+}
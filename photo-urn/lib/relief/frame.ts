@@ -0,0 +1,252 @@
+// Auto-framing: find the subject of a photo and the tilt of its horizon,
+// then choose the placement (scale, offset, rotation) that centres the
+// subject in the urn's design area.  Everything runs locally on a small
+// copy of the photo, starting from the same tone-mapped luminance the
+// relief is built from, so it is quick enough to run on a click.
+
+import { downsampleRGBA, resolveHeightmapSettings, toneHeightfield, type RGBAImage, type ToneSettings } from './heightmap'
+
+/** Longest side the analysis works at. */
+const FRAME_SIDE = 160
+
+/** Tilts beyond this are taken as intentional, not a crooked horizon. */
+export const MAX_TILT_DEG = 15
+
+export type FrameEstimate = {
+  /** Subject box as fractions of the photo, y down. */
+  subject: { x: number; y: number; w: number; h: number }
+  /** Horizon tilt in degrees, counter-clockwise; 0 when there is no clear line. */
+  tilt: number
+}
+
+export type Placement = { scale: number; offsetX: number; offsetY: number; rotation: number }
+
+type Bound = { min: number; max: number; step: number }
+
+/** Box blur with clamped edges, radius `r` in pixels. */
+function boxBlur(src: Float32Array, w: number, h: number, r: number): Float32Array {
+  const tmp = new Float32Array(src.length)
+  const out = new Float32Array(src.length)
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let acc = 0
+      for (let k = -r; k <= r; k++) acc += src[y * w + Math.min(w - 1, Math.max(0, x + k))]
+      tmp[y * w + x] = acc / (2 * r + 1)
+    }
+  }
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let acc = 0
+      for (let k = -r; k <= r; k++) acc += tmp[Math.min(h - 1, Math.max(0, y + k)) * w + x]
+      out[y * w + x] = acc / (2 * r + 1)
+    }
+  }
+  return out
+}
+
+/** Scale values into 0–1 by their maximum. */
+function normalize(values: Float32Array): Float32Array {
+  let max = 0
+  for (const v of values) max = Math.max(max, v)
+  if (max > 0) for (let i = 0; i < values.length; i++) values[i] /= max
+  return values
+}
+
+function meanStd(values: Float32Array): [number, number] {
+  let sum = 0
+  let sq = 0
+  for (const v of values) {
+    sum += v
+    sq += v * v
+  }
+  const mean = sum / values.length
+  return [mean, Math.sqrt(Math.max(0, sq / values.length - mean * mean))]
+}
+
+/**
+ * Estimate the subject and horizon of a photo.  Saliency combines edge
+ * energy with how far each pixel's luminance and colour sit from the
+ * photo's average, under a mild centre prior; the subject box spans two
+ * standard deviations around the salient pixels' centroid.  The tilt is
+ * the strongest near-horizontal or near-vertical line direction.
+ */
+export function estimateFrame(image: RGBAImage, tone: Partial<ToneSettings> = {}): FrameEstimate {
+  const small = downsampleRGBA(image, FRAME_SIDE)
+  const { heights: lum, width: w, height: h } = toneHeightfield(small, resolveHeightmapSettings(tone))
+  const n = w * h
+
+  // Sobel gradients, y down, of the plain luminance, lightly blurred.  The
+  // tone curve clips hard edges, and a clipped edge reads as a staircase of
+  // flat and vertical steps instead of its true angle.
+  const gx = new Float32Array(n)
+  const gy = new Float32Array(n)
+  const plain = new Float32Array(n)
+  for (let i = 0, j = 0; i < n; i++, j += 4) {
+    plain[i] = (0.2126 * small.data[j] + 0.7152 * small.data[j + 1] + 0.0722 * small.data[j + 2]) / 255
+  }
+  const soft = boxBlur(plain, w, h, 1)
+  const at = (x: number, y: number) => soft[Math.min(h - 1, Math.max(0, y)) * w + Math.min(w - 1, Math.max(0, x))]
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      gx[y * w + x] =
+        at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1)
+      gy[y * w + x] =
+        at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1)
+    }
+  }
+  const mag = new Float32Array(n)
+  for (let i = 0; i < n; i++) mag[i] = Math.hypot(gx[i], gy[i])
+
+  // Luminance and colour contrast against the photo's average.
+  const [lumMean, lumStd] = meanStd(lum)
+  const opA = new Float32Array(n)
+  const opB = new Float32Array(n)
+  for (let i = 0, j = 0; i < n; i++, j += 4) {
+    const [r, g, b] = [small.data[j], small.data[j + 1], small.data[j + 2]]
+    opA[i] = (r - g) / 255
+    opB[i] = ((r + g) / 2 - b) / 255
+  }
+  const [aMean] = meanStd(opA)
+  const [bMean] = meanStd(opB)
+  const lumContrast = new Float32Array(n)
+  const colour = new Float32Array(n)
+  for (let i = 0; i < n; i++) {
+    lumContrast[i] = Math.abs(lum[i] - lumMean) / Math.max(1e-3, lumStd)
+    colour[i] = Math.hypot(opA[i] - aMean, opB[i] - bMean)
+  }
+
+  // Edges that run right across the photo (a horizon, a table edge) are
+  // background: keep only what stands out from its row and column.
+  const local = new Float32Array(n)
+  const median = (values: number[]) => values.sort((p, q) => p - q)[values.length >> 1]
+  const rowMedian = Array.from({ length: h }, (_, y) => median(Array.from(mag.subarray(y * w, (y + 1) * w))))
+  const colMedian = Array.from({ length: w }, (_, x) => median(Array.from({ length: h }, (_, y) => mag[y * w + x])))
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) local[y * w + x] = Math.max(0, mag[y * w + x] - Math.max(rowMedian[y], colMedian[x]))
+  }
+
+  const radius = Math.max(1, Math.round(Math.max(w, h) / 40))
+  const edges = normalize(boxBlur(local, w, h, radius))
+  const lumSal = normalize(boxBlur(lumContrast, w, h, radius))
+  const colSal = normalize(boxBlur(colour, w, h, radius))
+  const saliency = new Float32Array(n)
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const dx = (x + 0.5) / w - 0.5
+      const dy = (y + 0.5) / h - 0.5
+      const prior = Math.exp(-(dx * dx + dy * dy) / (2 * 0.35 * 0.35))
+      const i = y * w + x
+      saliency[i] = (edges[i] + 0.5 * lumSal[i] + 0.5 * colSal[i]) * (0.5 + 0.5 * prior)
+    }
+  }
+
+  // Weighted centroid and spread of the clearly salient pixels.
+  const [salMean, salStd] = meanStd(saliency)
+  const threshold = salMean + 0.5 * salStd
+  let total = 0
+  let sx = 0
+  let sy = 0
+  let sxx = 0
+  let syy = 0
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const wt = Math.max(0, saliency[y * w + x] - threshold)
+      const u = (x + 0.5) / w
+      const v = (y + 0.5) / h
+      total += wt
+      sx += wt * u
+      sy += wt * v
+      sxx += wt * u * u
+      syy += wt * v * v
+    }
+  }
+  let subject = { x: 0, y: 0, w: 1, h: 1 }
+  if (total > 1e-6) {
+    const cx = sx / total
+    const cy = sy / total
+    const bw = Math.min(1, 4 * Math.sqrt(Math.max(0, sxx / total - cx * cx)))
+    const bh = Math.min(1, 4 * Math.sqrt(Math.max(0, syy / total - cy * cy)))
+    subject = {
+      x: Math.min(1 - bw, Math.max(0, cx - bw / 2)),
+      y: Math.min(1 - bh, Math.max(0, cy - bh / 2)),
+      w: bw,
+      h: bh,
+    }
+  }
+
+  // Line directions from the gradients (y up), folded onto the nearest of
+  // horizontal and vertical, in half-degree bins weighted by edge strength
+  // squared so long straight lines outvote texture.
+  const BINS = 4 * MAX_TILT_DEG + 1
+  const hist = new Float32Array(BINS)
+  let maxMag = 0
+  for (const m of mag) maxMag = Math.max(maxMag, m)
+  let edgeWeight = 0
+  for (let i = 0; i < n; i++) {
+    if (mag[i] < 0.1 * maxMag) continue
+    const weight = mag[i] * mag[i]
+    edgeWeight += weight
+    // The line runs perpendicular to the gradient.
+    let line = (Math.atan2(-gy[i], gx[i]) * 180) / Math.PI + 90
+    line = ((line % 180) + 180) % 180
+    const dev = line > 135 ? line - 180 : line > 45 ? line - 90 : line
+    if (Math.abs(dev) <= MAX_TILT_DEG) hist[Math.round((dev + MAX_TILT_DEG) * 2)] += weight
+  }
+  let peak = 0
+  let best = 0
+  for (let b = 0; b < BINS; b++) {
+    const smooth = (hist[b - 1] ?? 0) + 2 * hist[b] + (hist[b + 1] ?? 0)
+    if (smooth > best) {
+      best = smooth
+      peak = b
+    }
+  }
+  const tilt = peak / 2 - MAX_TILT_DEG
+  // A clear line collects a good share of the edge energy in one bin.
+  const clear = edgeWeight > 0 && best / (4 * edgeWeight) > 0.08 && Math.abs(tilt) >= 0.5
+
+  return { subject, tilt: clear ? tilt : 0 }
+}
+
+function snap(value: number, bound: Bound): number {
+  const stepped = Math.round(value / bound.step) * bound.step
+  return Math.min(bound.max, Math.max(bound.min, +stepped.toFixed(4)))
+}
+
+/**
+ * The placement that levels the horizon and puts the subject's centre on
+ * the centre of a `widthMm` × `heightMm` design area, at the largest
+ * scale that keeps the whole relief inside the area.  The photo fills the
+ * design, so framing cannot crop it: an off-centre subject is centred by
+ * making the relief smaller.  When even the smallest scale does not fit,
+ * the offset is limited so the relief stays inside.
+ */
+export function framePlacement(
+  estimate: FrameEstimate,
+  widthMm: number,
+  heightMm: number,
+  bounds: Record<keyof Placement, Bound>
+): Placement {
+  const rotation = snap(-estimate.tilt, bounds.rotation)
+  const a = (rotation * Math.PI) / 180
+  const cos = Math.cos(a)
+  const sin = Math.sin(a)
+  // Subject centre on the design at scale 1, y up, after rotation.
+  const px = (estimate.subject.x + estimate.subject.w / 2 - 0.5) * widthMm
+  const py = (0.5 - estimate.subject.y - estimate.subject.h / 2) * heightMm
+  const qx = px * cos - py * sin
+  const qy = px * sin + py * cos
+  // Half extents of the rotated design at scale 1, as in checkPlacement.
+  const ex = Math.abs((widthMm / 2) * cos) + Math.abs((heightMm / 2) * sin)
+  const ey = Math.abs((widthMm / 2) * sin) + Math.abs((heightMm / 2) * cos)
+
+  const fit = Math.min(widthMm / 2 / (Math.abs(qx) + ex), heightMm / 2 / (Math.abs(qy) + ey))
+  const scale = snap(Math.floor(fit / bounds.scale.step) * bounds.scale.step, bounds.scale)
+  const roomX = Math.max(0, widthMm / 2 - scale * ex)
+  const roomY = Math.max(0, heightMm / 2 - scale * ey)
+  // Offsets snap toward zero so rounding never pushes the relief outside.
+  const inward = (v: number, b: Bound) => snap(Math.trunc(v / b.step) * b.step, b)
+  const offsetX = inward(Math.min(roomX, Math.max(-roomX, -scale * qx)), bounds.offsetX)
+  const offsetY = inward(Math.min(roomY, Math.max(-roomY, -scale * qy)), bounds.offsetY)
+  return { scale, offsetX, offsetY, rotation }
+}
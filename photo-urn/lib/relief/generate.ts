@@ -0,0 +1,135 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { decodeImage, encodePNG } from '@/lib/images/codec'
+import type { PreviewParams } from '@/lib/store'
+import { loadFonts } from '@/lib/text'
+import type { FaceCode, LithophaneTarget, UrnTarget } from '@/lib/urns/catalog'
+import { parseSTL } from '@/lib/urns/inspect'
+import { buildDesignHeightmap, isCollage } from './collage'
+import { heightsToRGBA } from './heightmap'
+import { buildLithophaneMesh, lithophaneReport, resolveThickness } from './lithophane'
+import { BASE_PLATE_MM, buildReliefMesh } from './mesh'
+import { checkPrintability, measureFace, type PrintReport } from './printability'
+import { meshToBinarySTL } from './stl'
+import { surfaceFromTarget } from './wrap'
+
+/**
+ * The order's heightmap and its production size: the urn target times the
+ * user scale, with depth clamped to the target's printable range.  For a
+ * lithophane the depth is its thickness range.  `imagePaths` holds one
+ * photo per collage slot.
+ */
+async function orderHeightmap(
+  imagePaths: string[],
+  params: PreviewParams,
+  target: UrnTarget,
+  lithophane: LithophaneTarget | null,
+  onDecoded: () => void | Promise<void> = () => undefined
+) {
+  const images = await Promise.all(imagePaths.map(async (p) => decodeImage(await fs.readFile(p))))
+  const scale = params.scale > 0 ? params.scale : 1
+  const widthMm = target.width_mm * scale
+  const heightMm = target.height_mm * scale
+  const thickness = lithophane ? resolveThickness(params, lithophane) : null
+  const depthMm = thickness
+    ? thickness.maxMm - thickness.minMm
+    : Math.min(target.depth_mm_max, Math.max(target.depth_mm_min, params.depth))
+  await onDecoded()
+  // Orders from before text existed have no textBlocks.
+  const blocks = params.textBlocks ?? []
+  const fonts = await loadFonts(blocks.map((b) => b.font))
+  const collage = isCollage(params.layout)
+    ? { layout: params.layout, slots: params.slots ?? [], widthMm, heightMm }
+    : null
+  const field = buildDesignHeightmap(images, params, collage, { blocks, fonts, widthMm, heightMm, depthMm })
+  return { field, widthMm, heightMm, depthMm, thickness }
+}
+
+/**
+ * Printability report for an order, run before generation.  Uses the
+ * requested depth rather than the clamped one, so depth beyond the urn's
+ * limit is reported instead of silently reduced.  The urn model (when it
+ * is a local file) supplies the face extent and wall thickness on `face`,
+ * the one picked in the preview, or else the target's default face.  A lithophane has no urn behind it, so only its
+ * photo area is checked.
+ */
+export async function reliefPrintReport(opts: {
+  imagePaths: string[]
+  params: PreviewParams
+  target: UrnTarget
+  lithophane?: LithophaneTarget | null
+  modelPath: string | null
+  face?: FaceCode | null
+}): Promise<PrintReport> {
+  const { params, target, modelPath } = opts
+  const lithophane = opts.lithophane ?? null
+  const { field, widthMm, heightMm, thickness } = await orderHeightmap(opts.imagePaths, params, target, lithophane)
+  if (thickness) return lithophaneReport(field, { widthMm, heightMm, thickness })
+  const model = modelPath ? await fs.readFile(modelPath).catch(() => null) : null
+  const face = model ? measureFace(parseSTL(model).positions, opts.face ?? target.default_face) : null
+  return checkPrintability({
+    field,
+    widthMm,
+    heightMm,
+    depthMm: params.depth,
+    invert: params.invert,
+    target,
+    offsetX: params.offsetX,
+    offsetY: params.offsetY,
+    rotation: params.rotation,
+    face,
+  })
+}
+
+/**
+ * Generate `relief_only.stl` for an order, plus `depth.png` next to it when
+ * `depthPngPath` is given.  The heightmap comes from the same pipeline and
+ * settings as the preview, merging the photos when the design is a
+ * collage.  The relief is sized to the urn target times the
+ * user scale and wrapped onto curved targets exactly as in the preview;
+ * depth is clamped to the target's printable range.  Text blocks are laid
+ * out on that same physical size.  Offset and
+ * rotation only place the relief on the urn, so they do not affect this
+ * standalone part.  With `lithophane` the part is instead the framed panel,
+ * its thickness following the photo's brightness.
+ */
+export async function generateReliefSTL(opts: {
+  imagePaths: string[]
+  outPath: string
+  depthPngPath?: string
+  params: PreviewParams
+  target: UrnTarget
+  lithophane?: LithophaneTarget | null
+  onProgress?: (fraction: number, message: string) => void | Promise<void>
+}) {
+  const { imagePaths, outPath, depthPngPath, params, target } = opts
+  const lithophane = opts.lithophane ?? null
+  const report = opts.onProgress ?? (() => undefined)
+  await report(0.05, 'Decoding photo')
+  const { field, widthMm, heightMm, depthMm, thickness } = await orderHeightmap(
+    imagePaths,
+    params,
+    target,
+    lithophane,
+    () => report(0.2, 'Building heightmap')
+  )
+  await fs.mkdir(path.dirname(outPath), { recursive: true })
+  if (depthPngPath) {
+    await fs.writeFile(depthPngPath, encodePNG({ data: heightsToRGBA(field), width: field.width, height: field.height }))
+  }
+  await report(0.45, 'Building mesh')
+  const mesh =
+    lithophane && thickness
+      ? buildLithophaneMesh(field, { widthMm, heightMm, thickness, target: lithophane })
+      : buildReliefMesh(field, {
+          widthMm,
+          heightMm,
+          depthMm,
+          baseMm: BASE_PLATE_MM,
+          invert: params.invert,
+          wrap: surfaceFromTarget(target),
+        })
+  await report(0.85, 'Writing STL')
+  await fs.writeFile(outPath, meshToBinarySTL(mesh))
+  return { triangles: mesh.indices.length / 3, widthMm, heightMm, depthMm }
+}
@@ -0,0 +1,112 @@
+import type { Mesh } from './mesh'
+
+export type GLBPart = {
+  name: string
+  mesh: Mesh
+  /** sRGB colour, e.g. 0xdddddd. */
+  color: number
+  metallic?: number
+  roughness?: number
+}
+
+const GLB_MAGIC = 0x46546c67
+const CHUNK_JSON = 0x4e4f534a
+const CHUNK_BIN = 0x004e4942
+
+/** sRGB hex to the linear RGBA factor glTF expects. */
+function linearColor(hex: number): number[] {
+  const channel = (c: number) => {
+    const v = c / 255
+    return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4)
+  }
+  return [channel((hex >> 16) & 255), channel((hex >> 8) & 255), channel(hex & 255), 1]
+}
+
+/**
+ * Serialize meshes as a binary glTF 2.0 scene with one node per part.
+ * Positions are taken in millimetres and written in metres, the glTF
+ * unit.  Normals are left out, so viewers shade faces flat, as the
+ * preview does.  Uses DataView only, so it runs in the browser as well
+ * as in Node.
+ */
+export function meshesToGLB(parts: GLBPart[]): Uint8Array {
+  const views: object[] = []
+  const accessors: object[] = []
+  const meshes: object[] = []
+  const materials: object[] = []
+  let binLength = 0
+  for (const part of parts) {
+    binLength += part.mesh.positions.length * 4 + part.mesh.indices.length * 4
+  }
+  const bin = new ArrayBuffer(binLength)
+  const binView = new DataView(bin)
+  let off = 0
+  for (const part of parts) {
+    const { positions, indices } = part.mesh
+    const min = [Infinity, Infinity, Infinity]
+    const max = [-Infinity, -Infinity, -Infinity]
+    views.push({ buffer: 0, byteOffset: off, byteLength: positions.length * 4, target: 34962 })
+    for (let i = 0; i < positions.length; i++) {
+      const v = positions[i] / 1000
+      binView.setFloat32(off, v, true)
+      off += 4
+      const axis = i % 3
+      // Bounds must match the stored float32 values exactly.
+      const stored = Math.fround(v)
+      if (stored < min[axis]) min[axis] = stored
+      if (stored > max[axis]) max[axis] = stored
+    }
+    views.push({ buffer: 0, byteOffset: off, byteLength: indices.length * 4, target: 34963 })
+    for (let i = 0; i < indices.length; i++) {
+      binView.setUint32(off, indices[i], true)
+      off += 4
+    }
+    const position = accessors.length
+    accessors.push(
+      { bufferView: views.length - 2, componentType: 5126, count: positions.length / 3, type: 'VEC3', min, max },
+      { bufferView: views.length - 1, componentType: 5125, count: indices.length, type: 'SCALAR' }
+    )
+    materials.push({
+      name: part.name,
+      pbrMetallicRoughness: {
+        baseColorFactor: linearColor(part.color),
+        metallicFactor: part.metallic ?? 0,
+        roughnessFactor: part.roughness ?? 0.5,
+      },
+      doubleSided: true,
+    })
+    meshes.push({
+      name: part.name,
+      primitives: [{ attributes: { POSITION: position }, indices: position + 1, material: materials.length - 1 }],
+    })
+  }
+  const gltf = {
+    asset: { version: '2.0', generator: 'photo-urn' },
+    scene: 0,
+    scenes: [{ nodes: parts.map((_, i) => i) }],
+    nodes: parts.map((part, i) => ({ name: part.name, mesh: i })),
+    meshes,
+    materials,
+    accessors,
+    bufferViews: views,
+    buffers: [{ byteLength: binLength }],
+  }
+
+  const json = new TextEncoder().encode(JSON.stringify(gltf))
+  const jsonLength = Math.ceil(json.length / 4) * 4
+  const total = 12 + 8 + jsonLength + 8 + binLength
+  const out = new Uint8Array(total)
+  const view = new DataView(out.buffer)
+  view.setUint32(0, GLB_MAGIC, true)
+  view.setUint32(4, 2, true)
+  view.setUint32(8, total, true)
+  view.setUint32(12, jsonLength, true)
+  view.setUint32(16, CHUNK_JSON, true)
+  out.set(json, 20)
+  // The JSON chunk is padded with spaces.
+  out.fill(0x20, 20 + json.length, 20 + jsonLength)
+  view.setUint32(20 + jsonLength, binLength, true)
+  view.setUint32(24 + jsonLength, CHUNK_BIN, true)
+  out.set(new Uint8Array(bin), 28 + jsonLength)
+  return out
+}
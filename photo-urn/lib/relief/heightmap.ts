@@ -0,0 +1,258 @@
+// Shared photo → heightmap pipeline.  It works on raw RGBA buffers only (no
+// DOM, no Node APIs), so the browser preview and the server-side mesh
+// generator run exactly the same code with the same settings.
+
+import { DEFAULT_MASK, MASK_SHAPES, applyMask, type MaskSettings } from './mask'
+import type { HeightField } from './mesh'
+import { applyText, type TextRender } from './text'
+
+export type RGBAImage = {
+  data: Uint8Array | Uint8ClampedArray
+  width: number
+  height: number
+}
+
+/** Tonal stages of the pipeline. */
+export type ToneSettings = {
+  /** Lower luminance percentile mapped to 0. */
+  clipLow: number
+  /** Upper luminance percentile mapped to 1. */
+  clipHigh: number
+  /** Binomial blur radius used for the unsharp mask (0 disables it). */
+  blurRadius: number
+  /** Unsharp-mask amount. */
+  sharpen: number
+  gamma: number
+  /** Apply a smoothstep S-curve after gamma. */
+  smoothstep: boolean
+  /** Final gain, clamped to 1. */
+  contrast: number
+}
+
+/** Tunable stages of the pipeline; stored in `PreviewParams`. */
+export type HeightmapSettings = ToneSettings & MaskSettings
+
+export const DEFAULT_TONE: ToneSettings = {
+  clipLow: 0.04,
+  clipHigh: 0.96,
+  blurRadius: 2,
+  sharpen: 1.2,
+  gamma: 0.85,
+  smoothstep: true,
+  contrast: 1.5,
+}
+
+export const DEFAULT_HEIGHTMAP: HeightmapSettings = { ...DEFAULT_TONE, ...DEFAULT_MASK }
+
+/** Largest side of the working heightmap, in pixels. */
+export const MAX_MAP_SIDE = 1024
+
+const HEIGHTMAP_KEYS = Object.keys(DEFAULT_HEIGHTMAP) as (keyof HeightmapSettings)[]
+
+/**
+ * Pick the heightmap settings out of a params object, falling back to the
+ * defaults for anything missing (e.g. orders submitted before a setting
+ * existed).
+ */
+export function resolveHeightmapSettings(p?: Partial<HeightmapSettings> | null): HeightmapSettings {
+  const out = { ...DEFAULT_HEIGHTMAP }
+  for (const key of HEIGHTMAP_KEYS) {
+    const v = p?.[key]
+    if (typeof v === typeof DEFAULT_HEIGHTMAP[key]) (out as any)[key] = v
+  }
+  if (!MASK_SHAPES.includes(out.maskShape)) out.maskShape = DEFAULT_MASK.maskShape
+  if (!Array.isArray(out.maskStrokes)) out.maskStrokes = DEFAULT_MASK.maskStrokes
+  return out
+}
+
+/** Box-filter an image down so its larger side is at most `maxSide`. */
+export function downsampleRGBA(img: RGBAImage, maxSide = MAX_MAP_SIDE): RGBAImage {
+  const k = Math.max(img.width, img.height) / maxSide
+  if (k <= 1) return img
+  const width = Math.max(1, Math.round(img.width / k))
+  const height = Math.max(1, Math.round(img.height / k))
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * k)
+    const y1 = Math.min(img.height, Math.max(y0 + 1, Math.floor((y + 1) * k)))
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * k)
+      const x1 = Math.min(img.width, Math.max(x0 + 1, Math.floor((x + 1) * k)))
+      let r = 0, g = 0, b = 0, a = 0
+      for (let yy = y0; yy < y1; yy++) {
+        for (let xx = x0; xx < x1; xx++) {
+          const i = (yy * img.width + xx) * 4
+          r += img.data[i]; g += img.data[i + 1]; b += img.data[i + 2]; a += img.data[i + 3]
+        }
+      }
+      const n = (y1 - y0) * (x1 - x0)
+      const o = (y * width + x) * 4
+      data[o] = r / n; data[o + 1] = g / n; data[o + 2] = b / n; data[o + 3] = a / n
+    }
+  }
+  return { data, width, height }
+}
+
+/** Row 2r of Pascal's triangle; r = 2 gives the classic [1, 4, 6, 4, 1]. */
+function binomialKernel(radius: number): number[] {
+  let row = [1]
+  for (let i = 0; i < radius * 2; i++) {
+    const next = [1]
+    for (let j = 1; j < row.length; j++) next.push(row[j - 1] + row[j])
+    next.push(1)
+    row = next
+  }
+  return row
+}
+
+/** Separable blur with clamped edges. */
+function blurField(src: Float32Array, w: number, h: number, radius: number): Float32Array {
+  const kernel = binomialKernel(radius)
+  const sum = kernel.reduce((a, b) => a + b, 0)
+  const tmp = new Float32Array(src.length)
+  const out = new Float32Array(src.length)
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let acc = 0
+      for (let k = -radius; k <= radius; k++) {
+        const ix = Math.min(w - 1, Math.max(0, x + k))
+        acc += src[y * w + ix] * kernel[k + radius]
+      }
+      tmp[y * w + x] = acc / sum
+    }
+  }
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let acc = 0
+      for (let k = -radius; k <= radius; k++) {
+        const iy = Math.min(h - 1, Math.max(0, y + k))
+        acc += tmp[iy * w + x] * kernel[k + radius]
+      }
+      out[y * w + x] = acc / sum
+    }
+  }
+  return out
+}
+
+/** Bilinear resample of a heightfield to a new size. */
+function resizeField(field: HeightField, width: number, height: number): HeightField {
+  const { heights, width: w, height: h } = field
+  const out = new Float32Array(width * height)
+  for (let y = 0; y < height; y++) {
+    const fy = Math.min(h - 1, Math.max(0, ((y + 0.5) * h) / height - 0.5))
+    const y0 = Math.floor(fy)
+    const y1 = Math.min(h - 1, y0 + 1)
+    const ty = fy - y0
+    for (let x = 0; x < width; x++) {
+      const fx = Math.min(w - 1, Math.max(0, ((x + 0.5) * w) / width - 0.5))
+      const x0 = Math.floor(fx)
+      const x1 = Math.min(w - 1, x0 + 1)
+      const tx = fx - x0
+      const top = heights[y0 * w + x0] * (1 - tx) + heights[y0 * w + x1] * tx
+      const bottom = heights[y1 * w + x0] * (1 - tx) + heights[y1 * w + x1] * tx
+      out[y * width + x] = top * (1 - ty) + bottom * ty
+    }
+  }
+  return { heights: out, width, height }
+}
+
+/**
+ * The tonal stages on their own: luminance, percentile clipping, unsharp
+ * mask, gamma, optional smoothstep and contrast, at the downsampled size.
+ */
+export function toneHeightfield(image: RGBAImage, s: ToneSettings): HeightField {
+  const img = downsampleRGBA(image)
+  const { width: w, height: h, data } = img
+  const lum = new Float32Array(w * h)
+  for (let i = 0, j = 0; j < lum.length; i += 4, j++) {
+    lum[j] = 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]
+  }
+  const sorted = Float32Array.from(lum).sort()
+  const p = (q: number) => sorted[Math.floor(Math.min(1, Math.max(0, q)) * (sorted.length - 1))]
+  const lo = p(s.clipLow)
+  const hi = p(s.clipHigh)
+  const span = Math.max(1e-6, hi - lo)
+  for (let i = 0; i < lum.length; i++) {
+    lum[i] = Math.min(1, Math.max(0, (lum[i] - lo) / span))
+  }
+  const radius = Math.max(0, Math.round(s.blurRadius))
+  const blur = radius > 0 ? blurField(lum, w, h, radius) : lum
+  for (let i = 0; i < lum.length; i++) {
+    let v = lum[i] + s.sharpen * (lum[i] - blur[i])
+    v = Math.min(1, Math.max(0, v))
+    v = Math.pow(v, s.gamma)
+    if (s.smoothstep) v = v * v * (3 - 2 * v)
+    lum[i] = Math.min(1, Math.max(0, v * s.contrast))
+  }
+  return { heights: lum, width: w, height: h }
+}
+
+/**
+ * Draw text into a finished field.  Text needs the physical size of the
+ * design, and gets the full map resolution even when the photo is small.
+ */
+export function drawText(field: HeightField, text?: TextRender): HeightField {
+  if (!text?.blocks.length) return field
+  const k = MAX_MAP_SIDE / Math.max(field.width, field.height)
+  if (k > 1) field = resizeField(field, Math.round(field.width * k), Math.round(field.height * k))
+  applyText(field.heights, field.width, field.height, text)
+  return field
+}
+
+/**
+ * Turn an image into a normalized heightfield: the tonal stages, the shape
+ * mask and finally any text.
+ */
+export function buildHeightmap(
+  image: RGBAImage,
+  settings: Partial<HeightmapSettings> = {},
+  text?: TextRender
+): HeightField {
+  const s = resolveHeightmapSettings(settings)
+  const field = toneHeightfield(image, s)
+  applyMask(field.heights, field.width, field.height, s)
+  return drawText(field, text)
+}
+
+/** Grayscale RGBA rendering of a heightfield (for canvases and depth.png). */
+export function heightsToRGBA(field: HeightField): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(field.width * field.height * 4)
+  for (let i = 0, j = 0; j < field.heights.length; i += 4, j++) {
+    const v = Math.round(field.heights[j] * 255)
+    out[i] = v
+    out[i + 1] = v
+    out[i + 2] = v
+    out[i + 3] = 255
+  }
+  return out
+}
+
+/** Sobel tangent-space normal map, packed as RGBA bytes. */
+export function heightsToNormals(field: HeightField, strength = 2.2): Uint8Array {
+  const { heights, width: w, height: h } = field
+  const idx = (xx: number, yy: number) =>
+    Math.min(w - 1, Math.max(0, xx)) + Math.min(h - 1, Math.max(0, yy)) * w
+  const out = new Uint8Array(w * h * 4)
+  for (let y = 0, q = 0; y < h; y++) {
+    for (let x = 0; x < w; x++, q += 4) {
+      const tl = heights[idx(x - 1, y - 1)]
+      const t = heights[idx(x, y - 1)]
+      const tr = heights[idx(x + 1, y - 1)]
+      const l = heights[idx(x - 1, y)]
+      const r = heights[idx(x + 1, y)]
+      const bl = heights[idx(x - 1, y + 1)]
+      const b = heights[idx(x, y + 1)]
+      const br = heights[idx(x + 1, y + 1)]
+      const gx = tr + 2 * r + br - (tl + 2 * l + bl)
+      const gy = bl + 2 * b + br - (tl + 2 * t + tr)
+      const nx = -gx * strength
+      const ny = -gy * strength
+      const len = Math.hypot(nx, ny, 1) || 1
+      out[q] = Math.round(((nx / len) * 0.5 + 0.5) * 255)
+      out[q + 1] = Math.round(((ny / len) * 0.5 + 0.5) * 255)
+      out[q + 2] = Math.round(((1 / len) * 0.5 + 0.5) * 255)
+      out[q + 3] = 255
+    }
+  }
+  return out
+}
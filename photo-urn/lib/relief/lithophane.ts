@@ -0,0 +1,129 @@
+// Lithophanes: backlit panels where thickness encodes brightness.  The same
+// heightmap as a relief (1 = bright) maps to thickness the other way round,
+// thin where the photo is bright so more light passes, and a solid frame
+// runs around the photo.  Pure TypeScript, shared by the preview and the
+// server.
+
+import type { LithophaneTarget } from '@/lib/urns/catalog'
+import { buildReliefMesh, type HeightField, type Mesh } from './mesh'
+import { checkRelief, printReport, type PrintReport } from './printability'
+
+/** Thickness settings as stored in `PreviewParams`. */
+export type LithophaneSettings = {
+  /** Thickness at the brightest point. */
+  thicknessMin: number
+  /** Thickness at the darkest point. */
+  thicknessMax: number
+}
+
+export const DEFAULT_LITHOPHANE: LithophaneSettings = { thicknessMin: 0.8, thicknessMax: 3.2 }
+
+/** Thinnest range that still shows a usable tonal scale. */
+export const MIN_THICKNESS_RANGE_MM = 0.6
+
+/**
+ * Share of the light lost per millimetre of white PLA.  Only the preview
+ * uses it, to show how the panel looks against a light.
+ */
+export const ATTENUATION_PER_MM = 1.1
+
+/**
+ * The thickness range for a panel: the params clamped to the target's
+ * limits, falling back to the defaults for orders from before lithophanes.
+ */
+export function resolveThickness(
+  p: Partial<LithophaneSettings> | null | undefined,
+  target: LithophaneTarget
+): { minMm: number; maxMm: number } {
+  const clamp = (v: number) => Math.min(target.thickness_max_mm, Math.max(target.thickness_min_mm, v))
+  const minMm = clamp(p?.thicknessMin ?? DEFAULT_LITHOPHANE.thicknessMin)
+  const maxMm = clamp(p?.thicknessMax ?? DEFAULT_LITHOPHANE.thicknessMax)
+  return { minMm: Math.min(minMm, maxMm), maxMm: Math.max(minMm, maxMm) }
+}
+
+/** Thickness at a heightmap value: bright (1) is thin, dark (0) is thick. */
+export function lithophaneThickness(value: number, t: { minMm: number; maxMm: number }): number {
+  return t.maxMm - value * (t.maxMm - t.minMm)
+}
+
+/** Light passing through `thicknessMm`, relative to the thinnest point. */
+export function transmittance(thicknessMm: number, minMm: number): number {
+  return Math.min(1, Math.exp(-ATTENUATION_PER_MM * (thicknessMm - minMm)))
+}
+
+export type LithophaneOptions = {
+  /** Size of the photo area, without the frame. */
+  widthMm: number
+  heightMm: number
+  thickness: { minMm: number; maxMm: number }
+  target: LithophaneTarget
+  /** Target edge length of the finest grid cells; see `buildReliefMesh`. */
+  cellMm?: number
+}
+
+/** Outer size of the panel, frame included. */
+export function lithophaneSize(opts: Pick<LithophaneOptions, 'widthMm' | 'heightMm' | 'target'>) {
+  return { widthMm: opts.widthMm + 2 * opts.target.frame_mm, heightMm: opts.heightMm + 2 * opts.target.frame_mm }
+}
+
+/**
+ * The whole panel as one heightfield over its outer size: the photo mapped
+ * to thickness, surrounded by frame pixels at the frame thickness.  Values
+ * run from the thinnest photo point (0) to the frame (1), so the mesh
+ * needs no inversion.
+ */
+export function lithophaneField(field: HeightField, opts: LithophaneOptions) {
+  const { thickness, target } = opts
+  const topMm = Math.max(target.frame_thickness_mm, thickness.maxMm)
+  const spanMm = Math.max(1e-6, topMm - thickness.minMm)
+  const fx = Math.round((target.frame_mm / opts.widthMm) * field.width)
+  const fy = Math.round((target.frame_mm / opts.heightMm) * field.height)
+  const width = field.width + 2 * fx
+  const height = field.height + 2 * fy
+  const heights = new Float32Array(width * height).fill(1)
+  for (let y = 0; y < field.height; y++) {
+    for (let x = 0; x < field.width; x++) {
+      const t = lithophaneThickness(field.heights[y * field.width + x], thickness)
+      heights[(y + fy) * width + x + fx] = (t - thickness.minMm) / spanMm
+    }
+  }
+  return {
+    field: { heights, width, height },
+    // Frame widths are whole pixels, so the outer size follows the pixels.
+    widthMm: (opts.widthMm * width) / field.width,
+    heightMm: (opts.heightMm * height) / field.height,
+    baseMm: thickness.minMm,
+    depthMm: spanMm,
+  }
+}
+
+/**
+ * A watertight panel: flat back at z = 0, the photo and frame rising
+ * towards +Z, so z is the thickness the light passes through.
+ */
+export function buildLithophaneMesh(field: HeightField, opts: LithophaneOptions): Mesh {
+  const panel = lithophaneField(field, opts)
+  return buildReliefMesh(panel.field, {
+    widthMm: panel.widthMm,
+    heightMm: panel.heightMm,
+    depthMm: panel.depthMm,
+    baseMm: panel.baseMm,
+    cellMm: opts.cellMm,
+  })
+}
+
+/**
+ * Printability of the photo area.  Detail and slope are judged on the
+ * thickness relief, which is the photo inverted across the thickness range.
+ */
+export function lithophaneReport(field: HeightField, opts: Omit<LithophaneOptions, 'target' | 'cellMm'>): PrintReport {
+  return printReport(
+    checkRelief({
+      field,
+      widthMm: opts.widthMm,
+      heightMm: opts.heightMm,
+      depthMm: opts.thickness.maxMm - opts.thickness.minMm,
+      invert: true,
+    })
+  )
+}
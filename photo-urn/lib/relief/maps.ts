@@ -0,0 +1,104 @@
+import { fetchFonts } from '@/lib/text/fetch'
+import { MAX_SLOTS, buildDesignHeightmap, type CollageSpec } from './collage'
+import { heightsToNormals, heightsToRGBA, type HeightmapSettings, type RGBAImage } from './heightmap'
+import type { HeightField } from './mesh'
+import type { TextRender } from './text'
+
+// Preview maps for the 3D relief: the heightfield plus displacement and
+// normal textures as raw bytes.  Built in ./maps.worker when the browser
+// can, on the main thread otherwise (see ./client); both use these helpers.
+
+/** Text for the preview; the builder loads the fonts itself. */
+export type TextSpec = Omit<TextRender, 'fonts'>
+
+export type MapsInput = {
+  /** Data URLs or plain URLs of the photos, one per collage slot. */
+  images: (string | null)[]
+  settings: HeightmapSettings
+  collage: CollageSpec | null
+  text: TextSpec | null
+}
+
+export type PreviewMaps = {
+  field: HeightField
+  /** Grey RGBA displacement, top row first. */
+  disp: Uint8ClampedArray
+  /** Tangent-space normals as RGBA bytes. */
+  normals: Uint8Array
+}
+
+export type MapsRequest = { id: number; slot: number; input: MapsInput }
+
+export type MapsResponse = { id: number; slot: number; maps?: PreviewMaps; error?: string }
+
+/** Buffers a worker hands back without copying. */
+export function mapsTransfer(maps: PreviewMaps): ArrayBuffer[] {
+  return [maps.field.heights.buffer, maps.disp.buffer, maps.normals.buffer] as ArrayBuffer[]
+}
+
+/**
+ * Decode an image URL to RGBA pixels: through an ImageBitmap and an
+ * OffscreenCanvas where available (always in the worker), else an <img>
+ * drawn on a canvas.
+ */
+export async function decodeImageUrl(url: string): Promise<RGBAImage> {
+  if (typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined') {
+    const res = await fetch(url)
+    if (!res.ok) throw new Error('Failed to load photo')
+    const bitmap = await createImageBitmap(await res.blob())
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+    const ctx = canvas.getContext('2d')!
+    ctx.drawImage(bitmap, 0, 0)
+    bitmap.close()
+    return { data: ctx.getImageData(0, 0, canvas.width, canvas.height).data, width: canvas.width, height: canvas.height }
+  }
+  const img = new Image()
+  img.crossOrigin = 'anonymous'
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve()
+    img.onerror = () => reject(new Error('Failed to load photo'))
+    img.src = url
+  })
+  const canvas = document.createElement('canvas')
+  canvas.width = img.naturalWidth
+  canvas.height = img.naturalHeight
+  const ctx = canvas.getContext('2d')!
+  ctx.drawImage(img, 0, 0)
+  return { data: ctx.getImageData(0, 0, canvas.width, canvas.height).data, width: canvas.width, height: canvas.height }
+}
+
+/**
+ * Run the shared heightmap pipeline, so the preview matches the production
+ * mesh, and pack its textures.
+ */
+export async function buildPreviewMaps(pixels: (RGBAImage | null)[], input: MapsInput): Promise<PreviewMaps> {
+  const text = input.text?.blocks.length
+    ? { ...input.text, fonts: await fetchFonts(input.text.blocks.map((b) => b.font)) }
+    : undefined
+  const field = buildDesignHeightmap(pixels, input.settings, input.collage, text)
+  return { field, disp: heightsToRGBA(field), normals: heightsToNormals(field) }
+}
+
+/** Remembers the last few decoded photos so tone edits skip decoding. */
+export function pixelCache(size = MAX_SLOTS + 1) {
+  const cache = new Map<string, Promise<RGBAImage>>()
+  return (url: string) => {
+    let pixels = cache.get(url)
+    if (!pixels) {
+      pixels = decodeImageUrl(url)
+      pixels.catch(() => cache.delete(url))
+      cache.set(url, pixels)
+      if (cache.size > size) cache.delete(cache.keys().next().value)
+    } else {
+      // Most recently used goes last.
+      cache.delete(url)
+      cache.set(url, pixels)
+    }
+    return pixels
+  }
+}
+
+/** Decode every photo of a design; slots still waiting for one stay null. */
+export function decodeAll(pixelsFor: (url: string) => Promise<RGBAImage>, images: (string | null)[]) {
+  return Promise.all(images.map((url) => (url ? pixelsFor(url) : null)))
+}
@@ -0,0 +1,34 @@
+import { buildPreviewMaps, decodeAll, mapsTransfer, pixelCache, type MapsRequest, type MapsResponse } from './maps'
+
+// Builds preview maps off the main thread.  Each preview holds a slot; a
+// newer request from the same slot replaces one still waiting, so a slider
+// drag only builds the settings it ends on.
+
+const waiting = new Map<number, MapsRequest>()
+const pixelsFor = pixelCache()
+let running = false
+
+function reply(res: MapsResponse) {
+  self.postMessage(res, { transfer: res.maps ? mapsTransfer(res.maps) : [] })
+}
+
+async function drain() {
+  if (running) return
+  running = true
+  while (waiting.size) {
+    const [slot, req] = waiting.entries().next().value as [number, MapsRequest]
+    waiting.delete(slot)
+    try {
+      const maps = await buildPreviewMaps(await decodeAll(pixelsFor, req.input.images), req.input)
+      reply({ id: req.id, slot, maps })
+    } catch (err: any) {
+      reply({ id: req.id, slot, error: err?.message || String(err) })
+    }
+  }
+  running = false
+}
+
+self.onmessage = (e: MessageEvent<MapsRequest>) => {
+  waiting.set(e.data.slot, e.data)
+  drain()
+}
@@ -0,0 +1,211 @@
+// Photo masks for the heightmap pipeline.  A mask keeps the part of the
+// photo inside a shape, fades it out over a feather band and can add a
+// raised rim along the edge; everything outside drops to the base plate.
+// Shapes are laid out in image space, so the mask moves with the photo
+// when it is scaled, rotated or offset.
+
+export const MASK_SHAPES = ['none', 'oval', 'roundrect', 'arch', 'heart', 'freehand'] as const
+
+export type MaskShape = (typeof MASK_SHAPES)[number]
+
+/** A freehand brush stroke in normalized image coordinates (0..1, y down). */
+export type MaskStroke = {
+  /** Brush radius as a fraction of the image's shorter side. */
+  radius: number
+  points: [number, number][]
+}
+
+export type MaskSettings = {
+  maskShape: MaskShape
+  /** Feather width as a fraction of the image's shorter side. */
+  maskFeather: number
+  /** Rim height as a fraction of the full relief depth; 0 disables it. */
+  maskRim: number
+  /** Painted area for the `freehand` shape. */
+  maskStrokes: MaskStroke[]
+}
+
+export const DEFAULT_MASK: MaskSettings = {
+  maskShape: 'none',
+  maskFeather: 0.04,
+  maskRim: 0,
+  maskStrokes: [],
+}
+
+export const MAX_STROKE_POINTS = 2000
+
+/** Rim width as a fraction of the shorter side. */
+const RIM_WIDTH = 0.025
+
+/** Inside test for the analytic shapes, in pixel coordinates of a w×h image. */
+function insideShape(shape: MaskShape, x: number, y: number, w: number, h: number): boolean {
+  const cx = w / 2
+  const cy = h / 2
+  const s = Math.min(w, h)
+  switch (shape) {
+    case 'oval': {
+      const dx = (x - cx) / (w / 2)
+      const dy = (y - cy) / (h / 2)
+      return dx * dx + dy * dy <= 1
+    }
+    case 'roundrect': {
+      const r = s * 0.2
+      const qx = Math.max(0, Math.abs(x - cx) - (w / 2 - r))
+      const qy = Math.max(0, Math.abs(y - cy) - (h / 2 - r))
+      return qx * qx + qy * qy <= r * r
+    }
+    case 'arch': {
+      // Semicircular top (as wide as the image, at most half its height) on a rectangle.
+      const ry = Math.min(w / 2, h / 2)
+      if (y >= ry) return true
+      const dx = (x - cx) / (w / 2)
+      const dy = (y - ry) / ry
+      return dx * dx + dy * dy <= 1
+    }
+    case 'heart': {
+      // (X² + Y² − 1)³ − X²Y³ ≤ 0 spans about X ±1.14, Y −1…1.24 (Y up).
+      const X = ((x - cx) / (s / 2)) * 1.18
+      const Y = -((y - cy) / (s / 2)) * 1.16 + 0.12
+      const a = X * X + Y * Y - 1
+      return a * a * a - X * X * Y * Y * Y <= 0
+    }
+    default:
+      return true
+  }
+}
+
+/** Stamp brush strokes into a coverage grid. */
+function paintStrokes(strokes: MaskStroke[], w: number, h: number): Uint8Array {
+  const out = new Uint8Array(w * h)
+  const s = Math.min(w, h)
+  const stamp = (px: number, py: number, r: number) => {
+    const x0 = Math.max(0, Math.floor(px - r))
+    const x1 = Math.min(w - 1, Math.ceil(px + r))
+    const y0 = Math.max(0, Math.floor(py - r))
+    const y1 = Math.min(h - 1, Math.ceil(py + r))
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const dx = x + 0.5 - px
+        const dy = y + 0.5 - py
+        if (dx * dx + dy * dy <= r * r) out[y * w + x] = 1
+      }
+    }
+  }
+  for (const stroke of strokes) {
+    const r = Math.max(0.5, stroke.radius * s)
+    const pts = stroke.points.map(([u, v]) => [u * w, v * h])
+    for (let i = 0; i < pts.length; i++) {
+      const [ax, ay] = pts[i]
+      const [bx, by] = pts[Math.min(pts.length - 1, i + 1)]
+      const steps = Math.max(1, Math.ceil(Math.hypot(bx - ax, by - ay) / (r / 2)))
+      for (let k = 0; k < steps; k++) stamp(ax + ((bx - ax) * k) / steps, ay + ((by - ay) * k) / steps, r)
+      if (i === pts.length - 1) stamp(bx, by, r)
+    }
+  }
+  return out
+}
+
+/** Squared 1-D distance transform (Felzenszwalb & Huttenlocher). */
+function edt1d(f: Float64Array, n: number, d: Float64Array, v: Int32Array, z: Float64Array) {
+  let k = 0
+  v[0] = 0
+  z[0] = -Infinity
+  z[1] = Infinity
+  for (let q = 1; q < n; q++) {
+    let s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k])
+    while (s <= z[k]) {
+      k--
+      s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k])
+    }
+    k++
+    v[k] = q
+    z[k] = s
+    z[k + 1] = Infinity
+  }
+  k = 0
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]]
+  }
+}
+
+/**
+ * Distance in pixels from each inside cell to the nearest outside cell
+ * (0 outside).  The image border counts as outside, so shapes that touch
+ * it still get a feathered edge there.
+ */
+function insideDistance(inside: Uint8Array, w: number, h: number): Float32Array {
+  const W = w + 2
+  const H = h + 2
+  const grid = new Float64Array(W * H)
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const ix = x - 1
+      const iy = y - 1
+      const isIn = ix >= 0 && iy >= 0 && ix < w && iy < h && inside[iy * w + ix] === 1
+      grid[y * W + x] = isIn ? 1e20 : 0
+    }
+  }
+  const n = Math.max(W, H)
+  const f = new Float64Array(n)
+  const d = new Float64Array(n)
+  const v = new Int32Array(n)
+  const z = new Float64Array(n + 1)
+  for (let x = 0; x < W; x++) {
+    for (let y = 0; y < H; y++) f[y] = grid[y * W + x]
+    edt1d(f, H, d, v, z)
+    for (let y = 0; y < H; y++) grid[y * W + x] = d[y]
+  }
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) f[x] = grid[y * W + x]
+    edt1d(f, W, d, v, z)
+    for (let x = 0; x < W; x++) grid[y * W + x] = d[x]
+  }
+  const out = new Float32Array(w * h)
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) out[y * w + x] = Math.sqrt(grid[(y + 1) * W + x + 1])
+  }
+  return out
+}
+
+export function isMasked(s: MaskSettings): boolean {
+  if (s.maskShape === 'freehand') return s.maskStrokes.some((st) => st.points.length > 0)
+  return s.maskShape !== 'none'
+}
+
+/**
+ * Apply the mask to normalized heights in place.  A freehand mask with no
+ * strokes leaves the photo untouched rather than blanking it.
+ */
+export function applyMask(heights: Float32Array, w: number, h: number, s: MaskSettings): void {
+  if (!isMasked(s)) return
+  let inside: Uint8Array
+  if (s.maskShape === 'freehand') {
+    inside = paintStrokes(s.maskStrokes, w, h)
+  } else {
+    inside = new Uint8Array(w * h)
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) inside[y * w + x] = insideShape(s.maskShape, x + 0.5, y + 0.5, w, h) ? 1 : 0
+    }
+  }
+  const dist = insideDistance(inside, w, h)
+  const side = Math.min(w, h)
+  const feather = Math.max(0, s.maskFeather) * side
+  const rimWidth = Math.max(1, RIM_WIDTH * side)
+  const rim = Math.min(1, Math.max(0, s.maskRim))
+  for (let i = 0; i < heights.length; i++) {
+    const d = dist[i]
+    if (d <= 0) {
+      heights[i] = 0
+      continue
+    }
+    let alpha = 1
+    if (feather > 0 && d < feather) {
+      const t = d / feather
+      alpha = t * t * (3 - 2 * t)
+    }
+    let v = heights[i] * alpha
+    if (rim > 0 && d < rimWidth) v = Math.max(v, rim * Math.sin((Math.PI * d) / rimWidth))
+    heights[i] = v
+  }
+}
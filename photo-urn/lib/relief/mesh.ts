@@ -0,0 +1,299 @@
+// Closed relief mesh from a normalized heightfield.  The top surface is an
+// adaptive right-triangulated irregular network (RTIN): flat regions collapse
+// into a few large triangles while detailed regions keep full resolution, and
+// the hierarchy guarantees there are no T-junctions.  The boundary of the top
+// surface is stitched to a flat base plate with vertical side walls, so the
+// result is watertight and can be printed or unioned without repair.  For
+// curved targets the finished solid is bent onto the surface (see ./wrap).
+
+import { isCurved, maxChordSpan, wrapPositions, type SurfaceSpec } from './wrap'
+
+export type HeightField = {
+  /** Row-major heights in [0, 1], first row is the top of the image. */
+  heights: Float32Array
+  width: number
+  height: number
+}
+
+export type ReliefMeshOptions = {
+  widthMm: number
+  heightMm: number
+  /** Relief amplitude above the base plate. */
+  depthMm: number
+  /** Thickness of the solid plate under the relief. */
+  baseMm?: number
+  invert?: boolean
+  /** Largest vertical deviation allowed when decimating. */
+  maxErrorMm?: number
+  /** Target edge length of the finest grid cells. */
+  cellMm?: number
+  /** Surface to wrap onto, radius in millimetres.  Defaults to flat. */
+  wrap?: SurfaceSpec
+  /** Where the design sits on the surface; see `placeDesign`. */
+  placement?: DesignPlacement
+}
+
+/**
+ * Placement of the design on the flat authoring plane, applied before
+ * wrapping exactly as the preview does: mirror, rotate, then offset.
+ */
+export type DesignPlacement = {
+  /** Radians, counter-clockwise. */
+  rotation?: number
+  offsetX?: number
+  offsetY?: number
+  flipX?: boolean
+  flipY?: boolean
+}
+
+export type Mesh = {
+  positions: Float32Array
+  indices: Uint32Array
+}
+
+/**
+ * Move a design-plane mesh in place.  A single mirror turns the solid
+ * inside out, so the winding is flipped back to keep normals outward.
+ */
+function placeDesign(positions: Float32Array, indices: Uint32Array, p: DesignPlacement): void {
+  const cos = Math.cos(p.rotation ?? 0)
+  const sin = Math.sin(p.rotation ?? 0)
+  const dx = p.offsetX ?? 0
+  const dy = p.offsetY ?? 0
+  for (let o = 0; o < positions.length; o += 3) {
+    const x = p.flipX ? -positions[o] : positions[o]
+    const y = p.flipY ? -positions[o + 1] : positions[o + 1]
+    positions[o] = x * cos - y * sin + dx
+    positions[o + 1] = x * sin + y * cos + dy
+  }
+  if (!!p.flipX !== !!p.flipY) {
+    for (let t = 0; t < indices.length; t += 3) {
+      const b = indices[t + 1]
+      indices[t + 1] = indices[t + 2]
+      indices[t + 2] = b
+    }
+  }
+}
+
+/** Solid plate under production reliefs, shared by the server and exports. */
+export const BASE_PLATE_MM = 1.0
+
+const MIN_CELLS = 32
+const MAX_CELLS = 512
+
+function nextPow2(n: number): number {
+  let p = 1
+  while (p < n) p <<= 1
+  return p
+}
+
+/**
+ * Resample a heightfield onto a square (2^k + 1) grid with bilinear
+ * filtering.  The grid is stretched to the physical aspect later, matching
+ * how the preview stretches the image over the design plane.
+ */
+function resampleToGrid(field: HeightField, size: number, invert: boolean): Float32Array {
+  const { heights, width, height } = field
+  const out = new Float32Array(size * size)
+  const sx = (width - 1) / (size - 1)
+  const sy = (height - 1) / (size - 1)
+  for (let gy = 0; gy < size; gy++) {
+    const fy = gy * sy
+    const y0 = Math.floor(fy)
+    const y1 = Math.min(height - 1, y0 + 1)
+    const ty = fy - y0
+    for (let gx = 0; gx < size; gx++) {
+      const fx = gx * sx
+      const x0 = Math.floor(fx)
+      const x1 = Math.min(width - 1, x0 + 1)
+      const tx = fx - x0
+      const top = heights[y0 * width + x0] * (1 - tx) + heights[y0 * width + x1] * tx
+      const bottom = heights[y1 * width + x0] * (1 - tx) + heights[y1 * width + x1] * tx
+      const v = Math.min(1, Math.max(0, top * (1 - ty) + bottom * ty))
+      out[gy * size + gx] = invert ? 1 - v : v
+    }
+  }
+  return out
+}
+
+/**
+ * Compute the RTIN error of every grid vertex: the largest interpolation
+ * error introduced by omitting it or any of its descendants.
+ */
+function computeErrors(terrain: Float32Array, size: number): Float32Array {
+  const tile = size - 1
+  const numTriangles = tile * tile * 2 - 2
+  const numParents = numTriangles - tile * tile
+  const errors = new Float32Array(size * size)
+  for (let i = numTriangles - 1; i >= 0; i--) {
+    let id = i + 2
+    let ax = 0, ay = 0, bx = 0, by = 0, cx = 0, cy = 0
+    if (id & 1) {
+      bx = by = cx = tile
+    } else {
+      ax = ay = cy = tile
+    }
+    while ((id >>= 1) > 1) {
+      const mx = (ax + bx) >> 1
+      const my = (ay + by) >> 1
+      if (id & 1) {
+        bx = ax; by = ay
+        ax = cx; ay = cy
+      } else {
+        ax = bx; ay = by
+        bx = cx; by = cy
+      }
+      cx = mx; cy = my
+    }
+    const mx = (ax + bx) >> 1
+    const my = (ay + by) >> 1
+    const middle = my * size + mx
+    const interpolated = (terrain[ay * size + ax] + terrain[by * size + bx]) / 2
+    let err = Math.max(errors[middle], Math.abs(interpolated - terrain[middle]))
+    if (i < numParents) {
+      const left = ((ay + cy) >> 1) * size + ((ax + cx) >> 1)
+      const right = ((by + cy) >> 1) * size + ((bx + cx) >> 1)
+      err = Math.max(err, errors[left], errors[right])
+    }
+    errors[middle] = err
+  }
+  return errors
+}
+
+/**
+ * Build a watertight relief: adaptive top surface, side walls and a flat
+ * base plate.  Coordinates are millimetres, centred on X/Y (before any
+ * placement), with the base at z = 0 and the relief rising towards +Z.
+ */
+export function buildReliefMesh(field: HeightField, opts: ReliefMeshOptions): Mesh {
+  const { widthMm, heightMm, depthMm } = opts
+  const baseMm = opts.baseMm ?? 1.0
+  const maxErrorMm = opts.maxErrorMm ?? 0.05
+  const cellMm = opts.cellMm ?? 0.25
+  if (!(widthMm > 0) || !(heightMm > 0)) throw new Error('Relief size must be positive')
+  if (field.width < 2 || field.height < 2) throw new Error('Heightfield is too small')
+
+  const wanted = Math.ceil(Math.max(widthMm, heightMm) / cellMm)
+  const cells = Math.min(MAX_CELLS, Math.max(MIN_CELLS, nextPow2(Math.min(wanted, Math.max(field.width, field.height)))))
+  const size = cells + 1
+  const terrain = resampleToGrid(field, size, !!opts.invert)
+  const errors = computeErrors(terrain, size)
+  const maxError = depthMm > 0 ? maxErrorMm / depthMm : Infinity
+  const wrap = opts.wrap
+  const curved = !!wrap && isCurved(wrap)
+  const maxSpan = curved ? maxChordSpan(wrap, maxErrorMm) : Infinity
+  const cellW = widthMm / cells
+  const cellH = heightMm / cells
+
+  const vertexIndex = new Int32Array(size * size).fill(-1)
+  const positions: number[] = []
+  const indices: number[] = []
+  const toX = (gx: number) => (gx / cells - 0.5) * widthMm
+  const toY = (gy: number) => (0.5 - gy / cells) * heightMm
+  const topVertex = (gx: number, gy: number) => {
+    const k = gy * size + gx
+    if (vertexIndex[k] < 0) {
+      vertexIndex[k] = positions.length / 3
+      positions.push(toX(gx), toY(gy), baseMm + terrain[k] * depthMm)
+    }
+    return vertexIndex[k]
+  }
+  const emit = (ax: number, ay: number, bx: number, by: number, cx: number, cy: number) => {
+    const a = topVertex(ax, ay)
+    const b = topVertex(bx, by)
+    const c = topVertex(cx, cy)
+    // Grid Y runs downwards while world Y runs upwards, so fix the winding
+    // here to keep every top face pointing along +Z.
+    const area = (toX(bx) - toX(ax)) * (toY(cy) - toY(ay)) - (toY(by) - toY(ay)) * (toX(cx) - toX(ax))
+    if (area >= 0) indices.push(a, b, c)
+    else indices.push(a, c, b)
+  }
+  const refine = (ax: number, ay: number, bx: number, by: number, cx: number, cy: number) => {
+    const mx = (ax + bx) >> 1
+    const my = (ay + by) >> 1
+    const tooLong = Math.hypot((ax - bx) * cellW, (ay - by) * cellH) > maxSpan
+    if (Math.abs(ax - cx) + Math.abs(ay - cy) > 1 && (errors[my * size + mx] > maxError || tooLong)) {
+      refine(cx, cy, ax, ay, mx, my)
+      refine(bx, by, cx, cy, mx, my)
+    } else {
+      emit(ax, ay, bx, by, cx, cy)
+    }
+  }
+  refine(0, 0, cells, cells, cells, 0)
+  refine(cells, cells, 0, 0, 0, cells)
+
+  // Walk the used border vertices clockwise (seen from +Z).  The RTIN is
+  // conforming, so consecutive used border vertices are exactly the
+  // boundary edges of the top surface.
+  const loop: number[] = []
+  const visit = (gx: number, gy: number) => {
+    const v = vertexIndex[gy * size + gx]
+    if (v >= 0 && loop[loop.length - 1] !== v) loop.push(v)
+  }
+  for (let x = 0; x <= cells; x++) visit(x, 0)
+  for (let y = 0; y <= cells; y++) visit(cells, y)
+  for (let x = cells; x >= 0; x--) visit(x, cells)
+  for (let y = cells; y >= 0; y--) visit(0, y)
+  if (loop[0] === loop[loop.length - 1]) loop.pop()
+
+  const topCount = positions.length / 3
+  const flatBottom = (v: number) => {
+    const i = positions.length / 3
+    positions.push(positions[v * 3], positions[v * 3 + 1], 0)
+    return i
+  }
+  let bottom: number[]
+  if (curved) {
+    // A single fan would cut straight through the arc, so the base mirrors
+    // the (chord-limited) top triangulation instead.
+    const mirror = new Int32Array(topCount)
+    for (let v = 0; v < topCount; v++) mirror[v] = flatBottom(v)
+    const topIndexCount = indices.length
+    for (let t = 0; t < topIndexCount; t += 3) {
+      indices.push(mirror[indices[t]], mirror[indices[t + 2]], mirror[indices[t + 1]])
+    }
+    bottom = loop.map((v) => mirror[v])
+  } else {
+    bottom = loop.map(flatBottom)
+    const center = positions.length / 3
+    positions.push(0, 0, 0)
+    for (let i = 0; i < loop.length; i++) {
+      indices.push(center, bottom[i], bottom[(i + 1) % loop.length])
+    }
+  }
+
+  for (let i = 0; i < loop.length; i++) {
+    const j = (i + 1) % loop.length
+    indices.push(loop[i], loop[j], bottom[j], loop[i], bottom[j], bottom[i])
+  }
+
+  const out = Float32Array.from(positions)
+  const tris = Uint32Array.from(indices)
+  if (opts.placement) placeDesign(out, tris, opts.placement)
+  if (curved) wrapPositions(wrap, out)
+  return { positions: out, indices: tris }
+}
+
+/**
+ * Index a triangle soup (three vertices per triangle, as in STL), merging
+ * vertices with identical coordinates so shared edges become shared.
+ */
+export function indexTriangles(soup: Float32Array): Mesh {
+  const seen = new Map<string, number>()
+  const positions: number[] = []
+  const indices = new Uint32Array(soup.length / 3)
+  for (let v = 0; v < indices.length; v++) {
+    const x = soup[v * 3]
+    const y = soup[v * 3 + 1]
+    const z = soup[v * 3 + 2]
+    const key = `${x},${y},${z}`
+    let i = seen.get(key)
+    if (i === undefined) {
+      i = positions.length / 3
+      seen.set(key, i)
+      positions.push(x, y, z)
+    }
+    indices[v] = i
+  }
+  return { positions: Float32Array.from(positions), indices }
+}
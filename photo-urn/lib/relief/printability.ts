@@ -0,0 +1,283 @@
+// Printability checks for a relief on its urn.  They run on the finished
+// heightfield (photo, mask and text) at the production size and depth, plus
+// the urn model behind the chosen face, so the preview can warn while the
+// customer edits and finalize can refuse designs that will not print.  Pure
+// TypeScript, shared by the browser and the server.
+
+import type { FaceCode, UrnTarget } from '@/lib/urns/catalog'
+import { faceAxes } from '@/lib/urns/inspect'
+import type { HeightField } from './mesh'
+
+/** Smallest feature the printer resolves. */
+export const NOZZLE_MM = 0.4
+/** Wall that must remain behind an inverted (carved) relief. */
+export const MIN_WALL_MM = 1.2
+/** Slopes steeper than this print as stair-stepped cliffs. */
+export const MAX_SLOPE_DEG = 75
+
+/** Height a feature must lose to the nozzle before it counts as lost. */
+const LOST_DETAIL_MM = 0.1
+/** Share of the design that may be affected before we warn. */
+const AREA_LIMIT = 0.05
+
+export type PrintIssueCode = 'too_deep' | 'cuts_wall' | 'overhangs_face' | 'fine_detail' | 'steep_slope'
+
+export type PrintIssue = {
+  code: PrintIssueCode
+  /** Errors block finalize; warnings are advice. */
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export type PrintReport = {
+  /** True when there are no errors. */
+  ok: boolean
+  issues: PrintIssue[]
+}
+
+/** Urn geometry at the relief face, in millimetres. */
+export type UrnFace = {
+  widthMm: number
+  heightMm: number
+  /** Wall thickness behind the face, or null if no inner surface was found. */
+  wallMm: number | null
+}
+
+/** Distances along a ray to every triangle it crosses (Möller–Trumbore). */
+function rayHits(positions: Float32Array, origin: number[], dir: number[]): number[] {
+  const hits: number[] = []
+  for (let i = 0; i < positions.length; i += 9) {
+    const e1x = positions[i + 3] - positions[i]
+    const e1y = positions[i + 4] - positions[i + 1]
+    const e1z = positions[i + 5] - positions[i + 2]
+    const e2x = positions[i + 6] - positions[i]
+    const e2y = positions[i + 7] - positions[i + 1]
+    const e2z = positions[i + 8] - positions[i + 2]
+    const px = dir[1] * e2z - dir[2] * e2y
+    const py = dir[2] * e2x - dir[0] * e2z
+    const pz = dir[0] * e2y - dir[1] * e2x
+    const det = e1x * px + e1y * py + e1z * pz
+    if (Math.abs(det) < 1e-12) continue
+    const inv = 1 / det
+    const tx = origin[0] - positions[i]
+    const ty = origin[1] - positions[i + 1]
+    const tz = origin[2] - positions[i + 2]
+    const u = (tx * px + ty * py + tz * pz) * inv
+    if (u < 0 || u > 1) continue
+    const qx = ty * e1z - tz * e1y
+    const qy = tz * e1x - tx * e1z
+    const qz = tx * e1y - ty * e1x
+    const v = (dir[0] * qx + dir[1] * qy + dir[2] * qz) * inv
+    if (v < 0 || u + v > 1) continue
+    const t = (e2x * qx + e2y * qy + e2z * qz) * inv
+    if (t > 0) hits.push(t)
+  }
+  return hits.sort((a, b) => a - b)
+}
+
+/**
+ * Measure the face of an urn model (STL triangle soup): its extent and the
+ * wall thickness behind it, taken as the thinnest of a few rays shot
+ * inwards through the face.  Models whose largest side is ≤ 3 units are
+ * taken to be in metres, as in the preview.
+ */
+export function measureFace(positions: Float32Array, face: FaceCode): UrnFace {
+  const min = [Infinity, Infinity, Infinity]
+  const max = [-Infinity, -Infinity, -Infinity]
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let k = 0; k < 3; k++) {
+      min[k] = Math.min(min[k], positions[i + k])
+      max[k] = Math.max(max[k], positions[i + k])
+    }
+  }
+  const size = [0, 1, 2].map((k) => max[k] - min[k])
+  const toMm = Math.max(...size) > 3 ? 1 : 1000
+  const { u, v, n } = faceAxes(face)
+  const outward = face[0] === '-' ? -1 : 1
+  const dir = [0, 0, 0]
+  dir[n] = -outward
+  let wall: number | null = null
+  for (const [fu, fv] of [[0, 0], [-0.25, 0], [0.25, 0], [0, -0.25], [0, 0.25]]) {
+    const origin = [0, 0, 0]
+    origin[u] = (min[u] + max[u]) / 2 + fu * size[u]
+    origin[v] = (min[v] + max[v]) / 2 + fv * size[v]
+    origin[n] = (outward > 0 ? max[n] : min[n]) + outward * (size[n] * 0.01 + 1e-6)
+    // Rays through a shared edge hit both triangles; merge those.
+    const hits = rayHits(positions, origin, dir).filter((t, i, all) => i === 0 || t - all[i - 1] > 1e-6)
+    if (hits.length >= 2) {
+      const t = (hits[1] - hits[0]) * toMm
+      wall = wall === null ? t : Math.min(wall, t)
+    }
+  }
+  return { widthMm: size[u] * toMm, heightMm: size[v] * toMm, wallMm: wall }
+}
+
+/** Separable min or max filter with a (2rx+1)×(2ry+1) window. */
+function rankFilter(src: Float32Array, w: number, h: number, rx: number, ry: number, pick: typeof Math.min) {
+  const tmp = new Float32Array(src.length)
+  const out = new Float32Array(src.length)
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let acc = src[y * w + x]
+      for (let k = Math.max(0, x - rx); k <= Math.min(w - 1, x + rx); k++) acc = pick(acc, src[y * w + k])
+      tmp[y * w + x] = acc
+    }
+  }
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let acc = tmp[y * w + x]
+      for (let k = Math.max(0, y - ry); k <= Math.min(h - 1, y + ry); k++) acc = pick(acc, tmp[k * w + x])
+      out[y * w + x] = acc
+    }
+  }
+  return out
+}
+
+/** Placement of the design on the urn, in production millimetres. */
+export type PlacementInput = {
+  /** Production size of the design (target times scale). */
+  widthMm: number
+  heightMm: number
+  /** Requested relief depth, before any clamping. */
+  depthMm: number
+  invert: boolean
+  target: UrnTarget
+  /** Offsets and rotation as in `PreviewParams`. */
+  offsetX: number
+  offsetY: number
+  rotation: number
+  /** Urn geometry; the face and wall checks are skipped without it. */
+  face?: UrnFace | null
+}
+
+/** Depth, wall and edge checks.  Cheap, so the preview reruns them on every edit. */
+export function checkPlacement(input: PlacementInput): PrintIssue[] {
+  const { widthMm, heightMm, depthMm, target, face } = input
+  const issues: PrintIssue[] = []
+
+  if (depthMm > target.depth_mm_max) {
+    issues.push({
+      code: 'too_deep',
+      severity: 'error',
+      message: `Relief depth ${depthMm} mm is beyond this urn's ${target.depth_mm_max} mm limit.`,
+    })
+  }
+
+  if (input.invert && face?.wallMm != null && depthMm > face.wallMm - MIN_WALL_MM) {
+    issues.push({
+      code: 'cuts_wall',
+      severity: 'error',
+      message: `An inverted relief ${depthMm} mm deep would leave less than ${MIN_WALL_MM} mm of the ${face.wallMm.toFixed(1)} mm wall.`,
+    })
+  }
+
+  // Bounding box of the rotated, offset design on the face plane.
+  const a = (input.rotation * Math.PI) / 180
+  const ex = Math.abs((widthMm / 2) * Math.cos(a)) + Math.abs((heightMm / 2) * Math.sin(a))
+  const ey = Math.abs((widthMm / 2) * Math.sin(a)) + Math.abs((heightMm / 2) * Math.cos(a))
+  const reachX = Math.abs(input.offsetX) + ex
+  const reachY = Math.abs(input.offsetY) + ey
+  const areaX = target.width_mm / 2
+  const areaY = target.height_mm / 2
+  let overFace = 0
+  if (face) {
+    // Curved faces wrap the design, so it may reach a quarter turn each way.
+    // The catalog's design area counts as printable even where it is larger
+    // than the model's face, so only placement edits can trip this.
+    const arc = target.surface !== 'flat' && target.radius_mm ? (target.radius_mm * Math.PI) / 2 : 0
+    const limitX = Math.max(areaX, arc || face.widthMm / 2)
+    const limitY = Math.max(areaY, target.surface === 'convex' && arc ? arc : face.heightMm / 2)
+    overFace = Math.max(reachX - limitX, reachY - limitY)
+  }
+  const overArea = Math.max(reachX - areaX, reachY - areaY)
+  if (overFace > 0.05) {
+    issues.push({
+      code: 'overhangs_face',
+      severity: 'error',
+      message: `The relief runs ${overFace.toFixed(1)} mm past the edge of the urn face.`,
+    })
+  } else if (overArea > 0.05) {
+    issues.push({
+      code: 'overhangs_face',
+      severity: 'warning',
+      message: `The relief extends ${overArea.toFixed(1)} mm outside the urn's design area.`,
+    })
+  }
+  return issues
+}
+
+/** The finished heightfield at its production size and depth. */
+export type ReliefInput = {
+  field: HeightField
+  widthMm: number
+  heightMm: number
+  depthMm: number
+  invert: boolean
+}
+
+const pct = (f: number) => `${Math.max(1, Math.round(f * 100))}%`
+
+/** Feature size and slope checks over the whole heightfield. */
+export function checkRelief(input: ReliefInput): PrintIssue[] {
+  const { field, widthMm, heightMm, depthMm } = input
+  const issues: PrintIssue[] = []
+  const { width: w, height: h } = field
+  const heights = input.invert ? field.heights.map((v) => 1 - v) : field.heights
+  const pxX = widthMm / w
+  const pxY = heightMm / h
+
+  // A morphological opening at nozzle size removes every peak the nozzle
+  // cannot trace; what it removes is detail that will not print.
+  const rx = Math.round(NOZZLE_MM / 2 / pxX)
+  const ry = Math.round(NOZZLE_MM / 2 / pxY)
+  if (rx > 0 || ry > 0) {
+    const opened = rankFilter(rankFilter(heights, w, h, rx, ry, Math.min), w, h, rx, ry, Math.max)
+    let lost = 0
+    for (let i = 0; i < heights.length; i++) {
+      if ((heights[i] - opened[i]) * depthMm > LOST_DETAIL_MM) lost++
+    }
+    if (lost / heights.length > AREA_LIMIT) {
+      issues.push({
+        code: 'fine_detail',
+        severity: 'warning',
+        message: `About ${pct(lost / heights.length)} of the relief has detail finer than the ${NOZZLE_MM} mm nozzle and will print soft. Lower the sharpening or raise the scale.`,
+      })
+    }
+  }
+
+  // Slopes are measured across one nozzle width, so the result does not
+  // depend on the photo's resolution.
+  const kx = Math.max(1, Math.round(NOZZLE_MM / pxX))
+  const ky = Math.max(1, Math.round(NOZZLE_MM / pxY))
+  const maxGrad = Math.tan((MAX_SLOPE_DEG * Math.PI) / 180)
+  let steep = 0
+  for (let y = 0; y < h; y++) {
+    const y0 = Math.max(0, y - ky)
+    const y1 = Math.min(h - 1, y + ky)
+    for (let x = 0; x < w; x++) {
+      const x0 = Math.max(0, x - kx)
+      const x1 = Math.min(w - 1, x + kx)
+      const gx = x1 > x0 ? ((heights[y * w + x1] - heights[y * w + x0]) * depthMm) / ((x1 - x0) * pxX) : 0
+      const gy = y1 > y0 ? ((heights[y1 * w + x] - heights[y0 * w + x]) * depthMm) / ((y1 - y0) * pxY) : 0
+      if (Math.hypot(gx, gy) > maxGrad) steep++
+    }
+  }
+  if (steep / heights.length > AREA_LIMIT) {
+    issues.push({
+      code: 'steep_slope',
+      severity: 'warning',
+      message: `About ${pct(steep / heights.length)} of the surface is steeper than ${MAX_SLOPE_DEG}°. Reduce the depth or contrast for a smoother print.`,
+    })
+  }
+  return issues
+}
+
+/** Errors first, so the most important issue leads the list. */
+export function printReport(issues: PrintIssue[]): PrintReport {
+  const sorted = [...issues].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))
+  return { ok: !sorted.some((i) => i.severity === 'error'), issues: sorted }
+}
+
+export function checkPrintability(input: PlacementInput & { field: HeightField }): PrintReport {
+  return printReport([...checkPlacement(input), ...checkRelief(input)])
+}
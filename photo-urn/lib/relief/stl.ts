@@ -0,0 +1,46 @@
+import type { Mesh } from './mesh'
+
+/**
+ * Serialize an indexed triangle mesh as binary STL.  Facet normals are
+ * computed from the winding, so callers only need consistent orientation.
+ * Uses DataView only, so it runs in the browser as well as in Node.
+ */
+export function meshToBinarySTL(mesh: Mesh, header = 'photo-urn relief'): Uint8Array {
+  const { positions, indices } = mesh
+  const count = Math.floor(indices.length / 3)
+  const buffer = new ArrayBuffer(84 + count * 50)
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+  for (let i = 0; i < Math.min(80, header.length); i++) bytes[i] = header.charCodeAt(i) & 0x7f
+  view.setUint32(80, count, true)
+  let off = 84
+  for (let t = 0; t < count; t++) {
+    const a = indices[t * 3] * 3
+    const b = indices[t * 3 + 1] * 3
+    const c = indices[t * 3 + 2] * 3
+    const ux = positions[b] - positions[a]
+    const uy = positions[b + 1] - positions[a + 1]
+    const uz = positions[b + 2] - positions[a + 2]
+    const vx = positions[c] - positions[a]
+    const vy = positions[c + 1] - positions[a + 1]
+    const vz = positions[c + 2] - positions[a + 2]
+    let nx = uy * vz - uz * vy
+    let ny = uz * vx - ux * vz
+    let nz = ux * vy - uy * vx
+    const len = Math.hypot(nx, ny, nz) || 1
+    nx /= len; ny /= len; nz /= len
+    view.setFloat32(off, nx, true)
+    view.setFloat32(off + 4, ny, true)
+    view.setFloat32(off + 8, nz, true)
+    off += 12
+    for (const v of [a, b, c]) {
+      view.setFloat32(off, positions[v], true)
+      view.setFloat32(off + 4, positions[v + 1], true)
+      view.setFloat32(off + 8, positions[v + 2], true)
+      off += 12
+    }
+    view.setUint16(off, 0, true)
+    off += 2
+  }
+  return bytes
+}
@@ -0,0 +1,257 @@
+// Engraved text for the heightmap pipeline.  Each block is one line of text
+// laid out in millimetres on the design area (the urn target times the user
+// scale), so its physical size does not depend on the photo's resolution.
+// A block sits on a flat panel that replaces the photo underneath it:
+// raised letters stand up from the base plate, engraved letters are cut
+// down into a plaque.  Like the rest of the pipeline this runs unchanged
+// in the browser and on the server.
+
+import type { Font, PathCommand } from 'opentype.js'
+import type { FontId, FontSet } from '@/lib/text/fonts'
+
+export const TEXT_ALIGNS = ['left', 'center', 'right'] as const
+export const TEXT_STYLES = ['raised', 'engraved'] as const
+
+export type TextAlign = (typeof TEXT_ALIGNS)[number]
+export type TextStyle = (typeof TEXT_STYLES)[number]
+
+export type TextBlock = {
+  text: string
+  font: FontId
+  /** Font size (em height) in millimetres. */
+  sizeMm: number
+  align: TextAlign
+  style: TextStyle
+  /** Height of raised letters, or depth of engraved ones. */
+  depthMm: number
+  /** Vertical centre of the line as a fraction of the design height, 0 at the top. */
+  y: number
+}
+
+export const MAX_TEXT_BLOCKS = 6
+export const MAX_TEXT_LENGTH = 80
+
+/** Clear space kept between a text panel and the edge of the design. */
+export const TEXT_MARGIN_MM = 2
+
+/** Panel padding around the line box, as a fraction of the font size. */
+const PANEL_PAD = 0.2
+
+/** Vertical samples per pixel row; horizontal coverage is exact. */
+const SUBSAMPLES = 4
+
+/** A laid-out block, in millimetres from the top-left of the design. */
+export type TextLayout = {
+  /** Pen position of the first glyph. */
+  x: number
+  baseline: number
+  /** Advance width of the whole line. */
+  width: number
+  /** Flat panel behind the letters. */
+  panel: { left: number; top: number; right: number; bottom: number }
+}
+
+export function layoutTextBlock(font: Font, block: TextBlock, widthMm: number, heightMm: number): TextLayout {
+  const size = block.sizeMm
+  const width = font.getAdvanceWidth(block.text, size, { kerning: true })
+  const ascent = (font.ascender / font.unitsPerEm) * size
+  const descent = (-font.descender / font.unitsPerEm) * size
+  const pad = PANEL_PAD * size
+  let x: number
+  if (block.align === 'left') x = TEXT_MARGIN_MM + pad
+  else if (block.align === 'right') x = widthMm - TEXT_MARGIN_MM - pad - width
+  else x = (widthMm - width) / 2
+  const top = block.y * heightMm - (ascent + descent) / 2
+  return {
+    x,
+    baseline: top + ascent,
+    width,
+    panel: { left: x - pad, top: top - pad, right: x + width + pad, bottom: top + ascent + descent + pad },
+  }
+}
+
+/** Flatten glyph outlines into closed polygons (flat x, y pairs). */
+function flattenPath(commands: PathCommand[], toX: (x: number) => number, toY: (y: number) => number): number[][] {
+  const contours: number[][] = []
+  let cur: number[] = []
+  let px = 0
+  let py = 0
+  const close = () => {
+    if (cur.length >= 6) contours.push(cur)
+    cur = []
+  }
+  const curve = (pts: number[], steps: number) => {
+    // pts holds the control points after the current point, in design mm.
+    const n = pts.length / 2
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps
+      const u = 1 - t
+      let x: number
+      let y: number
+      if (n === 2) {
+        x = u * u * px + 2 * u * t * pts[0] + t * t * pts[2]
+        y = u * u * py + 2 * u * t * pts[1] + t * t * pts[3]
+      } else {
+        x = u * u * u * px + 3 * u * u * t * pts[0] + 3 * u * t * t * pts[2] + t * t * t * pts[4]
+        y = u * u * u * py + 3 * u * u * t * pts[1] + 3 * u * t * t * pts[3] + t * t * t * pts[5]
+      }
+      cur.push(toX(x), toY(y))
+    }
+  }
+  const stepsFor = (pts: number[]) => {
+    let len = 0
+    let lx = toX(px)
+    let ly = toY(py)
+    for (let i = 0; i < pts.length; i += 2) {
+      const x = toX(pts[i])
+      const y = toY(pts[i + 1])
+      len += Math.hypot(x - lx, y - ly)
+      lx = x
+      ly = y
+    }
+    return Math.min(24, Math.max(2, Math.ceil(len / 1.5)))
+  }
+  for (const c of commands) {
+    switch (c.type) {
+      case 'M':
+        close()
+        cur.push(toX(c.x), toY(c.y))
+        px = c.x
+        py = c.y
+        break
+      case 'L':
+        cur.push(toX(c.x), toY(c.y))
+        px = c.x
+        py = c.y
+        break
+      case 'Q': {
+        const pts = [c.x1, c.y1, c.x, c.y]
+        curve(pts, stepsFor(pts))
+        px = c.x
+        py = c.y
+        break
+      }
+      case 'C': {
+        const pts = [c.x1, c.y1, c.x2, c.y2, c.x, c.y]
+        curve(pts, stepsFor(pts))
+        px = c.x
+        py = c.y
+        break
+      }
+      case 'Z':
+        close()
+        break
+    }
+  }
+  close()
+  return contours
+}
+
+/**
+ * Anti-aliased coverage (0..1) of polygons on a w×h grid, nonzero winding
+ * as used by TrueType and CFF outlines.
+ */
+function fillCoverage(contours: number[][], w: number, h: number): Float32Array {
+  const cov = new Float32Array(w * h)
+  const edges: number[] = []
+  for (const c of contours) {
+    for (let i = 0; i < c.length; i += 2) {
+      const j = (i + 2) % c.length
+      if (c[i + 1] !== c[j + 1]) edges.push(c[i], c[i + 1], c[j], c[j + 1])
+    }
+  }
+  const xs: number[] = []
+  const dirs: number[] = []
+  const order: number[] = []
+  const weight = 1 / SUBSAMPLES
+  const addSpan = (row: number, a: number, b: number) => {
+    a = Math.max(0, a)
+    b = Math.min(w, b)
+    if (b <= a) return
+    const first = Math.floor(a)
+    const last = Math.min(w - 1, Math.floor(b))
+    if (first === last) {
+      cov[row + first] += (b - a) * weight
+      return
+    }
+    cov[row + first] += (first + 1 - a) * weight
+    for (let x = first + 1; x < last; x++) cov[row + x] += weight
+    cov[row + last] += (b - last) * weight
+  }
+  for (let y = 0; y < h; y++) {
+    for (let s = 0; s < SUBSAMPLES; s++) {
+      const sy = y + (s + 0.5) / SUBSAMPLES
+      xs.length = 0
+      dirs.length = 0
+      for (let e = 0; e < edges.length; e += 4) {
+        const y0 = edges[e + 1]
+        const y1 = edges[e + 3]
+        if ((sy >= y0 && sy < y1) || (sy >= y1 && sy < y0)) {
+          xs.push(edges[e] + ((sy - y0) / (y1 - y0)) * (edges[e + 2] - edges[e]))
+          dirs.push(y1 > y0 ? 1 : -1)
+        }
+      }
+      if (!xs.length) continue
+      order.length = 0
+      for (let i = 0; i < xs.length; i++) order.push(i)
+      order.sort((a, b) => xs[a] - xs[b])
+      let wind = 0
+      let start = 0
+      for (const i of order) {
+        const before = wind
+        wind += dirs[i]
+        if (before === 0 && wind !== 0) start = xs[i]
+        else if (before !== 0 && wind === 0) addSpan(y * w, start, xs[i])
+      }
+    }
+  }
+  for (let i = 0; i < cov.length; i++) cov[i] = Math.min(1, cov[i])
+  return cov
+}
+
+export type TextRender = {
+  blocks: TextBlock[]
+  fonts: FontSet
+  /** Physical size of the design area the heightmap is stretched over. */
+  widthMm: number
+  heightMm: number
+  /** Full relief depth; heights are normalized against it. */
+  depthMm: number
+}
+
+/**
+ * Draw text blocks into normalized heights in place.  Blocks whose font
+ * has not loaded are skipped, so the browser preview can fill them in
+ * once the font arrives.
+ */
+export function applyText(heights: Float32Array, w: number, h: number, r: TextRender): void {
+  if (!(r.widthMm > 0 && r.heightMm > 0 && r.depthMm > 0)) return
+  const sx = w / r.widthMm
+  const sy = h / r.heightMm
+  for (const block of r.blocks) {
+    const font = r.fonts[block.font]
+    if (!font || !block.text.trim()) continue
+    const layout = layoutTextBlock(font, block, r.widthMm, r.heightMm)
+    const x0 = Math.max(0, Math.floor(layout.panel.left * sx))
+    const y0 = Math.max(0, Math.floor(layout.panel.top * sy))
+    const x1 = Math.min(w, Math.ceil(layout.panel.right * sx))
+    const y1 = Math.min(h, Math.ceil(layout.panel.bottom * sy))
+    if (x1 <= x0 || y1 <= y0) continue
+    const pw = x1 - x0
+    const ph = y1 - y0
+    const path = font.getPath(block.text, layout.x, layout.baseline, block.sizeMm, { kerning: true })
+    const contours = flattenPath(
+      path.commands,
+      (x) => x * sx - x0,
+      (y) => y * sy - y0
+    )
+    const cov = fillCoverage(contours, pw, ph)
+    const t = Math.min(1, Math.max(0, block.depthMm / r.depthMm))
+    for (let y = 0; y < ph; y++) {
+      for (let x = 0; x < pw; x++) {
+        const c = cov[y * pw + x]
+        heights[(y + y0) * w + x + x0] = block.style === 'raised' ? c * t : t * (1 - c)
+      }
+    }
+  }
+}
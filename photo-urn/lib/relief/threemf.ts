@@ -0,0 +1,67 @@
+import { strToU8, zipSync } from 'fflate'
+import type { Mesh } from './mesh'
+
+export type ThreeMFObject = {
+  name: string
+  /** Indexed mesh in millimetres; see `indexTriangles` for STL soups. */
+  mesh: Mesh
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`
+
+const RELS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>
+`
+
+const escapeXml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/** Trim float noise; 3MF coordinates are plain decimals. */
+const num = (v: number) => String(Math.round(v * 1e4) / 1e4)
+
+/**
+ * Package meshes as a 3MF file (millimetres), one object and build item
+ * per mesh, so a slicer opens them as separate parts in place.
+ */
+export function meshesTo3MF(objects: ThreeMFObject[]): Uint8Array {
+  const parts: string[] = []
+  parts.push(
+    '<?xml version="1.0" encoding="UTF-8"?>\n',
+    '<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">\n',
+    ' <metadata name="Application">photo-urn</metadata>\n',
+    ' <resources>\n'
+  )
+  objects.forEach((obj, i) => {
+    const { positions, indices } = obj.mesh
+    parts.push(`  <object id="${i + 1}" type="model" name="${escapeXml(obj.name)}">\n   <mesh>\n    <vertices>\n`)
+    for (let o = 0; o < positions.length; o += 3) {
+      parts.push(`     <vertex x="${num(positions[o])}" y="${num(positions[o + 1])}" z="${num(positions[o + 2])}"/>\n`)
+    }
+    parts.push('    </vertices>\n    <triangles>\n')
+    for (let t = 0; t < indices.length; t += 3) {
+      const a = indices[t]
+      const b = indices[t + 1]
+      const c = indices[t + 2]
+      // Welding collapses degenerate STL facets; 3MF forbids repeated vertices.
+      if (a === b || b === c || a === c) continue
+      parts.push(`     <triangle v1="${a}" v2="${b}" v3="${c}"/>\n`)
+    }
+    parts.push('    </triangles>\n   </mesh>\n  </object>\n')
+  })
+  parts.push(' </resources>\n <build>\n')
+  objects.forEach((_, i) => parts.push(`  <item objectid="${i + 1}"/>\n`))
+  parts.push(' </build>\n</model>\n')
+
+  return zipSync({
+    '[Content_Types].xml': strToU8(CONTENT_TYPES),
+    '_rels/.rels': strToU8(RELS),
+    '3D/3dmodel.model': strToU8(parts.join('')),
+  })
+}
@@ -0,0 +1,108 @@
+// Surface wrapping shared by the preview and the STL generator.  Designs are
+// authored on a flat plane (u across, v up, h outwards) that touches the urn
+// at its centre; wrapping bends that plane onto the catalog surface so that
+// h becomes an offset along the surface normal.
+//
+// - cylindrical: the axis runs along v, so the design curls around u.
+// - convex: a sphere; u/v are mapped by arc length (azimuthal equidistant).
+//
+// Units are whatever the caller uses, as long as radius matches.
+
+export type SurfaceKind = 'flat' | 'convex' | 'cylindrical'
+
+export type SurfaceSpec = {
+  surface: SurfaceKind
+  radius: number
+}
+
+/** Resolve the wrap for a catalog target; flat if no usable radius is set. */
+export function surfaceFromTarget(
+  target: { surface?: string; radius_mm?: number } | null | undefined,
+  unitsPerMm = 1,
+): SurfaceSpec {
+  const kind = target?.surface
+  const r = target?.radius_mm
+  if ((kind === 'cylindrical' || kind === 'convex') && typeof r === 'number' && r > 0) {
+    return { surface: kind, radius: r * unitsPerMm }
+  }
+  return { surface: 'flat', radius: Infinity }
+}
+
+export function isCurved(spec: SurfaceSpec): boolean {
+  return spec.surface !== 'flat' && isFinite(spec.radius)
+}
+
+/**
+ * Map a flat design point to the wrapped surface.  Writes the position to
+ * `pos[o..o+2]` and, if given, the unit surface normal to `nrm[o..o+2]`.
+ */
+export function wrapPoint(
+  spec: SurfaceSpec,
+  u: number,
+  v: number,
+  h: number,
+  pos: Float32Array | number[],
+  o = 0,
+  nrm?: Float32Array | number[],
+): void {
+  const R = spec.radius
+  if (spec.surface === 'cylindrical' && isFinite(R)) {
+    const t = u / R
+    const s = Math.sin(t)
+    const c = Math.cos(t)
+    pos[o] = (R + h) * s
+    pos[o + 1] = v
+    pos[o + 2] = (R + h) * c - R
+    if (nrm) {
+      nrm[o] = s
+      nrm[o + 1] = 0
+      nrm[o + 2] = c
+    }
+    return
+  }
+  if (spec.surface === 'convex' && isFinite(R)) {
+    const r = Math.hypot(u, v)
+    const phi = r / R
+    const k = r > 1e-12 ? Math.sin(phi) / r : 1 / R
+    const nx = u * k
+    const ny = v * k
+    const nz = Math.cos(phi)
+    pos[o] = (R + h) * nx
+    pos[o + 1] = (R + h) * ny
+    pos[o + 2] = (R + h) * nz - R
+    if (nrm) {
+      nrm[o] = nx
+      nrm[o + 1] = ny
+      nrm[o + 2] = nz
+    }
+    return
+  }
+  pos[o] = u
+  pos[o + 1] = v
+  pos[o + 2] = h
+  if (nrm) {
+    nrm[o] = 0
+    nrm[o + 1] = 0
+    nrm[o + 2] = 1
+  }
+}
+
+/**
+ * Wrap an xyz buffer in place, treating z as the offset along the normal.
+ */
+export function wrapPositions(spec: SurfaceSpec, positions: Float32Array, normals?: Float32Array): void {
+  if (!isCurved(spec)) return
+  for (let o = 0; o < positions.length; o += 3) {
+    wrapPoint(spec, positions[o], positions[o + 1], positions[o + 2], positions, o, normals)
+  }
+}
+
+/**
+ * Longest flat span whose chord stays within `tolerance` of the curved
+ * surface.  Used to keep decimated triangles from cutting through the arc.
+ */
+export function maxChordSpan(spec: SurfaceSpec, tolerance: number): number {
+  if (!isCurved(spec)) return Infinity
+  const R = spec.radius
+  return 2 * R * Math.acos(Math.max(-1, 1 - tolerance / R))
+}
@@ -0,0 +1,12 @@
+// Validation for comments left on a shared design (the design itself is
+// checked by `designSchemaFor` in ./submit).
+
+import { z } from 'zod'
+
+export const commentSchema = z
+  .object({
+    name: z.string({ required_error: 'Name is required' }).trim().min(1, 'Name is required').max(100, 'Name is too long'),
+    message: z.string().trim().max(2000, 'Comment is too long').default(''),
+    approved: z.boolean().default(false),
+  })
+  .refine((c) => c.approved || c.message.length > 0, { path: ['message'], message: 'Write a comment or approve' })
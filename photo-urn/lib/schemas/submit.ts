@@ -0,0 +1,516 @@
+// Shared validation for the /api/submit payload.  The route uses it to reject
+// bad orders with field-level errors, and the form runs the same schema
+// before posting so customers see problems next to the right input.  The
+// urn catalog can change at runtime, so the schemas are built per catalog.
+// Text is measured with the real fonts to check it fits on the urn; fonts
+// that are not loaded yet (in the browser) skip that check.
+
+import { z } from 'zod'
+import { COLLAGE_LAYOUTS, MAX_SLOTS, SLOT_COUNTS, collageSlots, type CollageLayout } from '@/lib/relief/collage'
+import { DEFAULT_LITHOPHANE, MIN_THICKNESS_RANGE_MM } from '@/lib/relief/lithophane'
+import { DEFAULT_MASK, MASK_SHAPES, MAX_STROKE_POINTS } from '@/lib/relief/mask'
+import {
+  MAX_TEXT_BLOCKS,
+  MAX_TEXT_LENGTH,
+  TEXT_ALIGNS,
+  TEXT_MARGIN_MM,
+  TEXT_STYLES,
+  layoutTextBlock,
+  type TextBlock,
+  type TextLayout,
+} from '@/lib/relief/text'
+import { PRICING_RULES, finishesFor } from '@/lib/pricing/rules'
+import { FONT_IDS, type FontSet } from '@/lib/text/fonts'
+import { FACE_CODES, findUrn, lithophaneOf, productOf, type UrnMap, type UrnTarget } from '@/lib/urns/catalog'
+import { base64ByteLength, base64ToBytes, readImageSize, sniffMime, type ImageMime } from '@/lib/images/sniff'
+
+/** Slider bounds; the form renders its inputs from these. */
+export const PARAM_BOUNDS = {
+  scale: { min: 0.5, max: 1.5, step: 0.01 },
+  offsetX: { min: -50, max: 50, step: 0.5 },
+  offsetY: { min: -50, max: 50, step: 0.5 },
+  rotation: { min: -45, max: 45, step: 0.5 },
+  clipLow: { min: 0, max: 0.2, step: 0.01 },
+  clipHigh: { min: 0.8, max: 1, step: 0.01 },
+  blurRadius: { min: 0, max: 6, step: 1 },
+  sharpen: { min: 0, max: 3, step: 0.1 },
+  gamma: { min: 0.4, max: 2, step: 0.05 },
+  contrast: { min: 0.5, max: 3, step: 0.1 },
+  maskFeather: { min: 0, max: 0.25, step: 0.01 },
+  maskRim: { min: 0, max: 1, step: 0.05 },
+  maskBrush: { min: 0.01, max: 0.2, step: 0.005 },
+  textSize: { min: 3, max: 30, step: 0.5 },
+  textDepth: { min: 0.2, max: 3, step: 0.1 },
+  textY: { min: 0, max: 1, step: 0.01 },
+  slotScale: { min: 0.5, max: 3, step: 0.01 },
+  slotRotation: { min: -180, max: 180, step: 1 },
+  thicknessMin: { min: 0.4, max: 3, step: 0.1 },
+  thicknessMax: { min: 1, max: 8, step: 0.1 },
+} as const
+
+export const IMAGE_MIMES: readonly ImageMime[] = ['image/png', 'image/jpeg']
+export const MAX_IMAGE_BYTES = 15 * 1024 * 1024
+export const MIN_IMAGE_SIDE = 200
+export const MAX_IMAGE_SIDE = 12000
+
+// Enough bytes to reach a JPEG SOF marker behind a full EXIF block.
+const HEADER_BYTES = 256 * 1024
+
+function bounded(key: keyof typeof PARAM_BOUNDS) {
+  const { min, max } = PARAM_BOUNDS[key]
+  return z
+    .number({ invalid_type_error: 'Must be a number', required_error: 'Required' })
+    .finite()
+    .min(min, `Must be at least ${min}`)
+    .max(max, `Must be at most ${max}`)
+}
+
+export const MAX_MASK_STROKES = 200
+export const MAX_MASK_POINTS = 20_000
+
+const unitCoord = z.number().finite().min(0).max(1)
+
+const maskStrokesSchema = z
+  .array(
+    z.object({
+      radius: bounded('maskBrush'),
+      points: z.array(z.tuple([unitCoord, unitCoord])).min(1).max(MAX_STROKE_POINTS),
+    }).strict()
+  )
+  .max(MAX_MASK_STROKES, `At most ${MAX_MASK_STROKES} brush strokes`)
+  .refine(
+    (strokes) => strokes.reduce((n, s) => n + s.points.length, 0) <= MAX_MASK_POINTS,
+    'Freehand mask is too detailed'
+  )
+
+const textBlockSchema = z
+  .object({
+    text: z
+      .string({ required_error: 'Required' })
+      .trim()
+      .min(1, 'Enter some text or remove the line')
+      .max(MAX_TEXT_LENGTH, `At most ${MAX_TEXT_LENGTH} characters`),
+    font: z.enum(FONT_IDS),
+    sizeMm: bounded('textSize'),
+    align: z.enum(TEXT_ALIGNS),
+    style: z.enum(TEXT_STYLES),
+    depthMm: bounded('textDepth'),
+    y: bounded('textY'),
+  })
+  .strict()
+
+const collageSlotSchema = z
+  .object({
+    scale: bounded('slotScale'),
+    offsetX: bounded('offsetX'),
+    offsetY: bounded('offsetY'),
+    rotation: bounded('slotRotation'),
+    maskShape: z.enum(MASK_SHAPES),
+    maskFeather: bounded('maskFeather'),
+    maskRim: bounded('maskRim'),
+    maskStrokes: maskStrokesSchema,
+  })
+  .strict()
+
+export const previewParamsSchema = z
+  .object({
+    scale: bounded('scale'),
+    offsetX: bounded('offsetX'),
+    offsetY: bounded('offsetY'),
+    rotation: bounded('rotation'),
+    depth: z.number({ invalid_type_error: 'Must be a number', required_error: 'Required' }).finite(),
+    invert: z.boolean(),
+    clipLow: bounded('clipLow'),
+    clipHigh: bounded('clipHigh'),
+    blurRadius: bounded('blurRadius').int(),
+    sharpen: bounded('sharpen'),
+    gamma: bounded('gamma'),
+    smoothstep: z.boolean(),
+    contrast: bounded('contrast'),
+    // Orders from before masks existed lack these keys.
+    maskShape: z.enum(MASK_SHAPES).default(DEFAULT_MASK.maskShape),
+    maskFeather: bounded('maskFeather').default(DEFAULT_MASK.maskFeather),
+    maskRim: bounded('maskRim').default(DEFAULT_MASK.maskRim),
+    maskStrokes: maskStrokesSchema.default(DEFAULT_MASK.maskStrokes),
+    textBlocks: z
+      .array(textBlockSchema)
+      .max(MAX_TEXT_BLOCKS, `At most ${MAX_TEXT_BLOCKS} lines of text`)
+      .default([]),
+    // Orders from before collages existed lack these keys.
+    layout: z.enum(COLLAGE_LAYOUTS).default('single'),
+    slots: z.array(collageSlotSchema).max(MAX_SLOTS).default([]),
+    // Orders from before lithophanes existed lack these keys.
+    thicknessMin: bounded('thicknessMin').default(DEFAULT_LITHOPHANE.thicknessMin),
+    thicknessMax: bounded('thicknessMax').default(DEFAULT_LITHOPHANE.thicknessMax),
+  })
+  .strict()
+
+export const customerSchema = z.object({
+  name: z.string({ required_error: 'Name is required' }).trim().min(1, 'Name is required').max(200, 'Name is too long'),
+  email: z
+    .string({ required_error: 'Email is required' })
+    .trim()
+    .min(1, 'Email is required')
+    .max(254, 'Email is too long')
+    .email('Enter a valid email address'),
+  address: z
+    .string({ required_error: 'Address is required' })
+    .trim()
+    .min(1, 'Address is required')
+    .max(1000, 'Address is too long'),
+})
+
+/** Finish, rush and shipping; which finishes exist depends on the product. */
+export const orderOptionsSchema = z
+  .object({
+    finish: z.string({ required_error: 'Choose a finish' }).max(64),
+    rush: z.boolean().default(false),
+    shipping: z.string({ required_error: 'Choose where to ship' }).max(64),
+  })
+  .strict()
+
+/** Split a base64 data URL into its MIME type and payload. */
+export function parseImageDataUrl(url: string): { mime: string; base64: string } | null {
+  const m = /^data:([\w.+-]+\/[\w.+-]+);base64,([A-Za-z0-9+/]+={0,2})$/.exec(url)
+  return m ? { mime: m[1].toLowerCase(), base64: m[2] } : null
+}
+
+export const imageDataUrlSchema = z.string({ required_error: 'Please upload a photo' }).superRefine((url, ctx) => {
+  const parsed = parseImageDataUrl(url)
+  if (!parsed) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Image must be a base64 data URL' })
+    return
+  }
+  if (!IMAGE_MIMES.includes(parsed.mime as ImageMime)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Image must be a PNG or JPEG' })
+    return
+  }
+  const bytes = base64ByteLength(parsed.base64)
+  if (bytes > MAX_IMAGE_BYTES) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Image must be under ${MAX_IMAGE_BYTES / 1024 / 1024} MB` })
+    return
+  }
+  const head = base64ToBytes(parsed.base64.slice(0, Math.ceil(HEADER_BYTES / 3) * 4))
+  if (sniffMime(head) !== parsed.mime) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Image contents do not match its type' })
+    return
+  }
+  const size = readImageSize(head)
+  if (!size) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Could not read image dimensions' })
+  } else if (Math.min(size.width, size.height) < MIN_IMAGE_SIDE) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Image must be at least ${MIN_IMAGE_SIDE}px on each side` })
+  } else if (Math.max(size.width, size.height) > MAX_IMAGE_SIDE) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Image must be at most ${MAX_IMAGE_SIDE}px on each side` })
+  }
+})
+
+const urnIdSchema = (urns: UrnMap) =>
+  z.string({ required_error: 'Please choose an urn' }).refine((id) => !!findUrn(urns, id), 'Unknown urn')
+
+/** Where the design sits on the urn: its target and the placement params. */
+type Placement = { target: UrnTarget; offsetX: number; offsetY: number; rotation: number }
+
+/**
+ * How far a text panel, in millimetres from the top-left of a design of
+ * `widthMm` × `heightMm`, runs past each edge of the urn's design area
+ * (less the text margin) once the design is rotated and offset on the face.
+ * The design's centre sits at the offset from the area's centre, y up, and
+ * rotation turns it anticlockwise, as in the preview.
+ */
+function panelOverhang(
+  panel: TextLayout['panel'],
+  widthMm: number,
+  heightMm: number,
+  { target, offsetX, offsetY, rotation }: Placement
+) {
+  const a = (rotation * Math.PI) / 180
+  const xs: number[] = []
+  const ys: number[] = []
+  for (const x of [panel.left, panel.right]) {
+    for (const y of [panel.top, panel.bottom]) {
+      const dx = x - widthMm / 2
+      const dy = heightMm / 2 - y
+      xs.push(offsetX + dx * Math.cos(a) - dy * Math.sin(a))
+      ys.push(offsetY + dx * Math.sin(a) + dy * Math.cos(a))
+    }
+  }
+  const halfW = target.width_mm / 2 - TEXT_MARGIN_MM
+  const halfH = target.height_mm / 2 - TEXT_MARGIN_MM
+  return {
+    left: -halfW - Math.min(...xs),
+    right: Math.max(...xs) - halfW,
+    top: Math.max(...ys) - halfH,
+    bottom: -halfH - Math.min(...ys),
+  }
+}
+
+/**
+ * Keep every line of text inside the design, inside the urn's design area
+ * once the design is scaled and placed, and clear of the other lines.
+ */
+function refineText(
+  blocks: TextBlock[],
+  fonts: FontSet,
+  widthMm: number,
+  heightMm: number,
+  depthMm: number,
+  placement: Placement,
+  ctx: z.RefinementCtx
+) {
+  const placed: { index: number; top: number; bottom: number; left: number; right: number }[] = []
+  blocks.forEach((block, index) => {
+    const path = ['params', 'textBlocks', index]
+    if (block.depthMm > depthMm) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, 'depthMm'],
+        message: `Text depth can't exceed the relief depth (${depthMm} mm)`,
+      })
+    }
+    const font = fonts[block.font]
+    if (!font) return
+    const { panel } = layoutTextBlock(font, block, widthMm, heightMm)
+    const room = widthMm - 2 * TEXT_MARGIN_MM
+    if (panel.right - panel.left > room) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, 'text'],
+        message: `Too wide for this urn: ${(panel.right - panel.left).toFixed(1)} of ${room.toFixed(1)} mm`,
+      })
+      return
+    }
+    if (panel.top < TEXT_MARGIN_MM || panel.bottom > heightMm - TEXT_MARGIN_MM) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, 'y'],
+        message: `Runs off the ${panel.top < TEXT_MARGIN_MM ? 'top' : 'bottom'} of the design`,
+      })
+      return
+    }
+    // Scaled up or moved, the design can reach past the area the urn has room for.
+    const over = panelOverhang(panel, widthMm, heightMm, placement)
+    const [side, mm] = Object.entries(over).reduce((a, b) => (b[1] > a[1] ? b : a))
+    if (mm > 0.05) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, side === 'left' || side === 'right' ? 'text' : 'y'],
+        message: `Runs ${mm.toFixed(1)} mm off the ${side} of the urn's design area`,
+      })
+      return
+    }
+    const hit = placed.find(
+      (p) => p.top < panel.bottom && panel.top < p.bottom && p.left < panel.right && panel.left < p.right
+    )
+    if (hit) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, 'y'],
+        message: `Overlaps line ${hit.index + 1}`,
+      })
+      return
+    }
+    placed.push({ index, ...panel })
+  })
+}
+
+/** Checks that depend on the chosen urn or span several params. */
+function refineParams(
+  urns: UrnMap,
+  fonts: FontSet,
+  urnId: string,
+  params: z.infer<typeof previewParamsSchema>,
+  ctx: z.RefinementCtx
+) {
+  const urn = findUrn(urns, urnId)
+  const target = urn?.target
+  if (!target) return
+  const lithophane = lithophaneOf(urn)
+  // A lithophane has no relief depth; its thickness range plays that part.
+  let depthMm = params.depth
+  if (lithophane) {
+    const { thickness_min_mm: min, thickness_max_mm: max } = lithophane
+    for (const key of ['thicknessMin', 'thicknessMax'] as const) {
+      if (params[key] < min || params[key] > max) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['params', key],
+          message: `Thickness must be between ${min} and ${max} mm`,
+        })
+      }
+    }
+    if (params.thicknessMax - params.thicknessMin < MIN_THICKNESS_RANGE_MM) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['params', 'thicknessMax'],
+        message: `Must be at least ${MIN_THICKNESS_RANGE_MM} mm above the thinnest point`,
+      })
+    }
+    depthMm = params.thicknessMax - params.thicknessMin
+  } else if (params.depth < target.depth_mm_min || params.depth > target.depth_mm_max) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['params', 'depth'],
+      message: `Depth must be between ${target.depth_mm_min} and ${target.depth_mm_max} mm`,
+    })
+  }
+  if (params.clipLow >= params.clipHigh) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['params', 'clipHigh'],
+      message: 'Highlight clip must be above shadow clip',
+    })
+  }
+  if (params.slots.length !== collageSlots(params.layout).length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['params', 'slots'],
+      message: 'Photo placements do not match the layout',
+    })
+  }
+  const widthMm = target.width_mm * params.scale
+  const heightMm = target.height_mm * params.scale
+  const placement = { target, offsetX: params.offsetX, offsetY: params.offsetY, rotation: params.rotation }
+  refineText(params.textBlocks as TextBlock[], fonts, widthMm, heightMm, depthMm, placement, ctx)
+}
+
+function refineOptions(
+  urns: UrnMap,
+  urnId: string,
+  options: z.infer<typeof orderOptionsSchema>,
+  ctx: z.RefinementCtx
+) {
+  const urn = findUrn(urns, urnId)
+  if (urn && !finishesFor(productOf(urn)).some((f) => f.id === options.finish)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options', 'finish'], message: 'Not available for this product' })
+  }
+  if (!PRICING_RULES.shipping.some((zone) => zone.id === options.shipping)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options', 'shipping'], message: 'We do not ship there' })
+  }
+}
+
+/** Photos for the second and later slots; one per slot the layout has. */
+const collageImagesSchema = z.array(imageDataUrlSchema).max(MAX_SLOTS - 1).default([])
+
+/**
+ * What the browser read from each picked file before converting it (see
+ * lib/images/ingest).  Informational only, so it is bounded but not trusted.
+ */
+const photoMetaSchema = z
+  .object({
+    name: z.string().max(255).optional(),
+    mime: z.string().max(64),
+    bytes: z.number().int().nonnegative(),
+    width: z.number().int().nonnegative(),
+    height: z.number().int().nonnegative(),
+    orientation: z.number().int().min(1).max(8).optional(),
+    takenAt: z.string().max(32).optional(),
+    camera: z.string().max(128).optional(),
+  })
+  .strict()
+
+function refineCollageImages(layout: CollageLayout, images: string[], ctx: z.RefinementCtx) {
+  const needed = SLOT_COUNTS[layout] - 1
+  if (images.length !== needed) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['collageImageDataUrls'],
+      message: needed ? `Upload a photo for each of the ${needed + 1} slots` : 'This layout takes one photo',
+    })
+  }
+}
+
+export function submitSchemaFor(urns: UrnMap, fonts: FontSet = {}) {
+  return z
+    .object({
+      urnId: urnIdSchema(urns),
+      params: previewParamsSchema,
+      imageDataUrl: imageDataUrlSchema,
+      collageImageDataUrls: collageImagesSchema,
+      /** Main photo first, then each collage slot. */
+      photoMeta: z.array(photoMetaSchema.nullable()).max(MAX_SLOTS).default([]),
+      customer: customerSchema,
+      options: orderOptionsSchema,
+      /** Urn face picked in the preview; null for the target's default. */
+      face: z.enum(FACE_CODES).nullable().default(null),
+      /** The quote shown to the customer; the order is charged its amount. */
+      quoteId: z.string({ required_error: 'Wait for the price to load' }).max(64),
+    })
+    .superRefine((v, ctx) => {
+      refineParams(urns, fonts, v.urnId, v.params, ctx)
+      refineCollageImages(v.params.layout, v.collageImageDataUrls, ctx)
+      refineOptions(urns, v.urnId, v.options, ctx)
+    })
+}
+
+/**
+ * A live price for the design being edited.  Only the priced parts of the
+ * design are sent, bounded like the params they come from; the design
+ * itself is checked when the order is submitted.
+ */
+export function quoteSchemaFor(urns: UrnMap) {
+  return z
+    .object({
+      urnId: urnIdSchema(urns),
+      design: z
+        .object({
+          scale: bounded('scale'),
+          depth: z.number().finite().min(0).max(50),
+          thicknessMax: bounded('thicknessMax'),
+          textLines: z.number().int().min(0).max(MAX_TEXT_BLOCKS),
+          layout: z.enum(COLLAGE_LAYOUTS),
+        })
+        .strict(),
+      options: orderOptionsSchema,
+    })
+    .superRefine((v, ctx) => refineOptions(urns, v.urnId, v.options, ctx))
+}
+
+/** Params edited on an existing order (admin review). */
+export function orderParamsSchemaFor(urns: UrnMap, fonts: FontSet = {}) {
+  return z
+    .object({ urnId: urnIdSchema(urns), params: previewParamsSchema })
+    .superRefine((v, ctx) => refineParams(urns, fonts, v.urnId, v.params, ctx))
+}
+
+/** A design shared for approval: the order without the customer. */
+export function designSchemaFor(urns: UrnMap, fonts: FontSet = {}) {
+  return z
+    .object({
+      urnId: urnIdSchema(urns),
+      params: previewParamsSchema,
+      imageDataUrl: imageDataUrlSchema,
+      collageImageDataUrls: collageImagesSchema,
+    })
+    .superRefine((v, ctx) => {
+      refineParams(urns, fonts, v.urnId, v.params, ctx)
+      refineCollageImages(v.params.layout, v.collageImageDataUrls, ctx)
+    })
+}
+
+/**
+ * A design in progress saved to an account.  Anything may still be
+ * missing, so only the shape and bounds are checked; the full checks run
+ * when it is submitted.
+ */
+export function draftSchemaFor(urns: UrnMap) {
+  return z.object({
+    urnId: urnIdSchema(urns).nullable().default(null),
+    params: previewParamsSchema,
+    imageDataUrl: imageDataUrlSchema.nullable().default(null),
+    collageImageDataUrls: z.array(imageDataUrlSchema.nullable()).max(MAX_SLOTS - 1).default([]),
+    step: z.number().int().min(1).max(5),
+  })
+}
+
+export type SubmitPayload = z.infer<ReturnType<typeof submitSchemaFor>>
+
+/** Flatten zod issues into `{ 'customer.name': 'Name is required' }`. */
+export function fieldErrors(error: z.ZodError): Record<string, string> {
+  const out: Record<string, string> = {}
+  for (const issue of error.issues) {
+    const key = issue.path.join('.') || '_form'
+    if (!(key in out)) out[key] = issue.message
+  }
+  return out
+}
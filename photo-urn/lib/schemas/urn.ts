@@ -0,0 +1,48 @@
+// Validation for staff-created catalog entries (the STL itself is checked
+// by lib/urns/inspect).
+
+import { z } from 'zod'
+import { FACE_CODES } from '@/lib/urns/catalog'
+
+const mm = (label: string) =>
+  z.number({ invalid_type_error: 'Must be a number', required_error: 'Required' }).finite().positive(`${label} must be positive`)
+
+export const urnTargetSchema = z
+  .object({
+    width_mm: mm('Width').max(1000, 'Width is too large'),
+    height_mm: mm('Height').max(1000, 'Height is too large'),
+    depth_mm_min: mm('Minimum depth'),
+    depth_mm_max: mm('Maximum depth').max(20, 'Maximum depth is too large'),
+    surface: z.enum(['flat', 'convex', 'cylindrical']),
+    radius_mm: mm('Radius').optional(),
+    default_face: z.enum(FACE_CODES),
+  })
+  .superRefine((t, ctx) => {
+    if (t.depth_mm_min > t.depth_mm_max) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['depth_mm_max'], message: 'Must be at least the minimum depth' })
+    }
+    if (t.surface !== 'flat' && !t.radius_mm) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['radius_mm'], message: 'Curved surfaces need a radius' })
+    }
+  })
+
+const degrees = z.number({ invalid_type_error: 'Must be a number' }).finite().min(-360).max(360)
+
+export const urnMetaSchema = z
+  .object({
+    id: z
+      .string({ required_error: 'Required' })
+      .regex(/^[a-z0-9_]{3,64}$/, 'Use 3–64 lowercase letters, digits or underscores'),
+    label: z.string({ required_error: 'Required' }).trim().min(1, 'Required').max(100, 'Label is too long'),
+    price_cents: z.number({ invalid_type_error: 'Must be a number', required_error: 'Required' }).int('Must be whole cents').min(0),
+    currency: z.string({ required_error: 'Required' }).regex(/^[a-z]{3}$/, 'Use a three-letter currency code'),
+    target: urnTargetSchema,
+    orientation: z
+      .object({
+        rotate_deg: z.object({ x: degrees, y: degrees, z: degrees }).optional(),
+        mirror: z.object({ x: z.boolean(), y: z.boolean(), z: z.boolean() }).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict()
@@ -0,0 +1,75 @@
+import type { PersistStorage, StorageValue } from 'zustand/middleware'
+
+// Persisted store state in the browser's IndexedDB.  Drafts hold the photo
+// as a data URL, which is too large for localStorage, and values are
+// stored as structured clones instead of JSON.  Writes are debounced so a
+// slider drag saves once, not on every tick.  Without IndexedDB (server
+// render, or a browser that blocks it) reads return null and writes are
+// dropped.
+
+const DB_NAME = 'photo-urn'
+const STORE = 'state'
+const WRITE_DELAY_MS = 300
+
+let db: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!db) {
+    db = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1)
+      req.onupgradeneeded = () => req.result.createObjectStore(STORE)
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+    db.catch(() => {
+      db = null
+    })
+  }
+  return db
+}
+
+async function request<T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const conn = await openDb()
+  return new Promise((resolve, reject) => {
+    const req = op(conn.transaction(STORE, mode).objectStore(STORE))
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+const available = () => typeof indexedDB !== 'undefined'
+
+export function indexedDbStorage<S>(): PersistStorage<S> {
+  const timers = new Map<string, ReturnType<typeof setTimeout>>()
+  const cancel = (name: string) => {
+    clearTimeout(timers.get(name))
+    timers.delete(name)
+  }
+  return {
+    async getItem(name) {
+      if (!available()) return null
+      try {
+        return (await request<StorageValue<S> | undefined>('readonly', (s) => s.get(name))) ?? null
+      } catch (err) {
+        console.warn('Could not read saved state', err)
+        return null
+      }
+    },
+    setItem(name, value) {
+      if (!available()) return
+      cancel(name)
+      timers.set(
+        name,
+        setTimeout(() => {
+          timers.delete(name)
+          request('readwrite', (s) => s.put(value, name)).catch((err) => console.warn('Could not save state', err))
+        }, WRITE_DELAY_MS)
+      )
+    },
+    async removeItem(name) {
+      if (!available()) return
+      cancel(name)
+      await request('readwrite', (s) => s.delete(name)).catch((err) => console.warn('Could not clear saved state', err))
+    },
+  }
+}
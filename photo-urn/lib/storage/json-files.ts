@@ -0,0 +1,95 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import crypto from 'node:crypto'
+
+// A tiny embedded document store: one JSON file per record in a directory.
+// Writes go through a temp file + rename so readers never see a torn file,
+// and updates to the same key are serialized in-process.
+
+export type JsonFileStore<T> = {
+  dir: string
+  get(key: string): Promise<T | null>
+  put(key: string, value: T): Promise<void>
+  /** Read-modify-write under the key's lock; return null to skip writing. */
+  update(key: string, fn: (current: T | null) => T | null | Promise<T | null>): Promise<T | null>
+  remove(key: string): Promise<void>
+  keys(): Promise<string[]>
+  all(): Promise<T[]>
+}
+
+const SAFE_KEY = /^[A-Za-z0-9_-]{1,128}$/
+
+/** Keys double as filenames, so only a conservative charset is allowed. */
+export function isValidKey(key: unknown): key is string {
+  return typeof key === 'string' && SAFE_KEY.test(key)
+}
+
+export function createJsonFileStore<T>(dir: string): JsonFileStore<T> {
+  const locks = new Map<string, Promise<unknown>>()
+  const fileFor = (key: string) => {
+    if (!isValidKey(key)) throw new Error(`Invalid record key: ${key}`)
+    return path.join(dir, `${key}.json`)
+  }
+
+  const withLock = <R>(key: string, fn: () => Promise<R>): Promise<R> => {
+    const prev = locks.get(key) ?? Promise.resolve()
+    const next = prev.catch(() => undefined).then(fn)
+    locks.set(key, next)
+    next.finally(() => {
+      if (locks.get(key) === next) locks.delete(key)
+    }).catch(() => undefined)
+    return next
+  }
+
+  const read = async (key: string): Promise<T | null> => {
+    try {
+      return JSON.parse(await fs.readFile(fileFor(key), 'utf8')) as T
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return null
+      throw err
+    }
+  }
+
+  const write = async (key: string, value: T) => {
+    await fs.mkdir(dir, { recursive: true })
+    const file = fileFor(key)
+    const tmp = `${file}.${crypto.randomBytes(6).toString('hex')}.tmp`
+    await fs.writeFile(tmp, JSON.stringify(value, null, 2))
+    await fs.rename(tmp, file)
+  }
+
+  const keys = async () => {
+    try {
+      const names = await fs.readdir(dir)
+      return names.filter((n) => n.endsWith('.json')).map((n) => n.slice(0, -5))
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return []
+      throw err
+    }
+  }
+
+  return {
+    dir,
+    get: read,
+    put: (key, value) => withLock(key, () => write(key, value)),
+    update: (key, fn) =>
+      withLock(key, async () => {
+        const next = await fn(await read(key))
+        if (next !== null) await write(key, next)
+        return next
+      }),
+    remove: (key) =>
+      withLock(key, async () => {
+        await fs.rm(fileFor(key), { force: true })
+      }),
+    keys,
+    all: async () => {
+      const out: T[] = []
+      for (const key of await keys()) {
+        const v = await read(key)
+        if (v) out.push(v)
+      }
+      return out
+    },
+  }
+}
@@ -0,0 +1,19 @@
+import path from 'node:path'
+
+/** Private server-side state (orders, queues, …).  Never served. */
+export function dataDir(...parts: string[]): string {
+  return path.join(process.env.DATA_DIR || path.join(process.cwd(), '.data'), ...parts)
+}
+
+/**
+ * Per-order folder for the photo and generated files.  Private like the
+ * rest of the data; the order's owner and staff fetch them through
+ * `outputsUrl`.
+ */
+export function outputsDir(orderId: string): string {
+  return dataDir('outputs', orderId)
+}
+
+export function outputsUrl(orderId: string, file: string): string {
+  return `/api/orders/${orderId}/files/${file}`
+}
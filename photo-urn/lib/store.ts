@@ -1,34 +1,223 @@
 import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { PhotoMeta } from '@/lib/images/meta'
+import type { CollageLayout, CollageSlot } from '@/lib/relief/collage'
+import { DEFAULT_HEIGHTMAP, type HeightmapSettings } from '@/lib/relief/heightmap'
+import { DEFAULT_LITHOPHANE, type LithophaneSettings } from '@/lib/relief/lithophane'
+import type { TextBlock } from '@/lib/relief/text'
+import { indexedDbStorage } from '@/lib/storage/browser'
+import type { FaceCode } from '@/lib/urns/catalog'
+import type { WizardStep } from '@/lib/wizard'
 
-type UrnId = 'urn_vertical' | 'urn_horizontal'
+// The design being edited.  The draft (urn, photos, params and preview face)
+// is saved to IndexedDB so it survives a reload, and parameter edits keep
+// an undo/redo history.  Ids of designs shared from this browser are saved
+// too, so their owner can reopen them, as is the id of the account draft
+// (lib/drafts) the design was last saved to.
 
-export type PreviewParams = {
+export type PreviewParams = HeightmapSettings & LithophaneSettings & {
   scale: number
   offsetX: number
   offsetY: number
   rotation: number
   depth: number
   invert: boolean
+  /** Lines of text drawn into the relief, see lib/relief/text. */
+  textBlocks: TextBlock[]
+  /** Photo layout, see lib/relief/collage. */
+  layout: CollageLayout
+  /** Placement and mask of each collage photo; empty for a single photo. */
+  slots: CollageSlot[]
 }
 
+export const DEFAULT_PARAMS: PreviewParams = {
+  scale: 1,
+  offsetX: 0,
+  offsetY: 0,
+  rotation: 0,
+  depth: 1.8,
+  invert: false,
+  ...DEFAULT_HEIGHTMAP,
+  ...DEFAULT_LITHOPHANE,
+  textBlocks: [],
+  layout: 'single',
+  slots: [],
+}
+
+/** Undo steps kept per session. */
+export const HISTORY_LIMIT = 100
+
+/**
+ * One undo step: the params and the collage photos beside them.  Changing
+ * the layout pads or trims the photos to its slots, so undoing it brings
+ * back the photos the old layout had.
+ */
+export type HistoryEntry = { params: PreviewParams; collageImages: (string | null)[] }
+
+/**
+ * The edit gesture in progress, from `beginEdit` to `endEdit`: a slider
+ * drag or typing in a field.  All its param changes are one undo step,
+ * pushed by the first of them (`recorded`).  Changes outside a gesture
+ * are a step each.
+ */
+let gesture = { open: false, recorded: false }
+
 type State = {
-  step: 1 | 2 | 3
-  setStep: (s: 1 | 2 | 3) => void
-  urnId: UrnId | null
-  setUrnId: (id: UrnId) => void
+  /** Current step of the order form, see lib/wizard. */
+  step: WizardStep
+  setStep: (s: WizardStep) => void
+  /** Catalog id, see /api/urns. */
+  urnId: string | null
+  setUrnId: (id: string | null) => void
   imageDataUrl: string | null
   setImageDataUrl: (d: string | null) => void
+  /** Photos for the second and later collage slots. */
+  collageImages: (string | null)[]
+  setCollageImages: (d: (string | null)[]) => void
+  /** The files as picked, main photo first then each collage slot; sent with the order. */
+  photoMeta: (PhotoMeta | null)[]
+  setPhotoMeta: (m: (PhotoMeta | null)[]) => void
   orderId: string | null
   setOrderId: (id: string) => void
   params: PreviewParams
   setParams: (p: Partial<PreviewParams>) => void
+  /** Urn face the preview puts the relief on; null means the urn's default. */
+  face: FaceCode | null
+  setFace: (f: FaceCode | null) => void
+  /** Preview-only shift of the relief on the face, in millimetres. */
+  faceNudge: { x: number; y: number }
+  setFaceNudge: (n: { x: number; y: number }) => void
+  /** Earlier params, oldest first. */
+  past: HistoryEntry[]
+  /** Undone params, next redo first. */
+  future: HistoryEntry[]
+  undo: () => void
+  redo: () => void
+  /** Start an edit gesture; a no-op while one is open. */
+  beginEdit: () => void
+  /** Finish the edit gesture, so the next change is a new undo step. */
+  endEdit: () => void
+  /** Account draft this design is saved to, see lib/drafts; null until saved. */
+  draftId: string | null
+  setDraftId: (id: string | null) => void
+  /**
+   * Replace the draft with a shared design or a saved account draft,
+   * starting a fresh history.  Opens at `step`, else the preview.
+   */
+  openDesign: (d: {
+    urnId: string | null
+    imageDataUrl: string | null
+    collageImages?: (string | null)[]
+    params: PreviewParams
+    step?: WizardStep
+    draftId?: string | null
+  }) => void
+  /** Designs shared from this browser, newest last. */
+  sharedDesigns: string[]
+  addSharedDesign: (id: string) => void
+}
+
+/** The parts of the state saved to IndexedDB. */
+type PersistedState = Pick<
+  State,
+  'step' | 'urnId' | 'imageDataUrl' | 'collageImages' | 'photoMeta' | 'params' | 'face' | 'faceNudge' | 'sharedDesigns' | 'draftId'
+>
+
+function entryOf(s: State): HistoryEntry {
+  return { params: s.params, collageImages: s.collageImages }
+}
+
+/**
+ * State after moving to a history entry.  The photos only go back with a
+ * layout change; otherwise photos picked since stay, as photo changes are
+ * not undo steps themselves.
+ */
+function restore(s: State, entry: HistoryEntry): Pick<State, 'params' | 'collageImages'> {
+  const relaid = entry.params.layout !== s.params.layout
+  return { params: entry.params, collageImages: relaid ? entry.collageImages : s.collageImages }
 }
 
-export const useAppStore = create<State>((set) => ({
-  step: 1, setStep: (s) => set({ step: s }),
-  urnId: null, setUrnId: (id) => set({ urnId: id }),
-  imageDataUrl: null, setImageDataUrl: (d) => set({ imageDataUrl: d }),
-  orderId: null, setOrderId: (id) => set({ orderId: id }),
-  params: { scale: 1, offsetX: 0, offsetY: 0, rotation: 0, depth: 1.8, invert: false },
-  setParams: (p) => set((s) => ({ params: { ...s.params, ...p } })),
-}))
+export const useAppStore = create<State>()(
+  persist(
+    (set) => ({
+      step: 1, setStep: (s) => set({ step: s }),
+      urnId: null, setUrnId: (id) => set({ urnId: id }),
+      imageDataUrl: null, setImageDataUrl: (d) => set({ imageDataUrl: d }),
+      collageImages: [], setCollageImages: (d) => set({ collageImages: d }),
+      photoMeta: [], setPhotoMeta: (m) => set({ photoMeta: m }),
+      orderId: null, setOrderId: (id) => set({ orderId: id }),
+      params: DEFAULT_PARAMS,
+      setParams: (p) =>
+        set((s) => {
+          const grouped = gesture.open && gesture.recorded
+          if (gesture.open) gesture.recorded = true
+          return {
+            params: { ...s.params, ...p },
+            past: grouped ? s.past : [...s.past, entryOf(s)].slice(-HISTORY_LIMIT),
+            future: [],
+          }
+        }),
+      face: null, setFace: (f) => set({ face: f }),
+      faceNudge: { x: 0, y: 0 }, setFaceNudge: (n) => set({ faceNudge: n }),
+      past: [],
+      future: [],
+      undo: () =>
+        set((s) => {
+          if (!s.past.length) return {}
+          gesture.recorded = false
+          return { ...restore(s, s.past[s.past.length - 1]), past: s.past.slice(0, -1), future: [entryOf(s), ...s.future] }
+        }),
+      redo: () =>
+        set((s) => {
+          if (!s.future.length) return {}
+          gesture.recorded = false
+          return { ...restore(s, s.future[0]), past: [...s.past, entryOf(s)], future: s.future.slice(1) }
+        }),
+      beginEdit: () => {
+        if (!gesture.open) gesture = { open: true, recorded: false }
+      },
+      endEdit: () => {
+        gesture = { open: false, recorded: false }
+      },
+      draftId: null, setDraftId: (id) => set({ draftId: id }),
+      openDesign: ({ urnId, imageDataUrl, collageImages = [], params, step = 3, draftId = null }) => {
+        gesture.recorded = false
+        set({
+          step,
+          draftId,
+          urnId,
+          imageDataUrl,
+          collageImages,
+          photoMeta: [],
+          params: { ...DEFAULT_PARAMS, ...params },
+          past: [],
+          future: [],
+        })
+      },
+      sharedDesigns: [],
+      addSharedDesign: (id) => set((s) => ({ sharedDesigns: [...s.sharedDesigns.filter((d) => d !== id), id] })),
+    }),
+    {
+      name: 'draft',
+      version: 1,
+      storage: indexedDbStorage(),
+      partialize: (s): PersistedState => ({
+        step: s.step,
+        urnId: s.urnId,
+        imageDataUrl: s.imageDataUrl,
+        collageImages: s.collageImages,
+        photoMeta: s.photoMeta,
+        params: s.params,
+        face: s.face,
+        faceNudge: s.faceNudge,
+        sharedDesigns: s.sharedDesigns,
+        draftId: s.draftId,
+      }),
+      // Drafts saved before a field or param existed get its default.
+      merge: (saved, current) => {
+        const draft = saved as Partial<PersistedState> | undefined
+        return { ...current, ...draft, params: { ...current.params, ...draft?.params } }
+      },
+    }
+  )
+)
@@ -0,0 +1,32 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { FontId, FontSet } from './fonts'
+import { fetchFont, loadedFonts } from './fetch'
+
+// Browser access to the engraving fonts as a hook.
+
+/** The requested fonts that have loaded so far; updates as the rest arrive. */
+export function useFonts(ids: readonly FontId[]): { fonts: FontSet; error: string | null } {
+  const key = Array.from(new Set(ids)).sort().join(',')
+  const [version, setVersion] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  useEffect(() => {
+    let live = true
+    const wanted = key ? (key.split(',') as FontId[]) : []
+    for (const id of wanted) {
+      if (loadedFonts([id])[id]) continue
+      fetchFont(id)
+        .then(() => live && setVersion((v) => v + 1))
+        .catch((err) => live && setError(err.message))
+    }
+    return () => {
+      live = false
+    }
+  }, [key])
+  const fonts = useMemo(
+    () => loadedFonts(key ? (key.split(',') as FontId[]) : []),
+    // `version` bumps whenever another font arrives.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [key, version]
+  )
+  return { fonts, error }
+}
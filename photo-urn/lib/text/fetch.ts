@@ -0,0 +1,38 @@
+import { parseFont, type FontId, type FontSet } from './fonts'
+
+// Fetches the engraving fonts in the browser, once per page (or worker)
+// and only when a text block uses them.  `./client` wraps this in a hook.
+
+const loaded: FontSet = {}
+const pending = new Map<FontId, Promise<void>>()
+
+export function fetchFont(id: FontId): Promise<void> {
+  let request = pending.get(id)
+  if (!request) {
+    request = fetch(`/api/fonts/${id}`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`Failed to load font ${id}`)
+        loaded[id] = parseFont(await res.arrayBuffer())
+      })
+      .catch((err) => {
+        pending.delete(id)
+        throw err
+      })
+    pending.set(id, request)
+  }
+  return request
+}
+
+/** The fonts among `ids` that have already loaded. */
+export function loadedFonts(ids: Iterable<FontId>): FontSet {
+  const out: FontSet = {}
+  for (const id of ids) if (loaded[id]) out[id] = loaded[id]
+  return out
+}
+
+/** Load every font in `ids`. */
+export async function fetchFonts(ids: Iterable<FontId>): Promise<FontSet> {
+  const unique = Array.from(new Set(ids))
+  await Promise.all(unique.map(fetchFont))
+  return loadedFonts(unique)
+}
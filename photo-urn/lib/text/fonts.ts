@@ -0,0 +1,34 @@
+import { parse, type Font } from 'opentype.js'
+
+// Fonts offered for engraved text.  The files ship with the @fontsource
+// packages; the server reads them from node_modules and the browser gets
+// the same bytes from /api/fonts/[fontId], so both lay text out identically.
+
+export const FONT_IDS = ['serif', 'sans', 'script'] as const
+
+export type FontId = (typeof FONT_IDS)[number]
+
+export type FontInfo = {
+  label: string
+  /** Path below node_modules. */
+  file: string
+}
+
+export const FONTS: Record<FontId, FontInfo> = {
+  serif: { label: 'Garamond', file: '@fontsource/eb-garamond/files/eb-garamond-latin-600-normal.woff' },
+  sans: { label: 'Lato', file: '@fontsource/lato/files/lato-latin-700-normal.woff' },
+  script: { label: 'Great Vibes', file: '@fontsource/great-vibes/files/great-vibes-latin-400-normal.woff' },
+}
+
+/** Parsed fonts by id; missing entries have not been loaded (yet). */
+export type FontSet = Partial<Record<FontId, Font>>
+
+export function isFontId(id: string): id is FontId {
+  return (FONT_IDS as readonly string[]).includes(id)
+}
+
+export function parseFont(bytes: ArrayBuffer | Uint8Array): Font {
+  const buf =
+    bytes instanceof Uint8Array ? bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) : bytes
+  return parse(buf as ArrayBuffer)
+}
@@ -0,0 +1,29 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { FONTS, FONT_IDS, parseFont, type FontId, type FontSet } from './fonts'
+
+export * from './fonts'
+
+const globalForFonts = globalThis as unknown as { __fonts?: Map<FontId, Promise<FontSet[FontId]>> }
+
+export function fontFilePath(id: FontId): string {
+  return path.join(process.cwd(), 'node_modules', FONTS[id].file)
+}
+
+function loadFont(id: FontId) {
+  const cache = (globalForFonts.__fonts ??= new Map())
+  let font = cache.get(id)
+  if (!font) {
+    font = fs.readFile(fontFilePath(id)).then(parseFont)
+    font.catch(() => cache.delete(id))
+    cache.set(id, font)
+  }
+  return font
+}
+
+/** Parse (once per process) the given fonts, or all of them. */
+export async function loadFonts(ids: readonly FontId[] = FONT_IDS): Promise<FontSet> {
+  const out: FontSet = {}
+  for (const id of new Set(ids)) out[id] = await loadFont(id)
+  return out
+}
@@ -0,0 +1,97 @@
+import builtins from './urns.json'
+
+// Shared urn types.  Built-in urns ship in ./urns.json; staff can add more
+// at runtime (see ./repository), so code that needs the full catalog reads
+// it from `getUrnCatalog()` on the server or `/api/urns` in the browser.
+
+export const FACE_CODES = ['+X', '-X', '+Y', '-Y', '+Z', '-Z'] as const
+
+export type FaceCode = (typeof FACE_CODES)[number]
+
+export type UrnTarget = {
+  width_mm: number
+  height_mm: number
+  depth_mm_min: number
+  depth_mm_max: number
+  surface: 'flat' | 'convex' | 'cylindrical'
+  radius_mm?: number
+  default_face: FaceCode
+}
+
+/** What a catalog entry makes: a relief on an urn, or a backlit lithophane panel. */
+export const PRODUCT_MODES = ['relief', 'lithophane'] as const
+
+export type ProductMode = (typeof PRODUCT_MODES)[number]
+
+/**
+ * A lithophane panel's own target.  The photo area is the entry's
+ * `target` width and height; thickness encodes brightness between the
+ * two limits, and a solid frame runs around the photo.
+ */
+export type LithophaneTarget = {
+  /** Thinnest (brightest) point the customer may choose. */
+  thickness_min_mm: number
+  /** Thickest (darkest) point the customer may choose. */
+  thickness_max_mm: number
+  /** Width of the frame around the photo. */
+  frame_mm: number
+  /** Thickness of the frame; never thinner than the photo. */
+  frame_thickness_mm: number
+}
+
+export type UrnOrientation = {
+  rotate_deg?: { x: number; y: number; z: number }
+  mirror?: { x: boolean; y: boolean; z: boolean }
+}
+
+export type UrnEntry = {
+  id: string
+  label: string
+  /** Filename under /urns, or an absolute URL. */
+  stl: string
+  /** Preview image URL. */
+  thumbnail: string
+  /** Base price in the smallest currency unit. */
+  price_cents: number
+  currency: string
+  target: UrnTarget
+  orientation?: UrnOrientation
+  /** Relief when missing. */
+  product?: ProductMode
+  /** Set on lithophane entries. */
+  lithophane?: LithophaneTarget
+  builtin: boolean
+}
+
+export type UrnMap = Record<string, UrnEntry>
+
+export function thumbnailUrl(id: string): string {
+  return `/api/urns/${id}/thumbnail`
+}
+
+export const BUILTIN_URNS: UrnEntry[] = Object.entries(builtins).map(([id, entry]) => ({
+  ...(entry as Omit<UrnEntry, 'id' | 'thumbnail' | 'builtin'>),
+  id,
+  thumbnail: thumbnailUrl(id),
+  builtin: true,
+}))
+
+export function urnMap(entries: UrnEntry[]): UrnMap {
+  const out: UrnMap = {}
+  for (const e of entries) out[e.id] = e
+  return out
+}
+
+export function productOf(urn: Pick<UrnEntry, 'product'>): ProductMode {
+  return urn.product ?? 'relief'
+}
+
+/** The lithophane target of a lithophane entry, null for urn reliefs. */
+export function lithophaneOf(urn: Pick<UrnEntry, 'product' | 'lithophane'> | null): LithophaneTarget | null {
+  return urn && productOf(urn) === 'lithophane' ? urn.lithophane ?? null : null
+}
+
+/** Look up an id without tripping over prototype keys like `constructor`. */
+export function findUrn(urns: UrnMap, id: string): UrnEntry | null {
+  return Object.prototype.hasOwnProperty.call(urns, id) ? urns[id] : null
+}
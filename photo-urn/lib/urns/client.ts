@@ -0,0 +1,46 @@
+import { useEffect, useMemo, useState } from 'react'
+import { urnMap, type UrnEntry, type UrnMap } from './catalog'
+
+// Browser access to the catalog.  One request per page load, shared by
+// every component that asks.
+
+let pending: Promise<UrnEntry[]> | null = null
+const listeners = new Set<(urns: UrnEntry[]) => void>()
+
+export function fetchUrns(refresh = false): Promise<UrnEntry[]> {
+  if (!pending || refresh) {
+    const request = fetch('/api/urns', { cache: 'no-store' })
+      .then(async (res) => {
+        const json = await res.json()
+        if (!res.ok) throw new Error(json?.error || 'Failed to load urns')
+        return json.urns as UrnEntry[]
+      })
+      .catch((err) => {
+        if (pending === request) pending = null
+        throw err
+      })
+    pending = request
+    if (refresh) request.then((urns) => listeners.forEach((l) => l(urns))).catch(() => undefined)
+  }
+  return pending
+}
+
+export function useUrns(): { urns: UrnEntry[] | null; byId: UrnMap; error: string | null } {
+  const [urns, setUrns] = useState<UrnEntry[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  useEffect(() => {
+    let live = true
+    const update = (u: UrnEntry[]) => live && setUrns(u)
+    listeners.add(update)
+    fetchUrns()
+      .then(update)
+      .catch((err) => live && setError(err.message))
+    return () => {
+      live = false
+      listeners.delete(update)
+    }
+  }, [])
+  // Stable identity, so effects keyed on an entry do not rerun every render.
+  const byId = useMemo(() => (urns ? urnMap(urns) : {}), [urns])
+  return { urns, byId, error }
+}
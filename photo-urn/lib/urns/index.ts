@@ -0,0 +1,34 @@
+import path from 'node:path'
+import { dataDir } from '@/lib/storage/paths'
+import { urnMap, type UrnEntry, type UrnMap } from './catalog'
+import { createUrnRepository, type UrnRepository } from './repository'
+
+export * from './catalog'
+export { UrnExistsError, type NewUrn, type UrnRepository } from './repository'
+
+const globalForUrns = globalThis as unknown as { __urnRepository?: UrnRepository }
+
+export function getUrnRepository(): UrnRepository {
+  if (!globalForUrns.__urnRepository) globalForUrns.__urnRepository = createUrnRepository(dataDir('urns'))
+  return globalForUrns.__urnRepository
+}
+
+export function getUrn(id: string): Promise<UrnEntry | null> {
+  return getUrnRepository().get(id)
+}
+
+/** The whole catalog keyed by id, for validation. */
+export async function getUrnMap(): Promise<UrnMap> {
+  return urnMap(await getUrnRepository().list())
+}
+
+/** Public folder that holds urn models (and is served at /urns). */
+export function urnModelsDir(): string {
+  return path.join(process.cwd(), 'public', 'urns')
+}
+
+/** Filesystem path of a catalog model, or null for remote URLs. */
+export function urnModelPath(urn: UrnEntry): string | null {
+  if (/^https?:\/\//i.test(urn.stl)) return null
+  return path.join(urnModelsDir(), path.basename(urn.stl))
+}
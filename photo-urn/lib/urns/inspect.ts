@@ -0,0 +1,184 @@
+import type { FaceCode, UrnTarget } from './catalog'
+
+// Server-side checks for uploaded urn models: parse binary or ASCII STL,
+// measure the bounding box in millimetres and propose where the relief
+// should go.  Axes follow the preview: face ±Y spans (x, z), ±X spans
+// (z, y) and ±Z spans (x, y), and a cylinder wraps around the face's
+// vertical (v) axis.
+
+export const MAX_STL_BYTES = 50 * 1024 * 1024
+export const MAX_STL_TRIANGLES = 2_000_000
+
+export class InvalidStlError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidStlError'
+  }
+}
+
+export type Box = { min: [number, number, number]; max: [number, number, number] }
+
+export type StlInspection = {
+  format: 'binary' | 'ascii'
+  triangles: number
+  /** Bounding box in millimetres. */
+  bbox: Box
+  size_mm: [number, number, number]
+  /** Models whose largest side is ≤ 3 units are taken to be in metres, as in the preview. */
+  units: 'mm' | 'm'
+  proposal: {
+    target: UrnTarget
+    notes: string[]
+  }
+}
+
+/** Parse an STL into a flat xyz array (three vertices per triangle). */
+export function parseSTL(buf: Uint8Array): { positions: Float32Array; format: 'binary' | 'ascii' } {
+  if (buf.length < 15) throw new InvalidStlError('File is too small to be an STL')
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength)
+  const count = buf.length >= 84 ? view.getUint32(80, true) : -1
+  if (count >= 0 && buf.length === 84 + count * 50) {
+    if (count === 0) throw new InvalidStlError('STL has no triangles')
+    if (count > MAX_STL_TRIANGLES) throw new InvalidStlError(`STL has more than ${MAX_STL_TRIANGLES} triangles`)
+    const positions = new Float32Array(count * 9)
+    for (let t = 0; t < count; t++) {
+      const off = 84 + t * 50 + 12
+      for (let k = 0; k < 9; k++) positions[t * 9 + k] = view.getFloat32(off + k * 4, true)
+    }
+    return { positions, format: 'binary' }
+  }
+
+  const text = new TextDecoder().decode(buf)
+  if (!/^\s*solid\b/.test(text)) {
+    throw new InvalidStlError('Not a valid STL (binary size does not match its triangle count)')
+  }
+  const coords: number[] = []
+  const re = /vertex\s+(\S+)\s+(\S+)\s+(\S+)/g
+  let m: RegExpExecArray | null
+  while ((m = re.exec(text))) {
+    coords.push(Number(m[1]), Number(m[2]), Number(m[3]))
+    if (coords.length > MAX_STL_TRIANGLES * 9) throw new InvalidStlError(`STL has more than ${MAX_STL_TRIANGLES} triangles`)
+  }
+  if (!coords.length || coords.length % 9 !== 0) throw new InvalidStlError('ASCII STL has no complete facets')
+  return { positions: Float32Array.from(coords), format: 'ascii' }
+}
+
+function boundingBox(positions: Float32Array): Box {
+  const min: [number, number, number] = [Infinity, Infinity, Infinity]
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity]
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let k = 0; k < 3; k++) {
+      const v = positions[i + k]
+      if (!Number.isFinite(v)) throw new InvalidStlError('STL contains non-finite coordinates')
+      if (v < min[k]) min[k] = v
+      if (v > max[k]) max[k] = v
+    }
+  }
+  return { min, max }
+}
+
+/** Axis indices of a face: u and v span it, n is its normal. */
+export function faceAxes(face: FaceCode): { u: number; v: number; n: number } {
+  switch (face[1]) {
+    case 'X':
+      return { u: 2, v: 1, n: 0 }
+    case 'Y':
+      return { u: 0, v: 2, n: 1 }
+    default:
+      return { u: 0, v: 1, n: 2 }
+  }
+}
+
+const ANGLE_BINS = 36
+
+/**
+ * Radius of the model around `axis` if its outline is round: every angular
+ * bin must hold a vertex and the outermost radius per bin must vary by at
+ * most 3%.  Boxes fail because most bins are empty or reach the corners.
+ */
+function cylinderRadius(positions: Float32Array, bbox: Box, axis: number): number | null {
+  const [a, b] = [0, 1, 2].filter((k) => k !== axis)
+  const ca = (bbox.min[a] + bbox.max[a]) / 2
+  const cb = (bbox.min[b] + bbox.max[b]) / 2
+  const ea = bbox.max[a] - bbox.min[a]
+  const eb = bbox.max[b] - bbox.min[b]
+  if (Math.min(ea, eb) / Math.max(ea, eb) < 0.95) return null
+  const outer = new Float64Array(ANGLE_BINS)
+  for (let i = 0; i < positions.length; i += 3) {
+    const da = positions[i + a] - ca
+    const db = positions[i + b] - cb
+    const bin = Math.min(ANGLE_BINS - 1, Math.floor(((Math.atan2(db, da) + Math.PI) / (2 * Math.PI)) * ANGLE_BINS))
+    outer[bin] = Math.max(outer[bin], Math.hypot(da, db))
+  }
+  let sum = 0
+  for (const r of outer) {
+    if (r === 0) return null
+    sum += r
+  }
+  const mean = sum / ANGLE_BINS
+  for (const r of outer) if (Math.abs(r - mean) > mean * 0.03) return null
+  return mean
+}
+
+const round = (v: number, step = 1) => Math.round(v / step) * step
+
+/**
+ * Propose a relief target: the larger of the +X/+Y faces (the preview's
+ * front faces), a flat or cylindrical surface, and a design area that
+ * leaves a margin around the edges.  Staff review it before saving.
+ */
+export function proposeTarget(positions: Float32Array, bbox: Box): StlInspection['proposal'] {
+  const size = [0, 1, 2].map((k) => bbox.max[k] - bbox.min[k])
+  const notes: string[] = []
+  const area = (face: FaceCode) => {
+    const { u, v } = faceAxes(face)
+    return size[u] * size[v]
+  }
+  const face: FaceCode = area('+X') > area('+Y') * 1.05 ? '+X' : '+Y'
+  const { u, v } = faceAxes(face)
+  const radius = cylinderRadius(positions, bbox, v)
+
+  const target: UrnTarget = {
+    width_mm: round(size[u] * 0.8),
+    height_mm: round(size[v] * 0.75),
+    depth_mm_min: 0.8,
+    depth_mm_max: 2.5,
+    surface: 'flat',
+    default_face: face,
+  }
+  if (radius) {
+    target.surface = 'cylindrical'
+    target.radius_mm = round(radius, 0.5)
+    // Keep the design within ~100° of arc so it stays readable from the front.
+    target.width_mm = round(Math.min(size[u] * 0.9, radius * 1.75))
+    notes.push(`Round outline detected (radius ≈ ${target.radius_mm} mm); relief wraps around the vertical axis.`)
+  } else {
+    notes.push(`Flat front face ${face} (${round(size[u])} × ${round(size[v])} mm).`)
+  }
+  if (Math.min(target.width_mm, target.height_mm) < 20) {
+    notes.push('The face is very small; check that the model is in millimetres.')
+  }
+  return { target, notes }
+}
+
+export function inspectSTL(buf: Uint8Array): StlInspection {
+  const { positions, format } = parseSTL(buf)
+  let bbox = boundingBox(positions)
+  let size = [0, 1, 2].map((k) => bbox.max[k] - bbox.min[k])
+  const largest = Math.max(...size)
+  if (!(largest > 0) || Math.min(...size) <= 0) throw new InvalidStlError('STL is flat or empty')
+  const units = largest > 3 ? 'mm' : 'm'
+  if (units === 'm') {
+    for (let i = 0; i < positions.length; i++) positions[i] *= 1000
+    bbox = boundingBox(positions)
+    size = size.map((s) => s * 1000)
+  }
+  return {
+    format,
+    triangles: positions.length / 9,
+    bbox,
+    size_mm: size as [number, number, number],
+    units,
+    proposal: proposeTarget(positions, bbox),
+  }
+}
@@ -0,0 +1,49 @@
+import { createJsonFileStore, isValidKey } from '@/lib/storage/json-files'
+import { BUILTIN_URNS, thumbnailUrl, type UrnEntry } from './catalog'
+
+export type NewUrn = Omit<UrnEntry, 'thumbnail' | 'builtin'>
+
+export class UrnExistsError extends Error {
+  constructor(public readonly urnId: string) {
+    super(`Urn ${urnId} already exists`)
+    this.name = 'UrnExistsError'
+  }
+}
+
+export interface UrnRepository {
+  /** Built-in urns first, then uploads in the order they were added. */
+  list(): Promise<UrnEntry[]>
+  get(id: string): Promise<UrnEntry | null>
+  create(input: NewUrn): Promise<UrnEntry>
+}
+
+/** Built-in urns from urns.json plus staff uploads, one JSON file each. */
+export function createUrnRepository(dir: string): UrnRepository {
+  const store = createJsonFileStore<UrnEntry & { createdAt: string }>(dir)
+  const builtin = (id: string) => BUILTIN_URNS.find((u) => u.id === id) ?? null
+  const strip = ({ createdAt: _createdAt, ...entry }: UrnEntry & { createdAt: string }): UrnEntry => entry
+
+  return {
+    async list() {
+      const uploaded = (await store.all()).sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      return [...BUILTIN_URNS, ...uploaded.filter((u) => !builtin(u.id)).map(strip)]
+    },
+
+    async get(id) {
+      const found = builtin(id)
+      if (found) return found
+      const stored = isValidKey(id) ? await store.get(id) : null
+      return stored ? strip(stored) : null
+    },
+
+    async create(input) {
+      if (builtin(input.id)) throw new UrnExistsError(input.id)
+      const entry = { ...input, thumbnail: thumbnailUrl(input.id), builtin: false, createdAt: new Date().toISOString() }
+      await store.update(input.id, (current) => {
+        if (current) throw new UrnExistsError(input.id)
+        return entry
+      })
+      return strip(entry)
+    },
+  }
+}
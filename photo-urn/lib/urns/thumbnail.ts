@@ -0,0 +1,97 @@
+import type { RGBAImage } from '@/lib/relief/heightmap'
+import type { FaceCode } from './catalog'
+import { faceAxes } from './inspect'
+
+type Vec3 = [number, number, number]
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]]
+const mix = (a: Vec3, ka: number, b: Vec3, kb: number): Vec3 => [a[0] * ka + b[0] * kb, a[1] * ka + b[1] * kb, a[2] * ka + b[2] * kb]
+const unit = (a: Vec3): Vec3 => {
+  const l = Math.hypot(a[0], a[1], a[2]) || 1
+  return [a[0] / l, a[1] / l, a[2] / l]
+}
+
+const YAW = (30 * Math.PI) / 180
+const PITCH = (20 * Math.PI) / 180
+const BASE = [0xb5, 0xb5, 0xb5]
+
+/**
+ * Software-render a shaded three-quarter view of an STL (flat xyz triangle
+ * list) looking at `face`, on a transparent square.  No GPU needed, so the
+ * catalog can show a picture of any uploaded model.
+ */
+export function renderThumbnail(positions: Float32Array, face: FaceCode, size = 256): RGBAImage {
+  // Camera basis: start looking straight at the face, then orbit a little.
+  const axes = faceAxes(face)
+  const n0: Vec3 = [0, 0, 0]
+  n0[axes.n] = face[0] === '-' ? -1 : 1
+  const up0: Vec3 = [0, 0, 0]
+  up0[axes.v] = 1
+  const right0 = cross(up0, n0)
+  const n1 = mix(n0, Math.cos(YAW), right0, Math.sin(YAW))
+  const right = mix(right0, Math.cos(YAW), n0, -Math.sin(YAW))
+  const toViewer = mix(n1, Math.cos(PITCH), up0, Math.sin(PITCH))
+  const up = cross(toViewer, right)
+  const light = unit(mix(mix(toViewer, 1, up, 0.6), 1, right, -0.4))
+
+  const count = positions.length / 9
+  const sx = new Float32Array(count * 3)
+  const sy = new Float32Array(count * 3)
+  const sz = new Float32Array(count * 3)
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity
+  for (let i = 0; i < count * 3; i++) {
+    const p: Vec3 = [positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]]
+    sx[i] = dot(p, right)
+    sy[i] = dot(p, up)
+    sz[i] = dot(p, toViewer)
+    minX = Math.min(minX, sx[i]); maxX = Math.max(maxX, sx[i])
+    minY = Math.min(minY, sy[i]); maxY = Math.max(maxY, sy[i])
+  }
+  const pad = size * 0.06
+  const k = (size - 2 * pad) / Math.max(maxX - minX, maxY - minY, 1e-9)
+  const ox = (size - (maxX - minX) * k) / 2
+  const oy = (size - (maxY - minY) * k) / 2
+  for (let i = 0; i < count * 3; i++) {
+    sx[i] = ox + (sx[i] - minX) * k
+    sy[i] = size - (oy + (sy[i] - minY) * k)
+  }
+
+  const depth = new Float32Array(size * size).fill(-Infinity)
+  const data = new Uint8Array(size * size * 4)
+  for (let t = 0; t < count; t++) {
+    const a = t * 3, b = a + 1, c = a + 2
+    const area = (sx[b] - sx[a]) * (sy[c] - sy[a]) - (sy[b] - sy[a]) * (sx[c] - sx[a])
+    if (Math.abs(area) < 1e-12) continue
+    const p0: Vec3 = [positions[a * 3], positions[a * 3 + 1], positions[a * 3 + 2]]
+    const p1: Vec3 = [positions[b * 3], positions[b * 3 + 1], positions[b * 3 + 2]]
+    const p2: Vec3 = [positions[c * 3], positions[c * 3 + 1], positions[c * 3 + 2]]
+    let normal = unit(cross(mix(p1, 1, p0, -1), mix(p2, 1, p0, -1)))
+    // Winding is not trusted; light the side that faces the camera.
+    if (dot(normal, toViewer) < 0) normal = [-normal[0], -normal[1], -normal[2]]
+    const shade = 0.3 + 0.7 * Math.max(0, dot(normal, light))
+
+    const x0 = Math.max(0, Math.floor(Math.min(sx[a], sx[b], sx[c])))
+    const x1 = Math.min(size - 1, Math.ceil(Math.max(sx[a], sx[b], sx[c])))
+    const y0 = Math.max(0, Math.floor(Math.min(sy[a], sy[b], sy[c])))
+    const y1 = Math.min(size - 1, Math.ceil(Math.max(sy[a], sy[b], sy[c])))
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const px = x + 0.5, py = y + 0.5
+        const w0 = ((sx[b] - px) * (sy[c] - py) - (sy[b] - py) * (sx[c] - px)) / area
+        const w1 = ((sx[c] - px) * (sy[a] - py) - (sy[c] - py) * (sx[a] - px)) / area
+        const w2 = 1 - w0 - w1
+        if (w0 < 0 || w1 < 0 || w2 < 0) continue
+        const z = w0 * sz[a] + w1 * sz[b] + w2 * sz[c]
+        const i = y * size + x
+        if (z <= depth[i]) continue
+        depth[i] = z
+        data[i * 4] = BASE[0] * shade
+        data[i * 4 + 1] = BASE[1] * shade
+        data[i * 4 + 2] = BASE[2] * shade
+        data[i * 4 + 3] = 255
+      }
+    }
+  }
+  return { data, width: size, height: size }
+}
@@ -0,0 +1,95 @@
+import { SLOT_COUNTS } from '@/lib/relief/collage'
+import { customerSchema, fieldErrors, orderParamsSchemaFor } from '@/lib/schemas/submit'
+import type { PreviewParams } from '@/lib/store'
+import type { FontSet } from '@/lib/text/fonts'
+import { findUrn, type UrnMap } from '@/lib/urns/catalog'
+
+// The order form's steps.  Each step has a slug for the URL
+// (`/?step=design`) and a check that must pass before the customer moves
+// past it; a step can only be opened once every step before it passes.
+
+export type WizardStep = 1 | 2 | 3 | 4 | 5
+
+export const WIZARD_STEPS: { step: WizardStep; slug: string; label: string }[] = [
+  { step: 1, slug: 'photo', label: 'Photo' },
+  { step: 2, slug: 'urn', label: 'Urn' },
+  { step: 3, slug: 'design', label: 'Design' },
+  { step: 4, slug: 'details', label: 'Your details' },
+  { step: 5, slug: 'review', label: 'Review' },
+]
+
+export const LAST_STEP: WizardStep = 5
+
+export function stepSlug(step: WizardStep): string {
+  return WIZARD_STEPS[step - 1].slug
+}
+
+export function stepFromSlug(slug: string | null): WizardStep | null {
+  return WIZARD_STEPS.find((s) => s.slug === slug)?.step ?? null
+}
+
+/** The step whose form shows a submit field error such as `params.depth`. */
+export function stepOfField(key: string): WizardStep {
+  const root = key.split('.')[0]
+  if (root === 'imageDataUrl' || root === 'collageImageDataUrls' || root === 'photoMeta') return 1
+  if (root === 'urnId') return 2
+  if (root === 'params' || root === 'options' || root === 'face' || root === 'printability') return 3
+  if (root === 'customer') return 4
+  return 5
+}
+
+/** What the steps are checked against. */
+export type WizardDraft = {
+  imageDataUrl: string | null
+  collageImages: (string | null)[]
+  urnId: string | null
+  params: PreviewParams
+  customer: { name: string; email: string; address: string }
+}
+
+/**
+ * Why the customer can't move past `step` yet, keyed like the submit
+ * schema's field errors so the form shows them in place; empty when the
+ * step is done.  Before the catalog or fonts load, only what can be
+ * checked without them is.
+ */
+export function stepErrors(step: WizardStep, draft: WizardDraft, urns: UrnMap, fonts: FontSet = {}): Record<string, string> {
+  switch (step) {
+    case 1: {
+      const errors: Record<string, string> = {}
+      if (!draft.imageDataUrl) errors.imageDataUrl = 'Please upload a photo'
+      const slots = SLOT_COUNTS[draft.params.layout] - 1
+      for (let i = 0; i < slots; i++) {
+        if (!draft.collageImages[i]) errors[`collageImageDataUrls.${i}`] = `Choose a photo for slot ${i + 2}`
+      }
+      return errors
+    }
+    case 2:
+      if (!draft.urnId) return { urnId: 'Choose an urn or panel' }
+      if (Object.keys(urns).length && !findUrn(urns, draft.urnId)) return { urnId: 'This urn is no longer available' }
+      return {}
+    case 3: {
+      if (!Object.keys(urns).length) return {}
+      const check = orderParamsSchemaFor(urns, fonts).safeParse({ urnId: draft.urnId, params: draft.params })
+      return check.success ? {} : fieldErrors(check.error)
+    }
+    case 4: {
+      const check = customerSchema.safeParse(draft.customer)
+      return check.success ? {} : Object.fromEntries(Object.entries(fieldErrors(check.error)).map(([k, v]) => [`customer.${k}`, v]))
+    }
+    case 5:
+      return {}
+  }
+}
+
+/**
+ * `requested`, or the first step before it that still needs something, so
+ * a link or a stale draft never opens the preview without a photo and urn.
+ */
+export function reachableStep(requested: WizardStep, draft: WizardDraft, urns: UrnMap, fonts: FontSet = {}): WizardStep {
+  for (const { step } of WIZARD_STEPS) {
+    if (step >= requested) break
+    if (Object.keys(stepErrors(step, draft, urns, fonts)).length) return step
+  }
+  return requested
+}
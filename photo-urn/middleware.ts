@@ -0,0 +1,13 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { SESSION_COOKIE } from '@/lib/accounts/cookie'
+
+// Customer pages need a session.  Middleware can only see that the cookie
+// is there; the pages and their API routes check that it is still valid.
+export function middleware(req: NextRequest) {
+  if (req.cookies.get(SESSION_COOKIE)?.value) return NextResponse.next()
+  const login = new URL('/login', req.url)
+  login.searchParams.set('next', req.nextUrl.pathname + req.nextUrl.search)
+  return NextResponse.redirect(login)
+}
+
+export const config = { matcher: ['/account/:path*'] }
@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  experimental: {
+    // The HEIC decoder embeds its WebAssembly; load it from node_modules as is.
+    serverComponentsExternalPackages: ['heic-decode', 'libheif-js'],
+  },
+}
 
 export default nextConfig